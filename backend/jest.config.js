@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+  moduleNameMapper: {
+    '^:api/services/(.*)$': '<rootDir>/src/services/$1',
+    '^src/(.*)$': '<rootDir>/src/$1',
+  },
+};
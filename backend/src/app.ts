@@ -0,0 +1,48 @@
+import express from 'express';
+import cors from 'cors';
+
+import routes from './routes/index';
+import cookieParser from 'cookie-parser';
+import path from 'path';
+
+import { Storage } from './services/storage';
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+const app = express();
+
+app.use(express.json({ limit: '3mb' }));
+app.use(cookieParser());
+
+app.use(
+  cors({
+    origin: process.env.FRONTEND_URL || '',
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Set-Cookie'],
+    credentials: true,
+  })
+);
+
+app.use((err: any, req: any, res: any, next: any) => {
+  console.log(err);
+  if (err instanceof SyntaxError && 'body' in err) {
+    return res.status(400).json({ error: 'Invalid JSON format' });
+  }
+  next(err);
+});
+
+// Images of the local storage driver, the defaults come with the source
+const localRoot = Storage.getLocalRoot();
+if (localRoot) {
+  app.use(
+    '/static/images',
+    express.static(path.join(localRoot, 'images')),
+    express.static(path.resolve('./src/images'))
+  );
+  app.use('/static/media', express.static(path.join(localRoot, 'media')));
+}
+
+app.use('/', routes);
+
+export default app;
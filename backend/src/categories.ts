@@ -1,10 +0,0 @@
-export const categories = [
-  'programming',
-  '3d-modeling',
-  'electronics',
-  'woodworking',
-  'chemistry',
-  'cybersecurity',
-  'business',
-  'physics',
-];
@@ -0,0 +1,55 @@
+import { Page } from '../services/pagination';
+
+export interface Article {
+  [key: string]: any;
+}
+
+// A query of one of the secondary indexes of an article table, matching the
+// articles whose index keys equal the given values
+export interface ArticleQuery {
+  index: string;
+  key: { [attribute: string]: string | number };
+  /** Ascending order of the index sort key, true by default */
+  forward?: boolean;
+  /** Articles per page */
+  limit?: number;
+  /** Leave out the articles flagged with AuthorSuspended */
+  hideSuspended?: boolean;
+}
+
+/**
+ * Where the metadata of the articles is kept. The tables are
+ * ArticlesPublished and ArticlesUnpublished, keyed by ID.
+ */
+export interface ArticleRepository {
+  /** Resolves to null if there is no article with the id */
+  get(tableName: string, id: string): Promise<Article | null>;
+  /** Adds an article or replaces the one with the same id */
+  put(tableName: string, article: Article): Promise<void>;
+  /** Resolves to the removed article, or null if there was none */
+  delete(tableName: string, id: string): Promise<Article | null>;
+  /** Replaces an article, resolves to false if there is no article */
+  replace(tableName: string, article: Article): Promise<boolean>;
+  /**
+   * Adds an article to one table and removes it from another in one
+   * transaction. Resolves to false, changing nothing, if the article is not
+   * in the first table or already is in the second one.
+   */
+  move(fromTable: string, toTable: string, article: Article): Promise<boolean>;
+  /** Sets fields of an article, resolves to false if there is no article */
+  update(tableName: string, id: string, fields: Article): Promise<boolean>;
+  /**
+   * Fetches one page of a query, see Pagination.fetchPage
+   * @throws {InvalidCursorError} - if the cursor does not belong to the query
+   */
+  queryPage(
+    tableName: string,
+    query: ArticleQuery,
+    page: number,
+    cursor?: string,
+    withTotal?: boolean
+  ): Promise<Page>;
+  /** Fetches every article matching a query */
+  queryAll(tableName: string, query: ArticleQuery): Promise<Article[]>;
+  deleteMany(tableName: string, ids: string[]): Promise<void>;
+}
@@ -0,0 +1,34 @@
+export interface Attachment {
+  ArticleID: string;
+  ID: string;
+  /** File name shown to the readers and used for the download */
+  Name: string;
+  ContentType: string;
+  /** Size in bytes */
+  Size: number;
+  /** SHA-256 of the file as hex */
+  Checksum: string;
+  /** Username of the user who uploaded the file, their quota is charged */
+  Uploader: string;
+  Downloads: number;
+  CreatedAt: number;
+}
+
+/**
+ * Where the files attached to the articles are listed, keyed by ArticleID +
+ * ID. The files are in the storage under attachments/{ArticleID}/{ID}.
+ */
+export interface AttachmentRepository {
+  /** Returns every attachment of an article */
+  list(articleId: string): Promise<Attachment[]>;
+  /** Resolves to null if the article has no attachment with the id */
+  get(articleId: string, id: string): Promise<Attachment | null>;
+  put(item: Attachment): Promise<void>;
+  /** Resolves to false if the article has no attachment with the id */
+  delete(articleId: string, id: string): Promise<boolean>;
+  deleteMany(articleId: string, ids: string[]): Promise<void>;
+  /** Adds one to the download count, resolves to false if the attachment is gone */
+  addDownload(articleId: string, id: string): Promise<boolean>;
+  /** Returns the total size of the files uploaded by a user */
+  getUploaderUsage(username: string): Promise<number>;
+}
@@ -0,0 +1,27 @@
+import { Page } from '../services/pagination';
+
+export interface AuditEntry {
+  ID: string;
+  /** Username of the user who took the action */
+  Actor: string;
+  /** What was done, like user.suspend or role.grant */
+  Action: string;
+  /** Username of the user the action was taken on */
+  Target: string;
+  /** Reason, role or anything else needed to understand the action */
+  Details: { [key: string]: any };
+  CreatedAt: number;
+}
+
+/**
+ * Where the actions taken on user accounts are kept, keyed by ID. The
+ * entries outlive the accounts they are about.
+ */
+export interface AuditRepository {
+  add(entry: AuditEntry): Promise<void>;
+  /**
+   * Fetches one page of the entries about a user, newest first
+   * @throws {InvalidCursorError} - if the cursor does not belong to the list
+   */
+  listByTarget(target: string, limit: number, cursor?: string): Promise<Page>;
+}
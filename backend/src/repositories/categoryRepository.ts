@@ -0,0 +1,25 @@
+export interface Category {
+  Slug: string;
+  Name: string;
+  Description: string;
+  /** Key of the icon the frontend shows next to the name */
+  Icon: string;
+  HeroImage: string | null;
+  SortOrder: number;
+  Active: boolean;
+}
+
+/**
+ * Where the categories of the articles are kept, keyed by Slug
+ */
+export interface CategoryRepository {
+  /** Returns every category, including the retired ones */
+  list(): Promise<Category[]>;
+  /** Resolves to null if there is no category with the slug */
+  get(slug: string): Promise<Category | null>;
+  /** Resolves to false if a category with the same slug already exists */
+  create(category: Category): Promise<boolean>;
+  /** Adds a category or replaces the one with the same slug */
+  put(category: Category): Promise<void>;
+  delete(slug: string): Promise<void>;
+}
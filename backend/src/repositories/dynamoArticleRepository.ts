@@ -0,0 +1,239 @@
+import {
+  BatchWriteItemCommand,
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  QueryCommandInput,
+  QueryCommandOutput,
+  TransactWriteItemsCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { Page, Pagination } from '../services/pagination';
+import { Article, ArticleQuery, ArticleRepository } from './articleRepository';
+
+export class DynamoArticleRepository implements ArticleRepository {
+  public async get(tableName: string, id: string): Promise<Article | null> {
+    const response = await client.send(
+      new GetItemCommand({ TableName: tableName, Key: { ID: { S: id } } })
+    );
+    return response.Item ? unmarshall(response.Item) : null;
+  }
+
+  public async put(tableName: string, article: Article): Promise<void> {
+    await client.send(
+      new PutItemCommand({ TableName: tableName, Item: marshall(article) })
+    );
+  }
+
+  public async delete(tableName: string, id: string): Promise<Article | null> {
+    const response = await client.send(
+      new DeleteItemCommand({
+        TableName: tableName,
+        Key: { ID: { S: id } },
+        ReturnValues: 'ALL_OLD',
+      })
+    );
+    return response.Attributes ? unmarshall(response.Attributes) : null;
+  }
+
+  public async replace(tableName: string, article: Article): Promise<boolean> {
+    try {
+      await client.send(
+        new PutItemCommand({
+          TableName: tableName,
+          Item: marshall(article),
+          ConditionExpression: 'attribute_exists(ID)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async move(
+    fromTable: string,
+    toTable: string,
+    article: Article
+  ): Promise<boolean> {
+    try {
+      await client.send(
+        new TransactWriteItemsCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: toTable,
+                Item: marshall(article),
+                ConditionExpression: 'attribute_not_exists(ID)',
+              },
+            },
+            {
+              Delete: {
+                TableName: fromTable,
+                Key: { ID: { S: article.ID } },
+                ConditionExpression: 'attribute_exists(ID)',
+              },
+            },
+          ],
+        })
+      );
+      return true;
+    } catch (err: any) {
+      const failedCondition = (err.CancellationReasons || []).some(
+        (reason: any) => reason.Code === 'ConditionalCheckFailed'
+      );
+      if (err.name === 'TransactionCanceledException' && failedCondition) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async update(
+    tableName: string,
+    id: string,
+    fields: Article
+  ): Promise<boolean> {
+    const names: { [key: string]: string } = {};
+    const values: Article = {};
+    const assignments = Object.keys(fields).map((field, index) => {
+      names[`#f${index}`] = field;
+      values[`:v${index}`] = fields[field];
+      return `#f${index} = :v${index}`;
+    });
+
+    try {
+      await client.send(
+        new UpdateItemCommand({
+          TableName: tableName,
+          Key: { ID: { S: id } },
+          UpdateExpression: `SET ${assignments.join(', ')}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: marshall(values),
+          ConditionExpression: 'attribute_exists(ID)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async queryPage(
+    tableName: string,
+    query: ArticleQuery,
+    page: number,
+    cursor?: string,
+    withTotal: boolean = false
+  ): Promise<Page> {
+    return await Pagination.fetchPage(
+      this.toQueryInput(tableName, query),
+      page,
+      cursor,
+      withTotal
+    );
+  }
+
+  public async queryAll(
+    tableName: string,
+    query: ArticleQuery
+  ): Promise<Article[]> {
+    const params = this.toQueryInput(tableName, query);
+    const articles: Article[] = [];
+
+    let data: QueryCommandOutput;
+    do {
+      data = await client.send(new QueryCommand(params));
+      articles.push(...(data.Items || []).map((item) => unmarshall(item)));
+      params.ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (data.LastEvaluatedKey);
+
+    return articles;
+  }
+
+  public async deleteMany(tableName: string, ids: string[]): Promise<void> {
+    // DynamoDB BatchWriteItem allows up to 25 delete requests per batch
+    const MAX_BATCH_SIZE = 25;
+
+    for (let i = 0; i < ids.length; i += MAX_BATCH_SIZE) {
+      const batch = ids.slice(i, i + MAX_BATCH_SIZE);
+
+      try {
+        const response = await client.send(
+          new BatchWriteItemCommand({
+            RequestItems: {
+              [tableName]: batch.map((id) => ({
+                DeleteRequest: { Key: marshall({ ID: id }) },
+              })),
+            },
+          })
+        );
+
+        if (
+          response.UnprocessedItems &&
+          Object.keys(response.UnprocessedItems).length > 0
+        ) {
+          console.error(
+            'Some items were not processed. Consider retrying:',
+            response.UnprocessedItems
+          );
+        } else {
+          console.log(
+            `Successfully deleted batch of ${batch.length} items from ${tableName}.`
+          );
+        }
+      } catch (error) {
+        console.error(`Error deleting items from ${tableName}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Builds the database request params of a query
+   *
+   * @private
+   * @param {string} tableName - table name
+   * @param {ArticleQuery} query - index query
+   * @returns {QueryCommandInput}
+   */
+  private toQueryInput(
+    tableName: string,
+    query: ArticleQuery
+  ): QueryCommandInput {
+    const names: { [key: string]: string } = {};
+    const values: Article = {};
+    const conditions = Object.keys(query.key).map((attribute, index) => {
+      names[`#k${index}`] = attribute;
+      values[`:k${index}`] = query.key[attribute];
+      return `#k${index} = :k${index}`;
+    });
+
+    let filter: string | undefined;
+    if (query.hideSuspended) {
+      names['#suspended'] = 'AuthorSuspended';
+      values[':suspended'] = true;
+      filter = 'attribute_not_exists(#suspended) OR #suspended <> :suspended';
+    }
+
+    return {
+      TableName: tableName,
+      IndexName: query.index,
+      KeyConditionExpression: conditions.join(' AND '),
+      FilterExpression: filter,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: marshall(values),
+      Limit: query.limit,
+      ScanIndexForward: query.forward ?? true,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  BatchWriteItemCommand,
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  QueryCommandOutput,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { Attachment, AttachmentRepository } from './attachmentRepository';
+
+export class DynamoAttachmentRepository implements AttachmentRepository {
+  private tableName = 'ArticleAttachments';
+
+  public async list(articleId: string): Promise<Attachment[]> {
+    const items: Attachment[] = [];
+    let ExclusiveStartKey: QueryCommandOutput['LastEvaluatedKey'];
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'ArticleID = :articleId',
+          ExpressionAttributeValues: marshall({ ':articleId': articleId }),
+          ExclusiveStartKey,
+        })
+      );
+      for (const item of data.Items || []) {
+        items.push(unmarshall(item) as Attachment);
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return items;
+  }
+
+  public async get(articleId: string, id: string): Promise<Attachment | null> {
+    const response = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: marshall({ ArticleID: articleId, ID: id }),
+      })
+    );
+    return response.Item ? (unmarshall(response.Item) as Attachment) : null;
+  }
+
+  public async put(item: Attachment): Promise<void> {
+    await client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(item),
+      })
+    );
+  }
+
+  public async delete(articleId: string, id: string): Promise<boolean> {
+    try {
+      await client.send(
+        new DeleteItemCommand({
+          TableName: this.tableName,
+          Key: marshall({ ArticleID: articleId, ID: id }),
+          ConditionExpression: 'attribute_exists(ID)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async deleteMany(articleId: string, ids: string[]): Promise<void> {
+    // DynamoDB BatchWrite can handle up to 25 items per request
+    const BATCH_SIZE = 25;
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const response = await client.send(
+        new BatchWriteItemCommand({
+          RequestItems: {
+            [this.tableName]: ids.slice(i, i + BATCH_SIZE).map((id) => ({
+              DeleteRequest: {
+                Key: marshall({ ArticleID: articleId, ID: id }),
+              },
+            })),
+          },
+        })
+      );
+
+      if (
+        response.UnprocessedItems &&
+        Object.keys(response.UnprocessedItems).length > 0
+      ) {
+        throw new Error(
+          `Some attachments were not processed: ${JSON.stringify(
+            response.UnprocessedItems
+          )}`
+        );
+      }
+    }
+  }
+
+  public async addDownload(articleId: string, id: string): Promise<boolean> {
+    try {
+      await client.send(
+        new UpdateItemCommand({
+          TableName: this.tableName,
+          Key: marshall({ ArticleID: articleId, ID: id }),
+          UpdateExpression: 'ADD Downloads :one',
+          ConditionExpression: 'attribute_exists(ID)',
+          ExpressionAttributeValues: marshall({ ':one': 1 }),
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async getUploaderUsage(username: string): Promise<number> {
+    // The Uploader index only projects the sizes
+    let usage = 0;
+    let ExclusiveStartKey: QueryCommandOutput['LastEvaluatedKey'];
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: 'Uploader',
+          KeyConditionExpression: 'Uploader = :uploader',
+          ExpressionAttributeValues: marshall({ ':uploader': username }),
+          // Size is a reserved word
+          ProjectionExpression: '#size',
+          ExpressionAttributeNames: { '#size': 'Size' },
+          ExclusiveStartKey,
+        })
+      );
+      for (const item of data.Items || []) {
+        usage += Number(unmarshall(item).Size) || 0;
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return usage;
+  }
+}
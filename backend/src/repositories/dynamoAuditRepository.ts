@@ -0,0 +1,38 @@
+import { PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { Page, Pagination } from '../services/pagination';
+import { AuditEntry, AuditRepository } from './auditRepository';
+
+export class DynamoAuditRepository implements AuditRepository {
+  private tableName = 'AuditLog';
+
+  public async add(entry: AuditEntry): Promise<void> {
+    await client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(entry, { removeUndefinedValues: true }),
+      })
+    );
+  }
+
+  public async listByTarget(
+    target: string,
+    limit: number,
+    cursor?: string
+  ): Promise<Page> {
+    return await Pagination.fetchPage(
+      {
+        TableName: this.tableName,
+        IndexName: 'TargetCreated',
+        KeyConditionExpression: 'Target = :target',
+        ExpressionAttributeValues: marshall({ ':target': target }),
+        ScanIndexForward: false,
+        Limit: limit,
+      },
+      1,
+      cursor
+    );
+  }
+}
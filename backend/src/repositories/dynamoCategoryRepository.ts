@@ -0,0 +1,77 @@
+import {
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  ScanCommand,
+  ScanCommandOutput,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { Category, CategoryRepository } from './categoryRepository';
+
+export class DynamoCategoryRepository implements CategoryRepository {
+  private tableName = 'Categories';
+
+  public async list(): Promise<Category[]> {
+    // There are only a few dozen categories, a scan is cheap
+    const categories: Category[] = [];
+    let ExclusiveStartKey: ScanCommandOutput['LastEvaluatedKey'];
+    do {
+      const data: ScanCommandOutput = await client.send(
+        new ScanCommand({ TableName: this.tableName, ExclusiveStartKey })
+      );
+      for (const item of data.Items || []) {
+        categories.push(unmarshall(item) as Category);
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return categories;
+  }
+
+  public async get(slug: string): Promise<Category | null> {
+    const response = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { Slug: { S: slug } },
+      })
+    );
+    return response.Item ? (unmarshall(response.Item) as Category) : null;
+  }
+
+  public async create(category: Category): Promise<boolean> {
+    try {
+      await client.send(
+        new PutItemCommand({
+          TableName: this.tableName,
+          Item: marshall(category),
+          ConditionExpression: 'attribute_not_exists(Slug)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async put(category: Category): Promise<void> {
+    await client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(category),
+      })
+    );
+  }
+
+  public async delete(slug: string): Promise<void> {
+    await client.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: { Slug: { S: slug } },
+      })
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  BatchWriteItemCommand,
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  QueryCommandOutput,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { MediaItem, MediaRepository } from './mediaRepository';
+
+export class DynamoMediaRepository implements MediaRepository {
+  private tableName = 'ArticleMedia';
+
+  public async list(articleId: string): Promise<MediaItem[]> {
+    const items: MediaItem[] = [];
+    let ExclusiveStartKey: QueryCommandOutput['LastEvaluatedKey'];
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'ArticleID = :articleId',
+          ExpressionAttributeValues: marshall({ ':articleId': articleId }),
+          ExclusiveStartKey,
+        })
+      );
+      for (const item of data.Items || []) {
+        items.push(unmarshall(item) as MediaItem);
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return items;
+  }
+
+  public async get(articleId: string, id: string): Promise<MediaItem | null> {
+    const response = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: marshall({ ArticleID: articleId, ID: id }),
+      })
+    );
+    return response.Item ? (unmarshall(response.Item) as MediaItem) : null;
+  }
+
+  public async put(item: MediaItem): Promise<void> {
+    await client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(item),
+      })
+    );
+  }
+
+  public async delete(articleId: string, id: string): Promise<boolean> {
+    try {
+      await client.send(
+        new DeleteItemCommand({
+          TableName: this.tableName,
+          Key: marshall({ ArticleID: articleId, ID: id }),
+          ConditionExpression: 'attribute_exists(ID)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async deleteMany(articleId: string, ids: string[]): Promise<void> {
+    // DynamoDB BatchWrite can handle up to 25 items per request
+    const BATCH_SIZE = 25;
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const response = await client.send(
+        new BatchWriteItemCommand({
+          RequestItems: {
+            [this.tableName]: ids.slice(i, i + BATCH_SIZE).map((id) => ({
+              DeleteRequest: {
+                Key: marshall({ ArticleID: articleId, ID: id }),
+              },
+            })),
+          },
+        })
+      );
+
+      if (
+        response.UnprocessedItems &&
+        Object.keys(response.UnprocessedItems).length > 0
+      ) {
+        throw new Error(
+          `Some media were not processed: ${JSON.stringify(
+            response.UnprocessedItems
+          )}`
+        );
+      }
+    }
+  }
+}
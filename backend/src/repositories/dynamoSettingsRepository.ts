@@ -0,0 +1,29 @@
+import { GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { SettingsRepository } from './settingsRepository';
+
+// Every setting is an item with its name as the Key and its Value
+export class DynamoSettingsRepository implements SettingsRepository {
+  private tableName = 'Settings';
+
+  public async get(key: string): Promise<any | null> {
+    const response = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { Key: { S: key } },
+      })
+    );
+    return response.Item ? unmarshall(response.Item).Value : null;
+  }
+
+  public async put(key: string, value: any): Promise<void> {
+    await client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall({ Key: key, Value: value }),
+      })
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  BatchWriteItemCommand,
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  QueryCommandInput,
+  QueryCommandOutput,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { StepProgress, StepProgressRepository } from './stepProgressRepository';
+
+type Key = { Username: string; ArticleID: string };
+
+export class DynamoStepProgressRepository implements StepProgressRepository {
+  private tableName = 'StepProgress';
+  private articleIndex = 'ArticleProgress';
+
+  public async get(
+    username: string,
+    articleId: string
+  ): Promise<StepProgress | null> {
+    const response = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: marshall({ Username: username, ArticleID: articleId }),
+      })
+    );
+    return response.Item ? (unmarshall(response.Item) as StepProgress) : null;
+  }
+
+  public async put(item: StepProgress): Promise<void> {
+    await client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(item),
+      })
+    );
+  }
+
+  public async delete(username: string, articleId: string): Promise<boolean> {
+    try {
+      await client.send(
+        new DeleteItemCommand({
+          TableName: this.tableName,
+          Key: marshall({ Username: username, ArticleID: articleId }),
+          ConditionExpression: 'attribute_exists(ArticleID)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async deleteByArticle(articleId: string): Promise<void> {
+    const keys = await this.queryKeys({
+      TableName: this.tableName,
+      IndexName: this.articleIndex,
+      KeyConditionExpression: 'ArticleID = :articleId',
+      ExpressionAttributeValues: marshall({ ':articleId': articleId }),
+    });
+    await this.deleteKeys(keys);
+  }
+
+  public async deleteByUser(username: string): Promise<void> {
+    const keys = await this.queryKeys({
+      TableName: this.tableName,
+      KeyConditionExpression: 'Username = :username',
+      ExpressionAttributeValues: marshall({ ':username': username }),
+      ProjectionExpression: 'Username, ArticleID',
+    });
+    await this.deleteKeys(keys);
+  }
+
+  /**
+   * Returns the keys of every item matched by a query
+   *
+   * @private
+   * @async
+   * @param {QueryCommandInput} input - query
+   * @returns {Promise<Key[]>}
+   */
+  private async queryKeys(input: QueryCommandInput): Promise<Key[]> {
+    const keys: Key[] = [];
+    let ExclusiveStartKey: QueryCommandOutput['LastEvaluatedKey'];
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({ ...input, ExclusiveStartKey })
+      );
+      for (const item of data.Items || []) {
+        const { Username, ArticleID } = unmarshall(item);
+        keys.push({ Username, ArticleID });
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return keys;
+  }
+
+  private async deleteKeys(keys: Key[]): Promise<void> {
+    // DynamoDB BatchWrite can handle up to 25 items per request
+    const BATCH_SIZE = 25;
+    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+      const response = await client.send(
+        new BatchWriteItemCommand({
+          RequestItems: {
+            [this.tableName]: keys.slice(i, i + BATCH_SIZE).map((key) => ({
+              DeleteRequest: { Key: marshall(key) },
+            })),
+          },
+        })
+      );
+
+      if (
+        response.UnprocessedItems &&
+        Object.keys(response.UnprocessedItems).length > 0
+      ) {
+        throw new Error(
+          `Some step progress was not processed: ${JSON.stringify(
+            response.UnprocessedItems
+          )}`
+        );
+      }
+    }
+  }
+}
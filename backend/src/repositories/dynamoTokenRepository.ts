@@ -0,0 +1,230 @@
+import {
+  AttributeValue,
+  BatchWriteItemCommand,
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { Token, TokenRepository } from './tokenRepository';
+
+// The attributes of the table are the capitalized token fields
+export class DynamoTokenRepository implements TokenRepository {
+  private tableName = 'Tokens';
+
+  // Attributes of the optional token fields
+  private optionalFields: { [field: string]: string } = {
+    newEmail: 'NewEmail',
+    attempts: 'Attempts',
+    userAgent: 'UserAgent',
+    createdAt: 'CreatedAt',
+    lastUsed: 'LastUsed',
+    rotation: 'Rotation',
+    previousRotation: 'PreviousRotation',
+  };
+
+  private toToken(item: { [key: string]: AttributeValue }): Token {
+    const token: any = {
+      value: item.Value.S!,
+      username: item.Username.S!,
+      type: item.Type.S!,
+      expiration: parseInt(item.Expiration.N!),
+    };
+
+    for (const [field, attribute] of Object.entries(this.optionalFields)) {
+      if (item[attribute]?.S) {
+        token[field] = item[attribute].S;
+      } else if (item[attribute]?.N) {
+        token[field] = parseInt(item[attribute].N!);
+      }
+    }
+    return token;
+  }
+
+  public async create(token: Token): Promise<boolean> {
+    const item: { [key: string]: AttributeValue } = {
+      Value: { S: token.value },
+      Username: { S: token.username },
+      Type: { S: token.type },
+      Expiration: { N: token.expiration.toString() },
+    };
+
+    // Include the optional fields if they exist
+    for (const [field, attribute] of Object.entries(this.optionalFields)) {
+      const value = token[field as keyof Token];
+      if (value == undefined || value === '') {
+        continue;
+      }
+      item[attribute] =
+        typeof value == 'number' ? { N: value.toString() } : { S: value };
+    }
+
+    try {
+      await client.send(
+        new PutItemCommand({
+          TableName: this.tableName,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(#value)', // Use placeholder for reserved keyword
+          ExpressionAttributeNames: {
+            '#value': 'Value', // Map the placeholder to the actual attribute name
+          },
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async get(value: string): Promise<Token | null> {
+    const response = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { Value: { S: value } },
+      })
+    );
+
+    if (!response.Item) {
+      return null;
+    }
+
+    return this.toToken(response.Item);
+  }
+
+  public async update(
+    value: string,
+    fields: Partial<Omit<Token, 'value'>>,
+    expected: Partial<Omit<Token, 'value'>> = {}
+  ): Promise<boolean> {
+    const names: { [key: string]: string } = { '#value': 'Value' };
+    const values: { [key: string]: any } = {};
+    const assignments = Object.entries(fields).map(([field, fieldValue], i) => {
+      names[`#field${i}`] = field.charAt(0).toUpperCase() + field.slice(1);
+      values[`:value${i}`] = fieldValue;
+      return `#field${i} = :value${i}`;
+    });
+    const conditions = Object.entries(expected).map(
+      ([field, fieldValue], i) => {
+        names[`#expected${i}`] = field.charAt(0).toUpperCase() + field.slice(1);
+        values[`:expected${i}`] = fieldValue;
+        return `#expected${i} = :expected${i}`;
+      }
+    );
+
+    try {
+      await client.send(
+        new UpdateItemCommand({
+          TableName: this.tableName,
+          Key: { Value: { S: value } },
+          UpdateExpression: `SET ${assignments.join(', ')}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: marshall(values),
+          // Ensure the token exists and has the expected values
+          ConditionExpression: ['attribute_exists(#value)', ...conditions].join(
+            ' AND '
+          ),
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async delete(value: string): Promise<boolean> {
+    try {
+      await client.send(
+        new DeleteItemCommand({
+          TableName: this.tableName,
+          Key: { Value: { S: value } },
+          ConditionExpression: 'attribute_exists(#value)',
+          ExpressionAttributeNames: { '#value': 'Value' },
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async listValues(username: string): Promise<string[]> {
+    // Query all tokens for the given username using the GSI
+    const response = await client.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        IndexName: 'UsernameIndex',
+        KeyConditionExpression: 'Username = :username',
+        ExpressionAttributeValues: {
+          ':username': { S: username },
+        },
+        ProjectionExpression: '#V', // Use alias for 'Value'
+        ExpressionAttributeNames: {
+          '#V': 'Value',
+        },
+      })
+    );
+    return (response.Items || []).map((item) => item.Value.S!);
+  }
+
+  public async list(username: string): Promise<Token[]> {
+    const tokens: Token[] = [];
+    let lastKey: { [key: string]: AttributeValue } | undefined;
+    do {
+      const response = await client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: 'UsernameIndex',
+          KeyConditionExpression: 'Username = :username',
+          ExpressionAttributeValues: {
+            ':username': { S: username },
+          },
+          ExclusiveStartKey: lastKey,
+        })
+      );
+      (response.Items || []).forEach((item) => tokens.push(this.toToken(item)));
+      lastKey = response.LastEvaluatedKey;
+    } while (lastKey);
+    return tokens;
+  }
+
+  public async deleteMany(values: string[]): Promise<void> {
+    // DynamoDB BatchWrite can handle up to 25 items per request
+    const BATCH_SIZE = 25;
+    for (let i = 0; i < values.length; i += BATCH_SIZE) {
+      const batch = values.slice(i, i + BATCH_SIZE);
+      const response = await client.send(
+        new BatchWriteItemCommand({
+          RequestItems: {
+            [this.tableName]: batch.map((value) => ({
+              DeleteRequest: { Key: { Value: { S: value } } },
+            })),
+          },
+        })
+      );
+
+      if (
+        response.UnprocessedItems &&
+        Object.keys(response.UnprocessedItems).length > 0
+      ) {
+        throw new Error(
+          `Some tokens were not processed: ${JSON.stringify(
+            response.UnprocessedItems
+          )}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommandInput,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from '../services/dynamodb';
+import { Page, Pagination } from '../services/pagination';
+import {
+  USER_DIRECTORY,
+  User,
+  UserListQuery,
+  UserRepository,
+} from './userRepository';
+
+export class DynamoUserRepository implements UserRepository {
+  private tableName = 'Users';
+
+  public async get(username: string): Promise<User | null> {
+    const result = await client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { Username: { S: username } },
+      })
+    );
+    return result.Item ? unmarshall(result.Item) : null;
+  }
+
+  public async put(user: User): Promise<void> {
+    await client.send(
+      new PutItemCommand({ TableName: this.tableName, Item: marshall(user) })
+    );
+  }
+
+  public async delete(username: string): Promise<User | null> {
+    const response = await client.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: { Username: { S: username } },
+        ReturnValues: 'ALL_OLD',
+      })
+    );
+    return response.Attributes ? unmarshall(response.Attributes) : null;
+  }
+
+  public async update(username: string, fields: User): Promise<boolean> {
+    const names: { [key: string]: string } = {};
+    const values: User = {};
+    const assignments = Object.keys(fields).map((field, index) => {
+      names[`#f${index}`] = field;
+      values[`:v${index}`] = fields[field];
+      return `#f${index} = :v${index}`;
+    });
+
+    try {
+      await client.send(
+        new UpdateItemCommand({
+          TableName: this.tableName,
+          Key: { Username: { S: username } },
+          UpdateExpression: `SET ${assignments.join(', ')}`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: marshall(values),
+          ConditionExpression: 'attribute_exists(Username)',
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async setTwoFactorCounter(
+    username: string,
+    counter: number
+  ): Promise<boolean> {
+    // The condition keeps two requests from using the same code
+    try {
+      await client.send(
+        new UpdateItemCommand({
+          TableName: this.tableName,
+          Key: { Username: { S: username } },
+          UpdateExpression: 'SET TwoFactor.LastCounter = :counter',
+          ConditionExpression:
+            'attribute_exists(TwoFactor.Secret) AND ' +
+            '(attribute_not_exists(TwoFactor.LastCounter) OR ' +
+            'TwoFactor.LastCounter < :counter)',
+          ExpressionAttributeValues: marshall({ ':counter': counter }),
+        })
+      );
+      return true;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  public async listPage(
+    query: UserListQuery,
+    cursor?: string,
+    withTotal: boolean = false
+  ): Promise<Page> {
+    const values: User = { ':directory': USER_DIRECTORY };
+    const params: QueryCommandInput = {
+      TableName: this.tableName,
+      IndexName: 'AccountCreatedIndex',
+      KeyConditionExpression: 'Directory = :directory',
+      ScanIndexForward: false,
+      Limit: query.limit,
+    };
+
+    // The filter runs after the limit, fetchPage goes on until the page is full
+    if (query.search) {
+      params.FilterExpression =
+        'contains(Username, :search) OR contains(Email, :search)';
+      values[':search'] = query.search;
+    }
+    params.ExpressionAttributeValues = marshall(values);
+
+    return await Pagination.fetchPage(params, 1, cursor, withTotal);
+  }
+}
@@ -0,0 +1,28 @@
+export interface MediaItem {
+  ArticleID: string;
+  ID: string;
+  /** Username of the user who uploaded the image */
+  Uploader: string;
+  /** Size of the uploaded image */
+  Width: number;
+  Height: number;
+  /** Widths of the stored versions of the image, smallest first */
+  Sizes: number[];
+  CreatedAt: number;
+}
+
+/**
+ * Where the images uploaded into the bodies of the articles are listed,
+ * keyed by ArticleID + ID. The files are in the storage, see
+ * Storage.saveMediaImage.
+ */
+export interface MediaRepository {
+  /** Returns every image of an article */
+  list(articleId: string): Promise<MediaItem[]>;
+  /** Resolves to null if the article has no image with the id */
+  get(articleId: string, id: string): Promise<MediaItem | null>;
+  put(item: MediaItem): Promise<void>;
+  /** Resolves to false if the article has no image with the id */
+  delete(articleId: string, id: string): Promise<boolean>;
+  deleteMany(articleId: string, ids: string[]): Promise<void>;
+}
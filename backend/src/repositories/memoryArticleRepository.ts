@@ -0,0 +1,240 @@
+import { InvalidCursorError, Page, Pagination } from '../services/pagination';
+import { Article, ArticleQuery, ArticleRepository } from './articleRepository';
+
+// Sort key of every secondary index of the tables, from src/tools/schema.json
+const INDEXES: { [tableName: string]: { [index: string]: string } } = {
+  ArticlesPublished: {
+    TitlePublished: 'PublishedAt',
+    TitleRating: 'Rating',
+    TitleAuthor: 'Author',
+    TitleCategory: 'PrimaryCategory',
+    PrimaryCategoryPublished: 'PublishedAt',
+    PrimaryCategoryRating: 'Rating',
+    PrimaryCategoryDifficulty: 'Difficulty',
+    PrimaryCategoryCreated: 'CreatedAt',
+    AuthorRating: 'Rating',
+    AuthorDifficulty: 'Difficulty',
+    AuthorPrimaryCategory: 'PrimaryCategory',
+    AuthorPublished: 'PublishedAt',
+  },
+  ArticlesUnpublished: {
+    TitleCreated: 'CreatedAt',
+    TitleRating: 'Rating',
+    TitleAuthor: 'Author',
+    CategoryTitle: 'Title',
+    PrimaryCategoryCreated: 'CreatedAt',
+    PrimaryCategoryRating: 'Rating',
+    PrimaryCategoryDifficulty: 'Difficulty',
+    AuthorRating: 'Rating',
+    AuthorDifficulty: 'Difficulty',
+    AuthorPrimaryCategory: 'PrimaryCategory',
+    AuthorCreated: 'CreatedAt',
+    StatusCreated: 'CreatedAt',
+    StatusPublished: 'PublishedAt',
+  },
+};
+
+// Keeps the articles in memory, used by the tests. Queries behave like the
+// DynamoDB indexes: articles missing a key attribute are left out and the
+// cursor is the position of the last returned article.
+export class MemoryArticleRepository implements ArticleRepository {
+  private tables: { [tableName: string]: Map<string, Article> } = {};
+
+  public async get(tableName: string, id: string): Promise<Article | null> {
+    const article = this.getTable(tableName).get(id);
+    return article ? structuredClone(article) : null;
+  }
+
+  public async put(tableName: string, article: Article): Promise<void> {
+    this.getTable(tableName).set(article.ID, structuredClone(article));
+  }
+
+  public async delete(tableName: string, id: string): Promise<Article | null> {
+    const table = this.getTable(tableName);
+    const article = table.get(id);
+    table.delete(id);
+    return article ?? null;
+  }
+
+  public async replace(tableName: string, article: Article): Promise<boolean> {
+    const table = this.getTable(tableName);
+    if (!table.has(article.ID)) {
+      return false;
+    }
+    table.set(article.ID, structuredClone(article));
+    return true;
+  }
+
+  public async move(
+    fromTable: string,
+    toTable: string,
+    article: Article
+  ): Promise<boolean> {
+    const from = this.getTable(fromTable);
+    const to = this.getTable(toTable);
+    if (!from.has(article.ID) || to.has(article.ID)) {
+      return false;
+    }
+    to.set(article.ID, structuredClone(article));
+    from.delete(article.ID);
+    return true;
+  }
+
+  public async update(
+    tableName: string,
+    id: string,
+    fields: Article
+  ): Promise<boolean> {
+    const article = this.getTable(tableName).get(id);
+    if (!article) {
+      return false;
+    }
+    Object.assign(article, structuredClone(fields));
+    return true;
+  }
+
+  public async queryPage(
+    tableName: string,
+    query: ArticleQuery,
+    page: number,
+    cursor?: string,
+    withTotal: boolean = false
+  ): Promise<Page> {
+    const sortKey = this.getSortKey(tableName, query.index);
+    const articles = this.query(tableName, query);
+    const limit = query.limit ?? articles.length;
+
+    let start = (page - 1) * limit;
+    if (cursor != undefined) {
+      const last = Pagination.decodeCursor(cursor);
+      if (!last || typeof last.ID != 'string' || !(sortKey in last)) {
+        throw new InvalidCursorError();
+      }
+      start = articles.findIndex(
+        (article) => this.compare(article, last, sortKey, query) > 0
+      );
+      if (start == -1) {
+        start = articles.length;
+      }
+    }
+
+    const items = articles.slice(start, start + limit);
+    const hasMore = start + limit < articles.length;
+    const lastItem = items[items.length - 1];
+
+    const result: Page = {
+      items: structuredClone(items),
+      cursor: hasMore
+        ? Pagination.encodeCursor({
+            ID: lastItem.ID,
+            [sortKey]: lastItem[sortKey],
+          })
+        : null,
+      hasMore,
+    };
+    if (withTotal) {
+      result.total = articles.length;
+    }
+    return result;
+  }
+
+  public async queryAll(
+    tableName: string,
+    query: ArticleQuery
+  ): Promise<Article[]> {
+    this.getSortKey(tableName, query.index);
+    return structuredClone(this.query(tableName, query));
+  }
+
+  public async deleteMany(tableName: string, ids: string[]): Promise<void> {
+    const table = this.getTable(tableName);
+    for (const id of ids) {
+      table.delete(id);
+    }
+  }
+
+  /**
+   * Returns the articles of a table, creating the table on first use
+   *
+   * @private
+   * @param {string} tableName - table name
+   * @returns {Map<string, Article>}
+   */
+  private getTable(tableName: string): Map<string, Article> {
+    if (!INDEXES[tableName]) {
+      throw new Error(`Unknown table: ${tableName}`);
+    }
+    if (!this.tables[tableName]) {
+      this.tables[tableName] = new Map();
+    }
+    return this.tables[tableName];
+  }
+
+  /**
+   * Returns the sort key of an index, failing like DynamoDB does for an
+   * index the table does not have
+   *
+   * @private
+   * @param {string} tableName - table name
+   * @param {string} index - index name
+   * @returns {string}
+   */
+  private getSortKey(tableName: string, index: string): string {
+    const sortKey = INDEXES[tableName]?.[index];
+    if (!sortKey) {
+      throw new Error(`The table ${tableName} has no index ${index}`);
+    }
+    return sortKey;
+  }
+
+  /**
+   * Returns the articles matching a query in the order of the index
+   *
+   * @private
+   * @param {string} tableName - table name
+   * @param {ArticleQuery} query - index query
+   * @returns {Article[]}
+   */
+  private query(tableName: string, query: ArticleQuery): Article[] {
+    const sortKey = this.getSortKey(tableName, query.index);
+
+    return [...this.getTable(tableName).values()]
+      .filter(
+        (article) =>
+          article[sortKey] != undefined &&
+          Object.entries(query.key).every(
+            ([attribute, value]) => article[attribute] === value
+          ) &&
+          !(query.hideSuspended && article.AuthorSuspended === true)
+      )
+      .sort((a, b) => this.compare(a, b, sortKey, query));
+  }
+
+  /**
+   * Compares two articles by the sort key of the index and then by id
+   *
+   * @private
+   * @param {Article} a
+   * @param {Article} b
+   * @param {string} sortKey - sort key of the index
+   * @param {ArticleQuery} query - index query
+   * @returns {number}
+   */
+  private compare(
+    a: Article,
+    b: Article,
+    sortKey: string,
+    query: ArticleQuery
+  ): number {
+    const order = query.forward ?? true ? 1 : -1;
+    for (const attribute of [sortKey, 'ID']) {
+      if (a[attribute] < b[attribute]) {
+        return -order;
+      }
+      if (a[attribute] > b[attribute]) {
+        return order;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,62 @@
+import { Attachment, AttachmentRepository } from './attachmentRepository';
+
+// Keeps the attachments in memory, used by the tests
+export class MemoryAttachmentRepository implements AttachmentRepository {
+  private items = new Map<string, Attachment>();
+
+  public async list(articleId: string): Promise<Attachment[]> {
+    return [...this.items.values()]
+      .filter((item) => item.ArticleID == articleId)
+      .map((item) => structuredClone(item));
+  }
+
+  public async get(articleId: string, id: string): Promise<Attachment | null> {
+    const item = this.items.get(this.getKey(articleId, id));
+    return item ? structuredClone(item) : null;
+  }
+
+  public async put(item: Attachment): Promise<void> {
+    this.items.set(this.getKey(item.ArticleID, item.ID), structuredClone(item));
+  }
+
+  public async delete(articleId: string, id: string): Promise<boolean> {
+    return this.items.delete(this.getKey(articleId, id));
+  }
+
+  public async deleteMany(articleId: string, ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.items.delete(this.getKey(articleId, id));
+    }
+  }
+
+  public async addDownload(articleId: string, id: string): Promise<boolean> {
+    const item = this.items.get(this.getKey(articleId, id));
+    if (!item) {
+      return false;
+    }
+    item.Downloads += 1;
+    return true;
+  }
+
+  public async getUploaderUsage(username: string): Promise<number> {
+    let usage = 0;
+    for (const item of this.items.values()) {
+      if (item.Uploader == username) {
+        usage += item.Size;
+      }
+    }
+    return usage;
+  }
+
+  /**
+   * Returns the key of an attachment in the map
+   *
+   * @private
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @returns {string}
+   */
+  private getKey(articleId: string, id: string): string {
+    return `${articleId}/${id}`;
+  }
+}
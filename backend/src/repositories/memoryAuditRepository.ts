@@ -0,0 +1,51 @@
+import { InvalidCursorError, Page, Pagination } from '../services/pagination';
+import { AuditEntry, AuditRepository } from './auditRepository';
+
+// Keeps the audit trail in memory, used by the tests
+export class MemoryAuditRepository implements AuditRepository {
+  private entries: AuditEntry[] = [];
+
+  public async add(entry: AuditEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+  }
+
+  public async listByTarget(
+    target: string,
+    limit: number,
+    cursor?: string
+  ): Promise<Page> {
+    // Newest first, entries of the same second in reverse order of adding
+    const entries = this.entries
+      .filter((entry) => entry.Target == target)
+      .reverse()
+      .sort((a, b) => b.CreatedAt - a.CreatedAt);
+
+    let start = 0;
+    if (cursor != undefined) {
+      const last = Pagination.decodeCursor(cursor);
+      if (!last || typeof last.ID != 'string') {
+        throw new InvalidCursorError();
+      }
+      start = entries.findIndex((entry) => entry.ID == last.ID) + 1;
+      if (start == 0) {
+        throw new InvalidCursorError();
+      }
+    }
+
+    const items = entries.slice(start, start + limit);
+    const hasMore = start + limit < entries.length;
+    const lastItem = items[items.length - 1];
+
+    return {
+      items: structuredClone(items),
+      cursor: hasMore
+        ? Pagination.encodeCursor({
+            ID: lastItem.ID,
+            Target: lastItem.Target,
+            CreatedAt: lastItem.CreatedAt,
+          })
+        : null,
+      hasMore,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Category, CategoryRepository } from './categoryRepository';
+
+// Keeps the categories in memory, used by the tests
+export class MemoryCategoryRepository implements CategoryRepository {
+  private categories = new Map<string, Category>();
+
+  public async list(): Promise<Category[]> {
+    return [...this.categories.values()].map((category) => ({ ...category }));
+  }
+
+  public async get(slug: string): Promise<Category | null> {
+    const category = this.categories.get(slug);
+    return category ? { ...category } : null;
+  }
+
+  public async create(category: Category): Promise<boolean> {
+    if (this.categories.has(category.Slug)) {
+      return false;
+    }
+    this.categories.set(category.Slug, { ...category });
+    return true;
+  }
+
+  public async put(category: Category): Promise<void> {
+    this.categories.set(category.Slug, { ...category });
+  }
+
+  public async delete(slug: string): Promise<void> {
+    this.categories.delete(slug);
+  }
+}
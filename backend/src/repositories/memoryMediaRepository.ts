@@ -0,0 +1,43 @@
+import { MediaItem, MediaRepository } from './mediaRepository';
+
+// Keeps the media in memory, used by the tests
+export class MemoryMediaRepository implements MediaRepository {
+  private items = new Map<string, MediaItem>();
+
+  public async list(articleId: string): Promise<MediaItem[]> {
+    return [...this.items.values()]
+      .filter((item) => item.ArticleID == articleId)
+      .map((item) => structuredClone(item));
+  }
+
+  public async get(articleId: string, id: string): Promise<MediaItem | null> {
+    const item = this.items.get(this.getKey(articleId, id));
+    return item ? structuredClone(item) : null;
+  }
+
+  public async put(item: MediaItem): Promise<void> {
+    this.items.set(this.getKey(item.ArticleID, item.ID), structuredClone(item));
+  }
+
+  public async delete(articleId: string, id: string): Promise<boolean> {
+    return this.items.delete(this.getKey(articleId, id));
+  }
+
+  public async deleteMany(articleId: string, ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.items.delete(this.getKey(articleId, id));
+    }
+  }
+
+  /**
+   * Returns the key of an image in the map
+   *
+   * @private
+   * @param {string} articleId - article id
+   * @param {string} id - image id
+   * @returns {string}
+   */
+  private getKey(articleId: string, id: string): string {
+    return `${articleId}/${id}`;
+  }
+}
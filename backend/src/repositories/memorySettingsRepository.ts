@@ -0,0 +1,16 @@
+import { SettingsRepository } from './settingsRepository';
+
+// Keeps the settings in memory, used by the tests
+export class MemorySettingsRepository implements SettingsRepository {
+  private settings = new Map<string, any>();
+
+  public async get(key: string): Promise<any | null> {
+    return this.settings.has(key)
+      ? structuredClone(this.settings.get(key))
+      : null;
+  }
+
+  public async put(key: string, value: any): Promise<void> {
+    this.settings.set(key, structuredClone(value));
+  }
+}
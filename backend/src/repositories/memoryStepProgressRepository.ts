@@ -0,0 +1,53 @@
+import { StepProgress, StepProgressRepository } from './stepProgressRepository';
+
+// Keeps the step progress in memory, used by the tests
+export class MemoryStepProgressRepository implements StepProgressRepository {
+  private items = new Map<string, StepProgress>();
+
+  public async get(
+    username: string,
+    articleId: string
+  ): Promise<StepProgress | null> {
+    const item = this.items.get(this.getKey(username, articleId));
+    return item ? structuredClone(item) : null;
+  }
+
+  public async put(item: StepProgress): Promise<void> {
+    this.items.set(
+      this.getKey(item.Username, item.ArticleID),
+      structuredClone(item)
+    );
+  }
+
+  public async delete(username: string, articleId: string): Promise<boolean> {
+    return this.items.delete(this.getKey(username, articleId));
+  }
+
+  public async deleteByArticle(articleId: string): Promise<void> {
+    for (const [key, item] of this.items) {
+      if (item.ArticleID == articleId) {
+        this.items.delete(key);
+      }
+    }
+  }
+
+  public async deleteByUser(username: string): Promise<void> {
+    for (const [key, item] of this.items) {
+      if (item.Username == username) {
+        this.items.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Returns the key of a progress item in the map
+   *
+   * @private
+   * @param {string} username - username of the reader
+   * @param {string} articleId - article id
+   * @returns {string}
+   */
+  private getKey(username: string, articleId: string): string {
+    return `${username}/${articleId}`;
+  }
+}
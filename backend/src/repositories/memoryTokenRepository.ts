@@ -0,0 +1,59 @@
+import { Token, TokenRepository } from './tokenRepository';
+
+// Keeps the tokens in memory, used by the tests
+export class MemoryTokenRepository implements TokenRepository {
+  private tokens = new Map<string, Token>();
+
+  public async create(token: Token): Promise<boolean> {
+    if (this.tokens.has(token.value)) {
+      return false;
+    }
+    this.tokens.set(token.value, { ...token });
+    return true;
+  }
+
+  public async get(value: string): Promise<Token | null> {
+    const token = this.tokens.get(value);
+    return token ? { ...token } : null;
+  }
+
+  public async update(
+    value: string,
+    fields: Partial<Omit<Token, 'value'>>,
+    expected: Partial<Omit<Token, 'value'>> = {}
+  ): Promise<boolean> {
+    const token = this.tokens.get(value);
+    if (
+      !token ||
+      Object.entries(expected).some(
+        ([field, fieldValue]) => token[field as keyof Token] !== fieldValue
+      )
+    ) {
+      return false;
+    }
+    Object.assign(token, fields);
+    return true;
+  }
+
+  public async delete(value: string): Promise<boolean> {
+    return this.tokens.delete(value);
+  }
+
+  public async listValues(username: string): Promise<string[]> {
+    return [...this.tokens.values()]
+      .filter((token) => token.username == username)
+      .map((token) => token.value);
+  }
+
+  public async list(username: string): Promise<Token[]> {
+    return [...this.tokens.values()]
+      .filter((token) => token.username == username)
+      .map((token) => ({ ...token }));
+  }
+
+  public async deleteMany(values: string[]): Promise<void> {
+    for (const value of values) {
+      this.tokens.delete(value);
+    }
+  }
+}
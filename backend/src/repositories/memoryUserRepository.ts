@@ -0,0 +1,117 @@
+import { InvalidCursorError, Page, Pagination } from '../services/pagination';
+import {
+  USER_DIRECTORY,
+  User,
+  UserListQuery,
+  UserRepository,
+} from './userRepository';
+
+// Keeps the users in memory, used by the tests. Like the AccountCreatedIndex,
+// the list leaves out users without the Directory attribute.
+export class MemoryUserRepository implements UserRepository {
+  private users = new Map<string, User>();
+
+  public async get(username: string): Promise<User | null> {
+    const user = this.users.get(username);
+    return user ? structuredClone(user) : null;
+  }
+
+  public async put(user: User): Promise<void> {
+    this.users.set(user.Username, structuredClone(user));
+  }
+
+  public async delete(username: string): Promise<User | null> {
+    const user = this.users.get(username);
+    this.users.delete(username);
+    return user ?? null;
+  }
+
+  public async update(username: string, fields: User): Promise<boolean> {
+    const user = this.users.get(username);
+    if (!user) {
+      return false;
+    }
+    Object.assign(user, structuredClone(fields));
+    return true;
+  }
+
+  public async setTwoFactorCounter(
+    username: string,
+    counter: number
+  ): Promise<boolean> {
+    const state = this.users.get(username)?.TwoFactor;
+    if (!state || (state.LastCounter ?? -1) >= counter) {
+      return false;
+    }
+    state.LastCounter = counter;
+    return true;
+  }
+
+  public async listPage(
+    query: UserListQuery,
+    cursor?: string,
+    withTotal: boolean = false
+  ): Promise<Page> {
+    const search = query.search;
+    const users = [...this.users.values()]
+      .filter(
+        (user) =>
+          user.Directory === USER_DIRECTORY &&
+          typeof user.AccountCreated == 'number' &&
+          (!search ||
+            user.Username.includes(search) ||
+            (user.Email ?? '').includes(search))
+      )
+      .sort((a, b) => this.compare(a, b));
+
+    let start = 0;
+    if (cursor != undefined) {
+      const last = Pagination.decodeCursor(cursor);
+      if (
+        !last ||
+        typeof last.Username != 'string' ||
+        typeof last.AccountCreated != 'number'
+      ) {
+        throw new InvalidCursorError();
+      }
+      start = users.findIndex((user) => this.compare(user, last) > 0);
+      if (start == -1) {
+        start = users.length;
+      }
+    }
+
+    const items = users.slice(start, start + query.limit);
+    const hasMore = start + query.limit < users.length;
+    const lastItem = items[items.length - 1];
+
+    const result: Page = {
+      items: structuredClone(items),
+      cursor: hasMore
+        ? Pagination.encodeCursor({
+            Username: lastItem.Username,
+            AccountCreated: lastItem.AccountCreated,
+          })
+        : null,
+      hasMore,
+    };
+    if (withTotal) {
+      result.total = users.length;
+    }
+    return result;
+  }
+
+  /**
+   * Compares two users in the order of the list, newest first
+   *
+   * @private
+   * @param {User} a
+   * @param {User} b
+   * @returns {number}
+   */
+  private compare(a: User, b: User): number {
+    return (
+      b.AccountCreated - a.AccountCreated ||
+      b.Username.localeCompare(a.Username)
+    );
+  }
+}
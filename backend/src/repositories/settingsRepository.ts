@@ -0,0 +1,9 @@
+/**
+ * Where the site wide settings are kept, keyed by their name
+ */
+export interface SettingsRepository {
+  /** Resolves to null if the setting was never stored */
+  get(key: string): Promise<any | null>;
+  /** Stores a setting or replaces its value */
+  put(key: string, value: any): Promise<void>;
+}
@@ -0,0 +1,25 @@
+export interface StepProgress {
+  Username: string;
+  ArticleID: string;
+  /** IDs of the steps the reader checked off */
+  Completed: string[];
+  /** The step the reader touched last, the article resumes there */
+  LastStep: string | null;
+  UpdatedAt: number;
+}
+
+/**
+ * Where the progress of the readers through the step by step articles is
+ * kept, keyed by Username + ArticleID
+ */
+export interface StepProgressRepository {
+  /** Resolves to null if the reader has not started the article */
+  get(username: string, articleId: string): Promise<StepProgress | null>;
+  put(item: StepProgress): Promise<void>;
+  /** Resolves to false if the reader has not started the article */
+  delete(username: string, articleId: string): Promise<boolean>;
+  /** Removes the progress of every reader of an article */
+  deleteByArticle(articleId: string): Promise<void>;
+  /** Removes the progress of a reader in every article */
+  deleteByUser(username: string): Promise<void>;
+}
@@ -0,0 +1,42 @@
+export interface Token {
+  username: string;
+  value: string;
+  type: string;
+  expiration: number;
+  newEmail?: string; // Optional parameter
+  // Wrong codes entered for a two-factor challenge
+  attempts?: number;
+  // Sessions only, see src/services/sessions.ts
+  userAgent?: string;
+  createdAt?: number;
+  lastUsed?: number;
+  rotation?: string;
+  previousRotation?: string;
+}
+
+/**
+ * Where the one-time tokens (email verification, password reset and email
+ * change) and the sign in sessions are kept, keyed by their value
+ */
+export interface TokenRepository {
+  /** Resolves to false if a token with the same value already exists */
+  create(token: Token): Promise<boolean>;
+  /** Resolves to null if there is no token with the value */
+  get(value: string): Promise<Token | null>;
+  /**
+   * Sets fields of a token, resolves to false if there is no token or if it
+   * does not have the expected field values
+   */
+  update(
+    value: string,
+    fields: Partial<Omit<Token, 'value'>>,
+    expected?: Partial<Omit<Token, 'value'>>
+  ): Promise<boolean>;
+  /** Resolves to false if there is no token with the value */
+  delete(value: string): Promise<boolean>;
+  /** Returns the values of all tokens of a user */
+  listValues(username: string): Promise<string[]>;
+  /** Returns all tokens of a user */
+  list(username: string): Promise<Token[]>;
+  deleteMany(values: string[]): Promise<void>;
+}
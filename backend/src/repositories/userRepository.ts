@@ -0,0 +1,45 @@
+import { Page } from '../services/pagination';
+
+export interface User {
+  [key: string]: any;
+}
+
+// Every user has the Directory attribute set to this value, it is the
+// partition key of the AccountCreatedIndex that lists the accounts
+export const USER_DIRECTORY = 'users';
+
+// A page of the user list, newest accounts first
+export interface UserListQuery {
+  /** Only users whose username or email contains the text */
+  search?: string;
+  /** Users per page */
+  limit: number;
+}
+
+/**
+ * Where the user accounts are kept, keyed by Username
+ */
+export interface UserRepository {
+  /** Resolves to null if there is no user with the username */
+  get(username: string): Promise<User | null>;
+  /** Adds a user or replaces the one with the same username */
+  put(user: User): Promise<void>;
+  /** Resolves to the removed user, or null if there was none */
+  delete(username: string): Promise<User | null>;
+  /** Sets fields of a user, resolves to false if there is no user */
+  update(username: string, fields: User): Promise<boolean>;
+  /**
+   * Sets TwoFactor.LastCounter of a user, resolves to false if it is already
+   * at or past the counter, or the user has no two-factor state
+   */
+  setTwoFactorCounter(username: string, counter: number): Promise<boolean>;
+  /**
+   * Fetches one page of the users, see Pagination.fetchPage
+   * @throws {InvalidCursorError} - if the cursor does not belong to the list
+   */
+  listPage(
+    query: UserListQuery,
+    cursor?: string,
+    withTotal?: boolean
+  ): Promise<Page>;
+}
@@ -2,6 +2,9 @@ import { Request, Response, Router } from 'express';
 
 import articles from './v1/articles';
 import users from './v1/userapi';
+import comments from './v1/comments';
+import categories from './v1/categories';
+import admin from './v1/admin';
 
 const router = Router();
 
@@ -11,5 +14,8 @@ router.get('/', async (req: Request, res: Response) => {
 
 router.use('/articles', articles);
 router.use('/user', users);
+router.use('/comments', comments);
+router.use('/categories', categories);
+router.use('/admin', admin);
 
 export default router;
@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import { Admin } from ':api/services/admin';
+import { Audit } from ':api/services/audit';
+import { RateLimiting } from ':api/services/rateLimiting';
+import { UserManagment } from ':api/services/userManagment';
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const router = Router();
+
+// Users, newest accounts first
+router.get(
+  '/users',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const { search, cursor } = req.query;
+
+    // Fetch the result and return it
+    const result = await Admin.listUsers(search, cursor);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Account with the number of articles
+router.get(
+  '/users/:username',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+
+    // Fetch the result and return it
+    const result = await Admin.getUser(username);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Audit trail of an account, also of deleted ones
+router.get(
+  '/users/:username/audit',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+    const cursor = req.query.cursor;
+
+    // Fetch the result and return it
+    const result = await Audit.getEntries(username, cursor);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.post(
+  '/users/:username/can-post',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+    const canPost = req.body.canPost;
+
+    // Fetch the result and return it
+    const result = await Admin.setCanPost(req.user.Username, username, canPost);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Marks the email as unverified and sends a new verification email
+router.post(
+  '/users/:username/verification',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+
+    // Fetch the result and return it
+    const result = await Admin.requireVerification(req.user.Username, username);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Suspend until a date, or ban without one
+router.post(
+  '/users/:username/suspension',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+    const { reason, until } = req.body;
+
+    // Fetch the result and return it
+    const result = await Admin.suspendUser(
+      req.user.Username,
+      username,
+      reason,
+      until
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Reinstate
+router.delete(
+  '/users/:username/suspension',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+
+    // Fetch the result and return it
+    const result = await Admin.reinstateUser(req.user.Username, username);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Delete the account and all of its content, no password needed
+router.delete(
+  '/users/:username',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('user.manage'),
+  async (req: any, res: any) => {
+    const username = req.params.username;
+    const reason = req.body.reason;
+
+    // Fetch the result and return it
+    const result = await Admin.deleteUser(req.user.Username, username, reason);
+    return res.status(result.status).send(result);
+  }
+);
+
+export default router;
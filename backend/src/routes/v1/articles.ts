@@ -1,13 +1,19 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { Articles } from ':api/services/articles';
-import { S3 } from ':api/services/s3';
+import { Storage } from ':api/services/storage';
+import { Search } from ':api/services/search';
+import { Revisions } from ':api/services/revisions';
+import { Categories } from ':api/services/categories';
+import { Reviews } from ':api/services/reviews';
+import { Media } from ':api/services/media';
+import { Attachments } from ':api/services/attachments';
+import { Steps } from ':api/services/steps';
 import { RateLimiting } from ':api/services/rateLimiting';
 
 import dotenv from 'dotenv';
 
 import { v4 as uuidv4 } from 'uuid';
 import { Helper } from ':api/services/helper';
-import { categories } from 'src/categories';
 
 import { UserManagment } from ':api/services/userManagment';
 
@@ -15,24 +21,60 @@ dotenv.config();
 
 const router = Router();
 
+// Step by step articles send their introduction as the body and the steps
+// next to it, both are written into one markdown body. Returns the body, or
+// the response of an invalid request.
+const readStepsBody = (req: any) => {
+  const { body, metadata } = req.body;
+  if (typeof body != 'string') {
+    return { status: 400, response: { message: 'invalid body data type' } };
+  }
+  if (metadata.Format == undefined) {
+    return body;
+  }
+  if (metadata.Format != 'steps') {
+    return {
+      status: 400,
+      response: { message: 'invalid request - invalid Format value' },
+    };
+  }
+  return (
+    Steps.validate(body, req.body.steps) ||
+    Steps.serialize(body, req.body.steps)
+  );
+};
+
+// Reads the file of an attachment upload, the body is the raw file
+const readAttachment = (req: any, res: any, next: any) => {
+  express.raw({
+    type: 'application/octet-stream',
+    limit: Attachments.MAX_FILE_SIZE,
+  })(req, res, (err: any) => {
+    if (err) {
+      const status = err.type == 'entity.too.large' ? 413 : 400;
+      return res.status(status).send({
+        status,
+        response: {
+          message: status == 413 ? 'file too large' : 'invalid request',
+        },
+      });
+    }
+    next();
+  });
+};
+
 // All private
 router.get(
   '/private',
   RateLimiting.generalAPI,
-  UserManagment.authenticateToken(),
+  UserManagment.requirePermission('article.review'),
   async (req: any, res: any) => {
     const sortBy = req.query.sortBy || 'highest';
     const limit = Number(req.query.limit) || 10;
     const page = Number(req.query.page) || 1;
     const status = req.query.status || 'review';
-    const user = req.user;
-
-    // Check for permissions
-    if (!UserManagment.checkAdmin(user)) {
-      return res
-        .status(403)
-        .send({ status: 403, message: 'permission denied' });
-    }
+    const cursor = req.query.cursor;
+    const withTotal = req.query.count == 'true';
 
     // Validate sortBy parameter
     let scanIndexForward = false;
@@ -49,7 +91,9 @@ router.get(
       status,
       page,
       limit,
-      scanIndexForward
+      scanIndexForward,
+      cursor,
+      withTotal
     );
     return res.status(result.status).send(result);
   }
@@ -99,37 +143,1020 @@ router.delete(
     }
 
     // Check if the user has permission to delete
-    if (!UserManagment.checkUsername(article.Author, user)) {
+    if (
+      !(await UserManagment.checkUsername(
+        article.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Articles.removeArticle(tableName, articleId);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Publish
+router.post(
+  '/publish',
+  RateLimiting.articleEdit,
+  UserManagment.requirePermission('article.publish'),
+  async (req: any, res: any) => {
+    const ID = req.query.id;
+    const publishAt = req.body.publishAt;
+    const user = req.user;
+
+    // Validate the ID parameter
+    if (ID == undefined) {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'missing article id' } });
+    }
+
+    // An article accepted with a publication time waits for it, see
+    // src/scheduler.ts
+    const result =
+      publishAt == undefined
+        ? await Articles.publishArticle(ID)
+        : await Articles.scheduleArticle(ID, publishAt);
+    if (result.status == 200) {
+      await Reviews.acceptSubmission(ID, user.Username);
+    }
+    return res.status(result.status).send(result);
+  }
+);
+
+// Cancel a scheduled publication
+router.post(
+  '/unschedule',
+  RateLimiting.articleEdit,
+  UserManagment.requirePermission('article.publish'),
+  async (req: any, res: any) => {
+    const ID = req.query.id;
+
+    // Validate the ID parameter
+    if (ID == undefined) {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'missing article id' } });
+    }
+
+    // Fetch the result and return it
+    const result = await Articles.unscheduleArticle(ID);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Upcoming publications
+router.get(
+  '/scheduled',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('article.review'),
+  async (req: any, res: any) => {
+    const result = await Articles.getScheduledArticles();
+    return res.status(result.status).send(result);
+  }
+);
+
+// Hide
+router.post(
+  '/hide',
+  RateLimiting.articleEdit,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const ID = req.query.id;
+    const user = req.user;
+
+    // Validate the ID parameter
+    if (ID == undefined) {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'missing article id' } });
+    }
+
+    // Fetch the article
+    const articleRequest = await Articles.getArticleMetadata(
+      ID,
+      'ArticlesPublished'
+    );
+    const article = articleRequest.response.return;
+    if (!article) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+
+    // Check if the user has permission to hide the article
+    if (
+      !(await UserManagment.checkUsername(
+        article.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Articles.hideArticle(ID);
+    return res.status(result.status).send(result);
+  }
+);
+
+// By id
+router.get(
+  '/get',
+  RateLimiting.generalAPI,
+  UserManagment.authTokenOptional,
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const visibility = req.query.visibility || 'public';
+    const user = req.user;
+
+    // Validate the visibility parameter and choose a corresponding table
+    let tableName = Helper.visibilityToTable(visibility);
+    if (tableName == false) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid visibility parameter' },
+      });
+    }
+
+    // Fetch the result and return it
+    try {
+      const metadataResult = await Articles.getArticleMetadata(
+        articleId,
+        tableName
+      );
+      if (metadataResult.status != 200) {
+        return res.status(metadataResult.status).send(metadataResult);
+      }
+      const metadata = metadataResult.response.return;
+
+      // If the article is private check for permissions
+      if (
+        visibility == 'private' &&
+        !(await UserManagment.checkUsername(
+          metadata.Author,
+          req.account,
+          'article.readPrivate'
+        ))
+      ) {
+        return res.status(403).send({
+          status: 403,
+          response: { message: 'permission denied' },
+        });
+      }
+      // Get only the body of the article from the storage
+      const bodyResult = await Articles.getArticle(articleId, tableName);
+      bodyResult.response.return.metadata = metadata; // Assign the metadata from the database
+      return res.status(bodyResult.status).send(bodyResult);
+    } catch (err) {
+      console.log(err);
+      return res.status(500).send('server error');
+    }
+  }
+);
+
+// By author
+router.get(
+  '/author',
+  RateLimiting.generalAPI,
+  UserManagment.authTokenOptional,
+  async (req: any, res: any) => {
+    const author = req.query.authorName;
+    let searchBy = req.query.searchBy || 'rating';
+    const sortBy = req.query.sortBy || 'highest';
+    const limit = Number(req.query.limit) || 10;
+    const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+    const withTotal = req.query.count == 'true';
+    const visibility = req.query.visibility || 'public';
+    const user = req.user;
+
+    // Check for permissions
+    if (visibility == 'private') {
+      if (
+        !(await UserManagment.checkUsername(
+          author,
+          req.account,
+          'article.readPrivate'
+        ))
+      ) {
+        return res.status(403).send({
+          status: 403,
+          response: { message: 'permission denied' },
+        });
+      }
+      searchBy = 'date';
+    }
+
+    // Validate the visibility parameter and choose a corresponding table
+    let tableName = Helper.visibilityToTable(visibility);
+    if (tableName == false) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid visibility parameter' },
+      });
+    }
+
+    // Choose a correct fetch function and the sorting method
+    let getFunc = Articles.getAuthorRating.bind(Articles); // Function
+    let scanIndexForward: boolean = false; // Sort
+
+    // Validate searchBy parameter
+    if (searchBy === 'date') {
+      getFunc = Articles.getAuthorCreated.bind(Articles);
+    } else if (searchBy != 'rating') {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'Invalid searchBy value' } });
+    }
+
+    // Validate sortBy parameter
+    if (sortBy === 'lowest') {
+      scanIndexForward = true;
+    } else if (sortBy != 'highest') {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'Invalid sortBy value' } });
+    }
+
+    const args: [string, string, number, number, boolean, string, boolean] = [
+      tableName,
+      author,
+      page,
+      limit,
+      scanIndexForward,
+      cursor,
+      withTotal,
+    ];
+
+    // Fetch the result and return it
+    const result = await getFunc(...args);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Search
+const searchHandler = async (req: any, res: any) => {
+  // "title" is accepted for compatibility with the old exact-title lookup
+  const query = req.query.q ?? req.query.title;
+  const category = req.query.category;
+  const difficulty = req.query.difficulty;
+  const author = req.query.author;
+  const limit = Number(req.query.limit) || 10;
+  const page = Number(req.query.page) || 1;
+  const cursor = req.query.cursor;
+  const visibility = req.query.visibility || 'public';
+
+  // Only published articles are indexed
+  if (visibility != 'public') {
+    return res.status(400).send({
+      status: 400,
+      response: { message: 'invalid visibility parameter' },
+    });
+  }
+
+  if (category != undefined && !(await Categories.isActive(category))) {
+    return res.status(400).send({
+      status: 400,
+      response: { message: 'invalid category' },
+    });
+  }
+
+  // Fetch the result and return it
+  const result = await Search.searchArticles(
+    query,
+    { category, difficulty, author },
+    page,
+    limit,
+    cursor
+  );
+  return res.status(result.status).send(result);
+};
+
+router.get('/search', RateLimiting.generalAPI, searchHandler);
+
+// By title, the published articles are found by the search and the
+// unpublished ones by their exact title
+router.get(
+  '/title',
+  RateLimiting.generalAPI,
+  UserManagment.authTokenOptional,
+  async (req: any, res: any) => {
+    if ((req.query.visibility || 'public') != 'private') {
+      return await searchHandler(req, res);
+    }
+
+    const title = req.query.title;
+    const sortBy = req.query.sortBy || 'highest';
+    const limit = Number(req.query.limit) || 10;
+    const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+
+    // Check for permissions
+    if (
+      !(await UserManagment.checkPermission(req.account, 'article.editAny'))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
       });
     }
 
-    // Fetch the result and return it
-    const result = await Articles.removeArticle(tableName, articleId);
-    return res.status(result.status).send(result);
+    // Validate sortBy parameter
+    let scanIndexForward = false;
+    if (sortBy === 'lowest') {
+      scanIndexForward = true;
+    } else if (sortBy != 'highest') {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'Invalid sortBy value' } });
+    }
+
+    // Unpublished articles have no rating, so they are sorted by creation date
+    const result = await Articles.getTitleCreated(
+      title,
+      page,
+      limit,
+      scanIndexForward,
+      cursor
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Revisions
+router.get(
+  '/revisions',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const limit = Number(req.query.limit) || 10;
+    const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to see the history
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.readPrivate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Revisions.getRevisions(articleId, page, limit, cursor);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.get(
+  '/revisions/get',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const revision = Number(req.query.revision);
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to see the history
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.readPrivate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Revisions.getRevision(articleId, revision);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.get(
+  '/revisions/diff',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to see the history
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.readPrivate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Revisions.diffRevisions(articleId, from, to);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.post(
+  '/revisions/restore',
+  RateLimiting.articleCreationChange,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const revision = Number(req.query.revision);
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { tableName, metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to restore
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the revision
+    const revisionRequest = await Revisions.getRevision(articleId, revision);
+    if (revisionRequest.status != 200) {
+      return res.status(revisionRequest.status).send(revisionRequest);
+    }
+    const snapshot = revisionRequest.response.return;
+
+    if (!(await Categories.isActive(snapshot.metadata.PrimaryCategory))) {
+      return res.status(400).send({
+        status: 400,
+        response: {
+          message: 'the category of this revision no longer exists',
+        },
+      });
+    }
+
+    // Replace the article content with the revision
+    const updateResult = await Articles.updateArticle(
+      tableName,
+      Revisions.applySnapshot(metadata, snapshot.metadata),
+      snapshot.body
+    );
+    if (updateResult.status != 200) {
+      return res.status(updateResult.status).send(updateResult);
+    }
+
+    // Record the restore in the history
+    const result = await Revisions.createRevision(
+      tableName,
+      articleId,
+      user.Username,
+      `Restored revision ${revision}`
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Reviews
+router.get(
+  '/reviews',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to see the reviews
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.review'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Reviews.getReviews(articleId);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.get(
+  '/reviews/latest',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const ids = req.query.ids;
+    const user = req.user;
+
+    if (typeof ids != 'string' || ids == '') {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'missing article ids' } });
+    }
+
+    const result = await Reviews.getLatestReviews(ids.split(','));
+    if (result.status != 200) {
+      return res.status(result.status).send(result);
+    }
+
+    // Only return the reviews of the user's own articles unless they are an admin
+    const reviews: { [key: string]: any } = {};
+    for (const [id, review] of Object.entries<any>(result.response.return)) {
+      if (
+        await UserManagment.checkUsername(
+          review.Author,
+          req.account,
+          'article.review'
+        )
+      ) {
+        reviews[id] = review;
+      }
+    }
+    return res.status(200).send({ status: 200, response: { return: reviews } });
+  }
+);
+
+router.get(
+  '/reviews/queue',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('article.review'),
+  async (req: any, res: any) => {
+    const limit = Number(req.query.limit) || 10;
+    const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+    const user = req.user;
+
+    const result = await Reviews.getQueue(page, limit, cursor);
+    if (result.status != 200) {
+      return res.status(result.status).send(result);
+    }
+
+    // Attach the article to every waiting submission
+    const items = await Promise.all(
+      result.response.return.map(async (review: any) => {
+        const articleRequest = await Articles.getArticleMetadata(
+          review.ArticleID,
+          'ArticlesUnpublished'
+        );
+        return { ...review, Article: articleRequest.response.return || null };
+      })
+    );
+    return res.status(200).send({
+      status: 200,
+      response: { ...result.response, return: items },
+    });
+  }
+);
+
+router.post(
+  '/reviews/assign',
+  RateLimiting.articleEdit,
+  UserManagment.requirePermission('article.review'),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const user = req.user;
+    const reviewer = req.body.reviewer || user.Username;
+
+    // Only users with the reviewer permission can review articles
+    if (reviewer != user.Username) {
+      const reviewerUser = await UserManagment.getUser(reviewer);
+      if (
+        !reviewerUser ||
+        !(await UserManagment.checkPermission(reviewerUser, 'article.review'))
+      ) {
+        return res.status(400).send({
+          status: 400,
+          response: { message: 'the reviewer cannot review articles' },
+        });
+      }
+    }
+
+    // Fetch the result and return it
+    const result = await Reviews.assignReviewer(articleId, reviewer);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.post(
+  '/reviews/comment',
+  RateLimiting.articleEdit,
+  UserManagment.requirePermission('article.review'),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const { line, quote, text } = req.body;
+    const user = req.user;
+
+    // Fetch the result and return it
+    const result = await Reviews.addComment(
+      articleId,
+      user.Username,
+      line,
+      quote,
+      text
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+router.delete(
+  '/reviews/comment',
+  RateLimiting.articleEdit,
+  UserManagment.requirePermission('article.review'),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const commentId = req.query.commentId;
+    const user = req.user;
+
+    // Fetch the result and return it
+    const result = await Reviews.removeComment(
+      articleId,
+      commentId,
+      user.Username
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+router.post(
+  '/reviews/decline',
+  RateLimiting.articleEdit,
+  UserManagment.requirePermission('article.review'),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const reason = req.body.reason;
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.getArticleMetadata(
+      articleId,
+      'ArticlesUnpublished'
+    );
+    const article = articleRequest.response.return;
+    if (!article) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+
+    // Close the review and send the article back to its author
+    const result = await Reviews.declineSubmission(
+      articleId,
+      user.Username,
+      reason
+    );
+    if (result.status != 200) {
+      return res.status(result.status).send(result);
+    }
+
+    const patchResult = await Articles.patchArticle(
+      'ArticlesUnpublished',
+      articleId,
+      'Status',
+      'private'
+    );
+    if (patchResult.status != 200) {
+      return res.status(patchResult.status).send(patchResult);
+    }
+    return res.status(result.status).send(result);
+  }
+);
+
+// Media
+router.get(
+  '/media',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to edit the article
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Media.getMedia(articleId);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.post(
+  '/media',
+  RateLimiting.articleCreationChange,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const image = req.body.image;
+    const user = req.user;
+
+    // Check for file
+    if (!image || typeof image != 'string') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'missing image' },
+      });
+    }
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to add the image
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Media.addImage(articleId, user.Username, image);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.delete(
+  '/media',
+  RateLimiting.articleEdit,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const mediaId = req.query.mediaId;
+    const user = req.user;
+
+    if (typeof mediaId != 'string') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'missing media id' },
+      });
+    }
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { metadata } = articleRequest.response.return;
+
+    // Check if the user has permission to remove the image
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Media.removeImage(articleId, mediaId);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Attachments
+router.get(
+  '/attachments',
+  RateLimiting.generalAPI,
+  UserManagment.authTokenOptional,
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const user = req.user;
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { tableName, metadata } = articleRequest.response.return;
+
+    // The attachments of a private article are private too
+    if (
+      tableName != 'ArticlesPublished' &&
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.readPrivate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Attachments.getAttachments(articleId);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.get(
+  '/attachments/usage',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const result = await Attachments.getUsage(req.user.Username);
+    return res.status(result.status).send(result);
+  }
+);
+
+router.get(
+  '/attachments/link',
+  RateLimiting.generalAPI,
+  UserManagment.authTokenOptional,
+  async (req: any, res: any) => {
+    const articleId = req.query.id;
+    const attachmentId = req.query.attachmentId;
+    const user = req.user;
+
+    if (typeof attachmentId != 'string') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'missing attachment id' },
+      });
+    }
+
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+    const { tableName, metadata } = articleRequest.response.return;
+
+    // The attachments of a private article are private too
+    if (
+      tableName != 'ArticlesPublished' &&
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.readPrivate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Attachments.getDownloadLink(articleId, attachmentId);
+    return res.status(result.status).send(result);
+  }
+);
+
+// The signed link is the permission, so browsers can download without
+// sending the cookies
+router.get(
+  '/attachments/download',
+  RateLimiting.generalAPI,
+  async (req: any, res: any) => {
+    const { id, attachmentId, expires, signature, preview } = req.query;
+
+    const result = await Attachments.download(
+      id,
+      attachmentId,
+      expires,
+      signature,
+      preview == 'true'
+    );
+    if (result.status != 200) {
+      return res.status(result.status).send(result);
+    }
+
+    const { attachment, file } = result.response.return;
+    res.attachment(attachment.Name);
+    res.set({
+      'Content-Type': attachment.ContentType,
+      'X-Checksum-SHA256': attachment.Checksum,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, no-store',
+    });
+    return res.status(200).send(file);
   }
 );
 
-// Publish
 router.post(
-  '/publish',
-  RateLimiting.articleEdit,
+  '/attachments',
+  RateLimiting.articleCreationChange,
   UserManagment.authenticateToken(),
+  readAttachment,
   async (req: any, res: any) => {
-    const ID = req.query.id;
+    const articleId = req.query.id;
     const user = req.user;
 
-    // Validate the ID parameter
-    if (ID == undefined) {
-      return res
-        .status(400)
-        .send({ status: 400, response: { message: 'missing article id' } });
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
     }
+    const { metadata } = articleRequest.response.return;
 
-    // Check for permissions
-    if (!UserManagment.checkAdmin(user)) {
+    // Check if the user has permission to attach files
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
@@ -137,39 +1164,48 @@ router.post(
     }
 
     // Fetch the result and return it
-    const result = await Articles.publishArticle(ID);
+    const result = await Attachments.addAttachment(
+      articleId,
+      user.Username,
+      req.query.name,
+      req.body,
+      req.query.checksum
+    );
     return res.status(result.status).send(result);
   }
 );
 
-// Hide
-router.post(
-  '/hide',
+router.delete(
+  '/attachments',
   RateLimiting.articleEdit,
   UserManagment.authenticateToken(),
   async (req: any, res: any) => {
-    const ID = req.query.id;
+    const articleId = req.query.id;
+    const attachmentId = req.query.attachmentId;
     const user = req.user;
 
-    // Validate the ID parameter
-    if (ID == undefined) {
-      return res
-        .status(400)
-        .send({ status: 400, response: { message: 'missing article id' } });
+    if (typeof attachmentId != 'string') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'missing attachment id' },
+      });
     }
 
     // Fetch the article
-    const articleRequest = await Articles.getArticleMetadata(
-      ID,
-      'ArticlesPublished'
-    );
-    const article = articleRequest.response.return;
-    if (!article) {
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
       return res.status(articleRequest.status).send(articleRequest);
     }
+    const { metadata } = articleRequest.response.return;
 
-    // Check if the user has permission to hide the article
-    if (!UserManagment.checkUsername(article.Author, user)) {
+    // Check if the user has permission to remove the file
+    if (
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
@@ -177,195 +1213,91 @@ router.post(
     }
 
     // Fetch the result and return it
-    const result = await Articles.hideArticle(ID);
+    const result = await Attachments.removeAttachment(articleId, attachmentId);
     return res.status(result.status).send(result);
   }
 );
 
-// By id
+// Step progress of the reader
 router.get(
-  '/get',
+  '/steps/progress',
   RateLimiting.generalAPI,
-  UserManagment.authTokenOptional,
+  UserManagment.authenticateToken(),
   async (req: any, res: any) => {
     const articleId = req.query.id;
-    const visibility = req.query.visibility || 'public';
-    const user = req.user;
 
-    // Validate the visibility parameter and choose a corresponding table
-    let tableName = Helper.visibilityToTable(visibility);
-    if (tableName == false) {
+    if (!Helper.isValidUUID(articleId)) {
       return res.status(400).send({
         status: 400,
-        response: { message: 'invalid visibility parameter' },
+        response: { message: 'invalid id format' },
       });
     }
 
     // Fetch the result and return it
-    try {
-      const metadataResult = await Articles.getArticleMetadata(
-        articleId,
-        tableName
-      );
-      if (metadataResult.status != 200) {
-        return res.status(metadataResult.status).send(metadataResult);
-      }
-      const metadata = metadataResult.response.return;
-
-      // If the article is private check for permissions
-      if (
-        visibility == 'private' &&
-        !UserManagment.checkUsername(metadata.Author, user)
-      ) {
-        return res.status(403).send({
-          status: 403,
-          response: { message: 'permission denied' },
-        });
-      }
-      // Get only the body of the article from the S3
-      const bodyResult = await Articles.getArticle(articleId, tableName);
-      bodyResult.response.return.metadata = metadata; // Assign the metadata from the database
-      return res.status(bodyResult.status).send(bodyResult);
-    } catch (err) {
-      console.log(err);
-      return res.status(500).send('server error');
-    }
+    const result = await Steps.getProgress(req.user.Username, articleId);
+    return res.status(result.status).send(result);
   }
 );
 
-// By author
-router.get(
-  '/author',
+router.put(
+  '/steps/progress',
   RateLimiting.generalAPI,
-  UserManagment.authTokenOptional,
+  UserManagment.authenticateToken(),
   async (req: any, res: any) => {
-    const author = req.query.authorName;
-    let searchBy = req.query.searchBy || 'rating';
-    const sortBy = req.query.sortBy || 'highest';
-    const limit = Number(req.query.limit) || 10;
-    const page = Number(req.query.page) || 1;
-    const visibility = req.query.visibility || 'public';
+    const articleId = req.query.id;
+    const { stepId, done } = req.body;
     const user = req.user;
 
-    // Check for permissions
-    if (visibility == 'private') {
-      if (!UserManagment.checkUsername(author, user)) {
-        return res.status(403).send({
-          status: 403,
-          response: { message: 'permission denied' },
-        });
-      }
-      searchBy = 'date';
+    // Fetch the article
+    const articleRequest = await Articles.locateArticle(articleId);
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
     }
+    const { tableName, metadata } = articleRequest.response.return;
 
-    // Validate the visibility parameter and choose a corresponding table
-    let tableName = Helper.visibilityToTable(visibility);
-    if (tableName == false) {
-      return res.status(400).send({
-        status: 400,
-        response: { message: 'invalid visibility parameter' },
+    // Only the readers of the article can follow it
+    if (
+      tableName != 'ArticlesPublished' &&
+      !(await UserManagment.checkUsername(
+        metadata.Author,
+        req.account,
+        'article.readPrivate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
       });
     }
 
-    // Choose a correct fetch function and the sorting method
-    let getFunc = Articles.getAuthorRating.bind(Articles); // Function
-    let scanIndexForward: boolean = false; // Sort
-
-    // Validate searchBy parameter
-    if (searchBy === 'date') {
-      getFunc = Articles.getAuthorCreated.bind(Articles);
-    } else if (searchBy != 'rating') {
-      return res
-        .status(400)
-        .send({ status: 400, response: { message: 'Invalid searchBy value' } });
-    }
-
-    // Validate sortBy parameter
-    if (sortBy === 'lowest') {
-      scanIndexForward = true;
-    } else if (sortBy != 'highest') {
-      return res
-        .status(400)
-        .send({ status: 400, response: { message: 'Invalid sortBy value' } });
-    }
-
-    const args: [string, string, number, number, boolean] = [
-      tableName,
-      author,
-      page,
-      limit,
-      scanIndexForward,
-    ];
-
     // Fetch the result and return it
-    const result = await getFunc(...args);
+    const result = await Steps.setStep(
+      user.Username,
+      tableName,
+      articleId,
+      stepId,
+      done
+    );
     return res.status(result.status).send(result);
   }
 );
 
-// By title
-router.get(
-  '/title',
+router.delete(
+  '/steps/progress',
   RateLimiting.generalAPI,
-  UserManagment.authTokenOptional,
+  UserManagment.authenticateToken(),
   async (req: any, res: any) => {
-    const title = req.query.title;
-    const searchBy = req.query.searchBy || 'rating';
-    const sortBy = req.query.sortBy || 'highest';
-    const limit = Number(req.query.limit) || 10;
-    const page = Number(req.query.page) || 1;
-    const visibility = req.query.visibility || 'public';
-    const user = req.user;
-
-    // Check for permissions
-    if (visibility == 'private' && !UserManagment.checkAdmin(user)) {
-      return res.status(403).send({
-        status: 403,
-        response: { message: 'permission denied' },
-      });
-    }
+    const articleId = req.query.id;
 
-    // Validate the visibility parameter and choose a corresponding table
-    let tableName = Helper.visibilityToTable(visibility);
-    if (tableName == false) {
+    if (!Helper.isValidUUID(articleId)) {
       return res.status(400).send({
         status: 400,
-        response: { message: 'invalid visibility parameter' },
+        response: { message: 'invalid id format' },
       });
     }
 
-    // Choose a correct fetch function and the sorting method
-    let getFunc = Articles.getTitleRating.bind(Articles); // Function
-    let scanIndexForward: boolean = false; // Sort
-
-    // Validate searchBy parameter
-    if (searchBy === 'date') {
-      getFunc = Articles.getTitleCreated.bind(Articles);
-    } else if (searchBy != 'rating') {
-      return res
-        .status(400)
-        .send({ status: 400, response: { message: 'Invalid searchBy value' } });
-    }
-
-    // Validate searchBy parameter
-    if (sortBy === 'lowest') {
-      scanIndexForward = true;
-    } else if (sortBy != 'highest') {
-      return res
-        .status(400)
-        .send({ status: 400, response: { message: 'Invalid sortBy value' } });
-    }
-
-    const args: [string, string, number, number, boolean] = [
-      tableName,
-      title,
-      page,
-      limit,
-      scanIndexForward,
-    ];
-
     // Fetch the result and return it
-    const result = await getFunc(...args);
+    const result = await Steps.resetProgress(req.user.Username, articleId);
     return res.status(result.status).send(result);
   }
 );
@@ -381,10 +1313,12 @@ router.get(
     const sortBy = req.query.sortBy || 'highest';
     const limit = Number(req.query.limit) || 10;
     const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+    const withTotal = req.query.count == 'true';
     const visibility = req.query.visibility || 'public';
     const user = req.user;
 
-    if (!categories.includes(category)) {
+    if (!(await Categories.isActive(category))) {
       return res.status(400).send({
         status: 400,
         response: { message: 'invalid category' },
@@ -392,7 +1326,10 @@ router.get(
     }
 
     // Check for permissions
-    if (visibility == 'private' && !UserManagment.checkAdmin(user)) {
+    if (
+      visibility == 'private' &&
+      !(await UserManagment.checkPermission(req.account, 'article.readPrivate'))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
@@ -430,12 +1367,14 @@ router.get(
         .send({ status: 400, response: { message: 'Invalid sortBy value' } });
     }
 
-    const args: [string, string, number, number, boolean] = [
+    const args: [string, string, number, number, boolean, string, boolean] = [
       tableName,
       category,
       page,
       limit,
       scanIndexForward,
+      cursor,
+      withTotal,
     ];
 
     // Fetch the result and return it
@@ -454,10 +1393,12 @@ router.get(
     const difficulty = req.params.difficulty;
     const limit = Number(req.query.limit) || 10;
     const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+    const withTotal = req.query.count == 'true';
     const visibility = req.query.visibility || 'public';
     const user = req.user;
 
-    if (!categories.includes(category)) {
+    if (!(await Categories.isActive(category))) {
       return res.status(400).send({
         status: 400,
         response: { message: 'invalid category' },
@@ -465,7 +1406,10 @@ router.get(
     }
 
     // Check for permissions
-    if (visibility == 'private' && !UserManagment.checkAdmin(user)) {
+    if (
+      visibility == 'private' &&
+      !(await UserManagment.checkPermission(req.account, 'article.readPrivate'))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
@@ -487,7 +1431,9 @@ router.get(
       category,
       difficulty,
       page,
-      limit
+      limit,
+      cursor,
+      withTotal
     );
     return res.status(result.status).send(result);
   }
@@ -501,6 +1447,7 @@ router.post(
   async (req: any, res: any) => {
     const body = req.body.body;
     const metadata = req.body.metadata;
+    const note = req.body.note;
     const ID = req.query.id || '';
     const user = req.user;
 
@@ -512,10 +1459,17 @@ router.post(
       });
     }
 
+    if (!Revisions.validateNote(note)) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid request - invalid note' },
+      });
+    }
+
     if (
       !(
         metadata.PrimaryCategory &&
-        categories.includes(metadata.PrimaryCategory)
+        (await Categories.isActive(metadata.PrimaryCategory))
       )
     ) {
       return res.status(400).send({
@@ -526,22 +1480,58 @@ router.post(
       });
     }
 
+    if (metadata.Status && !['private', 'review'].includes(metadata.Status)) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid request - invalid Status value' },
+      });
+    }
+
     // Check for permissions
-    if (!UserManagment.checkCanPost(user)) {
+    if (!(await UserManagment.checkPermission(req.account, 'article.create'))) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
       });
     }
 
+    const content = readStepsBody(req);
+    if (typeof content != 'string') {
+      return res.status(content.status).send(content);
+    }
+
     // Fetch the result and return it
     const result = await Articles.createArticle(
       'ArticlesUnpublished',
       metadata,
-      body,
+      content,
       ID
     );
 
+    if (result.status == 200) {
+      // Save the new state of the article in its history
+      const revisionResult = await Revisions.createRevision(
+        'ArticlesUnpublished',
+        result.response.id,
+        user.Username,
+        note
+      );
+
+      // Submitting starts a review round, saving takes the article out of review
+      if (metadata.Status == 'review') {
+        await Reviews.submitArticle(
+          result.response.id,
+          metadata.Author,
+          metadata.Title,
+          revisionResult.status == 200
+            ? revisionResult.response.return.Revision
+            : null
+        );
+      } else {
+        await Reviews.withdrawSubmission(result.response.id);
+      }
+    }
+
     return res.status(result.status).send(result);
   }
 );
@@ -554,6 +1544,7 @@ router.put(
   async (req: any, res: any) => {
     const body = req.body.body;
     const metadata = req.body.metadata;
+    const note = req.body.note;
     const visibility = req.query.visibility || 'public';
     const user = req.user;
 
@@ -575,10 +1566,17 @@ router.put(
       return;
     }
 
+    if (!Revisions.validateNote(note)) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid request - invalid note' },
+      });
+    }
+
     if (
       !(
         metadata.PrimaryCategory &&
-        categories.includes(metadata.PrimaryCategory)
+        (await Categories.isActive(metadata.PrimaryCategory))
       )
     ) {
       return res.status(400).send({
@@ -600,15 +1598,34 @@ router.put(
     }
 
     // Check if the user has permission to edit
-    if (!UserManagment.checkUsername(article.Author, user)) {
+    if (
+      !(await UserManagment.checkUsername(
+        article.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
       });
     }
 
+    const content = readStepsBody(req);
+    if (typeof content != 'string') {
+      return res.status(content.status).send(content);
+    }
+
     // Fetch the result and return it
-    const result = await Articles.updateArticle(tableName, metadata, body);
+    const result = await Articles.updateArticle(tableName, metadata, content);
+    if (result.status == 200) {
+      await Revisions.createRevision(
+        tableName,
+        metadata.ID,
+        user.Username,
+        note
+      );
+    }
     return res.status(result.status).send(result);
   }
 );
@@ -620,6 +1637,7 @@ router.patch(
   async (req: any, res: any) => {
     const key = req.body.key;
     const value = req.body.value;
+    const note = req.body.note;
     const ID = req.query.id;
     const visibility = req.query.visibility || 'public';
     const user = req.user;
@@ -642,7 +1660,22 @@ router.patch(
       return;
     }
 
-    if (key == 'PrimaryCategory' && !categories.includes(value)) {
+    if (!Revisions.validateNote(note)) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid request - invalid note' },
+      });
+    }
+
+    // The status and the publication time are managed by the review workflow
+    if (key == 'Status' || key == 'PublishedAt') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: `invalid request - ${key} cannot be patched` },
+      });
+    }
+
+    if (key == 'PrimaryCategory' && !(await Categories.isActive(value))) {
       res.status(400).send({
         status: 400,
         response: {
@@ -660,7 +1693,13 @@ router.patch(
     }
 
     // Check if the user has permission to patch
-    if (!UserManagment.checkUsername(article.Author, user)) {
+    if (
+      !(await UserManagment.checkUsername(
+        article.Author,
+        req.account,
+        'article.editAny'
+      ))
+    ) {
       return res.status(403).send({
         status: 403,
         response: { message: 'permission denied' },
@@ -669,6 +1708,9 @@ router.patch(
 
     // Fetch the result and return it
     const result = await Articles.patchArticle(tableName, ID, key, value);
+    if (result.status == 200) {
+      await Revisions.createRevision(tableName, ID, user.Username, note);
+    }
     return res.status(result.status).send(result);
   }
 );
@@ -712,7 +1754,11 @@ router.post(
 
     // Check if the user has permission to add the image
     if (
-      !UserManagment.checkUsername(metadataResp.response.return.Author, user)
+      !(await UserManagment.checkUsername(
+        metadataResp.response.return.Author,
+        req.account,
+        'article.editAny'
+      ))
     ) {
       return res.status(403).send({
         status: 403,
@@ -720,13 +1766,13 @@ router.post(
       });
     }
 
-    // Fetch the whole article from the S3
+    // Fetch the whole article from the storage
     const bodyResp = await Articles.getArticle(ID, 'ArticlesUnpublished');
     if (bodyResp.status != 200) {
       return res.status(bodyResp.status).send(bodyResp);
     }
 
-    // Combine the metadata from the database with the body from the S3 into a new object
+    // Combine the metadata from the database with the body from the storage into a new object
     const article = {
       body: bodyResp.response.return.body,
       metadata: metadataResp.response.return,
@@ -734,29 +1780,15 @@ router.post(
 
     const imageId = uuidv4();
 
-    // Remove the last image of an article
-    if (article.metadata.Image) {
-      try {
-        // Extract the uuid from the image url
-        const regex =
-          /[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/i;
-        const match = article.metadata.Image.match(regex);
-        const imageId = match ? match[0] : null;
-
-        await S3.removeImageFromS3(imageId);
-      } catch (err) {
-        console.log(err);
-      }
-    }
-
+    // The previous image is not removed, older revisions still reference it
     // Generate new image url
-    article.metadata.Image = `${process.env.AWS_S3_LINK}/images/${imageId}.png`;
+    article.metadata.Image = Storage.getPublicUrl(`images/${imageId}.png`);
 
-    // Add the image to the S3
+    // Add the image to the storage
     try {
-      const response = await S3.saveImage(imageId, image);
+      const response = await Storage.saveImage(imageId, image);
       if (!response) {
-        throw new Error('S3 error');
+        throw new Error('storage error');
       }
     } catch (err) {
       console.log(err);
@@ -771,6 +1803,14 @@ router.post(
       article.metadata,
       article.body
     );
+    if (result.status == 200) {
+      await Revisions.createRevision(
+        tableName,
+        ID,
+        user.Username,
+        'Changed the banner image'
+      );
+    }
 
     return res.status(result.status).send(result);
   }
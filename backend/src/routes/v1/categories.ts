@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { Categories } from ':api/services/categories';
+import { RateLimiting } from ':api/services/rateLimiting';
+import { UserManagment } from ':api/services/userManagment';
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const router = Router();
+
+// All categories, retired ones are listed only to admins
+router.get(
+  '/',
+  RateLimiting.generalAPI,
+  UserManagment.authTokenOptional,
+  async (req: any, res: any) => {
+    const includeInactive = req.query.all == 'true';
+    const user = req.user;
+
+    // Check for permissions
+    if (
+      includeInactive &&
+      !(await UserManagment.checkPermission(req.account, 'category.manage'))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Categories.getCategories(includeInactive);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Create
+router.post(
+  '/',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('category.manage'),
+  async (req: any, res: any) => {
+    // Fetch the result and return it
+    const result = await Categories.createCategory(req.body);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Edit or rename
+router.patch(
+  '/:slug',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('category.manage'),
+  async (req: any, res: any) => {
+    const slug = req.params.slug;
+
+    // Fetch the result and return it
+    const result = await Categories.updateCategory(slug, req.body);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Retire, the articles are moved to the moveTo category
+router.delete(
+  '/:slug',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('category.manage'),
+  async (req: any, res: any) => {
+    const slug = req.params.slug;
+    const moveTo = req.query.moveTo;
+
+    // Fetch the result and return it
+    const result = await Categories.retireCategory(slug, moveTo);
+    return res.status(result.status).send(result);
+  }
+);
+
+export default router;
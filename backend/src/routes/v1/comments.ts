@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { Articles } from ':api/services/articles';
+import { Comments } from ':api/services/comments';
+import { RateLimiting } from ':api/services/rateLimiting';
+import { UserManagment } from ':api/services/userManagment';
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const router = Router();
+
+// Comments of an article
+router.get('/', RateLimiting.generalAPI, async (req: any, res: any) => {
+  const articleId = req.query.articleId;
+  const sortBy = req.query.sortBy || 'newest';
+  const limit = Number(req.query.limit) || 10;
+  const page = Number(req.query.page) || 1;
+  const cursor = req.query.cursor;
+
+  // Validate sortBy parameter
+  let scanIndexForward = false;
+  if (sortBy === 'oldest') {
+    scanIndexForward = true;
+  } else if (sortBy != 'newest') {
+    return res
+      .status(400)
+      .send({ status: 400, response: { message: 'Invalid sortBy value' } });
+  }
+
+  // Fetch the result and return it
+  const result = await Comments.getComments(
+    articleId,
+    page,
+    limit,
+    scanIndexForward,
+    cursor
+  );
+  return res.status(result.status).send(result);
+});
+
+// Replies to a comment
+router.get('/replies', RateLimiting.generalAPI, async (req: any, res: any) => {
+  const articleId = req.query.articleId;
+  const parentId = req.query.parentId;
+  const limit = Number(req.query.limit) || 10;
+  const page = Number(req.query.page) || 1;
+  const cursor = req.query.cursor;
+
+  // Fetch the result and return it
+  const result = await Comments.getReplies(
+    articleId,
+    parentId,
+    page,
+    limit,
+    cursor
+  );
+  return res.status(result.status).send(result);
+});
+
+// Post
+router.post(
+  '/',
+  RateLimiting.comment,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.articleId;
+    const body = req.body.body;
+    const parentId = req.body.parentId;
+    const user = req.user;
+
+    // Only published articles can be discussed
+    const articleRequest = await Articles.getArticleMetadata(
+      articleId,
+      'ArticlesPublished'
+    );
+    if (articleRequest.status != 200) {
+      return res.status(articleRequest.status).send(articleRequest);
+    }
+
+    // Fetch the result and return it
+    const result = await Comments.createComment(
+      articleId,
+      user,
+      body,
+      parentId
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Edit
+router.put(
+  '/',
+  RateLimiting.comment,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.articleId;
+    const commentId = req.query.id;
+    const body = req.body.body;
+    const user = req.user;
+
+    // Fetch the result and return it
+    const result = await Comments.editComment(
+      articleId,
+      commentId,
+      user.Username,
+      body
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Delete
+router.delete(
+  '/',
+  RateLimiting.comment,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const articleId = req.query.articleId;
+    const commentId = req.query.id;
+    const user = req.user;
+
+    // Fetch the comment
+    const commentRequest = await Comments.getComment(articleId, commentId);
+    if (commentRequest.status != 200) {
+      return res.status(commentRequest.status).send(commentRequest);
+    }
+    const comment = commentRequest.response.return;
+    if (comment.Deleted) {
+      return res.status(404).send({
+        status: 404,
+        response: { message: 'comment not found' },
+      });
+    }
+
+    // Check if the user has permission to delete, moderators can remove any comment
+    if (
+      !(await UserManagment.checkUsername(
+        comment.Author,
+        req.account,
+        'comment.moderate'
+      ))
+    ) {
+      return res.status(403).send({
+        status: 403,
+        response: { message: 'permission denied' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await Comments.removeComment(
+      comment,
+      comment.Author == user.Username ? null : user.Username
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+export default router;
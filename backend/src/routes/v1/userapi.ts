@@ -2,7 +2,14 @@ import { Router } from 'express';
 
 import { UserManagment } from '../../services/userManagment';
 import { Articles } from ':api/services/articles';
+import { Audit } from ':api/services/audit';
+import { Likes } from ':api/services/likes';
+import { PasswordPolicy } from ':api/services/passwordPolicy';
 import { RateLimiting } from ':api/services/rateLimiting';
+import { Roles } from ':api/services/roles';
+import { Rotation, Sessions } from ':api/services/sessions';
+import { Settings } from ':api/services/settings';
+import { TwoFactor } from ':api/services/twoFactor';
 import jwt from 'jsonwebtoken';
 
 import dotenv from 'dotenv';
@@ -10,6 +17,46 @@ dotenv.config();
 
 const router = Router();
 
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'none' as const,
+  secure: process.env.STATE == 'PRODUCTION',
+  domain: '.projectcatalog.click',
+};
+
+// Sets the refresh token cookie, it lives as long as the session
+const setRefreshCookie = (res: any, refreshToken: string) => {
+  res.cookie('refresh', refreshToken, {
+    ...cookieOptions,
+    maxAge: 3 * 24 * 60 * 60 * 1000,
+  });
+};
+
+// Sends the response of signing in, with the tokens as cookies. Without
+// tokens the user still has to enter a two-factor code.
+const sendSignIn = (res: any, response: any) => {
+  if (response.status != 200 || !response.response.accessToken) {
+    return res.status(response.status).send(response);
+  }
+
+  // Send the token as a cookie and return the user object
+  setRefreshCookie(res, response.response.refreshToken);
+  delete response.response.refreshToken;
+  res.cookie('token', response.response.accessToken, {
+    ...cookieOptions,
+    maxAge: 30 * 60 * 1000,
+  });
+  delete response.response.accessToken;
+
+  return res.status(response.status).send(response);
+};
+
+// Removes the cookies of a signed in user
+const clearAuthCookies = (res: any) => {
+  res.clearCookie('refresh', cookieOptions);
+  res.clearCookie('token', cookieOptions);
+};
+
 router.post('/sign-up', RateLimiting.register, async (req, res) => {
   const username = req.body.username;
   const password = req.body.password;
@@ -26,6 +73,13 @@ router.post('/sign-up', RateLimiting.register, async (req, res) => {
   return res.status(response.status).send(response);
 });
 
+router.get('/password-policy', async (req, res) => {
+  // Return the policy, checked by the strength meter of the frontend
+  return res
+    .status(200)
+    .send({ status: 200, response: { policy: PasswordPolicy.getPolicy() } });
+});
+
 router.post('/sign-in', RateLimiting.login, async (req, res) => {
   const username = req.body.username;
   const password = req.body.password;
@@ -36,30 +90,30 @@ router.post('/sign-in', RateLimiting.login, async (req, res) => {
       response: { message: 'username or password is missing' },
     });
   }
-  const response = await UserManagment.verifyUser(username, password);
-  if (response.status != 200) {
-    res.status(response.status).send(response);
-  }
+  const response = await UserManagment.verifyUser(
+    username,
+    password,
+    req.get('User-Agent') || ''
+  );
+  return sendSignIn(res, response);
+});
 
-  // Send the token as a cookie and return the user object
-  res.cookie('refresh', response.response.refreshToken!, {
-    httpOnly: true,
-    sameSite: 'none',
-    secure: process.env.STATE == 'PRODUCTION',
-    domain: '.projectcatalog.click',
-    maxAge: 3 * 24 * 60 * 60 * 1000,
-  });
-  delete response.response.refreshToken;
-  res.cookie('token', response.response.accessToken!, {
-    httpOnly: true,
-    sameSite: 'none',
-    secure: process.env.STATE == 'PRODUCTION',
-    domain: '.projectcatalog.click',
-    maxAge: 30 * 60 * 1000,
-  });
-  delete response.response.accessToken;
+// Second step of signing in with two-factor authentication
+router.post('/sign-in/2fa', RateLimiting.login, async (req, res) => {
+  const { challenge, code } = req.body;
 
-  return res.status(response.status).send(response);
+  if (!challenge || !code) {
+    return res.status(400).send({
+      status: 400,
+      response: { message: 'challenge or code is missing' },
+    });
+  }
+  const response = await UserManagment.verifyTwoFactor(
+    challenge,
+    code,
+    req.get('User-Agent') || ''
+  );
+  return sendSignIn(res, response);
 });
 
 router.post(
@@ -76,7 +130,9 @@ router.post(
       });
     }
 
-    if (!UserManagment.checkUsername(Username, req.user)) {
+    if (
+      !(await UserManagment.checkUsername(Username, req.account, 'user.manage'))
+    ) {
       return res.status(400).send({
         status: 404,
         response: { message: 'permission denied' },
@@ -123,7 +179,7 @@ router.get(
     jwt.verify(
       refreshToken,
       process.env.JWT_REFRESH_KEY || 'default',
-      (err: any, user: any) => {
+      async (err: any, user: any) => {
         // Check for errors
         if (err) {
           if (err.name === 'TokenExpiredError') {
@@ -138,10 +194,49 @@ router.get(
           });
         }
 
-        // Create a new access token from the refresh token
-        delete user.exp;
-        delete user.iat;
-        const token = UserManagment.getAccessJWT(user);
+        // Create a new access token from the current user, so changes of
+        // the roles reach the claims
+        const currentUser = await UserManagment.getUser(user.Username);
+        if (!currentUser) {
+          return res.status(403).send({
+            status: 403,
+            response: { message: 'invalid token' },
+          });
+        }
+        const suspension = await UserManagment.getActiveSuspension(currentUser);
+        if (suspension) {
+          const result = UserManagment.getSuspendedResponse(suspension);
+          return res.status(result.status).send(result);
+        }
+
+        // Every refresh token can be used once, it is replaced by a new one
+        let rotation: Rotation;
+        try {
+          rotation = user.Session
+            ? await Sessions.rotate(user.Session, user.Username, user.Rotation)
+            : { result: 'ended' };
+        } catch (err) {
+          console.error('Error rotating the session:', err);
+          return res
+            .status(500)
+            .send({ status: 500, response: { message: 'server error' } });
+        }
+        if (rotation.result == 'ended') {
+          clearAuthCookies(res);
+          return res.status(401).send({
+            status: 401,
+            response: { message: 'session ended' },
+          });
+        }
+
+        const claims = UserManagment.getClaims(currentUser);
+        const token = UserManagment.getAccessJWT(claims);
+        if (rotation.result == 'rotated') {
+          setRefreshCookie(
+            res,
+            UserManagment.getRefreshJWT(claims, user.Session, rotation.rotation)
+          );
+        }
 
         // Return the cookie and the new user object
         res.cookie('token', token, {
@@ -161,12 +256,253 @@ router.get(
   }
 );
 
+// Sign out, ends the session of the refresh token
+router.post('/logout', RateLimiting.generalAPI, async (req: any, res: any) => {
+  const refresh = UserManagment.verifyRefreshJWT(req.cookies.refresh, true);
+  if (refresh) {
+    await Sessions.endSession(refresh.Username, refresh.Session);
+  }
+
+  clearAuthCookies(res);
+  return res
+    .status(200)
+    .send({ status: 200, response: { message: 'signed out' } });
+});
+
+// Sessions of the user
+router.get(
+  '/sessions',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    const refresh = UserManagment.verifyRefreshJWT(req.cookies.refresh);
+
+    // Fetch the result and return it
+    const result = await Sessions.listSessions(
+      req.user.Username,
+      refresh?.Session
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// End a session, or all of them without an id
+router.delete(
+  '/sessions',
+  RateLimiting.accountDataChange,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    const id = req.query.id;
+    if (id != undefined && typeof id != 'string') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'invalid session id' },
+      });
+    }
+
+    const refresh = UserManagment.verifyRefreshJWT(req.cookies.refresh);
+    const result = id
+      ? await Sessions.endSession(req.user.Username, id)
+      : await Sessions.endAllSessions(req.user.Username);
+
+    if (result.status == 200 && (!id || id == refresh?.Session)) {
+      clearAuthCookies(res);
+    }
+    return res.status(result.status).send(result);
+  }
+);
+
+// Two-factor state of the user
+router.get(
+  '/2fa',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    // Fetch the result and return it
+    const result = await TwoFactor.getStatus(req.user.Username);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Start the two-factor enrollment
+router.post(
+  '/2fa/setup',
+  RateLimiting.accountDataChange,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    // Fetch the result and return it
+    const result = await TwoFactor.setup(req.user.Username);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Enable two-factor authentication with the first code
+router.post(
+  '/2fa/enable',
+  RateLimiting.accountDataChange,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    if (!req.body.code) {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'missing code' } });
+    }
+
+    // Fetch the result and return it
+    const result = await TwoFactor.enable(req.user.Username, req.body.code);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Turn two-factor authentication off
+router.post(
+  '/2fa/disable',
+  RateLimiting.accountDataChange,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    const { password, code } = req.body;
+    if (!password || !code) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'password or code is missing' },
+      });
+    }
+
+    // Fetch the result and return it
+    const result = await TwoFactor.disable(req.user.Username, password, code);
+    return res.status(result.status).send(result);
+  }
+);
+
+// Replace the recovery codes
+router.post(
+  '/2fa/recovery-codes',
+  RateLimiting.accountDataChange,
+  UserManagment.authenticateToken(false),
+  async (req: any, res: any) => {
+    if (!req.body.code) {
+      return res
+        .status(400)
+        .send({ status: 400, response: { message: 'missing code' } });
+    }
+
+    // Fetch the result and return it
+    const result = await TwoFactor.regenerateRecoveryCodes(
+      req.user.Username,
+      req.body.code
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Roles that require two-factor authentication
+router.get(
+  '/roles/two-factor',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('role.manage'),
+  async (req: any, res: any) => {
+    try {
+      const roles = await Settings.getTwoFactorRoles();
+      return res.status(200).send({ status: 200, response: { roles } });
+    } catch (err) {
+      console.error('Error reading the settings:', err);
+      return res
+        .status(500)
+        .send({ status: 500, response: { message: 'server error' } });
+    }
+  }
+);
+
+// Change the roles that require two-factor authentication
+router.put(
+  '/roles/two-factor',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('role.manage'),
+  async (req: any, res: any) => {
+    // Fetch the result and return it
+    const result = await TwoFactor.setRequiredRoles(
+      req.account,
+      req.body.roles
+    );
+    return res.status(result.status).send(result);
+  }
+);
+
+// Roles and the permissions they give
+router.get(
+  '/roles',
+  RateLimiting.generalAPI,
+  UserManagment.requirePermission('role.manage'),
+  async (req: any, res: any) => {
+    return res
+      .status(200)
+      .send({ status: 200, response: { return: Roles.getDefinitions() } });
+  }
+);
+
+// Grant a role
+router.post(
+  '/roles',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('role.manage'),
+  async (req: any, res: any) => {
+    const { username, role } = req.body;
+
+    if (!username || !role) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'username or role is missing' },
+      });
+    }
+
+    const result = await UserManagment.changeRole(username, role, true);
+    if (result.status == 200) {
+      await Audit.record(req.user.Username, 'role.grant', username, { role });
+    }
+    return res.status(result.status).send(result);
+  }
+);
+
+// Revoke a role
+router.delete(
+  '/roles',
+  RateLimiting.accountDataChange,
+  UserManagment.requirePermission('role.manage'),
+  async (req: any, res: any) => {
+    const username = req.query.username;
+    const role = req.query.role;
+    const user = req.user;
+
+    if (!username || !role) {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'username or role is missing' },
+      });
+    }
+
+    // Admins cannot lock themselves out
+    if (username == user.Username && role == 'admin') {
+      return res.status(400).send({
+        status: 400,
+        response: { message: 'cannot revoke your own admin role' },
+      });
+    }
+
+    const result = await UserManagment.changeRole(username, role, false);
+    if (result.status == 200) {
+      await Audit.record(user.Username, 'role.revoke', username, { role });
+    }
+    return res.status(result.status).send(result);
+  }
+);
+
 router.post(
   '/like',
   RateLimiting.like,
   UserManagment.authenticateToken(),
   async (req: any, res: any) => {
     const articleId = req.body.articleId;
+    let liked = req.body.liked;
     const user = req.user;
 
     if (!articleId) {
@@ -174,33 +510,20 @@ router.post(
         .status(400)
         .send({ status: 400, response: { message: 'articleId not provided' } });
     }
-
-    const fullUserObject = (await UserManagment.getUser(user.Username)) || {};
-    try {
-      // Checks if fullUserObject.Liked includes the article id
-      if (fullUserObject.Liked.includes(articleId)) {
-        // Remove the id and decrement rating
-        fullUserObject.Liked = fullUserObject.Liked.filter(
-          (id: string) => id !== articleId
-        );
-        await Articles.decrementRating(articleId);
-      } else {
-        // Add id and increment like count
-        fullUserObject.Liked.push(articleId);
-        await Articles.incrementRating(articleId);
-      }
-    } catch (err) {
-      console.log(err);
+    if (liked != undefined && typeof liked != 'boolean') {
       return res
-        .status(500)
-        .send({ status: 500, response: { message: 'server error' } });
+        .status(400)
+        .send({ status: 400, response: { message: 'invalid liked value' } });
     }
 
-    const response = await UserManagment.updateUser(
-      user.Username,
-      'Liked',
-      fullUserObject.Liked
-    );
+    // Without an explicit state the like is toggled
+    if (liked == undefined) {
+      liked = !(await Likes.isLiked(user.Username, articleId));
+    }
+
+    const response = liked
+      ? await Likes.likeArticle(user.Username, articleId)
+      : await Likes.unlikeArticle(user.Username, articleId);
     return res.status(response.status).send(response);
   }
 );
@@ -219,11 +542,54 @@ router.get(
         .send({ status: 400, response: { message: 'articleId not provided' } });
     }
 
-    const isLiked = await UserManagment.isLikedByUser(user.Username, articleId);
+    const isLiked = await Likes.isLiked(user.Username, articleId);
     return res.status(200).send({ status: 200, response: { result: isLiked } });
   }
 );
 
+router.get(
+  '/liked',
+  RateLimiting.generalAPI,
+  UserManagment.authenticateToken(),
+  async (req: any, res: any) => {
+    const limit = Number(req.query.limit) || 10;
+    const page = Number(req.query.page) || 1;
+    const cursor = req.query.cursor;
+    const user = req.user;
+
+    const result = await Likes.getLikedArticles(
+      user.Username,
+      page,
+      limit,
+      cursor
+    );
+    if (result.status != 200) {
+      return res.status(result.status).send(result);
+    }
+
+    // Attach the article to every like, skipping the ones that are gone
+    const items = await Promise.all(
+      result.response.return.map(async (like: any) => {
+        const articleRequest = await Articles.getArticleMetadata(
+          like.ArticleID,
+          'ArticlesPublished'
+        );
+        if (articleRequest.status != 200) {
+          return null;
+        }
+        return { ...articleRequest.response.return, LikedAt: like.LikedAt };
+      })
+    );
+    return res.status(200).send({
+      status: 200,
+      response: {
+        ...result.response,
+        return: items.filter((item) => item != null),
+      },
+    });
+  }
+);
+
 router.post(
   '/change-password',
   RateLimiting.accountDataChange,
@@ -241,10 +607,13 @@ router.post(
       });
     }
 
+    // The session of the request keeps running
+    const refresh = UserManagment.verifyRefreshJWT(req.cookies.refresh);
     const response = await UserManagment.changePassword(
       username,
       oldPassword,
-      newPassword
+      newPassword,
+      refresh?.Session
     );
     return res.status(response.status).send(response);
   }
@@ -367,13 +736,25 @@ router.post('/verify-email-change/:token', async (req: any, res: any) => {
   return res.status(response.status).send(response);
 });
 
+router.get(
+  '/password-reset/:code',
+  RateLimiting.accountDataChange,
+  async (req: any, res: any) => {
+    const code = req.params.code;
+
+    const result = await UserManagment.checkPasswordReset(code);
+    return res.status(result.status).send(result);
+  }
+);
+
 router.post(
   '/password-reset/:code',
   RateLimiting.accountDataChange,
   async (req: any, res: any) => {
     const code = req.params.code;
+    const { password } = req.body;
 
-    const result = await UserManagment.resetPassword(code);
+    const result = await UserManagment.resetPassword(code, password);
     return res.status(result.status).send(result);
   }
 );
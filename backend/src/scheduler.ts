@@ -0,0 +1,13 @@
+import { Articles } from './services/articles';
+
+// Publishes the scheduled articles that are due, run by a schedule event of
+// serverless.yml. Locally `npm run publish-scheduled` does the same.
+export const handler = async () => {
+  const report = await Articles.publishDueArticles();
+  if (report.published.length > 0 || report.failed.length > 0) {
+    console.log(
+      `Published ${report.published.length} scheduled articles, ${report.failed.length} failed`
+    );
+  }
+  return report;
+};
@@ -57,19 +57,18 @@ export class Email {
     return await this.sendEmail(
       email,
       'Password Reset Request',
-      `Hello ${username},\n\nYou can reset your password by clicking this link: ${process.env.FRONTEND_URL}/password-reset/${code}\n\nThis link will expire in 6 hours.\n\nIf you did not request a password reset, please ignore this email.`
+      `Hello ${username},\n\nYou can reset your password by clicking this link: ${process.env.FRONTEND_URL}/password-reset/${code}\n\nThis link will expire in 1 hour and works once.\n\nIf you did not request a password reset, please ignore this email.`
     );
   }
 
-  public static async sendNewPasswordEmail(
+  public static async sendPasswordChangedEmail(
     email: string,
-    username: string,
-    newPassword: string
+    username: string
   ): Promise<boolean> {
     return await this.sendEmail(
       email,
-      'Your New Password',
-      `Hello ${username},\n\nYour password has been reset. Your new password is: ${newPassword}\n\nPlease log in and change your password immediately to ensure your account's security.\n\nIf you did not request a password reset, please contact our support team immediately.`
+      'Your Password Was Changed',
+      `Hello ${username},\n\nThe password of your Project Catalog account has been reset and all devices have been signed out.\n\nIf you did not reset your password, please contact our support team immediately.`
     );
   }
 
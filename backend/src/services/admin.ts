@@ -0,0 +1,298 @@
+import { Articles } from './articles';
+import { Audit } from './audit';
+import { Helper } from './helper';
+import { InvalidCursorError } from './pagination';
+import { Roles } from './roles';
+import { TwoFactor } from './twoFactor';
+import { Suspension, UserManagment } from './userManagment';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Account management for the users with the user.manage permission. Every
+// change is recorded in the audit trail under the name of the admin.
+export class Admin {
+  private static PAGE_SIZE: Readonly<number> = 25;
+  private static MAX_REASON_LENGTH: Readonly<number> = 500;
+
+  /**
+   * Returns a page of the users, newest accounts first, with the number of
+   * all users matching the search
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} [search] - only users whose username or email contains it
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async listUsers(
+    search?: string,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    if (search != undefined && typeof search != 'string') {
+      return { status: 400, response: { message: 'invalid search value' } };
+    }
+
+    try {
+      const page = await UserManagment.listUsers(
+        this.PAGE_SIZE,
+        search || undefined,
+        cursor
+      );
+      return {
+        status: 200,
+        response: {
+          return: page.items.map((user) => this.getAccount(user)),
+          cursor: page.cursor,
+          hasMore: page.hasMore,
+          total: page.total,
+        },
+      };
+    } catch (err: any) {
+      if (err instanceof InvalidCursorError) {
+        return { status: 400, response: { message: 'invalid cursor' } };
+      }
+      console.error('Unable to list the users. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns the account of a user with the number of their articles
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getUser(username: string): Promise<ApiResponse> {
+    try {
+      const user = await UserManagment.getUser(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+
+      const articles = await Articles.countArticlesByUser(username);
+      return {
+        status: 200,
+        response: {
+          return: {
+            ...this.getAccount(user),
+            PublishedArticles: articles.published,
+            UnpublishedArticles: articles.unpublished,
+          },
+        },
+      };
+    } catch (err: any) {
+      console.error('Unable to fetch the user. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Lets a user post articles or stops them, by granting or revoking the
+   * author role
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} actor - username of the admin
+   * @param {string} username - username of the user
+   * @param {boolean} canPost - whether the user can post
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async setCanPost(
+    actor: string,
+    username: string,
+    canPost: boolean
+  ): Promise<ApiResponse> {
+    if (typeof canPost != 'boolean') {
+      return { status: 400, response: { message: 'invalid canPost value' } };
+    }
+
+    const result = await UserManagment.changeRole(username, 'author', canPost);
+    if (result.status == 200) {
+      await Audit.record(actor, 'user.canPost', username, { canPost });
+    }
+    return result;
+  }
+
+  /**
+   * Makes a user verify their email address again
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} actor - username of the admin
+   * @param {string} username - username of the user
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async requireVerification(
+    actor: string,
+    username: string
+  ): Promise<ApiResponse> {
+    const result = await UserManagment.requestVerification(username);
+    if (result.status == 200) {
+      await Audit.record(actor, 'user.verification', username);
+    }
+    return result;
+  }
+
+  /**
+   * Suspends an account until a date, or bans it when there is no date
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} actor - username of the admin
+   * @param {string} username - username of the user
+   * @param {string} reason - reason shown to the user
+   * @param {(number | null)} [until] - UNIX timestamp of the end, none for a ban
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async suspendUser(
+    actor: string,
+    username: string,
+    reason: string,
+    until?: number | null
+  ): Promise<ApiResponse> {
+    if (actor == username) {
+      return {
+        status: 400,
+        response: { message: 'you cannot suspend your own account' },
+      };
+    }
+    const error = this.validateReason(reason);
+    if (error) {
+      return { status: 400, response: { message: error } };
+    }
+    const now = Helper.getUNIXTimestamp();
+    if (
+      until != undefined &&
+      (!Number.isInteger(until) || (until as number) <= now)
+    ) {
+      return { status: 400, response: { message: 'invalid until value' } };
+    }
+
+    const suspension: Suspension = {
+      Reason: reason.trim(),
+      Until: until ?? null,
+      By: actor,
+      Since: now,
+    };
+    const result = await UserManagment.setSuspension(username, suspension);
+    if (result.status == 200) {
+      await Audit.record(
+        actor,
+        suspension.Until ? 'user.suspend' : 'user.ban',
+        username,
+        { reason: suspension.Reason, until: suspension.Until }
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Lifts the suspension or the ban of an account
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} actor - username of the admin
+   * @param {string} username - username of the user
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async reinstateUser(
+    actor: string,
+    username: string
+  ): Promise<ApiResponse> {
+    const result = await UserManagment.setSuspension(username, null);
+    if (result.status == 200) {
+      await Audit.record(actor, 'user.reinstate', username);
+    }
+    return result;
+  }
+
+  /**
+   * Deletes an account with all of its content, without the password of
+   * the user
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} actor - username of the admin
+   * @param {string} username - username of the user
+   * @param {string} reason - why the account was deleted, kept in the audit trail
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async deleteUser(
+    actor: string,
+    username: string,
+    reason: string
+  ): Promise<ApiResponse> {
+    if (actor == username) {
+      return {
+        status: 400,
+        response: { message: 'you cannot delete your own account here' },
+      };
+    }
+    const error = this.validateReason(reason);
+    if (error) {
+      return { status: 400, response: { message: error } };
+    }
+
+    const result = await UserManagment.removeUserAccount(username);
+    if (result.status == 200) {
+      await Audit.record(actor, 'user.delete', username, {
+        reason: reason.trim(),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Returns the fields of a user object an admin can see
+   *
+   * @private
+   * @static
+   * @param {*} user - user object
+   * @returns {*}
+   */
+  private static getAccount(user: any) {
+    return {
+      Username: user.Username,
+      Email: user.Email,
+      Roles: Roles.getRoles(user),
+      Verified: user.Verified,
+      ProfilePic: user.ProfilePic,
+      AccountCreated: user.AccountCreated,
+      Suspension: user.Suspension ?? null,
+      TwoFactor: TwoFactor.isEnabled(user),
+    };
+  }
+
+  /**
+   * Validates the reason of an action
+   *
+   * @private
+   * @static
+   * @param {*} reason - reason from the request
+   * @returns {(string | null)} - error message or null if the reason is valid
+   */
+  private static validateReason(reason: any): string | null {
+    if (
+      typeof reason != 'string' ||
+      !reason.trim() ||
+      reason.length > this.MAX_REASON_LENGTH
+    ) {
+      return `invalid reason - 1 to ${this.MAX_REASON_LENGTH} characters required`;
+    }
+    return null;
+  }
+}
@@ -1,21 +1,19 @@
 import {
-  GetItemCommand,
-  PutItemCommand,
-  PutItemCommandInput,
-  DeleteItemCommand,
-  UpdateItemCommand,
-  UpdateItemCommandInput,
-  QueryCommandInput,
-  BatchWriteItemCommandInput,
-  BatchWriteItemCommand,
-  QueryCommand,
-  ReturnValue,
-} from '@aws-sdk/client-dynamodb';
-
-import { client } from './dynamodb';
-import { S3 } from './s3';
-
-import { unmarshall, marshall } from '@aws-sdk/util-dynamodb';
+  ArticleQuery,
+  ArticleRepository,
+} from '../repositories/articleRepository';
+import { DynamoArticleRepository } from '../repositories/dynamoArticleRepository';
+import { Storage } from './storage';
+import { Search } from './search';
+import { Revisions } from './revisions';
+import { Reviews } from './reviews';
+import { Media } from './media';
+import { Attachments } from './attachments';
+import { Formulas } from './formulas';
+import { Steps } from './steps';
+import { Comments } from './comments';
+import { Likes } from './likes';
+import { InvalidCursorError, Pagination } from './pagination';
 
 import { v4 as uuidv4 } from 'uuid';
 import { Helper } from './helper';
@@ -37,7 +35,16 @@ interface ApiResponse {
 }
 
 type TableReturn = Table | false;
+
+export interface RepairReport {
+  id: string;
+  // What was wrong with the article and what was done about it
+  problems: string[];
+}
+
 export class Articles {
+  private static repository: ArticleRepository = new DynamoArticleRepository();
+
   // Article schema for each table
   private static TABLE_NAMES: Readonly<Table[]> = [
     {
@@ -55,6 +62,8 @@ export class Articles {
         UpdatedAt: { value: 0, required: false },
         PublishedAt: { value: 0, required: false },
         Image: { value: '', required: false },
+        Format: { value: '', required: false },
+        StepCount: { value: 0, required: false },
       },
     },
     {
@@ -71,10 +80,24 @@ export class Articles {
         UpdatedAt: { value: 0, required: false },
         Image: { value: '', required: false },
         Status: { value: '', required: false },
+        PublishedAt: { value: 0, required: false },
+        Format: { value: '', required: false },
+        StepCount: { value: 0, required: false },
       },
     },
   ];
 
+  /**
+   * Replaces the article repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {ArticleRepository} repository - article repository
+   */
+  public static useRepository(repository: ArticleRepository) {
+    this.repository = repository;
+  }
+
   /**
    * Finds a table schema from its name
    *
@@ -135,7 +158,7 @@ export class Articles {
   }
 
   /**
-   * Fetches an article from S3 and returns it
+   * Fetches an article from the storage and returns it
    *
    * @public
    * @static
@@ -169,11 +192,18 @@ export class Articles {
 
     // Fetch and return article
     try {
-      const response = await S3.readFromS3(tableName, articleId);
+      const response = await Storage.readArticle(tableName, articleId);
       if (response == undefined) {
         return { status: 404, response: { message: 'item not found' } };
       }
 
+      // Step by step articles also come split into their steps
+      if (response.metadata.Format == 'steps') {
+        return {
+          status: 200,
+          response: { return: { ...response, ...Steps.parse(response.body) } },
+        };
+      }
       return { status: 200, response: { return: response } };
     } catch (err) {
       console.log(err);
@@ -214,21 +244,14 @@ export class Articles {
       };
     }
 
-    const params = {
-      TableName: tableName,
-      Key: {
-        ID: { S: articleId },
-      },
-    };
-
     // Fetch and return article metadata
     try {
-      const response = await client.send(new GetItemCommand(params));
-      if (!response.Item) {
+      const article = await this.repository.get(tableName, articleId);
+      if (!article) {
         return { status: 404, response: { message: 'item not found' } };
       }
 
-      return { status: 200, response: { return: unmarshall(response.Item) } };
+      return { status: 200, response: { return: article } };
     } catch (err) {
       console.log(err);
       return { status: 500, response: { message: 'server error' } };
@@ -236,7 +259,7 @@ export class Articles {
   }
 
   /**
-   * Creates an article and adds it to the database and S3
+   * Creates an article and adds it to the database and the storage
    *
    * @public
    * @static
@@ -267,67 +290,32 @@ export class Articles {
     if (typeof body !== 'string') {
       return { status: 400, response: { message: 'invalid body data type' } };
     }
-
-    // Adding attributes to the metadata
-    if (!Helper.isValidUUID(id)) {
-      metadata.ID = uuidv4();
-    } else {
-      metadata.ID = id;
-    }
-    const currentTime = Helper.getUNIXTimestamp();
-
-    // If added to ArticlesPublished
-    // Sets rating to zero
-    // Sets PublishedAt to current time if not provided
-    if (tableName == 'ArticlesPublished') {
-      if (metadata.PublishedAt == undefined) {
-        metadata.PublishedAt = currentTime;
-      }
-      metadata.Rating = 0;
-    }
-
-    // If added to ArticlesUnpublished
-    // Sets CreatedAt to current time if not provided
-    // Sets Status to private if not provided
-    if (tableName == 'ArticlesUnpublished') {
-      if (metadata.CreatedAt == undefined) {
-        metadata.CreatedAt = currentTime;
-      }
-      if (!metadata.Status || metadata.Status == '') {
-        metadata.Status = 'private';
-      }
-    }
-
-    // Sets UpdatedAt and Image to null if not provided
-    if (metadata.UpdatedAt == undefined) {
-      metadata.UpdatedAt = null;
-    }
-    if (metadata.AuthorProfilePic == undefined) {
-      metadata.AuthorProfilePic =
-        'https://project-catalog-storage.s3.us-east-2.amazonaws.com/images/pfp.png';
-    }
-    if (metadata.Image == '' || metadata.Image == undefined) {
-      metadata.Image = null;
+    const invalidMath = Formulas.validate(body);
+    if (invalidMath) {
+      return invalidMath;
     }
 
-    // Adding the articles to the database
-    const params: PutItemCommandInput = {
-      TableName: tableName,
-      Item: marshall(metadata),
-    };
+    // Adding attributes to the metadata
+    this.addDefaults(tableName, metadata, id);
+    this.addStepCount(metadata, body);
 
     try {
       // Add metadata to the database
-      await client.send(new PutItemCommand(params));
+      await this.repository.put(tableName, metadata);
 
-      // Remove fields that are not meant to be added to S3
+      // Remove fields that are not meant to be added to the storage
       delete metadata.rating;
       delete metadata.AuthorProfilePic;
 
-      // Add the whole article to the S3
-      if (!(await S3.addToS3(tableName, metadata, body))) {
+      // Add the whole article to the storage
+      if (!(await Storage.addArticle(tableName, metadata, body))) {
         return { status: 500, response: { message: 'server error' } };
       }
+
+      // Make published articles searchable
+      if (tableName == 'ArticlesPublished') {
+        await Search.indexArticle(metadata, body);
+      }
       return {
         status: 200,
         response: { message: 'item added succesfully', id: metadata.ID },
@@ -355,65 +343,66 @@ export class Articles {
       return { status: 400, response: { message: 'invalid id format' } };
     }
 
-    // Fetch the article metadata from the database
-    const metadataResp = await this.getArticleMetadata(
+    const moveResponse = await this.moveArticle(
       id,
-      'ArticlesUnpublished'
+      'ArticlesUnpublished',
+      'ArticlesPublished',
+      ['Status']
     );
-    if (metadataResp.status != 200) {
-      return metadataResp;
-    }
-
-    // Fetch the whole article from the S3
-    const bodyResp = await this.getArticle(id, 'ArticlesUnpublished');
-    if (bodyResp.status != 200) {
-      return bodyResp;
+    if (moveResponse.status != 200) {
+      return moveResponse;
     }
 
-    // Combine the metadata from the database with the body from the S3 into a new object
-    const getRespItems = {
-      body: bodyResp.response.return.body,
-      metadata: metadataResp.response.return,
-    };
-
-    // Remove fields that are not needed
-    delete getRespItems.metadata.ID;
-    delete getRespItems.metadata.Status;
+    return { status: 200, response: { message: 'item published succesfully' } };
+  }
 
-    // Create the article in the ArticlesPublished table
-    const addResponse = await this.createArticle(
-      'ArticlesPublished',
-      getRespItems.metadata,
-      getRespItems.body,
-      id
-    );
-    if (addResponse.status != 200) {
-      return addResponse;
+  /**
+   * Moves an article from ArticlesPublished to ArticlesUnpublished
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - id of the article that will be moved
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async hideArticle(id: string): Promise<ApiResponse> {
+    // Validations
+    if (typeof id !== 'string') {
+      return { status: 400, response: { message: 'invalid id data type' } };
+    }
+    if (!Helper.isValidUUID(id)) {
+      return { status: 400, response: { message: 'invalid id format' } };
     }
 
-    // Remove the article from ArticlesUnpublished
-    const removeResponse = await this.removeArticle(
-      'ArticlesUnpublished',
+    const moveResponse = await this.moveArticle(
       id,
-      false
+      'ArticlesPublished',
+      'ArticlesUnpublished',
+      ['PublishedAt', 'Rating']
     );
-    if (removeResponse.status != 200) {
-      return removeResponse;
+    if (moveResponse.status != 200) {
+      return moveResponse;
     }
 
-    return { status: 200, response: { message: 'item published succesfully' } };
+    return { status: 200, response: { message: 'item hidden succesfully' } };
   }
 
   /**
-   * Moves an article from ArticlesPublished to ArticlesUnpublished
+   * Approves an article to be published later. It stays private with the
+   * scheduled status and its future PublishedAt until publishDueArticles
+   * publishes it.
    *
    * @public
    * @static
    * @async
-   * @param {string} id - id of the article that will be moved
+   * @param {string} id - id of the article
+   * @param {*} publishAt - UNIX timestamp of the publication
    * @returns {Promise<ApiResponse>} - api response
    */
-  public static async hideArticle(id: string): Promise<ApiResponse> {
+  public static async scheduleArticle(
+    id: string,
+    publishAt: any
+  ): Promise<ApiResponse> {
     // Validations
     if (typeof id !== 'string') {
       return { status: 400, response: { message: 'invalid id data type' } };
@@ -421,69 +410,337 @@ export class Articles {
     if (!Helper.isValidUUID(id)) {
       return { status: 400, response: { message: 'invalid id format' } };
     }
+    if (
+      !Number.isInteger(publishAt) ||
+      publishAt <= Helper.getUNIXTimestamp()
+    ) {
+      return {
+        status: 400,
+        response: { message: 'publishAt must be a future UNIX timestamp' },
+      };
+    }
+
+    try {
+      const updated = await this.repository.update('ArticlesUnpublished', id, {
+        Status: 'scheduled',
+        PublishedAt: publishAt,
+      });
+      if (!updated) {
+        return { status: 404, response: { message: 'item not found' } };
+      }
+
+      return {
+        status: 200,
+        response: { message: 'item scheduled succesfully', publishAt },
+      };
+    } catch (err) {
+      console.error(`Error scheduling article ${id}:`, err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Takes an article out of the schedule and gives it back to its author
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - id of the article
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async unscheduleArticle(id: string): Promise<ApiResponse> {
+    const metadataResp = await this.getArticleMetadata(
+      id,
+      'ArticlesUnpublished'
+    );
+    if (metadataResp.status != 200) {
+      return metadataResp;
+    }
+
+    const { PublishedAt, ...article } = metadataResp.response.return;
+    if (article.Status != 'scheduled') {
+      return {
+        status: 400,
+        response: { message: 'article is not scheduled' },
+      };
+    }
+    article.Status = 'private';
+
+    try {
+      if (!(await this.repository.replace('ArticlesUnpublished', article))) {
+        return { status: 404, response: { message: 'item not found' } };
+      }
+      return {
+        status: 200,
+        response: { message: 'item unscheduled succesfully' },
+      };
+    } catch (err) {
+      console.error(`Error unscheduling article ${id}:`, err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Fetches the scheduled articles, the earliest publication first
+   *
+   * @public
+   * @static
+   * @async
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getScheduledArticles(): Promise<ApiResponse> {
+    try {
+      const articles = await this.repository.queryAll('ArticlesUnpublished', {
+        index: 'StatusPublished',
+        key: { Status: 'scheduled' },
+        forward: true,
+      });
+      return { status: 200, response: { return: articles } };
+    } catch (err) {
+      console.error('Error fetching the scheduled articles:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Publishes the scheduled articles whose time has come, used by the
+   * scheduler. An article that fails stays scheduled and is retried on the
+   * next run.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {number} [now] - UNIX timestamp to publish the articles up to
+   * @returns {Promise<{ published: string[]; failed: string[] }>}
+   */
+  public static async publishDueArticles(
+    now: number = Helper.getUNIXTimestamp()
+  ): Promise<{ published: string[]; failed: string[] }> {
+    const report = { published: [] as string[], failed: [] as string[] };
+
+    const scheduled = await this.getScheduledArticles();
+    if (scheduled.status != 200) {
+      return report;
+    }
+
+    for (const article of scheduled.response.return) {
+      // The articles come in the order of their publication
+      if (article.PublishedAt > now) {
+        break;
+      }
+
+      const response = await this.publishArticle(article.ID);
+      if (response.status == 200) {
+        report.published.push(article.ID);
+      } else {
+        console.error(
+          `Error publishing scheduled article ${article.ID}:`,
+          response.response.message
+        );
+        report.failed.push(article.ID);
+      }
+    }
+    return report;
+  }
 
+  /**
+   * Moves an article between the tables. The markdown is written to its new
+   * key first, then the metadata is moved in one transaction, then the old
+   * markdown is removed. If the transaction does not go through, the new
+   * markdown is removed again. A failure after it only leaves the old
+   * markdown behind, see src/tools/articles-repair.ts.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} id - article id
+   * @param {string} fromTable - table the article is in
+   * @param {string} toTable - table the article is moved to
+   * @param {string[]} dropFields - fields the new table does not have
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  private static async moveArticle(
+    id: string,
+    fromTable: string,
+    toTable: string,
+    dropFields: string[]
+  ): Promise<ApiResponse> {
     // Fetch the article metadata from the database
-    const metadataResp = await this.getArticleMetadata(id, 'ArticlesPublished');
+    const metadataResp = await this.getArticleMetadata(id, fromTable);
     if (metadataResp.status != 200) {
       return metadataResp;
     }
 
-    // Fetch the whole article from the S3
-    const bodyResp = await this.getArticle(id, 'ArticlesPublished');
+    // Fetch the whole article from the storage
+    const bodyResp = await this.getArticle(id, fromTable);
     if (bodyResp.status != 200) {
       return bodyResp;
     }
+    const body = bodyResp.response.return.body;
+
+    try {
+      // The markdown of an article in both tables belongs to the other copy
+      if ((await this.repository.get(toTable, id)) != null) {
+        return {
+          status: 409,
+          response: { message: 'article is in both tables' },
+        };
+      }
+
+      // Remove fields that are not needed
+      const current = metadataResp.response.return;
+      const metadata = { ...current };
+      for (const field of ['ID', 'AuthorSuspended', ...dropFields]) {
+        delete metadata[field];
+      }
+      this.addDefaults(toTable, metadata, id);
+      const frontMatter = this.toFrontMatter(metadata);
+      if (current.AuthorSuspended === true) {
+        metadata.AuthorSuspended = true;
+      }
+
+      // Writing the same markdown again on a retry is harmless
+      if (!(await Storage.addArticle(toTable, frontMatter, body))) {
+        return { status: 500, response: { message: 'server error' } };
+      }
+
+      let moved: boolean;
+      try {
+        moved = await this.repository.move(fromTable, toTable, metadata);
+      } catch (err) {
+        // The transaction may still have gone through
+        moved = (await this.repository.get(toTable, id)) != null;
+        if (!moved) {
+          throw err;
+        }
+      }
+      if (!moved) {
+        // The article was moved or removed in the meantime
+        await Storage.removeArticle(toTable, id);
+        return {
+          status: 409,
+          response: { message: 'article was changed, please try again' },
+        };
+      }
+
+      if (!(await Storage.removeArticle(fromTable, id))) {
+        console.error(`Leftover markdown ${fromTable}/${id}.md`);
+      }
+
+      // Only published articles are searchable, their rating goes with their likes
+      if (toTable == 'ArticlesPublished') {
+        await Search.indexArticle(metadata, body);
+      } else {
+        await Search.removeArticle(id);
+        await Likes.removeArticleLikes(id);
+      }
+      return { status: 200, response: { message: 'item moved succesfully' } };
+    } catch (err) {
+      console.error(`Error moving article ${id} to ${toTable}:`, err);
+      if ((await this.repository.get(toTable, id)) == null) {
+        await Storage.removeArticle(toTable, id);
+      }
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
 
-    // Combine the metadata from the database with the body from the S3 into a new object
-    const getRespItems = {
-      body: bodyResp.response.return.body,
-      metadata: metadataResp.response.return,
+  /**
+   * Finds and fixes the problems a failed move between the tables leaves
+   * behind, used by src/tools/articles-repair.ts. An article in both tables
+   * keeps the published copy, unless only the unpublished one has its
+   * markdown. Missing markdown is restored from the key of the other table.
+   * Markdown that is lost is only reported, it can be restored from a
+   * revision.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - article id
+   * @param {boolean} [dryRun=false] - only report the problems
+   * @returns {Promise<RepairReport>}
+   */
+  public static async repairArticle(
+    id: string,
+    dryRun: boolean = false
+  ): Promise<RepairReport> {
+    const published = 'ArticlesPublished';
+    const unpublished = 'ArticlesUnpublished';
+    const problems: string[] = [];
+    const other = (table: string) =>
+      table == published ? unpublished : published;
+
+    const metadata: Dictionary = {
+      [published]: await this.repository.get(published, id),
+      [unpublished]: await this.repository.get(unpublished, id),
+    };
+    const markdown: Dictionary = {
+      [published]: await Storage.hasArticle(published, id),
+      [unpublished]: await Storage.hasArticle(unpublished, id),
     };
 
-    // Remove fields that are not needed
-    delete getRespItems.metadata.ID;
-    delete getRespItems.metadata.PublishedAt;
-    delete getRespItems.metadata.Rating;
+    if (!metadata[published] && !metadata[unpublished]) {
+      problems.push('no metadata in either table');
+      return { id, problems };
+    }
 
-    // Create the article in the ArticlesUnpublished table
-    const addResponse = await this.createArticle(
-      'ArticlesUnpublished',
-      getRespItems.metadata,
-      getRespItems.body,
-      id
-    );
-    if (addResponse.status != 200) {
-      return addResponse;
+    // Keep one copy of an article in both tables
+    let table = metadata[published] ? published : unpublished;
+    if (metadata[published] && metadata[unpublished]) {
+      if (!markdown[published] && markdown[unpublished]) {
+        table = unpublished;
+      }
+      problems.push(`in both tables, keeping the one in ${table}`);
+      if (!dryRun) {
+        await this.repository.delete(other(table), id);
+        if (table == unpublished) {
+          await Search.removeArticle(id);
+          await Likes.removeArticleLikes(id);
+        }
+      }
     }
 
-    // Remove the article from ArticlesPublished
-    const removeResponse = await this.removeArticle(
-      'ArticlesPublished',
-      id,
-      false
-    );
-    if (removeResponse.status != 200) {
-      return removeResponse;
+    if (!markdown[table]) {
+      if (!markdown[other(table)]) {
+        problems.push(`markdown ${table}/${id}.md is missing`);
+        return { id, problems };
+      }
+      problems.push(`markdown restored from ${other(table)}/${id}.md`);
+      if (!dryRun) {
+        const article = await Storage.readArticle(other(table), id);
+        const frontMatter = this.toFrontMatter(metadata[table]);
+        if (
+          !article ||
+          !(await Storage.addArticle(table, frontMatter, article.body))
+        ) {
+          problems.push('could not restore the markdown');
+          return { id, problems };
+        }
+      }
     }
 
-    return { status: 200, response: { message: 'item hidden succesfully' } };
+    if (markdown[other(table)]) {
+      problems.push(`leftover markdown ${other(table)}/${id}.md removed`);
+      if (!dryRun) {
+        await Storage.removeArticle(other(table), id);
+      }
+    }
+
+    return { id, problems };
   }
 
   /**
-   * Removes an article from a table and S3
+   * Removes an article from a table and the storage
    *
    * @public
    * @static
    * @async
    * @param {string} tableName - name of the table the article will be removed from
    * @param {string} id - id of the article for removal
-   * @param {boolean} [removeImage=true] - value that determines if the image of the article will be removed from S3
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async removeArticle(
     tableName: string,
-    id: string,
-    removeImage: boolean = true
+    id: string
   ): Promise<ApiResponse> {
     const tableInfo: TableReturn = this.findTable(tableName);
 
@@ -498,38 +755,42 @@ export class Articles {
       return { status: 400, response: { message: 'invalid id format' } };
     }
 
-    const params = {
-      TableName: tableName,
-      Key: {
-        ID: { S: id },
-      },
-      ReturnValues: ReturnValue.ALL_OLD,
-    };
-
     try {
       // Remove article from the database
-      const response = await client.send(new DeleteItemCommand(params));
+      const returnItem = await this.repository.delete(tableName, id);
 
-      if (!response.Attributes) {
+      if (!returnItem) {
         return { status: 404, response: { message: 'item not found' } };
       }
 
-      // Remove article from S3
-      if (!(await S3.removeArticleFromS3(tableName, id))) {
+      // Remove article from the storage
+      if (!(await Storage.removeArticle(tableName, id))) {
         return { status: 500, response: { message: 'server error' } };
       }
 
-      const returnItem = unmarshall(response.Attributes);
+      // Remove article from the search index, its rating goes with its likes
+      if (tableName == 'ArticlesPublished') {
+        await Search.removeArticle(id);
+        await Likes.removeArticleLikes(id);
+      }
+
+      // Remove the history, comments, media and attachments of the article
+      await Revisions.removeRevisions(id);
+      await Reviews.removeReviews(id);
+      await Comments.removeArticleComments(id);
+      await Media.removeArticleMedia(id);
+      await Attachments.removeArticleAttachments(id);
+      await Steps.removeArticleProgress(id);
 
-      // remove the image from S3
-      if (removeImage && returnItem.Image != null) {
+      // remove the image from the storage
+      if (returnItem.Image != null) {
         // extract image uuid and remove it
         const regex =
           /[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/i;
         const match = returnItem.Image.match(regex);
         const imageId = match ? match[0] : null;
 
-        await S3.removeImageFromS3(imageId);
+        await Storage.removeImage(imageId);
       }
 
       return { status: 200, response: { message: 'item deleted succesfuly' } };
@@ -539,8 +800,8 @@ export class Articles {
   }
 
   /**
-   * Replace an article
-   * MIGHT NOT BE NEEDED
+   * Replaces the content of an article. The fields managed by the server
+   * (author, rating and dates) are kept from the stored article.
    *
    * @public
    * @static
@@ -570,6 +831,10 @@ export class Articles {
     if (typeof body !== 'string') {
       return { status: 400, response: { message: 'invalid body data type' } };
     }
+    const invalidMath = Formulas.validate(body);
+    if (invalidMath) {
+      return invalidMath;
+    }
 
     // Set the UpdatedAt field to current time
     metadata.UpdatedAt = Helper.getUNIXTimestamp();
@@ -580,22 +845,88 @@ export class Articles {
       return { status: 400, response: { message: 'invalid metadata format' } };
     }
 
-    // Remove the article
-    const removeResponse = await this.removeArticle(tableName, ID);
-    if (removeResponse.status != 200) {
-      return removeResponse;
+    // Fetch the stored article
+    const currentResponse = await this.getArticleMetadata(ID, tableName);
+    if (currentResponse.status != 200) {
+      return currentResponse;
     }
+    const current = currentResponse.response.return;
 
-    // Add the article
-    const addResponse = await this.createArticle(tableName, article, body, ID);
-    if (addResponse.status != 200) {
-      return addResponse;
+    article.Author = current.Author;
+    article.AuthorProfilePic = current.AuthorProfilePic;
+    article.CreatedAt = current.CreatedAt;
+    if (tableName == 'ArticlesPublished') {
+      article.Rating = current.Rating;
+      article.PublishedAt = current.PublishedAt;
+    } else {
+      // Changes after the approval need a new review, so an edited article
+      // leaves the schedule
+      delete article.PublishedAt;
+      if (article.Status == 'scheduled') {
+        article.Status = 'private';
+      }
+    }
+    this.addDefaults(tableName, article, ID);
+    this.addStepCount(article, body);
+    const frontMatter = this.toFrontMatter(article);
+    if (current.AuthorSuspended === true) {
+      article.AuthorSuspended = true;
     }
 
-    return { status: 200, response: { message: 'item eddited succesfully' } };
-  }
+    try {
+      // Overwrite the article in place, the previous version is kept as a
+      // revision. An article moved in the meantime is not added back.
+      if (!(await this.repository.replace(tableName, article))) {
+        return { status: 404, response: { message: 'item not found' } };
+      }
+      if (!(await Storage.addArticle(tableName, frontMatter, body))) {
+        await this.repository.replace(tableName, current);
+        return { status: 500, response: { message: 'server error' } };
+      }
 
-  /**
+      if (tableName == 'ArticlesPublished') {
+        await Search.indexArticle(article, body);
+      }
+    } catch (err) {
+      console.error(`Error updating article ${ID}:`, err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+
+    return { status: 200, response: { message: 'item eddited succesfully' } };
+  }
+
+  /**
+   * Finds the table an article is stored in
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - article id
+   * @returns {Promise<ApiResponse>} - api response with the table name and metadata
+   */
+  public static async locateArticle(id: string): Promise<ApiResponse> {
+    for (const table of this.TABLE_NAMES) {
+      const response = await this.getArticleMetadata(id, table.tableName);
+      if (response.status == 200) {
+        return {
+          status: 200,
+          response: {
+            return: {
+              tableName: table.tableName,
+              metadata: response.response.return,
+            },
+          },
+        };
+      }
+      if (response.status != 404) {
+        return response;
+      }
+    }
+
+    return { status: 404, response: { message: 'item not found' } };
+  }
+
+  /**
    * Changes the value of one field of the article
    *
    * @public
@@ -626,39 +957,53 @@ export class Articles {
       };
     }
 
+    if (itemKey == 'body') {
+      if (typeof itemValue !== 'string') {
+        return {
+          status: 400,
+          response: { message: 'invalid body data type' },
+        };
+      }
+      const invalidMath = Formulas.validate(itemValue);
+      if (invalidMath) {
+        return invalidMath;
+      }
+    }
+
     // Check if the key to change is stored only in the database
     const dbOnlyKeys = ['Rating', 'AuthorProfilePic'];
     const isDbOnly = dbOnlyKeys.includes(itemKey);
 
-    const params: UpdateItemCommandInput = {
-      TableName: tableName,
-      Key: {
-        ID: { S: id },
-      },
-      UpdateExpression: `set #prop = :value`,
-      ExpressionAttributeNames: {
-        '#prop': itemKey,
-      },
-      ExpressionAttributeValues: {
-        ':value': { S: itemValue },
-      },
-      ReturnValues: 'UPDATED_NEW',
-      ConditionExpression: 'attribute_exists(ID)',
-    };
-
     try {
+      // Changes after the approval need a new review, so a patched article
+      // leaves the schedule like an edited one
+      let unscheduled = false;
+      if (tableName == 'ArticlesUnpublished') {
+        const current = await this.repository.get(tableName, id);
+        if (current?.Status == 'scheduled') {
+          const { PublishedAt, ...article } = current;
+          article.Status = 'private';
+          if (!(await this.repository.replace(tableName, article))) {
+            return { status: 404, response: { message: 'item not found' } };
+          }
+          unscheduled = true;
+        }
+      }
+
       // Update the article in the database
       if (itemKey != 'body') {
-        const data = await client.send(new UpdateItemCommand(params));
+        const updated = await this.repository.update(tableName, id, {
+          [itemKey]: itemValue,
+        });
 
-        if (!data.Attributes) {
+        if (!updated) {
           return { status: 404, response: { message: 'item not found' } };
         }
       }
 
-      // Update the article in the S3
+      // Update the article in the storage
       if (!isDbOnly) {
-        let article = await S3.readFromS3(tableName, id);
+        let article = await Storage.readArticle(tableName, id);
         if (!article) {
           return { status: 404, response: { message: 'item not found' } };
         }
@@ -667,9 +1012,28 @@ export class Articles {
         } else {
           article.metadata[itemKey] = itemValue;
         }
-        if (!(await S3.addToS3(tableName, article.metadata, article.body))) {
+        if (unscheduled) {
+          article.metadata.Status = 'private';
+          delete article.metadata.PublishedAt;
+        }
+        if (
+          !(await Storage.addArticle(tableName, article.metadata, article.body))
+        ) {
           return { status: 500, response: { message: 'server error' } };
         }
+
+        // Keep the search index in sync with the new content
+        if (tableName == 'ArticlesPublished') {
+          const current = await this.repository.get(tableName, id);
+          await Search.indexArticle(
+            {
+              ...article.metadata,
+              ID: id,
+              AuthorSuspended: current?.AuthorSuspended,
+            },
+            article.body
+          );
+        }
       }
 
       return {
@@ -679,10 +1043,6 @@ export class Articles {
         },
       };
     } catch (err: any) {
-      if (err.name === 'ConditionalCheckFailedException') {
-        return { status: 404, response: { message: 'item not found' } };
-      }
-
       console.error('Unable to update item. Error:', err);
       return { status: 500, response: { message: 'server error' } };
     }
@@ -690,7 +1050,8 @@ export class Articles {
 
   /**
    * Function that fetches items from a table using pagination from the
-   * inputed params
+   * inputed query. A cursor from the previous page takes precedence over
+   * the page number.
    *
    * @public
    * @static
@@ -698,14 +1059,18 @@ export class Articles {
    * @param {string} tableName - table name
    * @param {number} page - page of the pagination
    * @param {number} limit - objects per page
-   * @param {*} params - database request params
+   * @param {ArticleQuery} query - index query
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all items
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getPaginationItems(
     tableName: string,
     page: number,
     limit: number,
-    params: any
+    query: ArticleQuery,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
     if (this.findTable(tableName) == false) {
       return { status: 400, response: { message: 'table not found' } };
@@ -725,24 +1090,23 @@ export class Articles {
       };
     }
 
-    // Page count
-    let count = 0;
-    while (true) {
-      count += 1;
-
-      // Use the query method to retrieve items for the specified category
-      const data = await client.send(new QueryCommand(params));
-      if (data.LastEvaluatedKey) {
-        params.ExclusiveStartKey = data.LastEvaluatedKey;
+    try {
+      // Articles of suspended authors are not listed publicly
+      const result = await this.repository.queryPage(
+        tableName,
+        { ...query, limit, hideSuspended: tableName == 'ArticlesPublished' },
+        page,
+        cursor,
+        withTotal
+      );
+      return { status: 200, response: Pagination.toResponse(result) };
+    } catch (err: any) {
+      if (err instanceof InvalidCursorError) {
+        return { status: 400, response: { message: 'invalid cursor' } };
       }
 
-      // Return items if the desired page is reached or if there are no more pages
-      if (count === page || !data.LastEvaluatedKey) {
-        const items: any = data.Items
-          ? data.Items.map((item) => unmarshall(item))
-          : [];
-        return { status: 200, response: { return: items } };
-      }
+      console.error('Error fetching page:', err);
+      return { status: 500, response: { message: 'server error' } };
     }
   }
 
@@ -756,32 +1120,70 @@ export class Articles {
    * @param {number} page - page
    * @param {number} limit - articles per page
    * @param {boolean} forward - query articles in normal or reversed order
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all articles
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getStatusCreated(
     status: string,
     page: number,
     limit: number,
-    forward: boolean
+    forward: boolean,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
-    const params: QueryCommandInput = {
-      TableName: 'ArticlesUnpublished',
-      IndexName: 'StatusCreated',
-      KeyConditionExpression: '#status = :c',
-      ExpressionAttributeNames: {
-        '#status': 'Status',
-      },
-      ExpressionAttributeValues: {
-        ':c': { S: status },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
+    const query: ArticleQuery = {
+      index: 'StatusCreated',
+      key: { Status: status },
+      forward,
+    };
+    return await this.getPaginationItems(
+      'ArticlesUnpublished',
+      page,
+      limit,
+      query,
+      cursor,
+      withTotal
+    );
+  }
+
+  /**
+   * Fetches unpublished articles with pagination based on their exact title
+   * and creation date
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} title - title of the articles
+   * @param {number} page - page
+   * @param {number} limit - articles per page
+   * @param {boolean} forward - query articles in normal or reversed order
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getTitleCreated(
+    title: string,
+    page: number,
+    limit: number,
+    forward: boolean,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    // Validations
+    if (typeof title !== 'string') {
+      return { status: 400, response: { message: 'missing title value' } };
+    }
+
+    const query: ArticleQuery = {
+      index: 'TitleCreated',
+      key: { Title: title },
+      forward,
     };
     return await this.getPaginationItems(
       'ArticlesUnpublished',
       page,
       limit,
-      params
+      query,
+      cursor
     );
   }
 
@@ -796,6 +1198,8 @@ export class Articles {
    * @param {number} page - page
    * @param {number} limit - articles per page
    * @param {boolean} forward - query articles in normal or reversed order
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all articles
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getCategoryCreated(
@@ -803,19 +1207,23 @@ export class Articles {
     category: string,
     page: number,
     limit: number,
-    forward: boolean
+    forward: boolean,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'PrimaryCategoryCreated',
-      KeyConditionExpression: 'PrimaryCategory = :c',
-      ExpressionAttributeValues: {
-        ':c': { S: category },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
+    const query: ArticleQuery = {
+      index: 'PrimaryCategoryCreated',
+      key: { PrimaryCategory: category },
+      forward,
     };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return await this.getPaginationItems(
+      tableName,
+      page,
+      limit,
+      query,
+      cursor,
+      withTotal
+    );
   }
 
   /**
@@ -829,6 +1237,8 @@ export class Articles {
    * @param {string} difficulty - difficulty of the articles
    * @param {number} page - page
    * @param {number} limit - articles per page
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all articles
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getCategoryDifficulty(
@@ -836,25 +1246,28 @@ export class Articles {
     category: string,
     difficulty: string,
     page: number,
-    limit: number
+    limit: number,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
     // Validation
     if (!['EASY', 'MEDIUM', 'HARD'].includes(difficulty)) {
       return { status: 400, response: { message: 'invalid difficulty value' } };
     }
 
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'PrimaryCategoryDifficulty',
-      KeyConditionExpression: 'PrimaryCategory = :c AND Difficulty = :d',
-      ExpressionAttributeValues: {
-        ':c': { S: category },
-        ':d': { S: difficulty },
-      },
-      Limit: limit,
-      ScanIndexForward: false,
+    const query: ArticleQuery = {
+      index: 'PrimaryCategoryDifficulty',
+      key: { PrimaryCategory: category, Difficulty: difficulty },
+      forward: false,
     };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return await this.getPaginationItems(
+      tableName,
+      page,
+      limit,
+      query,
+      cursor,
+      withTotal
+    );
   }
 
   /**
@@ -868,6 +1281,8 @@ export class Articles {
    * @param {number} page - page
    * @param {number} limit - articles per page
    * @param {boolean} forward - query articles in normal or reversed order
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all articles
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getCategoryRating(
@@ -875,19 +1290,23 @@ export class Articles {
     category: string,
     page: number,
     limit: number,
-    forward: boolean
+    forward: boolean,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'PrimaryCategoryRating',
-      KeyConditionExpression: 'PrimaryCategory = :c',
-      ExpressionAttributeValues: {
-        ':c': { S: category },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
+    const query: ArticleQuery = {
+      index: 'PrimaryCategoryRating',
+      key: { PrimaryCategory: category },
+      forward,
     };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return await this.getPaginationItems(
+      tableName,
+      page,
+      limit,
+      query,
+      cursor,
+      withTotal
+    );
   }
 
   /**
@@ -901,6 +1320,8 @@ export class Articles {
    * @param {number} page - page
    * @param {number} limit - articles per page
    * @param {boolean} forward - query articles in normal or reversed order
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all articles
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getAuthorCreated(
@@ -908,24 +1329,28 @@ export class Articles {
     author: string,
     page: number,
     limit: number,
-    forward: boolean
+    forward: boolean,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
     // Validations
     if (author == undefined) {
       return { status: 400, response: { message: 'missing author value' } };
     }
 
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'AuthorCreated',
-      KeyConditionExpression: 'Author = :c',
-      ExpressionAttributeValues: {
-        ':c': { S: author },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
+    const query: ArticleQuery = {
+      index: 'AuthorCreated',
+      key: { Author: author },
+      forward,
     };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return await this.getPaginationItems(
+      tableName,
+      page,
+      limit,
+      query,
+      cursor,
+      withTotal
+    );
   }
 
   /**
@@ -939,6 +1364,8 @@ export class Articles {
    * @param {number} page - page
    * @param {number} limit - articles per page
    * @param {boolean} forward - query articles in normal or reversed order
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also return the number of all articles
    * @returns {Promise<ApiResponse>} - api response
    */
   public static async getAuthorRating(
@@ -946,186 +1373,291 @@ export class Articles {
     author: string,
     page: number,
     limit: number,
-    forward: boolean
+    forward: boolean,
+    cursor?: string,
+    withTotal: boolean = false
   ): Promise<ApiResponse> {
     // Validations
     if (author == undefined) {
       return { status: 400, response: { message: 'missing author value' } };
     }
 
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'AuthorRating',
-      KeyConditionExpression: 'Author = :c',
-      ExpressionAttributeValues: {
-        ':c': { S: author },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
+    const query: ArticleQuery = {
+      index: 'AuthorRating',
+      key: { Author: author },
+      forward,
     };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return await this.getPaginationItems(
+      tableName,
+      page,
+      limit,
+      query,
+      cursor,
+      withTotal
+    );
   }
 
   /**
-   * Fetches articles with pagination based on title and rating
+   * Changes the profile picture link on all of the articles of an author in
+   * a table
    *
    * @public
    * @static
    * @async
-   * @param {string} tableName - table name to query
-   * @param {string} title - title of the articles
-   * @param {number} page - page
-   * @param {number} limit - articles per page
-   * @param {boolean} forward - query articles in normal or reversed order
-   * @returns {Promise<ApiResponse>} - api response
+   * @param {string} tableName - table name
+   * @param {string} username - author of the articles
+   * @param {string} profilePic - url of the new profile picture
+   * @returns {Promise<void>}
    */
-  public static async getTitleRating(
+  public static async updateAuthorProfilePic(
     tableName: string,
-    title: string,
-    page: number,
-    limit: number,
-    forward: boolean
-  ): Promise<ApiResponse> {
-    // Validations
-    if (title == undefined) {
-      return { status: 400, response: { message: 'missing title value' } };
+    username: string,
+    profilePic: string
+  ): Promise<void> {
+    const articles = await this.repository.queryAll(tableName, {
+      index: 'AuthorDifficulty',
+      key: { Author: username },
+    });
+
+    await Promise.all(
+      articles.map((article) =>
+        this.repository.update(tableName, article.ID, {
+          AuthorProfilePic: profilePic,
+        })
+      )
+    );
+  }
+
+  /**
+   * Moves every article of a category to another category, used when a
+   * category is renamed or retired
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} from - slug of the old category
+   * @param {string} to - slug of the new category
+   * @returns {Promise<number>} - number of the articles that were moved
+   */
+  public static async changeCategory(
+    from: string,
+    to: string
+  ): Promise<number> {
+    let moved = 0;
+
+    for (const tableName of ['ArticlesPublished', 'ArticlesUnpublished']) {
+      const articles = await this.repository.queryAll(tableName, {
+        index: 'PrimaryCategoryCreated',
+        key: { PrimaryCategory: from },
+      });
+
+      // Patch one by one so the storage and the search index follow
+      for (const article of articles) {
+        const result = await this.patchArticle(
+          tableName,
+          article.ID,
+          'PrimaryCategory',
+          to
+        );
+        if (result.status != 200) {
+          throw new Error(
+            `Unable to move the article ${article.ID} to the category ${to}`
+          );
+        }
+        moved++;
+      }
     }
 
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'TitleRating',
-      KeyConditionExpression: 'Title = :c',
-      ExpressionAttributeValues: {
-        ':c': { S: title },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
-    };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return moved;
   }
 
   /**
-   * Fetches articles with pagination based on title and creation date
+   * Flags or unflags all articles of an author while their account is
+   * suspended. The flag moves with the articles between the tables and
+   * keeps the published ones out of the public lists and the search index.
    *
    * @public
    * @static
    * @async
-   * @param {string} tableName - table name to query
-   * @param {string} title - title of the articles
-   * @param {number} page - page
-   * @param {number} limit - articles per page
-   * @param {boolean} forward - query articles in normal or reversed order
-   * @returns {Promise<ApiResponse>} - api response
+   * @param {string} username - author of the articles
+   * @param {boolean} suspended - whether the author is suspended
+   * @returns {Promise<number>} - number of the flagged or unflagged articles
    */
-  public static async getTitleCreated(
-    tableName: string,
-    title: string,
-    page: number,
-    limit: number,
-    forward: boolean
-  ): Promise<ApiResponse> {
-    // Validations
-    if (title == undefined) {
-      return { status: 400, response: { message: 'missing title value' } };
+  public static async setAuthorSuspended(
+    username: string,
+    suspended: boolean
+  ): Promise<number> {
+    let changed = 0;
+
+    for (const tableName of ['ArticlesPublished', 'ArticlesUnpublished']) {
+      const articles = await this.repository.queryAll(tableName, {
+        index: 'AuthorPrimaryCategory',
+        key: { Author: username },
+      });
+
+      for (const article of articles) {
+        if ((article.AuthorSuspended === true) != suspended) {
+          await this.repository.update(tableName, article.ID, {
+            AuthorSuspended: suspended,
+          });
+          if (tableName == 'ArticlesPublished') {
+            await this.setSearchable(article.ID, !suspended);
+          }
+          changed++;
+        }
+      }
     }
 
-    const params: QueryCommandInput = {
-      TableName: tableName,
-      IndexName: 'TitleCreated',
-      KeyConditionExpression: 'Title = :c',
-      ExpressionAttributeValues: {
-        ':c': { S: title },
-      },
-      Limit: limit,
-      ScanIndexForward: forward,
-    };
-    return await this.getPaginationItems(tableName, page, limit, params);
+    return changed;
   }
 
   /**
-   * Increments the rating of an article
+   * Adds a published article to the search index or removes it from there
    *
-   * @public
+   * @private
    * @static
    * @async
-   * @param {string} id - id of the article
-   * @returns {Promise<ApiResponse>} - api response
+   * @param {string} id - article id
+   * @param {boolean} searchable - whether the article can be found
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
    */
-  public static async incrementRating(id: string): Promise<ApiResponse> {
-    const params: UpdateItemCommandInput = {
-      TableName: 'ArticlesPublished',
-      Key: {
-        ID: { S: id },
-      },
-      UpdateExpression: 'SET #r = if_not_exists(#r, :start) + :inc',
-      ExpressionAttributeNames: {
-        '#r': 'Rating',
-      },
-      ExpressionAttributeValues: {
-        ':inc': { N: '1' },
-        ':start': { N: '0' }, // Start value if 'Rating' doesn't exist
-      },
-      ReturnValues: 'UPDATED_NEW',
-    };
+  private static async setSearchable(
+    id: string,
+    searchable: boolean
+  ): Promise<boolean> {
+    if (!searchable) {
+      return await Search.removeArticle(id);
+    }
 
-    try {
-      const data = await client.send(new UpdateItemCommand(params));
-      return {
-        status: 200,
-        response: { message: 'rating incremented succesfully' },
-      };
-    } catch (err) {
-      console.error('Error updating rating:', err);
-      return {
-        status: 500,
-        response: { message: 'server error' },
-      };
+    const article = await Storage.readArticle('ArticlesPublished', id);
+    if (!article) {
+      return false;
     }
+    return await Search.indexArticle(
+      { ...article.metadata, ID: id },
+      article.body
+    );
   }
 
   /**
-   * Decrements the rating of an article
+   * Sets the id and the fields managed by the server that are missing from
+   * the metadata of an article
+   *
+   * @private
+   * @static
+   * @param {string} tableName - table name of the article
+   * @param {*} metadata - metadata of the article, changed in place
+   * @param {string} id - article id, a new one is made if it is not valid
+   * @returns {*} - the metadata
+   */
+  private static addDefaults(tableName: string, metadata: any, id: string) {
+    if (!Helper.isValidUUID(id)) {
+      metadata.ID = uuidv4();
+    } else {
+      metadata.ID = id;
+    }
+    const currentTime = Helper.getUNIXTimestamp();
+
+    // If added to ArticlesPublished
+    // Sets rating to zero if not provided
+    // Sets PublishedAt to current time if not provided or in the future, an
+    // article published before its scheduled time is published now
+    if (tableName == 'ArticlesPublished') {
+      if (
+        metadata.PublishedAt == undefined ||
+        metadata.PublishedAt > currentTime
+      ) {
+        metadata.PublishedAt = currentTime;
+      }
+      if (metadata.Rating == undefined) {
+        metadata.Rating = 0;
+      }
+    }
+
+    // If added to ArticlesUnpublished
+    // Sets CreatedAt to current time if not provided
+    // Sets Status to private if not provided
+    if (tableName == 'ArticlesUnpublished') {
+      if (metadata.CreatedAt == undefined) {
+        metadata.CreatedAt = currentTime;
+      }
+      if (!metadata.Status || metadata.Status == '') {
+        metadata.Status = 'private';
+      }
+    }
+
+    // Sets UpdatedAt and Image to null if not provided
+    if (metadata.UpdatedAt == undefined) {
+      metadata.UpdatedAt = null;
+    }
+    if (metadata.AuthorProfilePic == undefined) {
+      metadata.AuthorProfilePic = Storage.getPublicUrl('images/pfp.png');
+    }
+    if (metadata.Image == '' || metadata.Image == undefined) {
+      metadata.Image = null;
+    }
+    return metadata;
+  }
+
+  /**
+   * Counts the steps of a step by step article, the cards show the progress
+   * of the readers from it
+   *
+   * @private
+   * @static
+   * @param {*} metadata - metadata of the article
+   * @param {string} body - body of the article
+   */
+  private static addStepCount(metadata: any, body: string) {
+    if (metadata.Format == 'steps') {
+      metadata.StepCount = Steps.parse(body).steps.length;
+    } else {
+      delete metadata.Format;
+      delete metadata.StepCount;
+    }
+  }
+
+  /**
+   * Returns the metadata kept in the markdown of an article in the storage
+   *
+   * @private
+   * @static
+   * @param {*} metadata - metadata of the article
+   * @returns {*} - metadata without the fields of the database only
+   */
+  private static toFrontMatter(metadata: any) {
+    const { AuthorProfilePic, AuthorSuspended, ...frontMatter } = metadata;
+    return frontMatter;
+  }
+
+  /**
+   * Counts the published and the unpublished articles of an author
    *
    * @public
    * @static
    * @async
-   * @param {string} id - id of the article
-   * @returns {Promise<ApiResponse>} - api response
+   * @param {string} username - author of the articles
+   * @returns {Promise<{ published: number; unpublished: number }>}
    */
-  public static async decrementRating(id: string): Promise<ApiResponse> {
-    const params: UpdateItemCommandInput = {
-      TableName: 'ArticlesPublished',
-      Key: {
-        ID: { S: id },
-      },
-      UpdateExpression: 'SET #r = if_not_exists(#r, :start) + :dec',
-      ExpressionAttributeNames: {
-        '#r': 'Rating',
-      },
-      ExpressionAttributeValues: {
-        ':dec': { N: '-1' },
-        ':start': { N: '0' }, // Start value if 'Rating' doesn't exist
-      },
-      ReturnValues: 'UPDATED_NEW',
+  public static async countArticlesByUser(
+    username: string
+  ): Promise<{ published: number; unpublished: number }> {
+    const count = async (tableName: string) =>
+      (
+        await this.repository.queryAll(tableName, {
+          index: 'AuthorPrimaryCategory',
+          key: { Author: username },
+        })
+      ).length;
+
+    return {
+      published: await count('ArticlesPublished'),
+      unpublished: await count('ArticlesUnpublished'),
     };
-
-    try {
-      const data = await client.send(new UpdateItemCommand(params));
-      return {
-        status: 200,
-        response: { message: 'rating decremented succesfully' },
-      };
-    } catch (err) {
-      console.error('Error updating rating:', err);
-      return {
-        status: 500,
-        response: { message: 'server error' },
-      };
-    }
   }
 
   /**
-   * Removes all articles owned by a specific user from both DynamoDB and S3.
+   * Removes all articles owned by a specific user from both DynamoDB and the storage.
    *
    * @public
    * @static
@@ -1139,51 +1671,29 @@ export class Articles {
     try {
       const tables = ['ArticlesPublished', 'ArticlesUnpublished'];
       const allArticleIds: { tableName: string; id: string }[] = [];
-      const allS3Keys: string[] = [];
+      const allStorageKeys: string[] = [];
 
       // Step 1: Fetch all articles authored by the user from both tables
       for (const tableName of tables) {
-        let ExclusiveStartKey: any = undefined;
-        do {
-          const params: QueryCommandInput = {
-            TableName: tableName,
-            IndexName: 'AuthorPrimaryCategory',
-            KeyConditionExpression: '#author = :author',
-            ExpressionAttributeNames: {
-              '#author': 'Author',
-            },
-            ExpressionAttributeValues: {
-              ':author': { S: username },
-            },
-            ProjectionExpression: 'ID, Image', // Fetch only necessary attributes
-            ExclusiveStartKey,
-          };
-
-          const queryCommand = new QueryCommand(params);
-          const queryResult = await client.send(queryCommand);
-
-          if (queryResult.Items) {
-            for (const item of queryResult.Items) {
-              const unmarshalled = unmarshall(item);
-              if (unmarshalled.ID) {
-                allArticleIds.push({ tableName, id: unmarshalled.ID });
-                // Add the article markdown file key
-                allS3Keys.push(`${tableName}/${unmarshalled.ID}.md`);
-              }
-              if (unmarshalled.Image) {
-                // Assuming Image is a URL, extract the S3 key
-                const imageUrl: string = unmarshalled.Image;
-                const urlParts = imageUrl.split('.com/');
-                if (urlParts.length > 1) {
-                  const imageKey = urlParts[1]; // Adjust based on your S3 URL structure
-                  allS3Keys.push(imageKey);
-                }
-              }
+        const articles = await this.repository.queryAll(tableName, {
+          index: 'AuthorPrimaryCategory',
+          key: { Author: username },
+        });
+
+        for (const article of articles) {
+          if (article.ID) {
+            allArticleIds.push({ tableName, id: article.ID });
+            // Add the article markdown file key
+            allStorageKeys.push(`${tableName}/${article.ID}.md`);
+          }
+          if (article.Image) {
+            // Image is a public url, get the key of the file from it
+            const imageKey = Storage.getKeyFromUrl(article.Image);
+            if (imageKey) {
+              allStorageKeys.push(imageKey);
             }
           }
-
-          ExclusiveStartKey = queryResult.LastEvaluatedKey;
-        } while (ExclusiveStartKey);
+        }
       }
 
       if (allArticleIds.length === 0) {
@@ -1193,71 +1703,45 @@ export class Articles {
         };
       }
 
-      console.log('Dynamo items: ', allArticleIds);
-      console.log('S3 items: ', allS3Keys);
-      // Step 2: Batch delete articles from DynamoDB
-      // DynamoDB BatchWriteItem allows up to 25 delete requests per batch
-      const MAX_BATCH_SIZE = 25;
-
-      // Group delete requests by table name
-      const groupedByTable: { [key: string]: any[] } = {};
-      allArticleIds.forEach(({ tableName, id }) => {
-        if (!groupedByTable[tableName]) {
-          groupedByTable[tableName] = [];
-        }
-        groupedByTable[tableName].push({
-          DeleteRequest: {
-            Key: marshall({ ID: id }),
-          },
-        });
-      });
+      console.log('Database items: ', allArticleIds);
+      console.log('Storage items: ', allStorageKeys);
+      // Step 2: Delete the articles from the database, table by table
+      for (const tableName of tables) {
+        await this.repository.deleteMany(
+          tableName,
+          allArticleIds
+            .filter((article) => article.tableName == tableName)
+            .map((article) => article.id)
+        );
+      }
 
-      // Process each table's delete requests in batches of 25
-      for (const [tableName, deleteRequests] of Object.entries(
-        groupedByTable
-      )) {
-        for (let i = 0; i < deleteRequests.length; i += MAX_BATCH_SIZE) {
-          const batch = deleteRequests.slice(i, i + MAX_BATCH_SIZE);
-          const batchWriteParams: BatchWriteItemCommandInput = {
-            RequestItems: {
-              [tableName]: batch,
-            },
-          };
-
-          try {
-            const response = await client.send(
-              new BatchWriteItemCommand(batchWriteParams)
-            );
-
-            if (
-              response.UnprocessedItems &&
-              Object.keys(response.UnprocessedItems).length > 0
-            ) {
-              console.error(
-                'Some items were not processed. Consider retrying:',
-                response.UnprocessedItems
-              );
-              // Optionally implement retry logic here
-            } else {
-              console.log(
-                `Successfully deleted batch of ${batch.length} items from ${tableName}.`
-              );
-            }
-          } catch (error) {
-            console.error(`Error deleting items from ${tableName}:`, error);
-            // Depending on requirements, decide whether to continue or halt
-          }
+      // Remove the published articles from the search index together with
+      // their likes, and the history, comments, media and attachments of
+      // every article
+      for (const { tableName, id } of allArticleIds) {
+        if (tableName == 'ArticlesPublished') {
+          await Search.removeArticle(id);
+          await Likes.removeArticleLikes(id);
         }
+        await Revisions.removeRevisions(id);
+        await Reviews.removeReviews(id);
+        await Comments.removeArticleComments(id);
+        await Media.removeArticleMedia(id);
+        await Attachments.removeArticleAttachments(id);
+        await Steps.removeArticleProgress(id);
       }
 
-      // Step 3: Batch delete S3 objects using the new deleteMultipleFiles method
-      // S3 DeleteObjectsCommand allows up to 1000 objects per request
-      const S3_BATCH_DELETE_SIZE = 1000;
-      for (let i = 0; i < allS3Keys.length; i += S3_BATCH_DELETE_SIZE) {
-        const batch = allS3Keys.slice(i, i + S3_BATCH_DELETE_SIZE);
-        const deleteSuccess = await S3.deleteMultipleFiles(batch);
+      // Step 3: Batch delete the files from the storage
+      const STORAGE_BATCH_DELETE_SIZE = 1000;
+      for (
+        let i = 0;
+        i < allStorageKeys.length;
+        i += STORAGE_BATCH_DELETE_SIZE
+      ) {
+        const batch = allStorageKeys.slice(i, i + STORAGE_BATCH_DELETE_SIZE);
+        const deleteSuccess = await Storage.deleteMultipleFiles(batch);
         if (!deleteSuccess) {
-          console.error('Failed to delete some S3 objects.');
+          console.error('Failed to delete some files from the storage.');
           // Optionally implement retry logic or log detailed errors
         }
       }
@@ -1265,7 +1749,7 @@ export class Articles {
       return {
         status: 200,
         response: {
-          message: `Successfully deleted ${allArticleIds.length} articles and associated S3 objects.`,
+          message: `Successfully deleted ${allArticleIds.length} articles and associated files.`,
         },
       };
     } catch (error: any) {
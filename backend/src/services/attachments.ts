@@ -0,0 +1,516 @@
+import {
+  Attachment,
+  AttachmentRepository,
+} from '../repositories/attachmentRepository';
+import { DynamoAttachmentRepository } from '../repositories/dynamoAttachmentRepository';
+import { Storage } from './storage';
+import { Helper } from './helper';
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+interface FileType {
+  contentType: string;
+  // First bytes every file of the type starts with
+  signature?: number[];
+  // Text files must not contain null bytes
+  text?: boolean;
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const GZIP_SIGNATURE = [0x1f, 0x8b];
+
+// The files that can be attached, by extension. The type sent by the
+// browser is not trusted, the extension decides the type of the download.
+const FILE_TYPES: Readonly<{ [extension: string]: FileType }> = {
+  // 3D models
+  stl: { contentType: 'model/stl' },
+  obj: { contentType: 'model/obj', text: true },
+  '3mf': { contentType: 'model/3mf', signature: ZIP_SIGNATURE },
+  step: { contentType: 'model/step', text: true },
+  stp: { contentType: 'model/step', text: true },
+  // Electronics, Gerber and KiCad projects usually come zipped
+  gbr: { contentType: 'text/plain', text: true },
+  drl: { contentType: 'text/plain', text: true },
+  kicad_pcb: { contentType: 'text/plain', text: true },
+  kicad_sch: { contentType: 'text/plain', text: true },
+  // Archives
+  zip: { contentType: 'application/zip', signature: ZIP_SIGNATURE },
+  gz: { contentType: 'application/gzip', signature: GZIP_SIGNATURE },
+  tgz: { contentType: 'application/gzip', signature: GZIP_SIGNATURE },
+  '7z': {
+    contentType: 'application/x-7z-compressed',
+    signature: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c],
+  },
+  // Firmware and sources
+  hex: { contentType: 'text/plain', text: true },
+  bin: { contentType: 'application/octet-stream' },
+  ino: { contentType: 'text/plain', text: true },
+  c: { contentType: 'text/plain', text: true },
+  h: { contentType: 'text/plain', text: true },
+  cpp: { contentType: 'text/plain', text: true },
+  py: { contentType: 'text/plain', text: true },
+  txt: { contentType: 'text/plain', text: true },
+  pdf: {
+    contentType: 'application/pdf',
+    signature: [0x25, 0x50, 0x44, 0x46, 0x2d],
+  },
+};
+
+// Files readers can download from the articles. The files are not public,
+// the readers get a signed link that expires and counts the download.
+export class Attachments {
+  private static repository: AttachmentRepository =
+    new DynamoAttachmentRepository();
+  // Lambda takes requests up to 6mb and binary bodies reach it base64
+  // encoded, so larger files cannot be uploaded through the API
+  public static MAX_FILE_SIZE: Readonly<number> = 4 * 1024 * 1024;
+  private static MAX_ATTACHMENTS_PER_ARTICLE: Readonly<number> = 20;
+  // Total size of the files a user can upload
+  private static USER_QUOTA: Readonly<number> = 50 * 1024 * 1024;
+  private static MAX_NAME_LENGTH: Readonly<number> = 120;
+  // Seconds a download link works for
+  private static LINK_DURATION: Readonly<number> = 10 * 60;
+
+  /**
+   * Replaces the attachment repository, used by tools and tests
+   *
+   * @public
+   * @static
+   * @param {AttachmentRepository} repository - attachment repository
+   */
+  public static useRepository(repository: AttachmentRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Returns the attachments of an article, oldest first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getAttachments(articleId: string): Promise<ApiResponse> {
+    try {
+      const items = await this.repository.list(articleId);
+      items.sort((a, b) => a.CreatedAt - b.CreatedAt);
+      return { status: 200, response: { return: items } };
+    } catch (err: any) {
+      console.error('Unable to fetch the attachments. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns how much of the quota a user has used
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @returns {Promise<ApiResponse>} - api response with the used and total bytes
+   */
+  public static async getUsage(username: string): Promise<ApiResponse> {
+    try {
+      const used = await this.repository.getUploaderUsage(username);
+      return {
+        status: 200,
+        response: {
+          return: {
+            used,
+            quota: this.USER_QUOTA,
+            maxFileSize: this.MAX_FILE_SIZE,
+          },
+        },
+      };
+    } catch (err: any) {
+      console.error('Unable to fetch the storage usage. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Attaches a file to an article. The uploader can send the SHA-256 of the
+   * file to have it checked after the transfer.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} uploader - username of the uploader
+   * @param {*} name - file name
+   * @param {*} body - file content
+   * @param {*} [checksum] - expected SHA-256 of the file as hex
+   * @returns {Promise<ApiResponse>} - api response with the new attachment
+   */
+  public static async addAttachment(
+    articleId: string,
+    uploader: string,
+    name: any,
+    body: any,
+    checksum?: any
+  ): Promise<ApiResponse> {
+    if (!Buffer.isBuffer(body) || body.length == 0) {
+      return { status: 400, response: { message: 'missing file' } };
+    }
+    if (body.length > this.MAX_FILE_SIZE) {
+      return { status: 413, response: { message: 'file too large' } };
+    }
+
+    const fileName = this.cleanName(name);
+    if (!fileName) {
+      return { status: 400, response: { message: 'invalid file name' } };
+    }
+    const fileType = this.getFileType(fileName);
+    if (!fileType) {
+      return {
+        status: 400,
+        response: { message: 'file type not allowed' },
+      };
+    }
+    if (!this.matchesType(body, fileType)) {
+      return {
+        status: 400,
+        response: { message: 'file content does not match its type' },
+      };
+    }
+
+    const digest = crypto.createHash('sha256').update(body).digest('hex');
+    if (
+      checksum != undefined &&
+      (typeof checksum != 'string' || checksum.toLowerCase() != digest)
+    ) {
+      return { status: 400, response: { message: 'checksum mismatch' } };
+    }
+
+    const id = uuidv4();
+    try {
+      const existing = await this.repository.list(articleId);
+      if (existing.length >= this.MAX_ATTACHMENTS_PER_ARTICLE) {
+        return {
+          status: 400,
+          response: {
+            message: `an article can have at most ${this.MAX_ATTACHMENTS_PER_ARTICLE} attachments`,
+          },
+        };
+      }
+
+      // Two uploads at once can both fit, the quota is not exact
+      const used = await this.repository.getUploaderUsage(uploader);
+      if (used + body.length > this.USER_QUOTA) {
+        return {
+          status: 413,
+          response: { message: 'storage quota exceeded' },
+        };
+      }
+
+      if (
+        !(await Storage.saveAttachment(
+          articleId,
+          id,
+          body,
+          fileType.contentType
+        ))
+      ) {
+        return { status: 500, response: { message: 'server error' } };
+      }
+
+      const item: Attachment = {
+        ArticleID: articleId,
+        ID: id,
+        Name: fileName,
+        ContentType: fileType.contentType,
+        Size: body.length,
+        Checksum: digest,
+        Uploader: uploader,
+        Downloads: 0,
+        CreatedAt: Helper.getUNIXTimestamp(),
+      };
+      try {
+        await this.repository.put(item);
+      } catch (err) {
+        // Remove the file of an attachment that was not listed
+        await Storage.deleteMultipleFiles([
+          Storage.getAttachmentKey(articleId, id),
+        ]);
+        throw err;
+      }
+      return { status: 200, response: { return: item } };
+    } catch (err: any) {
+      console.error('Unable to add the attachment. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes an attachment of an article along with its file
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async removeAttachment(
+    articleId: string,
+    id: string
+  ): Promise<ApiResponse> {
+    try {
+      if (!(await this.repository.delete(articleId, id))) {
+        return { status: 404, response: { message: 'attachment not found' } };
+      }
+
+      await Storage.deleteMultipleFiles([
+        Storage.getAttachmentKey(articleId, id),
+      ]);
+      return { status: 200, response: { message: 'success' } };
+    } catch (err: any) {
+      console.error('Unable to remove the attachment. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes every attachment of a deleted article along with the files
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeArticleAttachments(
+    articleId: string
+  ): Promise<boolean> {
+    try {
+      const items = await this.repository.list(articleId);
+      if (items.length == 0) {
+        return true;
+      }
+
+      await this.repository.deleteMany(
+        articleId,
+        items.map((item) => item.ID)
+      );
+      return await Storage.deleteMultipleFiles(
+        items.map((item) => Storage.getAttachmentKey(articleId, item.ID))
+      );
+    } catch (err: any) {
+      console.error(
+        'Unable to remove the attachments of the article. Error:',
+        err
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Returns a signed link to download an attachment. The link is a path of
+   * the API and works for LINK_DURATION seconds.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @returns {Promise<ApiResponse>} - api response with the url and its expiry
+   */
+  public static async getDownloadLink(
+    articleId: string,
+    id: string
+  ): Promise<ApiResponse> {
+    try {
+      const item = await this.repository.get(articleId, id);
+      if (!item) {
+        return { status: 404, response: { message: 'attachment not found' } };
+      }
+
+      const expires = Helper.getUNIXTimestamp() + this.LINK_DURATION;
+      const params = new URLSearchParams({
+        id: articleId,
+        attachmentId: id,
+        expires: String(expires),
+        signature: this.sign(articleId, id, expires),
+      });
+      return {
+        status: 200,
+        response: {
+          return: {
+            url: `/articles/attachments/download?${params}`,
+            expires,
+          },
+        },
+      };
+    } catch (err: any) {
+      console.error('Unable to create the download link. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Reads an attachment for a signed link and counts the download. Files
+   * shown in the article, like 3D models, are not counted.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} articleId - article id
+   * @param {*} id - attachment id
+   * @param {*} expires - expiry of the link as a UNIX timestamp
+   * @param {*} signature - signature of the link
+   * @param {boolean} [preview=false] - the file is shown, not downloaded
+   * @returns {Promise<ApiResponse>} - api response with the attachment and its file
+   */
+  public static async download(
+    articleId: any,
+    id: any,
+    expires: any,
+    signature: any,
+    preview: boolean = false
+  ): Promise<ApiResponse> {
+    const expiry = Number(expires);
+    if (
+      typeof articleId != 'string' ||
+      typeof id != 'string' ||
+      typeof signature != 'string' ||
+      !Number.isInteger(expiry) ||
+      expiry < Helper.getUNIXTimestamp() ||
+      !this.verify(articleId, id, expiry, signature)
+    ) {
+      return {
+        status: 403,
+        response: { message: 'invalid or expired link' },
+      };
+    }
+
+    try {
+      const item = await this.repository.get(articleId, id);
+      const file = item && (await Storage.readAttachment(articleId, id));
+      if (!item || !file) {
+        return { status: 404, response: { message: 'attachment not found' } };
+      }
+
+      if (!preview) {
+        await this.repository.addDownload(articleId, id);
+      }
+      return { status: 200, response: { return: { attachment: item, file } } };
+    } catch (err: any) {
+      console.error('Unable to download the attachment. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns a file name without folders and control characters, or null
+   * if nothing is left
+   *
+   * @private
+   * @static
+   * @param {*} name - file name from the request
+   * @returns {(string | null)} - file name
+   */
+  private static cleanName(name: any): string | null {
+    if (typeof name != 'string') {
+      return null;
+    }
+    const cleaned = name
+      .split(/[\\/]/)
+      .pop()!
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+      .trim();
+    if (cleaned.length == 0 || cleaned.length > this.MAX_NAME_LENGTH) {
+      return null;
+    }
+    return cleaned;
+  }
+
+  /**
+   * Returns the type of a file from its extension
+   *
+   * @private
+   * @static
+   * @param {string} name - file name
+   * @returns {(FileType | null)} - file type, null if it is not allowed
+   */
+  private static getFileType(name: string): FileType | null {
+    const parts = name.toLowerCase().split('.');
+    if (parts.length < 2) {
+      return null;
+    }
+    const extension = parts[parts.length - 1];
+    return Object.prototype.hasOwnProperty.call(FILE_TYPES, extension)
+      ? FILE_TYPES[extension]
+      : null;
+  }
+
+  /**
+   * Checks the content of a file against its type
+   *
+   * @private
+   * @static
+   * @param {Buffer} body - file content
+   * @param {FileType} fileType - file type
+   * @returns {boolean}
+   */
+  private static matchesType(body: Buffer, fileType: FileType): boolean {
+    if (
+      fileType.signature &&
+      !fileType.signature.every((byte, index) => body[index] == byte)
+    ) {
+      return false;
+    }
+    return !fileType.text || !body.includes(0);
+  }
+
+  /**
+   * Signs a download link
+   *
+   * @private
+   * @static
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @param {number} expires - expiry of the link as a UNIX timestamp
+   * @returns {string} - signature
+   */
+  private static sign(articleId: string, id: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', process.env.ATTACHMENT_KEY || 'default')
+      .update(`${articleId}/${id}/${expires}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Checks the signature of a download link
+   *
+   * @private
+   * @static
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @param {number} expires - expiry of the link as a UNIX timestamp
+   * @param {string} signature - signature from the link
+   * @returns {boolean}
+   */
+  private static verify(
+    articleId: string,
+    id: string,
+    expires: number,
+    signature: string
+  ): boolean {
+    const expected = Buffer.from(this.sign(articleId, id, expires));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length == actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { AuditRepository } from '../repositories/auditRepository';
+import { DynamoAuditRepository } from '../repositories/dynamoAuditRepository';
+import { Helper } from './helper';
+import { InvalidCursorError, Pagination } from './pagination';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Record of what was done to user accounts and by whom
+export class Audit {
+  private static repository: AuditRepository = new DynamoAuditRepository();
+  private static PAGE_SIZE: Readonly<number> = 25;
+
+  /**
+   * Replaces the audit repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {AuditRepository} repository - audit repository
+   */
+  public static useRepository(repository: AuditRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Adds an entry to the audit trail. A failure is logged and does not undo
+   * the action, it has already been taken.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} actor - username of the user who took the action
+   * @param {string} action - name of the action, like user.suspend
+   * @param {string} target - username of the user the action was taken on
+   * @param {*} [details={}] - reason, role or other details of the action
+   * @returns {Promise<boolean>} - whether the entry was added
+   */
+  public static async record(
+    actor: string,
+    action: string,
+    target: string,
+    details: { [key: string]: any } = {}
+  ): Promise<boolean> {
+    try {
+      await this.repository.add({
+        ID: uuidv4(),
+        Actor: actor,
+        Action: action,
+        Target: target,
+        Details: details,
+        CreatedAt: Helper.getUNIXTimestamp(),
+      });
+      return true;
+    } catch (err: any) {
+      console.error(`Unable to audit ${action} on ${target}. Error:`, err);
+      return false;
+    }
+  }
+
+  /**
+   * Returns a page of the actions taken on a user, newest first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} target - username of the user
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getEntries(
+    target: string,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    try {
+      const page = await this.repository.listByTarget(
+        target,
+        this.PAGE_SIZE,
+        cursor
+      );
+      return { status: 200, response: Pagination.toResponse(page) };
+    } catch (err: any) {
+      if (err instanceof InvalidCursorError) {
+        return { status: 400, response: { message: 'invalid cursor' } };
+      }
+      console.error('Unable to fetch the audit trail. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+
+/**
+ * Hashes of breached passwords, queried by k-anonymity: only the first five
+ * characters of the SHA-1 hash are asked for and the matching is done by the
+ * caller, like the range API of Have I Been Pwned.
+ */
+export interface BreachCorpus {
+  /** Returns the remaining 35 characters of the hashes with the prefix */
+  getRange(prefix: string): Promise<Map<string, number>>;
+}
+
+// Longest line of the file, a hash and its count take about 50 bytes
+const MAX_LINE = 1024;
+const CHUNK = 64 * 1024;
+
+/**
+ * Corpus in a local file of "HASH:COUNT" lines sorted by hash, the format of
+ * the downloadable Have I Been Pwned list. The file is searched in place, so
+ * the full list of many gigabytes works without loading it.
+ */
+export class FileBreachCorpus implements BreachCorpus {
+  constructor(private path: string) {}
+
+  public async getRange(prefix: string): Promise<Map<string, number>> {
+    prefix = prefix.toUpperCase();
+    const range = new Map<string, number>();
+    const file = await fs.promises.open(this.path, 'r');
+
+    try {
+      const { size } = await file.stat();
+
+      // Binary search for the first line whose hash is not before the prefix
+      let low = 0;
+      let high = size;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const line = await this.readLineFrom(file, middle);
+        if (line != null && line.text.slice(0, 5).toUpperCase() < prefix) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+
+      const start = await this.readLineFrom(file, low);
+      let position = start ? start.offset : size;
+      let rest = '';
+      while (position < size) {
+        const buffer = Buffer.alloc(Math.min(CHUNK, size - position));
+        await file.read(buffer, 0, buffer.length, position);
+        position += buffer.length;
+
+        const lines = (rest + buffer.toString('ascii')).split('\n');
+        rest = position < size ? lines.pop()! : '';
+        for (const line of lines) {
+          const hash = line.trim().toUpperCase();
+          if (hash == '') continue;
+          if (hash.slice(0, 5) > prefix) return range;
+
+          const [suffix, count] = hash.slice(5).split(':');
+          range.set(suffix, parseInt(count, 10) || 1);
+        }
+      }
+      return range;
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Returns the first line starting at or after an offset, or null at the
+   * end of the file
+   */
+  private async readLineFrom(
+    file: fs.promises.FileHandle,
+    offset: number
+  ): Promise<{ offset: number; text: string } | null> {
+    // A line starts at the offset if the byte before it is a line break
+    const from = Math.max(offset - 1, 0);
+    const buffer = Buffer.alloc(MAX_LINE * 2);
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, from);
+    const text = buffer.toString('ascii', 0, bytesRead);
+
+    const start = offset == 0 ? 0 : text.indexOf('\n') + 1;
+    if (offset != 0 && start == 0) {
+      return null;
+    }
+    const end = text.indexOf('\n', start);
+    const line = (
+      end == -1 ? text.slice(start) : text.slice(start, end)
+    ).trim();
+    return line == '' ? null : { offset: from + start, text: line };
+  }
+}
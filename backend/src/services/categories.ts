@@ -0,0 +1,357 @@
+import {
+  Category,
+  CategoryRepository,
+} from '../repositories/categoryRepository';
+import { DynamoCategoryRepository } from '../repositories/dynamoCategoryRepository';
+import { Articles } from './articles';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Words used by the article routes next to /articles/:categoryName
+const RESERVED_SLUGS: Readonly<string[]> = [
+  'private',
+  'get',
+  'author',
+  'search',
+  'title',
+  'revisions',
+  'reviews',
+  'delete',
+  'publish',
+  'hide',
+  'image',
+  'media',
+  'attachments',
+  'scheduled',
+  'unschedule',
+  'steps',
+];
+
+// The categories are read on almost every request, so they are cached for a
+// minute. Writes clear the cache of this instance, other instances catch up
+// when their copy expires.
+export class Categories {
+  private static repository: CategoryRepository =
+    new DynamoCategoryRepository();
+  private static CACHE_DURATION: Readonly<number> = 60 * 1000;
+  private static cache: { categories: Category[]; expires: number } | null =
+    null;
+
+  /**
+   * Replaces the category repository, used by tools and tests
+   *
+   * @public
+   * @static
+   * @param {CategoryRepository} repository - category repository
+   */
+  public static useRepository(repository: CategoryRepository) {
+    this.repository = repository;
+    this.cache = null;
+  }
+
+  /**
+   * Returns the categories ordered by SortOrder and then by name
+   *
+   * @public
+   * @static
+   * @async
+   * @param {boolean} [includeInactive=false] - also return retired categories
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getCategories(
+    includeInactive: boolean = false
+  ): Promise<ApiResponse> {
+    try {
+      const categories = await this.listCategories();
+      return {
+        status: 200,
+        response: {
+          return: categories.filter(
+            (category) => includeInactive || category.Active
+          ),
+        },
+      };
+    } catch (err: any) {
+      console.error('Unable to fetch the categories. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Checks if articles can be filed under a category
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} slug - category slug
+   * @returns {Promise<boolean>} - result
+   */
+  public static async isActive(slug: string): Promise<boolean> {
+    if (typeof slug != 'string') {
+      return false;
+    }
+    try {
+      const categories = await this.listCategories();
+      return categories.some(
+        (category) => category.Slug == slug && category.Active
+      );
+    } catch (err: any) {
+      console.error('Unable to fetch the categories. Error:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Adds a new category
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} fields - fields of the category, Slug and Name are required
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async createCategory(fields: any): Promise<ApiResponse> {
+    if (!fields || !fields.Slug || !fields.Name) {
+      return {
+        status: 400,
+        response: { message: 'invalid request - missing Slug or Name' },
+      };
+    }
+
+    const category: Category = {
+      Slug: fields.Slug,
+      Name: fields.Name,
+      Description: fields.Description ?? '',
+      Icon: fields.Icon ?? 'book',
+      HeroImage: fields.HeroImage ?? null,
+      SortOrder: fields.SortOrder ?? 0,
+      Active: fields.Active ?? true,
+    };
+    const error = this.validateFields(category);
+    if (error) {
+      return { status: 400, response: { message: error } };
+    }
+
+    try {
+      if (!(await this.repository.create(category))) {
+        return {
+          status: 409,
+          response: { message: 'category already exists' },
+        };
+      }
+      this.cache = null;
+      return { status: 200, response: { return: category } };
+    } catch (err: any) {
+      console.error('Unable to create the category. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Changes the fields of a category. A new Slug renames the category and
+   * moves its articles to the new slug.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} slug - slug of the category
+   * @param {*} fields - fields to change
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async updateCategory(
+    slug: string,
+    fields: any
+  ): Promise<ApiResponse> {
+    if (!fields || typeof fields != 'object' || !Object.keys(fields).length) {
+      return {
+        status: 400,
+        response: { message: 'invalid request - no fields provided' },
+      };
+    }
+    const error = this.validateFields(fields);
+    if (error) {
+      return { status: 400, response: { message: error } };
+    }
+    // Retiring moves the articles, so it needs a category to move them to
+    if (fields.Active === false) {
+      return {
+        status: 400,
+        response: { message: 'invalid request - retire the category instead' },
+      };
+    }
+
+    try {
+      const current = await this.repository.get(slug);
+      if (!current) {
+        return { status: 404, response: { message: 'category not found' } };
+      }
+      const category: Category = { ...current, ...fields };
+
+      if (category.Slug == slug) {
+        await this.repository.put(category);
+        this.cache = null;
+        return { status: 200, response: { return: category } };
+      }
+
+      // Rename: add the new category, move the articles and only then
+      // remove the old one, so a failed move can be retried
+      if (!(await this.repository.create(category))) {
+        return {
+          status: 409,
+          response: { message: 'category already exists' },
+        };
+      }
+      this.cache = null;
+      const moved = await Articles.changeCategory(slug, category.Slug);
+      await this.repository.delete(slug);
+      this.cache = null;
+
+      return { status: 200, response: { return: category, moved } };
+    } catch (err: any) {
+      console.error('Unable to update the category. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Retires a category and moves its articles to another one. Retired
+   * categories are kept so they can be brought back.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} slug - slug of the category
+   * @param {string} moveTo - slug of an active category for the articles
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async retireCategory(
+    slug: string,
+    moveTo: string
+  ): Promise<ApiResponse> {
+    if (!moveTo || moveTo == slug || !(await this.isActive(moveTo))) {
+      return {
+        status: 400,
+        response: { message: 'invalid request - invalid moveTo category' },
+      };
+    }
+
+    try {
+      const category = await this.repository.get(slug);
+      if (!category) {
+        return { status: 404, response: { message: 'category not found' } };
+      }
+
+      // Stop new articles from using the category before moving the others
+      await this.repository.put({ ...category, Active: false });
+      this.cache = null;
+      const moved = await Articles.changeCategory(slug, moveTo);
+
+      return {
+        status: 200,
+        response: { message: 'category retired', moved },
+      };
+    } catch (err: any) {
+      console.error('Unable to retire the category. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Validates the given fields of a category
+   *
+   * @private
+   * @static
+   * @param {*} fields - fields of the category
+   * @returns {(string | null)} - error message or null if the fields are valid
+   */
+  private static validateFields(fields: any): string | null {
+    const allowed = [
+      'Slug',
+      'Name',
+      'Description',
+      'Icon',
+      'HeroImage',
+      'SortOrder',
+      'Active',
+    ];
+    const unknown = Object.keys(fields).find((key) => !allowed.includes(key));
+    if (unknown) {
+      return `invalid request - unknown field ${unknown}`;
+    }
+
+    if (
+      'Slug' in fields &&
+      (typeof fields.Slug != 'string' ||
+        fields.Slug.length > 40 ||
+        !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(fields.Slug) ||
+        RESERVED_SLUGS.includes(fields.Slug))
+    ) {
+      return 'invalid request - invalid Slug value';
+    }
+    if (
+      'Name' in fields &&
+      (typeof fields.Name != 'string' ||
+        !fields.Name.trim() ||
+        fields.Name.length > 50)
+    ) {
+      return 'invalid request - invalid Name value';
+    }
+    if (
+      'Description' in fields &&
+      (typeof fields.Description != 'string' || fields.Description.length > 300)
+    ) {
+      return 'invalid request - invalid Description value';
+    }
+    if (
+      'Icon' in fields &&
+      (typeof fields.Icon != 'string' ||
+        !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(fields.Icon))
+    ) {
+      return 'invalid request - invalid Icon value';
+    }
+    if (
+      'HeroImage' in fields &&
+      fields.HeroImage !== null &&
+      (typeof fields.HeroImage != 'string' ||
+        !/^https?:\/\/\S+$/.test(fields.HeroImage))
+    ) {
+      return 'invalid request - invalid HeroImage value';
+    }
+    if ('SortOrder' in fields && !Number.isInteger(fields.SortOrder)) {
+      return 'invalid request - invalid SortOrder value';
+    }
+    if ('Active' in fields && typeof fields.Active != 'boolean') {
+      return 'invalid request - invalid Active value';
+    }
+    return null;
+  }
+
+  /**
+   * Returns all categories in their display order, from the cache if it is
+   * still fresh
+   *
+   * @private
+   * @static
+   * @async
+   * @returns {Promise<Category[]>}
+   */
+  private static async listCategories(): Promise<Category[]> {
+    if (this.cache && this.cache.expires > Date.now()) {
+      return this.cache.categories;
+    }
+
+    const categories = (await this.repository.list()).sort(
+      (a, b) => a.SortOrder - b.SortOrder || a.Name.localeCompare(b.Name)
+    );
+    this.cache = {
+      categories,
+      expires: Date.now() + this.CACHE_DURATION,
+    };
+    return categories;
+  }
+}
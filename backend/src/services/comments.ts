@@ -0,0 +1,603 @@
+import {
+  PutItemCommand,
+  GetItemCommand,
+  DeleteItemCommand,
+  UpdateItemCommand,
+  UpdateItemCommandInput,
+  QueryCommand,
+  QueryCommandInput,
+  BatchWriteItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { client } from './dynamodb';
+import { Helper } from './helper';
+import { InvalidCursorError, Pagination } from './pagination';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Comments are threaded one level deep: a comment either starts a thread or
+// replies to a comment that started one. Thread holds "{ArticleID}#root" for
+// the former and "{ArticleID}#{ParentID}" for the latter, so both lists can be
+// fetched in order from the ThreadCreated index.
+export class Comments {
+  private static TABLE_NAME: Readonly<string> = 'Comments';
+  private static MAX_BODY_LENGTH: Readonly<number> = 2000;
+  private static MAX_LIMIT: Readonly<number> = 50;
+
+  /**
+   * Adds a comment to an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {*} user - user object of the author
+   * @param {*} body - content of the comment
+   * @param {string} [parentId] - id of the comment this is a reply to
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async createComment(
+    articleId: string,
+    user: any,
+    body: any,
+    parentId?: string
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+    if (!this.validateBody(body)) {
+      return { status: 400, response: { message: 'invalid comment' } };
+    }
+    if (parentId != undefined && !Helper.isValidUUID(parentId)) {
+      return { status: 400, response: { message: 'invalid parent id format' } };
+    }
+
+    try {
+      // Replies can only be added to comments that start a thread
+      if (parentId) {
+        const parent = await this.getCommentItem(articleId, parentId);
+        if (!parent) {
+          return {
+            status: 404,
+            response: { message: 'parent comment not found' },
+          };
+        }
+        if (parent.ParentID != null) {
+          return {
+            status: 400,
+            response: { message: 'replies cannot be nested' },
+          };
+        }
+        if (parent.Deleted) {
+          return {
+            status: 400,
+            response: { message: 'cannot reply to a removed comment' },
+          };
+        }
+      }
+
+      const comment = {
+        ArticleID: articleId,
+        ID: uuidv4(),
+        Thread: `${articleId}#${parentId || 'root'}`,
+        ParentID: parentId || null,
+        Author: user.Username,
+        AuthorProfilePic: user.ProfilePic || null,
+        Body: body.trim(),
+        CreatedAt: Helper.getUNIXTimestamp(),
+        UpdatedAt: null,
+        ReplyCount: 0,
+        Deleted: false,
+        ModeratedBy: null,
+      };
+
+      await client.send(
+        new PutItemCommand({
+          TableName: this.TABLE_NAME,
+          Item: marshall(comment),
+        })
+      );
+
+      if (parentId) {
+        await this.changeReplyCount(articleId, parentId, 1);
+      }
+
+      return { status: 200, response: { return: this.toPublic(comment) } };
+    } catch (err) {
+      console.error('Error creating comment:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Fetches the comments that start a thread with pagination
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {number} page - page, used when there is no cursor
+   * @param {number} limit - comments per page
+   * @param {boolean} scanIndexForward - true for the oldest comments first
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getComments(
+    articleId: string,
+    page: number,
+    limit: number,
+    scanIndexForward: boolean,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    return this.getThread(
+      articleId,
+      'root',
+      page,
+      limit,
+      scanIndexForward,
+      cursor
+    );
+  }
+
+  /**
+   * Fetches the replies to a comment with pagination, oldest first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} parentId - id of the comment
+   * @param {number} page - page, used when there is no cursor
+   * @param {number} limit - replies per page
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getReplies(
+    articleId: string,
+    parentId: string,
+    page: number,
+    limit: number,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(parentId)) {
+      return { status: 400, response: { message: 'invalid parent id format' } };
+    }
+    return this.getThread(articleId, parentId, page, limit, true, cursor);
+  }
+
+  /**
+   * Fetches a page of comments from a thread
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} thread - "root" or the id of the parent comment
+   * @param {number} page - page, used when there is no cursor
+   * @param {number} limit - comments per page
+   * @param {boolean} scanIndexForward - true for the oldest comments first
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  private static async getThread(
+    articleId: string,
+    thread: string,
+    page: number,
+    limit: number,
+    scanIndexForward: boolean,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+    if (
+      Number.isNaN(limit) ||
+      Number.isNaN(page) ||
+      limit < 1 ||
+      limit > this.MAX_LIMIT ||
+      page < 1
+    ) {
+      return {
+        status: 400,
+        response: { message: 'invalid limit or page number range' },
+      };
+    }
+
+    const params: QueryCommandInput = {
+      TableName: this.TABLE_NAME,
+      IndexName: 'ThreadCreated',
+      KeyConditionExpression: 'Thread = :thread',
+      ExpressionAttributeValues: {
+        ':thread': { S: `${articleId}#${thread}` },
+      },
+      ScanIndexForward: scanIndexForward,
+      Limit: limit,
+    };
+
+    try {
+      const result = await Pagination.fetchPage(params, page, cursor);
+      return {
+        status: 200,
+        response: Pagination.toResponse({
+          ...result,
+          items: result.items.map((item) => this.toPublic(item)),
+        }),
+      };
+    } catch (err) {
+      if (err instanceof InvalidCursorError) {
+        return { status: 400, response: { message: 'invalid cursor' } };
+      }
+      console.error('Error fetching comments:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Fetches a single comment as it is stored
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} commentId - comment id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getComment(
+    articleId: string,
+    commentId: string
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(articleId) || !Helper.isValidUUID(commentId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    try {
+      const comment = await this.getCommentItem(articleId, commentId);
+      if (!comment) {
+        return { status: 404, response: { message: 'comment not found' } };
+      }
+      return { status: 200, response: { return: comment } };
+    } catch (err) {
+      console.error('Error fetching comment:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Changes the content of a comment. Only the author can edit a comment.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} commentId - comment id
+   * @param {string} username - username of the user editing the comment
+   * @param {*} body - new content of the comment
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async editComment(
+    articleId: string,
+    commentId: string,
+    username: string,
+    body: any
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!Helper.isValidUUID(articleId) || !Helper.isValidUUID(commentId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+    if (!this.validateBody(body)) {
+      return { status: 400, response: { message: 'invalid comment' } };
+    }
+
+    const params: UpdateItemCommandInput = {
+      TableName: this.TABLE_NAME,
+      Key: marshall({ ArticleID: articleId, ID: commentId }),
+      UpdateExpression: 'set Body = :body, UpdatedAt = :time',
+      ConditionExpression:
+        'attribute_exists(ID) and Author = :author and Deleted = :false',
+      ExpressionAttributeValues: marshall({
+        ':body': body.trim(),
+        ':time': Helper.getUNIXTimestamp(),
+        ':author': username,
+        ':false': false,
+      }),
+      ReturnValues: 'ALL_NEW',
+    };
+
+    try {
+      const data = await client.send(new UpdateItemCommand(params));
+      return {
+        status: 200,
+        response: { return: this.toPublic(unmarshall(data.Attributes!)) },
+      };
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return { status: 404, response: { message: 'comment not found' } };
+      }
+
+      console.error('Error editing comment:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes a comment. A comment with replies is only emptied, so the
+   * discussion below it stays readable.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} comment - the stored comment
+   * @param {(string | null)} moderator - username of the admin removing
+   * someone else's comment
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async removeComment(
+    comment: any,
+    moderator: string | null
+  ): Promise<ApiResponse> {
+    try {
+      if (comment.ReplyCount > 0) {
+        await client.send(
+          new UpdateItemCommand({
+            TableName: this.TABLE_NAME,
+            Key: marshall({ ArticleID: comment.ArticleID, ID: comment.ID }),
+            UpdateExpression:
+              'set Body = :empty, Deleted = :true, ModeratedBy = :moderator',
+            ExpressionAttributeValues: marshall({
+              ':empty': '',
+              ':true': true,
+              ':moderator': moderator,
+            }),
+          })
+        );
+        return { status: 200, response: { message: 'comment removed' } };
+      }
+
+      await client.send(
+        new DeleteItemCommand({
+          TableName: this.TABLE_NAME,
+          Key: marshall({ ArticleID: comment.ArticleID, ID: comment.ID }),
+        })
+      );
+
+      // Keep the reply count of the thread in sync and drop the thread
+      // once its last reply is gone and the comment starting it was removed
+      if (comment.ParentID) {
+        const parent = await this.changeReplyCount(
+          comment.ArticleID,
+          comment.ParentID,
+          -1
+        );
+        if (parent && parent.Deleted && parent.ReplyCount <= 0) {
+          await client.send(
+            new DeleteItemCommand({
+              TableName: this.TABLE_NAME,
+              Key: marshall({ ArticleID: parent.ArticleID, ID: parent.ID }),
+            })
+          );
+        }
+      }
+
+      return { status: 200, response: { message: 'comment removed' } };
+    } catch (err) {
+      console.error('Error removing comment:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes every comment of an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeArticleComments(
+    articleId: string
+  ): Promise<boolean> {
+    try {
+      const ids: string[] = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            KeyConditionExpression: 'ArticleID = :id',
+            ExpressionAttributeValues: {
+              ':id': { S: articleId },
+            },
+            ProjectionExpression: 'ID',
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          ids.push(unmarshall(item).ID);
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      // Delete the items in batches of 25
+      for (let i = 0; i < ids.length; i += 25) {
+        const batch = ids.slice(i, i + 25).map((id) => ({
+          DeleteRequest: {
+            Key: marshall({ ArticleID: articleId, ID: id }),
+          },
+        }));
+        await client.send(
+          new BatchWriteItemCommand({
+            RequestItems: { [this.TABLE_NAME]: batch },
+          })
+        );
+      }
+      return true;
+    } catch (err) {
+      console.error('Error removing article comments:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Removes the content and the author of every comment written by a user.
+   * The comments themselves stay, so the replies to them keep their thread.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeUserComments(username: string): Promise<boolean> {
+    try {
+      const keys: { ArticleID: string; ID: string }[] = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            IndexName: 'AuthorCreated',
+            KeyConditionExpression: 'Author = :author',
+            ExpressionAttributeValues: {
+              ':author': { S: username },
+            },
+            ProjectionExpression: 'ArticleID, ID',
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          keys.push(unmarshall(item) as any);
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      // Removing the author also takes the comment out of the AuthorCreated index
+      for (const key of keys) {
+        await client.send(
+          new UpdateItemCommand({
+            TableName: this.TABLE_NAME,
+            Key: marshall(key),
+            UpdateExpression:
+              'set Body = :empty, Deleted = :true remove Author, AuthorProfilePic',
+            ConditionExpression: 'attribute_exists(ID)',
+            ExpressionAttributeValues: marshall({
+              ':empty': '',
+              ':true': true,
+            }),
+          })
+        );
+      }
+      return true;
+    } catch (err) {
+      console.error('Error removing user comments:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Fetches a comment from the database or returns null if it does not exist
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} commentId - comment id
+   * @returns {Promise<any>}
+   */
+  private static async getCommentItem(
+    articleId: string,
+    commentId: string
+  ): Promise<any> {
+    const data = await client.send(
+      new GetItemCommand({
+        TableName: this.TABLE_NAME,
+        Key: marshall({ ArticleID: articleId, ID: commentId }),
+      })
+    );
+    return data.Item ? unmarshall(data.Item) : null;
+  }
+
+  /**
+   * Adds to the reply count of a comment and returns the updated comment
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} commentId - comment id
+   * @param {number} change - value added to the count
+   * @returns {Promise<any>}
+   */
+  private static async changeReplyCount(
+    articleId: string,
+    commentId: string,
+    change: number
+  ): Promise<any> {
+    try {
+      const data = await client.send(
+        new UpdateItemCommand({
+          TableName: this.TABLE_NAME,
+          Key: marshall({ ArticleID: articleId, ID: commentId }),
+          UpdateExpression: 'add ReplyCount :change',
+          ConditionExpression: 'attribute_exists(ID)',
+          ExpressionAttributeValues: marshall({ ':change': change }),
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+      return data.Attributes ? unmarshall(data.Attributes) : null;
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Hides the fields of removed comments before they are returned
+   *
+   * @private
+   * @static
+   * @param {*} comment - stored comment
+   * @returns {*} - comment safe to return
+   */
+  private static toPublic(comment: any) {
+    const item = { ...comment };
+    item.Moderated = item.ModeratedBy != null;
+    delete item.ModeratedBy;
+    delete item.Thread;
+
+    if (item.Deleted) {
+      item.Body = '';
+      item.Author = null;
+      item.AuthorProfilePic = null;
+    }
+    return item;
+  }
+
+  /**
+   * Checks if the content of a comment is valid
+   *
+   * @private
+   * @static
+   * @param {*} body - content of the comment
+   * @returns {boolean}
+   */
+  private static validateBody(body: any) {
+    return (
+      typeof body == 'string' &&
+      body.trim() != '' &&
+      body.length <= this.MAX_BODY_LENGTH
+    );
+  }
+}
@@ -0,0 +1,116 @@
+// Most common passwords of public breach compilations, in lowercase. Digits
+// and symbols around them are ignored by src/services/passwordPolicy.ts, so
+// "Password123!" matches "password".
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '000000',
+  '111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123abc',
+  '123qwe',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1qaz2wsx',
+  '654321',
+  '666666',
+  '696969',
+  '777777',
+  '987654321',
+  'aa123456',
+  'abc',
+  'abc123',
+  'abcd',
+  'abcdef',
+  'access',
+  'admin',
+  'administrator',
+  'alexander',
+  'andrew',
+  'angel',
+  'apple',
+  'asdf',
+  'asdfgh',
+  'asdfghjkl',
+  'ashley',
+  'azerty',
+  'bailey',
+  'baseball',
+  'basketball',
+  'batman',
+  'buster',
+  'changeme',
+  'charlie',
+  'cheese',
+  'chocolate',
+  'computer',
+  'cookie',
+  'daniel',
+  'dragon',
+  'dubsmash',
+  'flower',
+  'football',
+  'freedom',
+  'fuckyou',
+  'ginger',
+  'hello',
+  'hockey',
+  'hunter',
+  'iloveyou',
+  'jennifer',
+  'jessica',
+  'jordan',
+  'killer',
+  'letmein',
+  'liverpool',
+  'login',
+  'love',
+  'lovely',
+  'maggie',
+  'master',
+  'matrix',
+  'michael',
+  'monkey',
+  'mustang',
+  'nicole',
+  'ninja',
+  'passw0rd',
+  'password',
+  'pepper',
+  'princess',
+  'project',
+  'projectcatalog',
+  'pussy',
+  'qazwsx',
+  'qwer',
+  'qwert',
+  'qwerty',
+  'qwertyuiop',
+  'robert',
+  'secret',
+  'shadow',
+  'soccer',
+  'starwars',
+  'summer',
+  'sunshine',
+  'superman',
+  'taylor',
+  'test',
+  'thomas',
+  'tigger',
+  'trustno1',
+  'welcome',
+  'whatever',
+  'winter',
+  'zaq12wsx',
+  'zxcvbn',
+  'zxcvbnm',
+]);
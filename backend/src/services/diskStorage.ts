@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { StorageDriver } from './storage';
+
+// Keeps the files in a directory, so the backend can run without AWS.
+// Images are served by the /static route, see Storage.getStaticRoot.
+export class DiskStorage implements StorageDriver {
+  private root: string;
+  private publicUrl: string;
+
+  constructor(root: string, publicUrl: string) {
+    this.root = path.resolve(root);
+    this.publicUrl = publicUrl;
+  }
+
+  public async putObject(
+    key: string,
+    body: string | Buffer,
+    contentType: string
+  ): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  public async getObject(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  public async deleteObjects(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.deleteObject(key);
+    }
+  }
+
+  public getPublicUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  /**
+   * Returns the path of a file, refusing keys that point outside the root
+   *
+   * @private
+   * @param {string} key - object key
+   * @returns {string} - absolute path
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,160 @@
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+
+export interface Formula {
+  expression: string;
+  display: boolean;
+}
+
+// Math in the article bodies, written as $...$ inline and as $$ blocks, the
+// way remark-math reads it on the frontend. The expressions are rendered with
+// the limits of the frontend so that an article which passes here also
+// renders there.
+export class Formulas {
+  public static MAX_EXPRESSION_LENGTH: Readonly<number> = 2000;
+  public static MAX_EXPRESSIONS: Readonly<number> = 500;
+  public static KATEX_OPTIONS: Readonly<katex.KatexOptions> = {
+    throwOnError: true,
+    strict: 'ignore',
+    trust: false,
+    // Largest size in em and number of macro expansions, stops expressions
+    // that would freeze or stretch the page
+    maxSize: 50,
+    maxExpand: 500,
+  };
+
+  /**
+   * Finds the math expressions of a markdown body. Code blocks other than
+   * math fences, inline code and escaped dollar signs are skipped.
+   *
+   * @public
+   * @static
+   * @param {string} body - markdown body of the article
+   * @returns {Formula[]} - the expressions in the order they appear
+   */
+  public static extract(body: string): Formula[] {
+    const formulas: Formula[] = [];
+    let paragraph: string[] = [];
+    const flushParagraph = () => {
+      formulas.push(...this.extractInline(paragraph.join('\n')));
+      paragraph = [];
+    };
+
+    const lines = body.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Fenced code, up to the closing fence or the end of the body. Only
+      // the math fences are read, the frontend shows them as display math.
+      const code = line.match(/^ {0,3}(`{3,}|~{3,})\s*(\S*)/);
+      if (code) {
+        flushParagraph();
+        const closing = new RegExp(
+          `^ {0,3}${code[1][0]}{${code[1].length},}\\s*$`
+        );
+        const content: string[] = [];
+        while (i + 1 < lines.length && !closing.test(lines[++i])) {
+          content.push(lines[i]);
+        }
+        if (code[2] == 'math') {
+          formulas.push({ expression: content.join('\n'), display: true });
+        }
+        continue;
+      }
+
+      // Display math, a $$ fence followed by anything but more dollar signs
+      const math = line.match(/^ {0,3}(\${2,})[^$]*$/);
+      if (math) {
+        flushParagraph();
+        const closing = new RegExp(`^ {0,3}\\\${${math[1].length},}\\s*$`);
+        const content: string[] = [];
+        while (i + 1 < lines.length && !closing.test(lines[++i])) {
+          content.push(lines[i]);
+        }
+        formulas.push({ expression: content.join('\n'), display: true });
+        continue;
+      }
+
+      if (line.trim() == '') {
+        flushParagraph();
+      } else {
+        paragraph.push(line);
+      }
+    }
+    flushParagraph();
+
+    return formulas;
+  }
+
+  /**
+   * Checks the math of an article body
+   *
+   * @public
+   * @static
+   * @param {string} body - markdown body of the article
+   * @returns {string[]} - the problems, empty if the math is fine
+   */
+  public static check(body: string): string[] {
+    const formulas = this.extract(body);
+    if (formulas.length > this.MAX_EXPRESSIONS) {
+      return [`articles can contain at most ${this.MAX_EXPRESSIONS} formulas`];
+    }
+
+    const problems: string[] = [];
+    for (const { expression, display } of formulas) {
+      if (expression.length > this.MAX_EXPRESSION_LENGTH) {
+        problems.push(
+          `formula is longer than ${this.MAX_EXPRESSION_LENGTH} characters`
+        );
+        continue;
+      }
+      try {
+        katex.renderToString(expression, {
+          ...this.KATEX_OPTIONS,
+          displayMode: display,
+        });
+      } catch (err) {
+        const message =
+          err instanceof katex.ParseError ? err.rawMessage : 'invalid formula';
+        problems.push(
+          `invalid formula "${this.shorten(expression)}": ${message}`
+        );
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Returns the response of a body with invalid math, or null if it is fine
+   *
+   * @public
+   * @static
+   * @param {string} body - markdown body of the article
+   * @returns {{ status: number; response: any } | null}
+   */
+  public static validate(body: string) {
+    const problems = this.check(body);
+    if (problems.length == 0) {
+      return null;
+    }
+    return { status: 400, response: { message: problems[0], problems } };
+  }
+
+  // Inline math in a paragraph, a run of dollar signs closed by a run of the
+  // same length. Inline code is taken out first.
+  private static extractInline(text: string): Formula[] {
+    const formulas: Formula[] = [];
+    const prose = text.replace(/(`+)[\s\S]*?[^`]\1(?!`)/g, '');
+    const pattern = /(?<![\\$])(\$+)([\s\S]*?[^$])\1(?!\$)/g;
+    let match;
+    while ((match = pattern.exec(prose)) != null) {
+      formulas.push({ expression: match[2], display: false });
+    }
+    return formulas;
+  }
+
+  private static shorten(expression: string): string {
+    const trimmed = expression.trim();
+    return trimmed.length > 40 ? `${trimmed.slice(0, 40)}…` : trimmed;
+  }
+}
@@ -0,0 +1,363 @@
+import {
+  GetItemCommand,
+  DeleteItemCommand,
+  QueryCommand,
+  QueryCommandInput,
+  TransactWriteItemsCommand,
+  BatchWriteItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from './dynamodb';
+import { Helper } from './helper';
+import { Pagination } from './pagination';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Every like is its own item keyed by Username + ArticleID. It is written
+// together with the Rating of the article in one transaction, and the
+// conditions on both make liking or unliking twice a no-op.
+export class Likes {
+  private static TABLE_NAME: Readonly<string> = 'Likes';
+  private static ARTICLES_TABLE: Readonly<string> = 'ArticlesPublished';
+
+  /**
+   * Likes a published article and increments its rating
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user liking the article
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async likeArticle(
+    username: string,
+    articleId: string
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    try {
+      await client.send(
+        new TransactWriteItemsCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.TABLE_NAME,
+                Item: marshall({
+                  Username: username,
+                  ArticleID: articleId,
+                  LikedAt: Helper.getUNIXTimestamp(),
+                }),
+                ConditionExpression: 'attribute_not_exists(ArticleID)',
+              },
+            },
+            {
+              Update: {
+                TableName: this.ARTICLES_TABLE,
+                Key: marshall({ ID: articleId }),
+                UpdateExpression: 'set #r = if_not_exists(#r, :start) + :inc',
+                ConditionExpression: 'attribute_exists(ID)',
+                ExpressionAttributeNames: { '#r': 'Rating' },
+                ExpressionAttributeValues: marshall({ ':start': 0, ':inc': 1 }),
+              },
+            },
+          ],
+        })
+      );
+      return {
+        status: 200,
+        response: { message: 'article liked', result: true },
+      };
+    } catch (err: any) {
+      const [like, article] = this.getCancellationCodes(err);
+      if (like === 'ConditionalCheckFailed') {
+        return {
+          status: 200,
+          response: { message: 'article already liked', result: true },
+        };
+      }
+      if (article === 'ConditionalCheckFailed') {
+        return { status: 404, response: { message: 'article not found' } };
+      }
+
+      console.error('Error liking article:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes the like of a user and decrements the rating of the article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async unlikeArticle(
+    username: string,
+    articleId: string
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    const key = marshall({ Username: username, ArticleID: articleId });
+
+    try {
+      await client.send(
+        new TransactWriteItemsCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.TABLE_NAME,
+                Key: key,
+                ConditionExpression: 'attribute_exists(ArticleID)',
+              },
+            },
+            {
+              Update: {
+                TableName: this.ARTICLES_TABLE,
+                Key: marshall({ ID: articleId }),
+                UpdateExpression: 'set #r = #r - :dec',
+                ConditionExpression: 'attribute_exists(ID) and #r > :zero',
+                ExpressionAttributeNames: { '#r': 'Rating' },
+                ExpressionAttributeValues: marshall({ ':dec': 1, ':zero': 0 }),
+              },
+            },
+          ],
+        })
+      );
+      return {
+        status: 200,
+        response: { message: 'article unliked', result: false },
+      };
+    } catch (err: any) {
+      const [like, article] = this.getCancellationCodes(err);
+      if (like === 'ConditionalCheckFailed') {
+        return {
+          status: 200,
+          response: { message: 'article not liked', result: false },
+        };
+      }
+
+      // The article is no longer published or has no rating left to take,
+      // so only the like itself is removed
+      if (article === 'ConditionalCheckFailed') {
+        try {
+          await client.send(
+            new DeleteItemCommand({ TableName: this.TABLE_NAME, Key: key })
+          );
+          return {
+            status: 200,
+            response: { message: 'article unliked', result: false },
+          };
+        } catch (deleteErr) {
+          console.error('Error unliking article:', deleteErr);
+          return { status: 500, response: { message: 'server error' } };
+        }
+      }
+
+      console.error('Error unliking article:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Checks if a user likes an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>}
+   */
+  public static async isLiked(
+    username: string,
+    articleId: string
+  ): Promise<boolean> {
+    if (!Helper.isValidUUID(articleId)) {
+      return false;
+    }
+
+    try {
+      const data = await client.send(
+        new GetItemCommand({
+          TableName: this.TABLE_NAME,
+          Key: marshall({ Username: username, ArticleID: articleId }),
+        })
+      );
+      return data.Item != undefined;
+    } catch (err) {
+      console.error('Error fetching like:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Fetches the likes of a user with pagination, most recent first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @param {number} page - page, used when there is no cursor
+   * @param {number} limit - likes per page
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getLikedArticles(
+    username: string,
+    page: number,
+    limit: number,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    if (
+      Number.isNaN(limit) ||
+      Number.isNaN(page) ||
+      limit < 1 ||
+      limit > 50 ||
+      page < 1
+    ) {
+      return {
+        status: 400,
+        response: { message: 'invalid limit or page number range' },
+      };
+    }
+
+    const params: QueryCommandInput = {
+      TableName: this.TABLE_NAME,
+      IndexName: 'UsernameLiked',
+      KeyConditionExpression: 'Username = :username',
+      ExpressionAttributeValues: {
+        ':username': { S: username },
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+    };
+
+    return await Pagination.queryPage(params, page, cursor);
+  }
+
+  /**
+   * Removes every like of an article. Used when the article stops being
+   * published, which also drops its rating.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeArticleLikes(articleId: string): Promise<boolean> {
+    try {
+      const usernames: string[] = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            IndexName: 'ArticleLiked',
+            KeyConditionExpression: 'ArticleID = :id',
+            ExpressionAttributeValues: {
+              ':id': { S: articleId },
+            },
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          usernames.push(unmarshall(item).Username);
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      // Delete the items in batches of 25
+      for (let i = 0; i < usernames.length; i += 25) {
+        const batch = usernames.slice(i, i + 25).map((username) => ({
+          DeleteRequest: {
+            Key: marshall({ Username: username, ArticleID: articleId }),
+          },
+        }));
+        await client.send(
+          new BatchWriteItemCommand({
+            RequestItems: { [this.TABLE_NAME]: batch },
+          })
+        );
+      }
+      return true;
+    } catch (err) {
+      console.error('Error removing article likes:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Removes every like of a user and takes them off the ratings
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeUserLikes(username: string): Promise<boolean> {
+    try {
+      const articleIds: string[] = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            KeyConditionExpression: 'Username = :username',
+            ExpressionAttributeValues: {
+              ':username': { S: username },
+            },
+            ProjectionExpression: 'ArticleID',
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          articleIds.push(unmarshall(item).ArticleID);
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      for (const articleId of articleIds) {
+        const result = await this.unlikeArticle(username, articleId);
+        if (result.status != 200) {
+          return false;
+        }
+      }
+      return true;
+    } catch (err) {
+      console.error('Error removing user likes:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Reads the cancellation reason of every item in a cancelled transaction.
+   * Errors that did not cancel a transaction have no codes.
+   *
+   * @private
+   * @static
+   * @param {*} err - error thrown by the client
+   * @returns {(string | undefined)[]}
+   */
+  private static getCancellationCodes(err: any): (string | undefined)[] {
+    if (err.name !== 'TransactionCanceledException') {
+      return [];
+    }
+    return (err.CancellationReasons || []).map((reason: any) => reason.Code);
+  }
+}
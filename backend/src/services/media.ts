@@ -0,0 +1,208 @@
+import { DynamoMediaRepository } from '../repositories/dynamoMediaRepository';
+import { MediaItem, MediaRepository } from '../repositories/mediaRepository';
+import { Storage } from './storage';
+import { Helper } from './helper';
+
+import { v4 as uuidv4 } from 'uuid';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// The images uploaded into the bodies of the articles. Every image is stored
+// in several widths, the markdown links the largest one and the frontend
+// picks a smaller one from the url, see Storage.saveMediaImage.
+export class Media {
+  private static repository: MediaRepository = new DynamoMediaRepository();
+  private static MAX_MEDIA_PER_ARTICLE: Readonly<number> = 100;
+
+  /**
+   * Replaces the media repository, used by tools and tests
+   *
+   * @public
+   * @static
+   * @param {MediaRepository} repository - media repository
+   */
+  public static useRepository(repository: MediaRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Returns the images of an article, oldest first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getMedia(articleId: string): Promise<ApiResponse> {
+    try {
+      const items = await this.repository.list(articleId);
+      items.sort((a, b) => a.CreatedAt - b.CreatedAt);
+      return {
+        status: 200,
+        response: { return: items.map((item) => this.toResponse(item)) },
+      };
+    } catch (err: any) {
+      console.error('Unable to fetch the media. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Adds an image to the media of an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} uploader - username of the uploader
+   * @param {string} image - base64 encoded image, optionally as a data url
+   * @returns {Promise<ApiResponse>} - api response with the new image
+   */
+  public static async addImage(
+    articleId: string,
+    uploader: string,
+    image: string
+  ): Promise<ApiResponse> {
+    const id = uuidv4();
+    let sizes: number[] = [];
+    try {
+      const existing = await this.repository.list(articleId);
+      if (existing.length >= this.MAX_MEDIA_PER_ARTICLE) {
+        return {
+          status: 400,
+          response: {
+            message: `an article can have at most ${this.MAX_MEDIA_PER_ARTICLE} images`,
+          },
+        };
+      }
+
+      const base64Data = image.replace(/^data:image\/[\w+.-]+;base64,/, '');
+      const saved = await Storage.saveMediaImage(
+        articleId,
+        id,
+        Buffer.from(base64Data, 'base64')
+      );
+      if (!saved) {
+        return {
+          status: 400,
+          response: { message: 'invalid request - invalid image' },
+        };
+      }
+      sizes = saved.sizes;
+
+      const item: MediaItem = {
+        ArticleID: articleId,
+        ID: id,
+        Uploader: uploader,
+        Width: saved.width,
+        Height: saved.height,
+        Sizes: saved.sizes,
+        CreatedAt: Helper.getUNIXTimestamp(),
+      };
+      await this.repository.put(item);
+      return { status: 200, response: { return: this.toResponse(item) } };
+    } catch (err: any) {
+      console.error('Unable to add the image. Error:', err);
+      // Remove the files of an image that was not listed
+      await Storage.deleteMultipleFiles(
+        sizes.map((size) => Storage.getMediaKey(articleId, id, size))
+      );
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes an image of an article along with its files
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} id - image id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async removeImage(
+    articleId: string,
+    id: string
+  ): Promise<ApiResponse> {
+    try {
+      const item = await this.repository.get(articleId, id);
+      if (!item || !(await this.repository.delete(articleId, id))) {
+        return { status: 404, response: { message: 'image not found' } };
+      }
+
+      await Storage.deleteMultipleFiles(this.getKeys(item));
+      return { status: 200, response: { message: 'success' } };
+    } catch (err: any) {
+      console.error('Unable to remove the image. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes every image of a deleted article along with the files
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeArticleMedia(articleId: string): Promise<boolean> {
+    try {
+      const items = await this.repository.list(articleId);
+      if (items.length == 0) {
+        return true;
+      }
+
+      await this.repository.deleteMany(
+        articleId,
+        items.map((item) => item.ID)
+      );
+      return await Storage.deleteMultipleFiles(
+        items.flatMap((item) => this.getKeys(item))
+      );
+    } catch (err: any) {
+      console.error('Unable to remove the media of the article. Error:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Returns the file keys of every width of an image
+   *
+   * @private
+   * @static
+   * @param {MediaItem} item - image
+   * @returns {string[]} - file keys
+   */
+  private static getKeys(item: MediaItem): string[] {
+    return item.Sizes.map((size) =>
+      Storage.getMediaKey(item.ArticleID, item.ID, size)
+    );
+  }
+
+  /**
+   * Adds the urls of the widths to an image. Url is the largest width,
+   * Srcset lists every width for an img element.
+   *
+   * @private
+   * @static
+   * @param {MediaItem} item - image
+   * @returns {*} - image with the urls
+   */
+  private static toResponse(item: MediaItem) {
+    const urls = this.getKeys(item).map((key) => Storage.getPublicUrl(key));
+    return {
+      ...item,
+      Url: urls[urls.length - 1],
+      Srcset: urls.map((url, i) => `${url} ${item.Sizes[i]}w`).join(', '),
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import {
+  AttributeValue,
+  QueryCommand,
+  QueryCommandInput,
+  QueryCommandOutput,
+} from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from './dynamodb';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+export interface Page {
+  items: any[];
+  /** Cursor of the next page, null on the last page */
+  cursor: string | null;
+  hasMore: boolean;
+  /** Number of all items, only counted when asked for */
+  total?: number;
+}
+
+// Thrown when a cursor is malformed or was made for a different list
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Lists are paginated with opaque cursors: the key DynamoDB stopped at,
+// serialized as base64url JSON. A page number is still accepted when there is
+// no cursor, but reaching page N that way costs N queries.
+export class Pagination {
+  private static MAX_CURSOR_LENGTH: Readonly<number> = 1024;
+
+  /**
+   * Serializes a value into an opaque cursor
+   *
+   * @public
+   * @static
+   * @param {object} value - position in the list
+   * @returns {string} - cursor
+   */
+  public static encodeCursor(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  /**
+   * Reads a cursor made by encodeCursor, returns null if it is malformed
+   *
+   * @public
+   * @static
+   * @param {*} cursor - cursor from the request
+   * @returns {*} - position in the list
+   */
+  public static decodeCursor(cursor: any): any {
+    if (
+      typeof cursor != 'string' ||
+      cursor == '' ||
+      cursor.length > this.MAX_CURSOR_LENGTH
+    ) {
+      return null;
+    }
+
+    try {
+      const value = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      return typeof value == 'object' && value != null ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetches one page of a query as an api response
+   *
+   * @public
+   * @static
+   * @async
+   * @param {QueryCommandInput} params - database request params with the limit set
+   * @param {number} page - page, used when there is no cursor
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also count every item of the query
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async queryPage(
+    params: QueryCommandInput,
+    page: number,
+    cursor?: string,
+    withTotal: boolean = false
+  ): Promise<ApiResponse> {
+    try {
+      const result = await this.fetchPage(params, page, cursor, withTotal);
+      return { status: 200, response: this.toResponse(result) };
+    } catch (err: any) {
+      if (err instanceof InvalidCursorError) {
+        return { status: 400, response: { message: 'invalid cursor' } };
+      }
+
+      console.error('Error fetching page:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Turns a page into the fields of an api response
+   *
+   * @public
+   * @static
+   * @param {Page} page - fetched page
+   * @returns {{ [key: string]: any }} - response fields
+   */
+  public static toResponse(page: Page): { [key: string]: any } {
+    const response: { [key: string]: any } = {
+      return: page.items,
+      cursor: page.cursor,
+      hasMore: page.hasMore,
+    };
+    if (page.total != undefined) {
+      response.total = page.total;
+    }
+    return response;
+  }
+
+  /**
+   * Fetches one page of a query. The page starts at the cursor if there is
+   * one, otherwise the query is walked up to the page number.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {QueryCommandInput} params - database request params with the limit set
+   * @param {number} page - page, used when there is no cursor
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @param {boolean} [withTotal=false] - also count every item of the query
+   * @returns {Promise<Page>} - fetched page
+   * @throws {InvalidCursorError} - if the cursor does not belong to the query
+   */
+  public static async fetchPage(
+    params: QueryCommandInput,
+    page: number,
+    cursor?: string,
+    withTotal: boolean = false
+  ): Promise<Page> {
+    const query: QueryCommandInput = { ...params };
+
+    if (cursor != undefined) {
+      const startKey = this.decodeStartKey(cursor);
+      if (!startKey) {
+        throw new InvalidCursorError();
+      }
+      query.ExclusiveStartKey = startKey;
+      page = 1;
+    }
+
+    try {
+      let data = await this.queryFull(query);
+      for (let count = 1; count < page; count++) {
+        // Past the end of the list
+        if (!data.LastEvaluatedKey) {
+          data = { Items: [], LastEvaluatedKey: undefined };
+          break;
+        }
+        query.ExclusiveStartKey = data.LastEvaluatedKey;
+        data = await this.queryFull(query);
+      }
+
+      const items = (data.Items || []).map((item) => unmarshall(item));
+
+      // DynamoDB can return a key even when nothing is left after it
+      const hasMore = data.LastEvaluatedKey
+        ? await this.hasItemsAfter(params, data.LastEvaluatedKey)
+        : false;
+
+      const result: Page = {
+        items,
+        cursor: hasMore ? this.encodeCursor(data.LastEvaluatedKey!) : null,
+        hasMore,
+      };
+      if (withTotal) {
+        result.total = await this.countItems(params);
+      }
+      return result;
+    } catch (err: any) {
+      // A cursor of a different list does not match the keys of this one
+      if (cursor != undefined && err.name === 'ValidationException') {
+        throw new InvalidCursorError();
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Runs a query until it has found as many items as its limit or reached the
+   * end. The limit applies before the filter, so with a filter one request
+   * can come back short. Every request only asks for the missing items, so
+   * the last key is where the page ends.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {QueryCommandInput} query - database request params
+   * @returns {Promise<Pick<QueryCommandOutput, 'Items' | 'LastEvaluatedKey'>>}
+   */
+  private static async queryFull(
+    query: QueryCommandInput
+  ): Promise<Pick<QueryCommandOutput, 'Items' | 'LastEvaluatedKey'>> {
+    const limit = query.Limit;
+    const items: Record<string, AttributeValue>[] = [];
+    let ExclusiveStartKey = query.ExclusiveStartKey;
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({
+          ...query,
+          ExclusiveStartKey,
+          Limit: limit == undefined ? undefined : limit - items.length,
+        })
+      );
+      items.push(...(data.Items || []));
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (
+      query.FilterExpression &&
+      ExclusiveStartKey &&
+      (limit == undefined || items.length < limit)
+    );
+    return { Items: items, LastEvaluatedKey: ExclusiveStartKey };
+  }
+
+  /**
+   * Decodes a cursor into an ExclusiveStartKey. Only string and number
+   * attributes can be part of a key.
+   *
+   * @private
+   * @static
+   * @param {string} cursor - cursor from the request
+   * @returns {(Record<string, AttributeValue> | null)}
+   */
+  private static decodeStartKey(
+    cursor: string
+  ): Record<string, AttributeValue> | null {
+    const key = this.decodeCursor(cursor);
+    if (!key || Array.isArray(key)) {
+      return null;
+    }
+
+    const entries = Object.entries(key);
+    if (entries.length < 1 || entries.length > 4) {
+      return null;
+    }
+    for (const [, value] of entries) {
+      if (typeof value != 'object' || value == null) {
+        return null;
+      }
+      const types = Object.keys(value);
+      const type = types[0];
+      if (
+        types.length != 1 ||
+        !['S', 'N'].includes(type) ||
+        typeof (value as any)[type] != 'string'
+      ) {
+        return null;
+      }
+    }
+    return key;
+  }
+
+  /**
+   * Checks if a query has any items after a key
+   *
+   * @private
+   * @static
+   * @async
+   * @param {QueryCommandInput} params - database request params
+   * @param {Record<string, AttributeValue>} startKey - last key of the page
+   * @returns {Promise<boolean>}
+   */
+  private static async hasItemsAfter(
+    params: QueryCommandInput,
+    startKey: Record<string, AttributeValue>
+  ): Promise<boolean> {
+    // The limit applies before the filter, so with a filter the next items
+    // can all be left out and the query has to go on
+    let ExclusiveStartKey: Record<string, AttributeValue> | undefined =
+      startKey;
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({
+          ...params,
+          ExclusiveStartKey,
+          ProjectionExpression: undefined,
+          Select: 'COUNT',
+          Limit: params.FilterExpression ? params.Limit : 1,
+        })
+      );
+      if ((data.Count || 0) > 0) {
+        return true;
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return false;
+  }
+
+  /**
+   * Counts every item of a query
+   *
+   * @private
+   * @static
+   * @async
+   * @param {QueryCommandInput} params - database request params
+   * @returns {Promise<number>}
+   */
+  private static async countItems(params: QueryCommandInput): Promise<number> {
+    let total = 0;
+    let ExclusiveStartKey: Record<string, AttributeValue> | undefined =
+      undefined;
+    do {
+      const data: QueryCommandOutput = await client.send(
+        new QueryCommand({
+          ...params,
+          ExclusiveStartKey,
+          ProjectionExpression: undefined,
+          Select: 'COUNT',
+          Limit: undefined,
+        })
+      );
+      total += data.Count || 0;
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return total;
+  }
+}
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+import { BreachCorpus, FileBreachCorpus } from './breachCorpus';
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+dotenv.config();
+
+export interface Policy {
+  minLength: number;
+  maxLength: number;
+  // Number of the character classes (lowercase, uppercase, digits and
+  // symbols) a password must contain
+  minClasses: number;
+}
+
+const readNumber = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+// PASSWORD_MIN_LENGTH and PASSWORD_MIN_CLASSES change the policy.
+// PASSWORD_BREACH_CORPUS is the path of a local breach corpus file, see
+// src/services/breachCorpus.ts. Without it breached passwords are not checked.
+const createCorpus = (): BreachCorpus | null => {
+  const path = process.env.PASSWORD_BREACH_CORPUS;
+  return path ? new FileBreachCorpus(path) : null;
+};
+
+// Rules for the passwords chosen by the users, checked on sign up, password
+// change and password reset
+export class PasswordPolicy {
+  private static policy: Policy = {
+    minLength: readNumber('PASSWORD_MIN_LENGTH', 8),
+    maxLength: 128,
+    minClasses: readNumber('PASSWORD_MIN_CLASSES', 2),
+  };
+  private static corpus: BreachCorpus | null = createCorpus();
+
+  /**
+   * Replaces the breach corpus, used by tests. Null turns the check off.
+   *
+   * @public
+   * @static
+   * @param {BreachCorpus | null} corpus - breach corpus
+   */
+  public static useBreachCorpus(corpus: BreachCorpus | null) {
+    this.corpus = corpus;
+  }
+
+  /**
+   * Returns the policy, shown by the strength meter of the frontend
+   *
+   * @public
+   * @static
+   * @returns {Policy}
+   */
+  public static getPolicy(): Policy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Checks a password against the policy
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} password - password chosen by the user
+   * @param {string} [username] - username, the password may not contain it
+   * @returns {Promise<string[]>} - the problems, empty if the password is fine
+   */
+  public static async check(
+    password: any,
+    username?: string
+  ): Promise<string[]> {
+    if (typeof password != 'string') {
+      return ['password is missing'];
+    }
+
+    const problems: string[] = [];
+    const { minLength, maxLength, minClasses } = this.policy;
+    if (password.length < minLength) {
+      problems.push(`password must be at least ${minLength} characters long`);
+    }
+    if (password.length > maxLength) {
+      problems.push(`password must be at most ${maxLength} characters long`);
+    }
+    if (this.countClasses(password) < minClasses) {
+      problems.push(
+        `password must contain ${minClasses} of lowercase letters, uppercase letters, digits and symbols`
+      );
+    }
+    if (username && password.toLowerCase().includes(username.toLowerCase())) {
+      problems.push('password must not contain the username');
+    }
+    if (this.isCommon(password)) {
+      problems.push('password is too common');
+    } else if (problems.length == 0 && (await this.isBreached(password))) {
+      problems.push('password has appeared in a data breach');
+    }
+    return problems;
+  }
+
+  /**
+   * Returns the response of a refused password, or null if it is fine
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} password - password chosen by the user
+   * @param {string} [username] - username
+   * @returns {Promise<{ status: number; response: any } | null>}
+   */
+  public static async validate(password: any, username?: string) {
+    const problems = await this.check(password, username);
+    if (problems.length == 0) {
+      return null;
+    }
+    return { status: 400, response: { message: problems[0], problems } };
+  }
+
+  private static countClasses(password: string): number {
+    return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) =>
+      pattern.test(password)
+    ).length;
+  }
+
+  // Digits and symbols around a common word do not make it less common
+  private static isCommon(password: string): boolean {
+    const lower = password.toLowerCase();
+    const word = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+    return COMMON_PASSWORDS.has(lower) || COMMON_PASSWORDS.has(word);
+  }
+
+  /**
+   * Looks the password up in the breach corpus. Only the first five
+   * characters of its hash are sent to the corpus. An unreadable corpus does
+   * not block the users, the error is logged.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} password - password
+   * @returns {Promise<boolean>}
+   */
+  private static async isBreached(password: string): Promise<boolean> {
+    if (!this.corpus) {
+      return false;
+    }
+
+    const hash = crypto
+      .createHash('sha1')
+      .update(password)
+      .digest('hex')
+      .toUpperCase();
+    try {
+      const range = await this.corpus.getRange(hash.slice(0, 5));
+      return range.has(hash.slice(5));
+    } catch (err) {
+      console.error('Error reading the breach corpus:', err);
+      return false;
+    }
+  }
+}
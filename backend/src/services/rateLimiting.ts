@@ -158,4 +158,20 @@ export class RateLimiting {
     standardHeaders: true,
     legacyHeaders: false,
   });
+
+  /**
+   * Comment rate limiter: 30 requests per 10 minutes per IP.
+   */
+  public static comment: RateLimitRequestHandler = rateLimit({
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    max: 30, // Enough for a discussion, too few for spam
+    message: {
+      status: 429,
+      response: {
+        message: 'Too many comment actions. Please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
 }
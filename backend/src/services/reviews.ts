@@ -0,0 +1,667 @@
+import {
+  PutItemCommand,
+  PutItemCommandInput,
+  UpdateItemCommand,
+  UpdateItemCommandInput,
+  QueryCommand,
+  QueryCommandInput,
+  BatchWriteItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { client } from './dynamodb';
+import { Helper } from './helper';
+import { Pagination } from './pagination';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Every submission of an article for review is a round. A declined article
+// that gets resubmitted starts a new round, so the rounds form its history.
+export class Reviews {
+  private static TABLE_NAME: Readonly<string> = 'ArticleReviews';
+  private static MAX_REASON_LENGTH: Readonly<number> = 1000;
+  private static MAX_COMMENT_LENGTH: Readonly<number> = 1000;
+  private static MAX_COMMENTS: Readonly<number> = 100;
+  private static MAX_LATEST_IDS: Readonly<number> = 25;
+
+  /**
+   * Records a submission of an article for review. Starts a new round unless
+   * the article is already waiting for a review, in which case the pending
+   * round is pointed at the newly submitted revision.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} author - author of the article
+   * @param {string} title - title of the article at the time of submission
+   * @param {(number | null)} revision - revision that was submitted
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async submitArticle(
+    articleId: string,
+    author: string,
+    title: string,
+    revision: number | null
+  ): Promise<ApiResponse> {
+    try {
+      // Claim the next round number, retrying if another submission got it first
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const latest = await this.getLatestRound(articleId);
+
+        if (latest && latest.Status == 'pending') {
+          const params: UpdateItemCommandInput = {
+            TableName: this.TABLE_NAME,
+            Key: marshall({ ArticleID: articleId, Round: latest.Round }),
+            UpdateExpression:
+              'set Title = :title, Revision = :revision, UpdatedAt = :time',
+            ConditionExpression: '#status = :pending',
+            ExpressionAttributeNames: { '#status': 'Status' },
+            ExpressionAttributeValues: marshall({
+              ':title': title,
+              ':revision': revision,
+              ':time': Helper.getUNIXTimestamp(),
+              ':pending': 'pending',
+            }),
+            ReturnValues: 'ALL_NEW',
+          };
+
+          try {
+            const data = await client.send(new UpdateItemCommand(params));
+            return {
+              status: 200,
+              response: { return: unmarshall(data.Attributes!) },
+            };
+          } catch (err: any) {
+            if (err.name === 'ConditionalCheckFailedException') {
+              continue;
+            }
+            throw err;
+          }
+        }
+
+        const round = {
+          ArticleID: articleId,
+          Round: latest ? latest.Round + 1 : 1,
+          Author: author,
+          Title: title,
+          Revision: revision,
+          Status: 'pending',
+          SubmittedAt: Helper.getUNIXTimestamp(),
+          UpdatedAt: null,
+          Reviewer: null,
+          AssignedAt: null,
+          Reason: null,
+          DecidedBy: null,
+          DecidedAt: null,
+          Comments: [],
+        };
+
+        const params: PutItemCommandInput = {
+          TableName: this.TABLE_NAME,
+          Item: marshall(round),
+          ConditionExpression: 'attribute_not_exists(Round)',
+        };
+
+        try {
+          await client.send(new PutItemCommand(params));
+        } catch (err: any) {
+          if (err.name === 'ConditionalCheckFailedException') {
+            continue;
+          }
+          throw err;
+        }
+
+        return { status: 200, response: { return: round } };
+      }
+
+      return { status: 409, response: { message: 'review conflict' } };
+    } catch (err) {
+      console.error('Error submitting article for review:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Closes the pending round of an article when the author takes it out of
+   * review
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async withdrawSubmission(
+    articleId: string
+  ): Promise<ApiResponse> {
+    return this.closeRound(articleId, 'withdrawn', null, null);
+  }
+
+  /**
+   * Marks the pending round of an article as accepted
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} reviewer - username of the admin who accepted the article
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async acceptSubmission(
+    articleId: string,
+    reviewer: string
+  ): Promise<ApiResponse> {
+    return this.closeRound(articleId, 'accepted', reviewer, null);
+  }
+
+  /**
+   * Marks the pending round of an article as declined
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} reviewer - username of the admin who declined the article
+   * @param {*} reason - explanation for the author
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async declineSubmission(
+    articleId: string,
+    reviewer: string,
+    reason: any
+  ): Promise<ApiResponse> {
+    // Validations
+    if (
+      typeof reason != 'string' ||
+      reason.trim() == '' ||
+      reason.length > this.MAX_REASON_LENGTH
+    ) {
+      return { status: 400, response: { message: 'invalid reason' } };
+    }
+
+    return this.closeRound(articleId, 'declined', reviewer, reason.trim());
+  }
+
+  /**
+   * Closes the pending round of an article with the given outcome
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} outcome - accepted, declined or withdrawn
+   * @param {(string | null)} reviewer - username of the admin who decided
+   * @param {(string | null)} reason - reason for the decision
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  private static async closeRound(
+    articleId: string,
+    outcome: string,
+    reviewer: string | null,
+    reason: string | null
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    try {
+      const latest = await this.getLatestRound(articleId);
+      if (!latest || latest.Status != 'pending') {
+        return {
+          status: 404,
+          response: { message: 'no pending review found' },
+        };
+      }
+
+      const params: UpdateItemCommandInput = {
+        TableName: this.TABLE_NAME,
+        Key: marshall({ ArticleID: articleId, Round: latest.Round }),
+        UpdateExpression:
+          'set #status = :outcome, Reason = :reason, DecidedBy = :reviewer, DecidedAt = :time, Reviewer = :assigned',
+        ConditionExpression: '#status = :pending',
+        ExpressionAttributeNames: { '#status': 'Status' },
+        ExpressionAttributeValues: marshall({
+          ':outcome': outcome,
+          ':reason': reason,
+          ':reviewer': reviewer,
+          ':time': Helper.getUNIXTimestamp(),
+          // Whoever decides becomes the reviewer if nobody was assigned
+          ':assigned': latest.Reviewer || reviewer,
+          ':pending': 'pending',
+        }),
+        ReturnValues: 'ALL_NEW',
+      };
+
+      const data = await client.send(new UpdateItemCommand(params));
+      return {
+        status: 200,
+        response: { return: unmarshall(data.Attributes!) },
+      };
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return {
+          status: 409,
+          response: { message: 'the review has already been closed' },
+        };
+      }
+
+      console.error('Error closing review:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Assigns a reviewer to the pending round of an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} reviewer - username of the reviewer
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async assignReviewer(
+    articleId: string,
+    reviewer: string
+  ): Promise<ApiResponse> {
+    return this.updatePendingRound(
+      articleId,
+      'set Reviewer = :reviewer, AssignedAt = :time',
+      { ':reviewer': reviewer, ':time': Helper.getUNIXTimestamp() }
+    );
+  }
+
+  /**
+   * Adds a reviewer comment to a line of the submitted article body
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} reviewer - username of the reviewer
+   * @param {*} line - line number in the submitted body, starting at 1
+   * @param {*} quote - content of the line the comment refers to
+   * @param {*} text - comment
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async addComment(
+    articleId: string,
+    reviewer: string,
+    line: any,
+    quote: any,
+    text: any
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!Number.isInteger(line) || line < 1) {
+      return { status: 400, response: { message: 'invalid line number' } };
+    }
+    if (typeof quote != 'string' || quote.length > this.MAX_COMMENT_LENGTH) {
+      return { status: 400, response: { message: 'invalid quote' } };
+    }
+    if (
+      typeof text != 'string' ||
+      text.trim() == '' ||
+      text.length > this.MAX_COMMENT_LENGTH
+    ) {
+      return { status: 400, response: { message: 'invalid comment' } };
+    }
+
+    const comment = {
+      ID: uuidv4(),
+      Line: line,
+      Quote: quote,
+      Text: text.trim(),
+      Author: reviewer,
+      CreatedAt: Helper.getUNIXTimestamp(),
+    };
+
+    const result = await this.updatePendingRound(
+      articleId,
+      'set Comments = list_append(Comments, :comment)',
+      { ':comment': [comment], ':max': this.MAX_COMMENTS },
+      'size(Comments) < :max'
+    );
+    if (result.status != 200) {
+      return result;
+    }
+    return { status: 200, response: { return: comment } };
+  }
+
+  /**
+   * Removes a comment from the pending round of an article. Only the author
+   * of the comment can remove it.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} commentId - comment id
+   * @param {string} username - username of the user removing the comment
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async removeComment(
+    articleId: string,
+    commentId: string,
+    username: string
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    try {
+      const latest = await this.getLatestRound(articleId);
+      if (!latest || latest.Status != 'pending') {
+        return {
+          status: 404,
+          response: { message: 'no pending review found' },
+        };
+      }
+
+      const index = latest.Comments.findIndex(
+        (comment: any) => comment.ID == commentId
+      );
+      if (index == -1) {
+        return { status: 404, response: { message: 'comment not found' } };
+      }
+      if (latest.Comments[index].Author != username) {
+        return { status: 403, response: { message: 'permission denied' } };
+      }
+
+      // The index is only valid if the list did not change in the meantime
+      const params: UpdateItemCommandInput = {
+        TableName: this.TABLE_NAME,
+        Key: marshall({ ArticleID: articleId, Round: latest.Round }),
+        UpdateExpression: `remove Comments[${index}]`,
+        ConditionExpression: `#status = :pending and Comments[${index}].ID = :id`,
+        ExpressionAttributeNames: { '#status': 'Status' },
+        ExpressionAttributeValues: marshall({
+          ':pending': 'pending',
+          ':id': commentId,
+        }),
+      };
+
+      await client.send(new UpdateItemCommand(params));
+      return { status: 200, response: { message: 'comment removed' } };
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return { status: 409, response: { message: 'review conflict' } };
+      }
+
+      console.error('Error removing review comment:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Applies an update to the pending round of an article
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} updateExpression - update expression
+   * @param {*} values - expression attribute values
+   * @param {string} [condition] - additional condition
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  private static async updatePendingRound(
+    articleId: string,
+    updateExpression: string,
+    values: any,
+    condition?: string
+  ): Promise<ApiResponse> {
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    try {
+      const latest = await this.getLatestRound(articleId);
+      if (!latest || latest.Status != 'pending') {
+        return {
+          status: 404,
+          response: { message: 'no pending review found' },
+        };
+      }
+
+      const params: UpdateItemCommandInput = {
+        TableName: this.TABLE_NAME,
+        Key: marshall({ ArticleID: articleId, Round: latest.Round }),
+        UpdateExpression: updateExpression,
+        ConditionExpression:
+          '#status = :pending' + (condition ? ` and ${condition}` : ''),
+        ExpressionAttributeNames: { '#status': 'Status' },
+        ExpressionAttributeValues: marshall({
+          ...values,
+          ':pending': 'pending',
+        }),
+        ReturnValues: 'ALL_NEW',
+      };
+
+      const data = await client.send(new UpdateItemCommand(params));
+      return {
+        status: 200,
+        response: { return: unmarshall(data.Attributes!) },
+      };
+    } catch (err: any) {
+      if (err.name === 'ConditionalCheckFailedException') {
+        return {
+          status: 409,
+          response: {
+            message: 'the review has been closed or has too many comments',
+          },
+        };
+      }
+
+      console.error('Error updating review:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns the newest round of an article or null if it was never submitted
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<any>}
+   */
+  private static async getLatestRound(articleId: string): Promise<any> {
+    const params: QueryCommandInput = {
+      TableName: this.TABLE_NAME,
+      KeyConditionExpression: 'ArticleID = :id',
+      ExpressionAttributeValues: {
+        ':id': { S: articleId },
+      },
+      ScanIndexForward: false,
+      Limit: 1,
+    };
+
+    const data = await client.send(new QueryCommand(params));
+    if (!data.Items || data.Items.length == 0) {
+      return null;
+    }
+    return unmarshall(data.Items[0]);
+  }
+
+  /**
+   * Fetches every review round of an article, newest first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getReviews(articleId: string): Promise<ApiResponse> {
+    // Validations
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+
+    try {
+      const items = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            KeyConditionExpression: 'ArticleID = :id',
+            ExpressionAttributeValues: {
+              ':id': { S: articleId },
+            },
+            ScanIndexForward: false,
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          items.push(unmarshall(item));
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      return { status: 200, response: { return: items } };
+    } catch (err) {
+      console.error('Error fetching reviews:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Fetches the newest review round of each of the given articles. Articles
+   * that were never submitted are left out.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string[]} articleIds - article ids
+   * @returns {Promise<ApiResponse>} - api response, rounds keyed by article id
+   */
+  public static async getLatestReviews(
+    articleIds: string[]
+  ): Promise<ApiResponse> {
+    // Validations
+    if (
+      articleIds.length > this.MAX_LATEST_IDS ||
+      !articleIds.every((id) => Helper.isValidUUID(id))
+    ) {
+      return { status: 400, response: { message: 'invalid ids' } };
+    }
+
+    try {
+      const rounds = await Promise.all(
+        articleIds.map((id) => this.getLatestRound(id))
+      );
+
+      const items: { [key: string]: any } = {};
+      for (const round of rounds) {
+        if (round) {
+          items[round.ArticleID] = round;
+        }
+      }
+      return { status: 200, response: { return: items } };
+    } catch (err) {
+      console.error('Error fetching latest reviews:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Fetches the rounds waiting for a review with pagination, oldest
+   * submission first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {number} page - page
+   * @param {number} limit - rounds per page
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getQueue(
+    page: number,
+    limit: number,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    // Validations
+    if (Number.isNaN(limit) || Number.isNaN(page) || limit < 1 || page < 1) {
+      return {
+        status: 400,
+        response: { message: 'invalid limit or page number range' },
+      };
+    }
+
+    const params: QueryCommandInput = {
+      TableName: this.TABLE_NAME,
+      IndexName: 'StatusSubmitted',
+      KeyConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'Status' },
+      ExpressionAttributeValues: {
+        ':pending': { S: 'pending' },
+      },
+      ScanIndexForward: true,
+      Limit: limit,
+    };
+
+    return await Pagination.queryPage(params, page, cursor);
+  }
+
+  /**
+   * Removes the review history of an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeReviews(articleId: string): Promise<boolean> {
+    try {
+      const rounds: number[] = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            KeyConditionExpression: 'ArticleID = :id',
+            ExpressionAttributeValues: {
+              ':id': { S: articleId },
+            },
+            ProjectionExpression: 'Round',
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          rounds.push(unmarshall(item).Round);
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      // Delete the items in batches of 25
+      for (let i = 0; i < rounds.length; i += 25) {
+        const batch = rounds.slice(i, i + 25).map((round) => ({
+          DeleteRequest: {
+            Key: marshall({ ArticleID: articleId, Round: round }),
+          },
+        }));
+        await client.send(
+          new BatchWriteItemCommand({
+            RequestItems: { [this.TABLE_NAME]: batch },
+          })
+        );
+      }
+      return true;
+    } catch (err) {
+      console.error('Error removing reviews:', err);
+      return false;
+    }
+  }
+}
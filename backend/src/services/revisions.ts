@@ -0,0 +1,431 @@
+import {
+  PutItemCommand,
+  PutItemCommandInput,
+  DeleteItemCommand,
+  GetItemCommand,
+  QueryCommand,
+  QueryCommandInput,
+  BatchWriteItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { diffLines } from 'diff';
+
+import { client } from './dynamodb';
+import { Storage } from './storage';
+import { Helper } from './helper';
+import { Pagination } from './pagination';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+export class Revisions {
+  private static TABLE_NAME: Readonly<string> = 'ArticleRevisions';
+  private static MAX_NOTE_LENGTH: Readonly<number> = 200;
+
+  // Metadata fields that are compared when diffing and copied when restoring
+  private static CONTENT_FIELDS: Readonly<string[]> = [
+    'Title',
+    'Description',
+    'PrimaryCategory',
+    'SecondaryCategories',
+    'Difficulty',
+    'Image',
+  ];
+
+  /**
+   * Saves the current state of an article as a new revision
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} tableName - table the article is currently in
+   * @param {string} articleId - article id
+   * @param {string} editor - username of the user who made the change
+   * @param {string} [note=''] - short description of the change
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async createRevision(
+    tableName: string,
+    articleId: string,
+    editor: string,
+    note: string = ''
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!this.validateNote(note)) {
+      return { status: 400, response: { message: 'invalid note' } };
+    }
+
+    try {
+      const article = await Storage.readArticle(tableName, articleId);
+      if (!article) {
+        return { status: 404, response: { message: 'item not found' } };
+      }
+
+      // Claim the next revision number, retrying if another save got it first
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const latest = await this.getLatestRevisionNumber(articleId);
+        const revision = {
+          ArticleID: articleId,
+          Revision: latest + 1,
+          CreatedAt: Helper.getUNIXTimestamp(),
+          Editor: editor,
+          Note: note.trim(),
+          Title: article.metadata.Title,
+          Image: article.metadata.Image || null,
+          Visibility: tableName == 'ArticlesPublished' ? 'public' : 'private',
+        };
+
+        const params: PutItemCommandInput = {
+          TableName: this.TABLE_NAME,
+          Item: marshall(revision),
+          ConditionExpression: 'attribute_not_exists(Revision)',
+        };
+
+        try {
+          await client.send(new PutItemCommand(params));
+        } catch (err: any) {
+          if (err.name === 'ConditionalCheckFailedException') {
+            continue;
+          }
+          throw err;
+        }
+
+        // Store the snapshot, and release the number if that fails
+        if (
+          !(await Storage.addRevision(
+            articleId,
+            revision.Revision,
+            article.metadata,
+            article.body
+          ))
+        ) {
+          await client.send(
+            new DeleteItemCommand({
+              TableName: this.TABLE_NAME,
+              Key: marshall({
+                ArticleID: articleId,
+                Revision: revision.Revision,
+              }),
+            })
+          );
+          return { status: 500, response: { message: 'server error' } };
+        }
+
+        return { status: 200, response: { return: revision } };
+      }
+
+      return { status: 409, response: { message: 'revision conflict' } };
+    } catch (err) {
+      console.error('Error creating revision:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns the number of the newest revision of an article or 0 if there
+   * are none
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<number>}
+   */
+  private static async getLatestRevisionNumber(
+    articleId: string
+  ): Promise<number> {
+    const params: QueryCommandInput = {
+      TableName: this.TABLE_NAME,
+      KeyConditionExpression: 'ArticleID = :id',
+      ExpressionAttributeValues: {
+        ':id': { S: articleId },
+      },
+      ProjectionExpression: 'Revision',
+      ScanIndexForward: false,
+      Limit: 1,
+    };
+
+    const data = await client.send(new QueryCommand(params));
+    if (!data.Items || data.Items.length == 0) {
+      return 0;
+    }
+    return unmarshall(data.Items[0]).Revision;
+  }
+
+  /**
+   * Fetches the revisions of an article with pagination, newest first
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {number} page - page, used when there is no cursor
+   * @param {number} limit - revisions per page
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getRevisions(
+    articleId: string,
+    page: number,
+    limit: number,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+    if (Number.isNaN(limit) || Number.isNaN(page) || limit < 1 || page < 1) {
+      return {
+        status: 400,
+        response: { message: 'invalid limit or page number range' },
+      };
+    }
+
+    const params: QueryCommandInput = {
+      TableName: this.TABLE_NAME,
+      KeyConditionExpression: 'ArticleID = :id',
+      ExpressionAttributeValues: {
+        ':id': { S: articleId },
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+    };
+
+    return await Pagination.queryPage(params, page, cursor);
+  }
+
+  /**
+   * Fetches a single revision together with its snapshot
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {number} revision - revision number
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getRevision(
+    articleId: string,
+    revision: number
+  ): Promise<ApiResponse> {
+    // Validations
+    if (!Helper.isValidUUID(articleId)) {
+      return { status: 400, response: { message: 'invalid id format' } };
+    }
+    if (!Number.isInteger(revision) || revision < 1) {
+      return { status: 400, response: { message: 'invalid revision number' } };
+    }
+
+    try {
+      const data = await client.send(
+        new GetItemCommand({
+          TableName: this.TABLE_NAME,
+          Key: marshall({ ArticleID: articleId, Revision: revision }),
+        })
+      );
+      if (!data.Item) {
+        return { status: 404, response: { message: 'revision not found' } };
+      }
+
+      const snapshot = await Storage.readRevision(articleId, revision);
+      if (!snapshot) {
+        return { status: 404, response: { message: 'revision not found' } };
+      }
+
+      return {
+        status: 200,
+        response: {
+          return: {
+            revision: unmarshall(data.Item),
+            metadata: snapshot.metadata,
+            body: snapshot.body,
+          },
+        },
+      };
+    } catch (err) {
+      console.error('Error fetching revision:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Compares two revisions of an article. The body is compared line by line
+   * and the metadata field by field.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {number} from - older revision number
+   * @param {number} to - newer revision number
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async diffRevisions(
+    articleId: string,
+    from: number,
+    to: number
+  ): Promise<ApiResponse> {
+    const fromResp = await this.getRevision(articleId, from);
+    if (fromResp.status != 200) {
+      return fromResp;
+    }
+    const toResp = await this.getRevision(articleId, to);
+    if (toResp.status != 200) {
+      return toResp;
+    }
+
+    const oldRevision = fromResp.response.return;
+    const newRevision = toResp.response.return;
+
+    // Body changes as a list of added, removed and unchanged chunks
+    let additions = 0;
+    let deletions = 0;
+    const body = diffLines(oldRevision.body, newRevision.body).map((change) => {
+      const lines = change.count || 0;
+      if (change.added) additions += lines;
+      if (change.removed) deletions += lines;
+
+      return {
+        type: change.added ? 'added' : change.removed ? 'removed' : 'same',
+        value: change.value,
+        lines,
+      };
+    });
+
+    // Metadata fields that differ between the revisions
+    const metadata = [];
+    for (const field of this.CONTENT_FIELDS) {
+      const oldValue = oldRevision.metadata[field] ?? null;
+      const newValue = newRevision.metadata[field] ?? null;
+      if (JSON.stringify(oldValue) != JSON.stringify(newValue)) {
+        metadata.push({ field, from: oldValue, to: newValue });
+      }
+    }
+
+    return {
+      status: 200,
+      response: {
+        return: {
+          from: oldRevision.revision,
+          to: newRevision.revision,
+          body,
+          metadata,
+          additions,
+          deletions,
+        },
+      },
+    };
+  }
+
+  /**
+   * Copies the content fields of a revision snapshot onto the metadata of
+   * an article, leaving the fields managed by the server untouched
+   *
+   * @public
+   * @static
+   * @param {*} metadata - current metadata of the article
+   * @param {*} snapshot - metadata of the revision snapshot
+   * @returns {*} - metadata with the restored content
+   */
+  public static applySnapshot(metadata: any, snapshot: any) {
+    const restored = { ...metadata };
+    for (const field of this.CONTENT_FIELDS) {
+      if (snapshot[field] !== undefined) {
+        restored[field] = snapshot[field];
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Checks if a change note is valid
+   *
+   * @public
+   * @static
+   * @param {*} note - change note
+   * @returns {boolean}
+   */
+  public static validateNote(note: any) {
+    return (
+      note == undefined ||
+      (typeof note == 'string' && note.length <= this.MAX_NOTE_LENGTH)
+    );
+  }
+
+  /**
+   * Removes every revision of an article along with the snapshots and
+   * banner images they reference
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeRevisions(articleId: string): Promise<boolean> {
+    try {
+      const revisions: { Revision: number; Image: string | null }[] = [];
+      let ExclusiveStartKey: any = undefined;
+      do {
+        const data = await client.send(
+          new QueryCommand({
+            TableName: this.TABLE_NAME,
+            KeyConditionExpression: 'ArticleID = :id',
+            ExpressionAttributeValues: {
+              ':id': { S: articleId },
+            },
+            ProjectionExpression: 'Revision, Image',
+            ExclusiveStartKey,
+          })
+        );
+        for (const item of data.Items || []) {
+          revisions.push(unmarshall(item) as any);
+        }
+        ExclusiveStartKey = data.LastEvaluatedKey;
+      } while (ExclusiveStartKey);
+
+      // Delete the items in batches of 25
+      for (let i = 0; i < revisions.length; i += 25) {
+        const batch = revisions.slice(i, i + 25).map((item) => ({
+          DeleteRequest: {
+            Key: marshall({ ArticleID: articleId, Revision: item.Revision }),
+          },
+        }));
+        await client.send(
+          new BatchWriteItemCommand({
+            RequestItems: { [this.TABLE_NAME]: batch },
+          })
+        );
+      }
+
+      // Delete the snapshots and the old banner images
+      const keys = revisions.map((item) =>
+        Storage.getRevisionKey(articleId, item.Revision)
+      );
+      const regex =
+        /[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/i;
+      for (const item of revisions) {
+        const match = item.Image ? item.Image.match(regex) : null;
+        if (match && !keys.includes(`images/${match[0]}.png`)) {
+          keys.push(`images/${match[0]}.png`);
+        }
+      }
+
+      // Delete the snapshots in chunks of 1000 keys
+      let success = true;
+      for (let i = 0; i < keys.length; i += 1000) {
+        if (!(await Storage.deleteMultipleFiles(keys.slice(i, i + 1000)))) {
+          success = false;
+        }
+      }
+      return success;
+    } catch (err) {
+      console.error('Error removing revisions:', err);
+      return false;
+    }
+  }
+}
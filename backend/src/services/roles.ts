@@ -0,0 +1,107 @@
+// Everything a role can allow. Owners can always work on their own articles
+// and comments, these permissions are about the content of other users.
+export const PERMISSIONS = [
+  'article.create',
+  'article.readPrivate',
+  'article.editAny',
+  'article.review',
+  'article.publish',
+  'comment.moderate',
+  'category.manage',
+  'role.manage',
+  'user.manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// A user can have several roles, their permissions add up
+const ROLES: Readonly<{ [role: string]: Readonly<Permission[]> }> = {
+  reader: [],
+  author: ['article.create'],
+  reviewer: ['article.readPrivate', 'article.review', 'article.publish'],
+  moderator: ['article.readPrivate', 'article.editAny', 'comment.moderate'],
+  admin: PERMISSIONS,
+};
+
+export class Roles {
+  /**
+   * Returns the roles with their permissions
+   *
+   * @public
+   * @static
+   * @returns {{ [role: string]: Readonly<Permission[]> }}
+   */
+  public static getDefinitions() {
+    return ROLES;
+  }
+
+  /**
+   * Checks if a role exists
+   *
+   * @public
+   * @static
+   * @param {string} role - role name
+   * @returns {boolean}
+   */
+  public static isRole(role: string): boolean {
+    return (
+      typeof role == 'string' &&
+      Object.prototype.hasOwnProperty.call(ROLES, role)
+    );
+  }
+
+  /**
+   * Returns the roles of a user object or of the JWT claims of a user.
+   * Accounts from before the roles only have the Admin and CanPost flags,
+   * see src/tools/roles-migrate.ts.
+   *
+   * @public
+   * @static
+   * @param {*} user - user object
+   * @returns {string[]}
+   */
+  public static getRoles(user: any): string[] {
+    if (!user) {
+      return [];
+    }
+    if (Array.isArray(user.Roles)) {
+      return user.Roles.filter((role: string) => this.isRole(role));
+    }
+    if (user.Admin === 'true') {
+      return ['admin'];
+    }
+    if (user.CanPost === 'true') {
+      return ['author'];
+    }
+    return user.Username ? ['reader'] : [];
+  }
+
+  /**
+   * Returns all permissions given by a list of roles
+   *
+   * @public
+   * @static
+   * @param {string[]} roles - role names
+   * @returns {Permission[]}
+   */
+  public static getPermissions(roles: string[]): Permission[] {
+    const permissions = new Set<Permission>();
+    for (const role of roles) {
+      (ROLES[role] || []).forEach((permission) => permissions.add(permission));
+    }
+    return PERMISSIONS.filter((permission) => permissions.has(permission));
+  }
+
+  /**
+   * Checks if the roles of a user give a permission
+   *
+   * @public
+   * @static
+   * @param {*} user - user object
+   * @param {Permission} permission - permission name
+   * @returns {boolean}
+   */
+  public static hasPermission(user: any, permission: Permission): boolean {
+    return this.getPermissions(this.getRoles(user)).includes(permission);
+  }
+}
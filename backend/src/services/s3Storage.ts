@@ -0,0 +1,85 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+
+import { StorageDriver } from './storage';
+
+// Keeps the files in the bucket from AWS_S3_BUCKET_NAME
+export class S3Storage implements StorageDriver {
+  private client: S3Client;
+  private bucket: string;
+  private publicUrl: string;
+
+  constructor(region: string | undefined, bucket: string, publicUrl: string) {
+    this.client = new S3Client({ region });
+    this.bucket = bucket;
+    this.publicUrl = publicUrl;
+  }
+
+  public async putObject(
+    key: string,
+    body: string | Buffer,
+    contentType: string
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  public async getObject(key: string): Promise<Buffer | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      const bytes = await response.Body?.transformToByteArray();
+      return bytes ? Buffer.from(bytes) : undefined;
+    } catch (err: any) {
+      if (err.name === 'NoSuchKey') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  public async deleteObjects(keys: string[]): Promise<void> {
+    // S3 accepts up to 1000 keys per delete request
+    for (let i = 0; i < keys.length; i += 1000) {
+      const response = await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: {
+            Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })),
+            Quiet: true,
+          },
+        })
+      );
+
+      if (response.Errors && response.Errors.length > 0) {
+        throw new Error(
+          `Failed to delete ${
+            response.Errors.length
+          } files: ${response.Errors.map((error) => error.Key).join(', ')}`
+        );
+      }
+    }
+  }
+
+  public getPublicUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+}
@@ -0,0 +1,515 @@
+import {
+  BatchGetItemCommand,
+  BatchWriteItemCommand,
+  BatchWriteItemCommandInput,
+  BatchWriteItemCommandOutput,
+  GetItemCommand,
+  QueryCommand,
+  QueryCommandInput,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import { client } from './dynamodb';
+import { Stemmer } from './stemmer';
+import { Pagination } from './pagination';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+interface SearchFilters {
+  category?: string;
+  difficulty?: string;
+  author?: string;
+}
+
+interface Posting {
+  ArticleID: string;
+  TermFrequency: number;
+  DocLength: number;
+  PrimaryCategory: string;
+  Difficulty: string;
+  Author: string;
+}
+
+export class Search {
+  private static TABLE_NAME = 'SearchIndex';
+
+  // Reserved partition keys for the per-document term lists and index stats
+  private static DOC_KEY = '#doc';
+  private static STATS_KEY = '#stats';
+
+  // Every occurrence of a term in a field counts this many times
+  private static FIELD_WEIGHTS: Readonly<{ [key: string]: number }> = {
+    Title: 4,
+    SecondaryCategories: 2,
+    Description: 2,
+    Body: 1,
+  };
+
+  // BM25 tuning parameters
+  private static K1 = 1.2;
+  private static B = 0.75;
+
+  private static MAX_QUERY_TERMS = 10;
+
+  private static STOP_WORDS = new Set([
+    'a',
+    'an',
+    'and',
+    'are',
+    'as',
+    'at',
+    'be',
+    'but',
+    'by',
+    'for',
+    'from',
+    'how',
+    'if',
+    'in',
+    'into',
+    'is',
+    'it',
+    'its',
+    'of',
+    'on',
+    'or',
+    'so',
+    'such',
+    'that',
+    'the',
+    'their',
+    'then',
+    'there',
+    'these',
+    'they',
+    'this',
+    'to',
+    'was',
+    'we',
+    'what',
+    'when',
+    'which',
+    'will',
+    'with',
+    'you',
+    'your',
+  ]);
+
+  /**
+   * Splits a text into lowercase stemmed terms, skipping markdown syntax,
+   * urls and stop words
+   *
+   * @public
+   * @static
+   * @param {string} text - text to tokenize
+   * @returns {string[]} - list of terms (with duplicates)
+   */
+  public static tokenize(text: string): string[] {
+    if (typeof text !== 'string') {
+      return [];
+    }
+
+    const cleaned = text
+      .toLowerCase()
+      .replace(/```[a-z0-9+#-]*\n?/g, ' ') // code fence language tags
+      .replace(/\]\([^)]*\)/g, ' ') // link and image urls
+      .replace(/https?:\/\/\S+/g, ' ');
+
+    const terms: string[] = [];
+    for (const word of cleaned.split(/[^a-z0-9+#]+/)) {
+      // Keep language names like "c++" and "c#", drop stray symbols elsewhere
+      const term = /^[a-z]{1,2}(\+\+|#)$/.test(word)
+        ? word
+        : word.replace(/[+#]/g, '');
+      if (term.length < 2 || this.STOP_WORDS.has(term)) {
+        continue;
+      }
+      terms.push(/^[a-z]+$/.test(term) ? Stemmer.stem(term) : term);
+    }
+    return terms;
+  }
+
+  /**
+   * Counts the weighted term frequencies of an article
+   *
+   * @private
+   * @static
+   * @param {*} metadata - article metadata
+   * @param {string} body - article body
+   * @returns {{ frequencies: Map<string, number>; length: number }}
+   */
+  private static countTerms(metadata: any, body: string) {
+    const fields: { [key: string]: string } = {
+      Title: metadata.Title || '',
+      Description: metadata.Description || '',
+      SecondaryCategories: (metadata.SecondaryCategories || []).join(' '),
+      Body: body || '',
+    };
+
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const [field, text] of Object.entries(fields)) {
+      const weight = this.FIELD_WEIGHTS[field];
+      for (const term of this.tokenize(text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+    return { frequencies, length };
+  }
+
+  /**
+   * Sends delete or put requests to the index table in batches of 25
+   *
+   * @private
+   * @static
+   * @async
+   * @param {any[]} requests - BatchWriteItem requests
+   * @returns {Promise<void>}
+   */
+  private static async batchWrite(requests: any[]): Promise<void> {
+    const MAX_BATCH_SIZE = 25;
+    for (let i = 0; i < requests.length; i += MAX_BATCH_SIZE) {
+      let pending: BatchWriteItemCommandInput['RequestItems'] = {
+        [this.TABLE_NAME]: requests.slice(i, i + MAX_BATCH_SIZE),
+      };
+
+      // Retry unprocessed items a few times before giving up
+      for (let attempt = 0; attempt < 3 && pending; attempt++) {
+        const response: BatchWriteItemCommandOutput = await client.send(
+          new BatchWriteItemCommand({ RequestItems: pending })
+        );
+        pending =
+          response.UnprocessedItems &&
+          Object.keys(response.UnprocessedItems).length > 0
+            ? response.UnprocessedItems
+            : undefined;
+      }
+      if (pending) {
+        throw new Error('unprocessed search index items');
+      }
+    }
+  }
+
+  /**
+   * Updates the document count and total length used for ranking
+   *
+   * @private
+   * @static
+   * @async
+   * @param {number} docDelta - change of the document count
+   * @param {number} lengthDelta - change of the summed document length
+   * @returns {Promise<void>}
+   */
+  private static async updateStats(docDelta: number, lengthDelta: number) {
+    await client.send(
+      new UpdateItemCommand({
+        TableName: this.TABLE_NAME,
+        Key: marshall({ Term: this.STATS_KEY, ArticleID: this.STATS_KEY }),
+        UpdateExpression: 'ADD DocCount :d, TotalLength :l',
+        ExpressionAttributeValues: {
+          ':d': { N: docDelta.toString() },
+          ':l': { N: lengthDelta.toString() },
+        },
+      })
+    );
+  }
+
+  /**
+   * Adds a published article to the search index, replacing an older entry.
+   * The articles of a suspended author stay out of the index.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} metadata - article metadata, must include the ID
+   * @param {string} body - article body
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async indexArticle(
+    metadata: any,
+    body: string
+  ): Promise<boolean> {
+    try {
+      await this.removeArticle(metadata.ID);
+      if (metadata.AuthorSuspended === true) {
+        return true;
+      }
+
+      const { frequencies, length } = this.countTerms(metadata, body);
+      const terms = Array.from(frequencies.keys());
+
+      const requests: any[] = terms.map((term) => ({
+        PutRequest: {
+          Item: marshall({
+            Term: term,
+            ArticleID: metadata.ID,
+            TermFrequency: frequencies.get(term),
+            DocLength: length,
+            PrimaryCategory: metadata.PrimaryCategory,
+            Difficulty: metadata.Difficulty,
+            Author: metadata.Author,
+          }),
+        },
+      }));
+
+      // The document row keeps the term list so the postings can be removed later
+      requests.push({
+        PutRequest: {
+          Item: marshall(
+            {
+              Term: this.DOC_KEY,
+              ArticleID: metadata.ID,
+              DocLength: length,
+              Terms: terms,
+            },
+            { removeUndefinedValues: true }
+          ),
+        },
+      });
+
+      await this.batchWrite(requests);
+      await this.updateStats(1, length);
+      return true;
+    } catch (err) {
+      console.error('Error indexing article:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Removes an article from the search index
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeArticle(id: string): Promise<boolean> {
+    try {
+      const docResp = await client.send(
+        new GetItemCommand({
+          TableName: this.TABLE_NAME,
+          Key: marshall({ Term: this.DOC_KEY, ArticleID: id }),
+        })
+      );
+      if (!docResp.Item) {
+        return true;
+      }
+
+      const doc = unmarshall(docResp.Item);
+      const terms: string[] = doc.Terms ? Array.from(doc.Terms) : [];
+      const requests = [...terms, this.DOC_KEY].map((term) => ({
+        DeleteRequest: { Key: marshall({ Term: term, ArticleID: id }) },
+      }));
+
+      await this.batchWrite(requests);
+      await this.updateStats(-1, -doc.DocLength);
+      return true;
+    } catch (err) {
+      console.error('Error removing article from the search index:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Fetches all postings of a term
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} term
+   * @returns {Promise<Posting[]>}
+   */
+  private static async getPostings(term: string): Promise<Posting[]> {
+    const postings: Posting[] = [];
+    let ExclusiveStartKey: any = undefined;
+    do {
+      const params: QueryCommandInput = {
+        TableName: this.TABLE_NAME,
+        KeyConditionExpression: 'Term = :t',
+        ExpressionAttributeValues: { ':t': { S: term } },
+        ExclusiveStartKey,
+      };
+      const data = await client.send(new QueryCommand(params));
+      for (const item of data.Items || []) {
+        postings.push(unmarshall(item) as Posting);
+      }
+      ExclusiveStartKey = data.LastEvaluatedKey;
+    } while (ExclusiveStartKey);
+    return postings;
+  }
+
+  /**
+   * Fetches the article metadata of the ids in the same order
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string[]} ids - article ids (max 100)
+   * @returns {Promise<any[]>}
+   */
+  private static async getArticles(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const found: { [key: string]: any } = {};
+    let keys: any = {
+      ArticlesPublished: { Keys: ids.map((id) => marshall({ ID: id })) },
+    };
+    while (keys && Object.keys(keys).length > 0) {
+      const data = await client.send(
+        new BatchGetItemCommand({ RequestItems: keys })
+      );
+      for (const item of data.Responses?.ArticlesPublished || []) {
+        const article = unmarshall(item);
+        found[article.ID] = article;
+      }
+      keys = data.UnprocessedKeys;
+    }
+
+    // Drop ids whose article no longer exists
+    return ids.filter((id) => found[id]).map((id) => found[id]);
+  }
+
+  /**
+   * Searches the published articles and returns them ranked by relevance (BM25)
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} query - search query
+   * @param {SearchFilters} filters - category, difficulty and author filters
+   * @param {number} page - page
+   * @param {number} limit - articles per page
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async searchArticles(
+    query: string,
+    filters: SearchFilters,
+    page: number,
+    limit: number,
+    cursor?: string
+  ): Promise<ApiResponse> {
+    // Validations
+    if (typeof query !== 'string' || query.trim() == '') {
+      return { status: 400, response: { message: 'missing search query' } };
+    }
+    if (Number.isNaN(limit) || Number.isNaN(page)) {
+      return {
+        status: 400,
+        response: { message: 'missing or invalid limit or page value' },
+      };
+    }
+    if (limit < 1 || limit > 100 || page < 1) {
+      return {
+        status: 400,
+        response: { message: 'invalid limit or page number range' },
+      };
+    }
+    if (
+      filters.difficulty &&
+      !['EASY', 'MEDIUM', 'HARD'].includes(filters.difficulty)
+    ) {
+      return { status: 400, response: { message: 'invalid difficulty value' } };
+    }
+
+    // The results are ranked in memory, so a cursor only holds the offset
+    let offset = (page - 1) * limit;
+    if (cursor != undefined) {
+      const position = Pagination.decodeCursor(cursor);
+      if (
+        !position ||
+        !Number.isInteger(position.Offset) ||
+        position.Offset < 0
+      ) {
+        return { status: 400, response: { message: 'invalid cursor' } };
+      }
+      offset = position.Offset;
+    }
+
+    const terms = Array.from(new Set(this.tokenize(query))).slice(
+      0,
+      this.MAX_QUERY_TERMS
+    );
+    if (terms.length == 0) {
+      return {
+        status: 200,
+        response: { return: [], cursor: null, hasMore: false, total: 0 },
+      };
+    }
+
+    try {
+      // Get the collection statistics
+      const statsResp = await client.send(
+        new GetItemCommand({
+          TableName: this.TABLE_NAME,
+          Key: marshall({ Term: this.STATS_KEY, ArticleID: this.STATS_KEY }),
+        })
+      );
+      const stats = statsResp.Item ? unmarshall(statsResp.Item) : {};
+      const docCount = Math.max(stats.DocCount || 0, 1);
+      const avgLength = Math.max((stats.TotalLength || 0) / docCount, 1);
+
+      // Score every article that contains at least one of the terms
+      const scores = new Map<string, number>();
+      const postingLists = await Promise.all(
+        terms.map((term) => this.getPostings(term))
+      );
+      for (const postings of postingLists) {
+        const idf = Math.log(
+          1 + (docCount - postings.length + 0.5) / (postings.length + 0.5)
+        );
+
+        for (const posting of postings) {
+          if (
+            (filters.category && posting.PrimaryCategory != filters.category) ||
+            (filters.difficulty && posting.Difficulty != filters.difficulty) ||
+            (filters.author && posting.Author != filters.author)
+          ) {
+            continue;
+          }
+
+          const tf = posting.TermFrequency;
+          const norm =
+            this.K1 * (1 - this.B + (this.B * posting.DocLength) / avgLength);
+          const score = (idf * (tf * (this.K1 + 1))) / (tf + norm);
+          scores.set(
+            posting.ArticleID,
+            (scores.get(posting.ArticleID) || 0) + score
+          );
+        }
+      }
+
+      // Sort by score and return the requested page
+      const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+      const pageIds = ranked.slice(offset, offset + limit).map(([id]) => id);
+      const items = await this.getArticles(pageIds);
+      const hasMore = offset + limit < ranked.length;
+
+      return {
+        status: 200,
+        response: {
+          return: items,
+          cursor: hasMore
+            ? Pagination.encodeCursor({ Offset: offset + limit })
+            : null,
+          hasMore,
+          total: ranked.length,
+        },
+      };
+    } catch (err) {
+      console.error('Error searching articles:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+}
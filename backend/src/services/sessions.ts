@@ -0,0 +1,269 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { Token, TokenRepository } from '../repositories/tokenRepository';
+import { DynamoTokenRepository } from '../repositories/dynamoTokenRepository';
+import { Audit } from './audit';
+import { Helper } from './helper';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+export type Rotation =
+  | { result: 'rotated'; rotation: string }
+  // The previous refresh token was used again right after the rotation,
+  // usually by requests sent at the same time. It gets no new one.
+  | { result: 'kept' }
+  | { result: 'ended' };
+
+// Sign in sessions, kept in the Tokens table with the session type. Every
+// refresh token carries the id of its session and a rotation id that changes
+// with each refresh, so a refresh token can be used only once.
+export class Sessions {
+  private static repository: TokenRepository = new DynamoTokenRepository();
+  private static TYPE: Readonly<string> = 'session';
+  // Same as the refresh JWT, extended with each refresh
+  private static LIFETIME: Readonly<number> = 3 * 24 * 60 * 60;
+  // How long the previous rotation is still let through, in seconds
+  private static REUSE_WINDOW: Readonly<number> = 30;
+
+  /**
+   * Replaces the token repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {TokenRepository} repository - token repository
+   */
+  public static useRepository(repository: TokenRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Starts a session for a user who signed in
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} userAgent - user agent of the browser
+   * @returns {Promise<{ id: string; rotation: string }>} - session id and
+   *   the rotation id of the first refresh token
+   */
+  public static async create(
+    username: string,
+    userAgent: string
+  ): Promise<{ id: string; rotation: string }> {
+    const now = Helper.getUNIXTimestamp();
+    const session: Token = {
+      username,
+      value: uuidv4(),
+      type: this.TYPE,
+      expiration: now + this.LIFETIME,
+      userAgent: userAgent.slice(0, 300),
+      createdAt: now,
+      lastUsed: now,
+      rotation: uuidv4(),
+    };
+
+    if (!(await this.repository.create(session))) {
+      throw new Error('Session with this id already exists.');
+    }
+    return { id: session.value, rotation: session.rotation! };
+  }
+
+  /**
+   * Rotates a session for a refresh. A rotation id used again after the
+   * reuse window means the refresh token was copied, the session is ended
+   * and the reuse is recorded in the audit trail of the user.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - session id from the refresh token
+   * @param {string} username - username from the refresh token
+   * @param {string} rotation - rotation id from the refresh token
+   * @returns {Promise<Rotation>}
+   */
+  public static async rotate(
+    id: string,
+    username: string,
+    rotation: string
+  ): Promise<Rotation> {
+    const session = await this.getSession(id, username);
+    if (!session) {
+      return { result: 'ended' };
+    }
+
+    const now = Helper.getUNIXTimestamp();
+    if (session.rotation === rotation) {
+      const next = uuidv4();
+      const rotated = await this.repository.update(
+        id,
+        {
+          rotation: next,
+          previousRotation: rotation,
+          lastUsed: now,
+          expiration: now + this.LIFETIME,
+        },
+        { rotation }
+      );
+
+      // Another request rotated it first
+      return rotated
+        ? { result: 'rotated', rotation: next }
+        : { result: 'kept' };
+    }
+
+    if (
+      session.previousRotation === rotation &&
+      now - session.lastUsed! <= this.REUSE_WINDOW
+    ) {
+      return { result: 'kept' };
+    }
+
+    await this.repository.delete(id);
+    console.warn(`Refresh token of session ${id} reused, session ended`);
+    await Audit.record('system', 'session.reuse', username, {
+      userAgent: session.userAgent || '',
+    });
+    return { result: 'ended' };
+  }
+
+  /**
+   * Lists the running sessions of a user, last used first. Ended sessions
+   * are removed on the way.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} [current] - id of the session of the request
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async listSessions(
+    username: string,
+    current?: string
+  ): Promise<ApiResponse> {
+    try {
+      const now = Helper.getUNIXTimestamp();
+      const sessions = (await this.repository.list(username)).filter(
+        (token) => token.type === this.TYPE
+      );
+
+      const ended = sessions.filter((session) => session.expiration <= now);
+      if (ended.length > 0) {
+        await this.repository.deleteMany(ended.map((session) => session.value));
+      }
+
+      return {
+        status: 200,
+        response: {
+          return: sessions
+            .filter((session) => session.expiration > now)
+            .sort((a, b) => b.lastUsed! - a.lastUsed!)
+            .map((session) => ({
+              ID: session.value,
+              UserAgent: session.userAgent || '',
+              CreatedAt: session.createdAt,
+              LastUsed: session.lastUsed,
+              Current: session.value === current,
+            })),
+        },
+      };
+    } catch (err) {
+      console.error('Error listing the sessions:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Ends a session of a user
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} id - session id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async endSession(
+    username: string,
+    id: string
+  ): Promise<ApiResponse> {
+    try {
+      const session = await this.getSession(id, username);
+      if (!session) {
+        return { status: 404, response: { message: 'session not found' } };
+      }
+
+      await this.repository.delete(id);
+      return { status: 200, response: { message: 'session ended' } };
+    } catch (err) {
+      console.error('Error ending the session:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Ends all sessions of a user. Access tokens that were already issued
+   * keep working until they expire.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} [except] - id of a session that keeps running
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async endAllSessions(
+    username: string,
+    except?: string
+  ): Promise<ApiResponse> {
+    try {
+      const sessions = (await this.repository.list(username)).filter(
+        (token) => token.type === this.TYPE && token.value !== except
+      );
+      if (sessions.length > 0) {
+        await this.repository.deleteMany(
+          sessions.map((session) => session.value)
+        );
+      }
+      return {
+        status: 200,
+        response: { message: 'sessions ended', ended: sessions.length },
+      };
+    } catch (err) {
+      console.error('Error ending the sessions:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns a running session of a user
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} id - session id
+   * @param {string} username - username
+   * @returns {Promise<Token | null>} - the session or null
+   */
+  private static async getSession(
+    id: string,
+    username: string
+  ): Promise<Token | null> {
+    const session = await this.repository.get(id);
+    if (
+      !session ||
+      session.type !== this.TYPE ||
+      session.username !== username ||
+      session.expiration <= Helper.getUNIXTimestamp()
+    ) {
+      return null;
+    }
+    return session;
+  }
+}
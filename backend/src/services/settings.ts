@@ -0,0 +1,102 @@
+import { SettingsRepository } from '../repositories/settingsRepository';
+import { DynamoSettingsRepository } from '../repositories/dynamoSettingsRepository';
+import { Roles } from './roles';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Site wide settings changed by the admins. They are read on many requests,
+// so every instance keeps them for a minute.
+export class Settings {
+  private static repository: SettingsRepository =
+    new DynamoSettingsRepository();
+  private static cache = new Map<string, { value: any; expires: number }>();
+  private static CACHE_DURATION: Readonly<number> = 60 * 1000;
+
+  /**
+   * Replaces the settings repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {SettingsRepository} repository - settings repository
+   */
+  public static useRepository(repository: SettingsRepository) {
+    this.repository = repository;
+    this.cache.clear();
+  }
+
+  /**
+   * Returns the roles whose users must use two-factor authentication
+   *
+   * @public
+   * @static
+   * @async
+   * @returns {Promise<string[]>} - role names
+   */
+  public static async getTwoFactorRoles(): Promise<string[]> {
+    const roles = await this.get('TwoFactorRoles');
+    return Array.isArray(roles) ? roles : [];
+  }
+
+  /**
+   * Sets the roles whose users must use two-factor authentication
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} roles - role names
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async setTwoFactorRoles(roles: any): Promise<ApiResponse> {
+    if (!Array.isArray(roles) || roles.some((role) => !Roles.isRole(role))) {
+      return { status: 400, response: { message: 'invalid roles' } };
+    }
+
+    try {
+      const unique = [...new Set<string>(roles)];
+      await this.put('TwoFactorRoles', unique);
+      return { status: 200, response: { roles: unique } };
+    } catch (err) {
+      console.error('Error changing the settings:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns the value of a setting
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} key - name of the setting
+   * @returns {Promise<*>} - value or null
+   */
+  private static async get(key: string): Promise<any> {
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.value;
+    }
+
+    const value = await this.repository.get(key);
+    this.cache.set(key, { value, expires: Date.now() + this.CACHE_DURATION });
+    return value;
+  }
+
+  /**
+   * Stores the value of a setting
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} key - name of the setting
+   * @param {*} value - value
+   */
+  private static async put(key: string, value: any) {
+    await this.repository.put(key, value);
+    this.cache.set(key, { value, expires: Date.now() + this.CACHE_DURATION });
+  }
+}
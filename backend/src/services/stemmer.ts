@@ -0,0 +1,157 @@
+export class Stemmer {
+  // Suffix maps used by steps 2 and 3 of the Porter algorithm
+  private static STEP2_SUFFIXES: Readonly<{ [key: string]: string }> = {
+    ational: 'ate',
+    tional: 'tion',
+    enci: 'ence',
+    anci: 'ance',
+    izer: 'ize',
+    bli: 'ble',
+    alli: 'al',
+    entli: 'ent',
+    eli: 'e',
+    ousli: 'ous',
+    ization: 'ize',
+    ation: 'ate',
+    ator: 'ate',
+    alism: 'al',
+    iveness: 'ive',
+    fulness: 'ful',
+    ousness: 'ous',
+    aliti: 'al',
+    iviti: 'ive',
+    biliti: 'ble',
+    logi: 'log',
+  };
+
+  private static STEP3_SUFFIXES: Readonly<{ [key: string]: string }> = {
+    icate: 'ic',
+    ative: '',
+    alize: 'al',
+    iciti: 'ic',
+    ical: 'ic',
+    ful: '',
+    ness: '',
+  };
+
+  /**
+   * Reduces an english word to its stem using the Porter stemming algorithm,
+   * e.g. "techniques" -> "techniqu", "programming" -> "program"
+   *
+   * @public
+   * @static
+   * @param {string} word - lowercase word
+   * @returns {string} - stem of the word
+   */
+  public static stem(word: string): string {
+    if (word.length < 3) {
+      return word;
+    }
+
+    const c = '[^aeiou]'; // consonant
+    const v = '[aeiouy]'; // vowel
+    const C = c + '[^aeiouy]*'; // consonant sequence
+    const V = v + '[aeiou]*'; // vowel sequence
+
+    const mgr0 = new RegExp('^(' + C + ')?' + V + C); // [C]VC... is m>0
+    const meq1 = new RegExp('^(' + C + ')?' + V + C + '(' + V + ')?$'); // [C]VC[V] is m=1
+    const mgr1 = new RegExp('^(' + C + ')?' + V + C + V + C); // [C]VCVC... is m>1
+    const sV = new RegExp('^(' + C + ')?' + v); // vowel in stem
+
+    let stem: string;
+    let match: RegExpExecArray | null;
+
+    // Treat an initial y as a consonant
+    const firstChar = word.charAt(0);
+    if (firstChar === 'y') {
+      word = firstChar.toUpperCase() + word.slice(1);
+    }
+
+    // Step 1a
+    if (/^(.+?)(ss|i)es$/.test(word)) {
+      word = word.replace(/^(.+?)(ss|i)es$/, '$1$2');
+    } else if (/^(.+?)([^s])s$/.test(word)) {
+      word = word.replace(/^(.+?)([^s])s$/, '$1$2');
+    }
+
+    // Step 1b
+    if ((match = /^(.+?)eed$/.exec(word))) {
+      if (mgr0.test(match[1])) {
+        word = word.slice(0, -1);
+      }
+    } else if ((match = /^(.+?)(ed|ing)$/.exec(word))) {
+      stem = match[1];
+      if (sV.test(stem)) {
+        word = stem;
+        if (/(at|bl|iz)$/.test(word)) {
+          word += 'e';
+        } else if (/([^aeiouylsz])\1$/.test(word)) {
+          word = word.slice(0, -1);
+        } else if (new RegExp('^' + C + v + '[^aeiouwxy]$').test(word)) {
+          word += 'e';
+        }
+      }
+    }
+
+    // Step 1c
+    if ((match = /^(.+?)y$/.exec(word))) {
+      stem = match[1];
+      if (sV.test(stem)) {
+        word = stem + 'i';
+      }
+    }
+
+    // Step 2
+    match =
+      /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(
+        word
+      );
+    if (match && mgr0.test(match[1])) {
+      word = match[1] + this.STEP2_SUFFIXES[match[2]];
+    }
+
+    // Step 3
+    match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(word);
+    if (match && mgr0.test(match[1])) {
+      word = match[1] + this.STEP3_SUFFIXES[match[2]];
+    }
+
+    // Step 4
+    match =
+      /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(
+        word
+      );
+    if (match) {
+      if (mgr1.test(match[1])) {
+        word = match[1];
+      }
+    } else if ((match = /^(.+?)(s|t)(ion)$/.exec(word))) {
+      stem = match[1] + match[2];
+      if (mgr1.test(stem)) {
+        word = stem;
+      }
+    }
+
+    // Step 5
+    if ((match = /^(.+?)e$/.exec(word))) {
+      stem = match[1];
+      if (
+        mgr1.test(stem) ||
+        (meq1.test(stem) &&
+          !new RegExp('^' + C + v + '[^aeiouwxy]$').test(stem))
+      ) {
+        word = stem;
+      }
+    }
+    if (/ll$/.test(word) && mgr1.test(word)) {
+      word = word.slice(0, -1);
+    }
+
+    // Turn the initial Y back into y
+    if (firstChar === 'y') {
+      word = firstChar + word.slice(1);
+    }
+
+    return word;
+  }
+}
@@ -0,0 +1,371 @@
+import { DynamoStepProgressRepository } from '../repositories/dynamoStepProgressRepository';
+import {
+  StepProgress,
+  StepProgressRepository,
+} from '../repositories/stepProgressRepository';
+import { Storage } from './storage';
+import { Helper } from './helper';
+
+import { v4 as uuidv4 } from 'uuid';
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+export interface Step {
+  ID: string;
+  Title: string;
+  /** Markdown of the step, images come from the media library */
+  Body: string;
+  /** Estimated time in minutes, null if the author did not give one */
+  Minutes: number | null;
+}
+
+export interface StepContent {
+  /** Markdown shown before the first step */
+  intro: string;
+  steps: Step[];
+}
+
+// Articles with the Format "steps" are "build this" guides made of ordered
+// steps. The steps are kept in the markdown body so that they round-trip
+// through the front matter files of the storage, every step starts with a
+// marker comment followed by its title:
+//
+//   <!-- step id="..." minutes="15" -->
+//   ## Solder the header
+//
+// The readers check the steps off, their progress is kept per article.
+export class Steps {
+  private static repository: StepProgressRepository =
+    new DynamoStepProgressRepository();
+  public static MAX_STEPS: Readonly<number> = 100;
+  private static MAX_TITLE_LENGTH: Readonly<number> = 120;
+  private static MAX_MINUTES: Readonly<number> = 7 * 24 * 60;
+  private static MARKER: Readonly<RegExp> = /^<!-- step (.*) -->$/;
+
+  /**
+   * Replaces the step progress repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {StepProgressRepository} repository - step progress repository
+   */
+  public static useRepository(repository: StepProgressRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Splits the body of a step by step article into the introduction and the
+   * steps
+   *
+   * @public
+   * @static
+   * @param {string} body - markdown body of the article
+   * @returns {StepContent}
+   */
+  public static parse(body: string): StepContent {
+    const intro: string[] = [];
+    const sections: { marker: string; lines: string[] }[] = [];
+
+    for (const line of body.split(/\r?\n/)) {
+      const marker = line.trim().match(this.MARKER);
+      if (marker) {
+        sections.push({ marker: marker[1], lines: [] });
+      } else if (sections.length > 0) {
+        sections[sections.length - 1].lines.push(line);
+      } else {
+        intro.push(line);
+      }
+    }
+
+    const steps = sections.map(({ marker, lines }): Step => {
+      const attributes: { [key: string]: string } = {};
+      const pattern = /(\w+)="([^"]*)"/g;
+      let match;
+      while ((match = pattern.exec(marker)) != null) {
+        attributes[match[1]] = match[2];
+      }
+      const minutes = parseInt(attributes.minutes, 10);
+
+      // The title is the heading right after the marker
+      const start = lines.findIndex((line) => line.trim() != '');
+      const heading = start == -1 ? null : lines[start].match(/^##\s+(.*)$/);
+      return {
+        ID: attributes.id || '',
+        Title: heading ? heading[1].trim() : '',
+        Body: lines
+          .slice(heading ? start + 1 : 0)
+          .join('\n')
+          .trim(),
+        Minutes: Number.isNaN(minutes) ? null : minutes,
+      };
+    });
+
+    return { intro: intro.join('\n').trim(), steps };
+  }
+
+  /**
+   * Writes the introduction and the steps of an article as its markdown
+   * body. Steps without an ID get a new one.
+   *
+   * @public
+   * @static
+   * @param {string} intro - markdown shown before the first step
+   * @param {Step[]} steps - validated steps
+   * @returns {string} - markdown body
+   */
+  public static serialize(intro: string, steps: Step[]): string {
+    const parts = [intro.trim()];
+    for (const step of steps) {
+      const minutes = step.Minutes ? ` minutes="${step.Minutes}"` : '';
+      parts.push(
+        `<!-- step id="${step.ID || uuidv4()}"${minutes} -->\n` +
+          `## ${step.Title.trim()}\n\n${step.Body.trim()}`
+      );
+    }
+    return `${parts.filter((part) => part != '').join('\n\n')}\n`;
+  }
+
+  /**
+   * Returns the response of invalid steps, or null if they are fine
+   *
+   * @public
+   * @static
+   * @param {*} intro - markdown shown before the first step
+   * @param {*} steps - steps sent by the author
+   * @returns {ApiResponse | null}
+   */
+  public static validate(intro: any, steps: any): ApiResponse | null {
+    const refuse = (message: string) => ({
+      status: 400,
+      response: { message: `invalid request - ${message}` },
+    });
+
+    if (typeof intro != 'string') {
+      return refuse('invalid body data type');
+    }
+    if (!Array.isArray(steps) || steps.length == 0) {
+      return refuse('missing steps');
+    }
+    if (steps.length > this.MAX_STEPS) {
+      return refuse(`articles can have at most ${this.MAX_STEPS} steps`);
+    }
+
+    const ids = new Set<string>();
+    const texts: string[] = [intro];
+    for (const step of steps) {
+      if (typeof step != 'object' || step == null) {
+        return refuse('invalid step');
+      }
+      const { ID, Title, Body, Minutes } = step;
+      if (ID != undefined && ID != '') {
+        if (!Helper.isValidUUID(ID) || ids.has(ID)) {
+          return refuse('invalid step ID');
+        }
+        ids.add(ID);
+      }
+      if (
+        typeof Title != 'string' ||
+        Title.trim() == '' ||
+        Title.length > this.MAX_TITLE_LENGTH ||
+        /[\r\n]/.test(Title)
+      ) {
+        return refuse('invalid step title');
+      }
+      if (typeof Body != 'string') {
+        return refuse('invalid step body');
+      }
+      if (
+        Minutes != undefined &&
+        (!Number.isInteger(Minutes) ||
+          Minutes < 1 ||
+          Minutes > this.MAX_MINUTES)
+      ) {
+        return refuse('invalid step time');
+      }
+      texts.push(Body);
+    }
+
+    // A marker inside the text would start a step of its own
+    if (
+      texts.some((text) =>
+        text.split(/\r?\n/).some((line) => this.MARKER.test(line.trim()))
+      )
+    ) {
+      return refuse('step markers cannot be used in the text');
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the progress of a reader through an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the reader
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getProgress(
+    username: string,
+    articleId: string
+  ): Promise<ApiResponse> {
+    try {
+      const item = await this.repository.get(username, articleId);
+      return {
+        status: 200,
+        response: { return: item || this.emptyProgress(username, articleId) },
+      };
+    } catch (err: any) {
+      console.error('Unable to fetch the step progress. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Checks a step off or back on. Steps the author removed in the meantime
+   * are dropped from the progress.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the reader
+   * @param {string} tableName - table the article is in
+   * @param {string} articleId - article id
+   * @param {*} stepId - id of the step
+   * @param {*} done - true once the step is done
+   * @returns {Promise<ApiResponse>} - api response with the new progress
+   */
+  public static async setStep(
+    username: string,
+    tableName: string,
+    articleId: string,
+    stepId: any,
+    done: any
+  ): Promise<ApiResponse> {
+    if (typeof stepId != 'string' || typeof done != 'boolean') {
+      return {
+        status: 400,
+        response: { message: 'invalid request - missing stepId or done' },
+      };
+    }
+
+    try {
+      const article = await Storage.readArticle(tableName, articleId);
+      if (!article) {
+        return { status: 404, response: { message: 'item not found' } };
+      }
+      if (article.metadata.Format != 'steps') {
+        return {
+          status: 400,
+          response: { message: 'article has no steps' },
+        };
+      }
+      const stepIds = this.parse(article.body).steps.map((step) => step.ID);
+      if (!stepIds.includes(stepId)) {
+        return { status: 404, response: { message: 'step not found' } };
+      }
+
+      const item =
+        (await this.repository.get(username, articleId)) ||
+        this.emptyProgress(username, articleId);
+      const completed = new Set(item.Completed);
+      if (done) {
+        completed.add(stepId);
+      } else {
+        completed.delete(stepId);
+      }
+      item.Completed = stepIds.filter((id) => completed.has(id));
+      item.LastStep = stepId;
+      item.UpdatedAt = Helper.getUNIXTimestamp();
+      await this.repository.put(item);
+
+      return { status: 200, response: { return: item } };
+    } catch (err: any) {
+      console.error('Unable to save the step progress. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Forgets the progress of a reader through an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the reader
+   * @param {string} articleId - article id
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async resetProgress(
+    username: string,
+    articleId: string
+  ): Promise<ApiResponse> {
+    try {
+      await this.repository.delete(username, articleId);
+      return { status: 200, response: { message: 'progress reset' } };
+    } catch (err: any) {
+      console.error('Unable to reset the step progress. Error:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Removes the progress of every reader of a deleted article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @returns {Promise<boolean>} - false if the progress could not be removed
+   */
+  public static async removeArticleProgress(
+    articleId: string
+  ): Promise<boolean> {
+    try {
+      await this.repository.deleteByArticle(articleId);
+      return true;
+    } catch (err: any) {
+      console.error(`Error removing the step progress of ${articleId}:`, err);
+      return false;
+    }
+  }
+
+  /**
+   * Removes the progress of a deleted user
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @returns {Promise<boolean>} - false if the progress could not be removed
+   */
+  public static async removeUserProgress(username: string): Promise<boolean> {
+    try {
+      await this.repository.deleteByUser(username);
+      return true;
+    } catch (err: any) {
+      console.error(`Error removing the step progress of ${username}:`, err);
+      return false;
+    }
+  }
+
+  private static emptyProgress(
+    username: string,
+    articleId: string
+  ): StepProgress {
+    return {
+      Username: username,
+      ArticleID: articleId,
+      Completed: [],
+      LastStep: null,
+      UpdatedAt: 0,
+    };
+  }
+}
@@ -0,0 +1,485 @@
+import dotenv from 'dotenv';
+
+import matter from 'gray-matter';
+import sharp from 'sharp';
+
+import { S3Storage } from './s3Storage';
+import { DiskStorage } from './diskStorage';
+
+dotenv.config();
+
+/**
+ * Where the files of the app (article markdown, revision snapshots and
+ * images) are kept. Keys are paths like "images/{id}.png".
+ */
+export interface StorageDriver {
+  putObject(
+    key: string,
+    body: string | Buffer,
+    contentType: string
+  ): Promise<void>;
+  /** Resolves to undefined if there is no file under the key */
+  getObject(key: string): Promise<Buffer | undefined>;
+  deleteObject(key: string): Promise<void>;
+  deleteObjects(keys: string[]): Promise<void>;
+  /** Address the file can be downloaded from by the browser */
+  getPublicUrl(key: string): string;
+}
+
+// STORAGE_DRIVER picks the driver: "s3" (default) or "local". The local
+// driver keeps the files in STORAGE_LOCAL_PATH and its images are served
+// from /static/images, see src/app.ts.
+const driverName = process.env.STORAGE_DRIVER || 's3';
+const localRoot = process.env.STORAGE_LOCAL_PATH || './storage';
+
+const createDriver = (): StorageDriver => {
+  if (driverName == 'local') {
+    return new DiskStorage(
+      localRoot,
+      process.env.STORAGE_PUBLIC_URL || 'http://localhost:3000/static'
+    );
+  }
+  if (driverName != 's3') {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`);
+  }
+  return new S3Storage(
+    process.env.AWS_S3_REGION,
+    process.env.AWS_S3_BUCKET_NAME || '',
+    process.env.STORAGE_PUBLIC_URL || process.env.AWS_S3_LINK || ''
+  );
+};
+
+// Widths of the images of the article bodies, see Storage.saveMediaImage.
+// The frontend builds the srcset of the images from the same list.
+const MEDIA_WIDTHS: Readonly<number[]> = [320, 640, 1024, 1600];
+
+export class Storage {
+  private static driver: StorageDriver = createDriver();
+
+  /**
+   * Replaces the storage driver, used by tools and tests
+   *
+   * @public
+   * @static
+   * @param {StorageDriver} driver - storage driver
+   */
+  public static useDriver(driver: StorageDriver) {
+    this.driver = driver;
+  }
+
+  /**
+   * Returns the directory of the local driver or null for other drivers
+   *
+   * @public
+   * @static
+   * @returns {(string | null)}
+   */
+  public static getLocalRoot(): string | null {
+    return driverName == 'local' ? localRoot : null;
+  }
+
+  /**
+   * Returns the public url of a file
+   *
+   * @public
+   * @static
+   * @param {string} key - file key
+   * @returns {string} - url
+   */
+  public static getPublicUrl(key: string): string {
+    return this.driver.getPublicUrl(key);
+  }
+
+  /**
+   * Returns the key of a file from its public url, or null if the url does
+   * not point to the storage
+   *
+   * @public
+   * @static
+   * @param {string} url - public url
+   * @returns {(string | null)} - file key
+   */
+  public static getKeyFromUrl(url: string): string | null {
+    const base = this.driver.getPublicUrl('');
+    if (typeof url != 'string' || !url.startsWith(base)) {
+      return null;
+    }
+    return url.slice(base.length) || null;
+  }
+
+  /**
+   * Adds an article to the storage
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} tableName
+   * @param {*} metadata - The metadata of an article as a dictionary
+   * @param {string} body - The body of the article
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async addArticle(
+    tableName: string,
+    metadata: any,
+    body: string
+  ): Promise<boolean> {
+    try {
+      const objectKey = `${tableName}/${metadata.ID}.md`;
+      await this.driver.putObject(
+        objectKey,
+        matter.stringify(body, metadata),
+        'text/markdown'
+      );
+
+      console.log(`File uploaded successfully to ${objectKey}`);
+      return true;
+    } catch (err: any) {
+      console.error('Error uploading file to storage:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Removes an article from the storage
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} tableName - table name the article is in
+   * @param {string} id - article id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeArticle(
+    tableName: string,
+    id: string
+  ): Promise<boolean> {
+    try {
+      await this.driver.deleteObject(`${tableName}/${id}.md`);
+      return true;
+    } catch (err) {
+      console.log(err);
+      return false;
+    }
+  }
+
+  /**
+   * Checks if the markdown of an article is in the storage
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} tableName - table name the article is in
+   * @param {string} id - article id
+   * @returns {Promise<boolean>}
+   */
+  public static async hasArticle(
+    tableName: string,
+    id: string
+  ): Promise<boolean> {
+    return (await this.driver.getObject(`${tableName}/${id}.md`)) != undefined;
+  }
+
+  /**
+   * Removes an image from the storage
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - image id
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async removeImage(id: string): Promise<boolean> {
+    try {
+      await this.driver.deleteObject(`images/${id}.png`);
+      return true;
+    } catch (err) {
+      console.log(err);
+      return false;
+    }
+  }
+
+  /**
+   * Deletes multiple files from the storage at once
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string[]} keys - Array of file keys to delete.
+   * @returns {Promise<boolean>} - Returns true if all deletions succeeded, otherwise false.
+   */
+  public static async deleteMultipleFiles(keys: string[]): Promise<boolean> {
+    if (keys.length === 0) {
+      return true;
+    }
+
+    try {
+      await this.driver.deleteObjects(keys);
+      console.log(`Successfully deleted ${keys.length} files from storage.`);
+      return true;
+    } catch (err: any) {
+      console.error('Error deleting multiple files from storage:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Reads an article from the storage
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} tableName - table name the article is in
+   * @param {string} id - article id
+   * @returns {{ body: any; metadata: any; }} - Fetched article
+   */
+  public static async readArticle(tableName: string, id: string) {
+    return this.readMarkdown(`${tableName}/${id}.md`);
+  }
+
+  /**
+   * Saves an immutable snapshot of an article revision
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {number} revision - revision number
+   * @param {*} metadata - The metadata of the article as a dictionary
+   * @param {string} body - The body of the article
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async addRevision(
+    articleId: string,
+    revision: number,
+    metadata: any,
+    body: string
+  ): Promise<boolean> {
+    try {
+      await this.driver.putObject(
+        this.getRevisionKey(articleId, revision),
+        matter.stringify(body, metadata),
+        'text/markdown'
+      );
+      return true;
+    } catch (err: any) {
+      console.error('Error uploading revision to storage:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Reads an article revision snapshot
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {number} revision - revision number
+   * @returns {{ body: any; metadata: any; }} - Fetched revision
+   */
+  public static async readRevision(articleId: string, revision: number) {
+    return this.readMarkdown(this.getRevisionKey(articleId, revision));
+  }
+
+  /**
+   * Returns the key of an article revision snapshot
+   *
+   * @public
+   * @static
+   * @param {string} articleId - article id
+   * @param {number} revision - revision number
+   * @returns {string} - file key
+   */
+  public static getRevisionKey(articleId: string, revision: number) {
+    return `revisions/${articleId}/${revision}.md`;
+  }
+
+  /**
+   * Resizes an image, changes it to png and saves it
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} id - the id for the image
+   * @param {*} image - image
+   * @param {number} [imgWidth=1280] - Width to which the image is going to be resized to
+   * @param {number} [imgHeight=720] - Height to which the image is going to be resized to
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async saveImage(
+    id: string,
+    image: any,
+    imgWidth: number = 1280,
+    imgHeight: number = 720
+  ): Promise<boolean> {
+    try {
+      // Resizes an image
+      const base64Data = image.replace(/^data:image\/\w+;base64,/, '');
+      const imageBuffer = Buffer.from(base64Data, 'base64');
+      image = await sharp(imageBuffer)
+        .resize({ width: imgWidth, height: imgHeight, fit: 'cover' })
+        .png()
+        .toBuffer();
+
+      const objectKey = `images/${id}.png`;
+      await this.driver.putObject(objectKey, image, 'image/png');
+
+      console.log(`File uploaded successfully to ${objectKey}`);
+      return true;
+    } catch (err: any) {
+      console.error('Error uploading file to storage:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Saves an image of an article body in several widths for responsive
+   * images. The aspect ratio is kept and an image is never enlarged, so
+   * the widths are the ones of MEDIA_WIDTHS smaller than the image and the
+   * width of the image itself, up to the largest of MEDIA_WIDTHS.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} id - the id for the image
+   * @param {Buffer} image - image in any format sharp reads
+   * @returns {Promise<{ width: number; height: number; sizes: number[] } | null>}
+   * - size of the image and the saved widths, or null if it is not an image
+   */
+  public static async saveMediaImage(
+    articleId: string,
+    id: string,
+    image: Buffer
+  ): Promise<{ width: number; height: number; sizes: number[] } | null> {
+    let width: number, height: number;
+    try {
+      // Turn the image the way the camera held it before reading its size
+      const metadata = await sharp(image).metadata();
+      const rotated = (metadata.orientation ?? 1) >= 5;
+      width = (rotated ? metadata.height : metadata.width) ?? 0;
+      height = (rotated ? metadata.width : metadata.height) ?? 0;
+    } catch (err) {
+      return null;
+    }
+    if (width == 0 || height == 0) {
+      return null;
+    }
+
+    const largest = Math.min(width, MEDIA_WIDTHS[MEDIA_WIDTHS.length - 1]);
+    const sizes = [...MEDIA_WIDTHS.filter((size) => size < largest), largest];
+    for (const size of sizes) {
+      const resized = await sharp(image)
+        .rotate()
+        .resize({ width: size })
+        .webp({ quality: 80 })
+        .toBuffer();
+      await this.driver.putObject(
+        this.getMediaKey(articleId, id, size),
+        resized,
+        'image/webp'
+      );
+    }
+    return { width, height, sizes };
+  }
+
+  /**
+   * Returns the key of one width of an image of an article body
+   *
+   * @public
+   * @static
+   * @param {string} articleId - article id
+   * @param {string} id - image id
+   * @param {number} size - width of the image
+   * @returns {string} - file key
+   */
+  public static getMediaKey(articleId: string, id: string, size: number) {
+    return `media/${articleId}/${id}-${size}.webp`;
+  }
+
+  /**
+   * Saves a file attached to an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @param {Buffer} body - file content
+   * @param {string} contentType - type of the file
+   * @returns {Promise<boolean>} - Returns if the operation succeeded
+   */
+  public static async saveAttachment(
+    articleId: string,
+    id: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<boolean> {
+    try {
+      await this.driver.putObject(
+        this.getAttachmentKey(articleId, id),
+        body,
+        contentType
+      );
+      return true;
+    } catch (err: any) {
+      console.error('Error uploading file to storage:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Reads a file attached to an article
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @returns {Promise<Buffer | undefined>} - file content, undefined if the file is missing
+   */
+  public static async readAttachment(articleId: string, id: string) {
+    return this.driver.getObject(this.getAttachmentKey(articleId, id));
+  }
+
+  /**
+   * Returns the key of a file attached to an article. The key has no
+   * extension, the name and type of the file are kept with its record.
+   *
+   * @public
+   * @static
+   * @param {string} articleId - article id
+   * @param {string} id - attachment id
+   * @returns {string} - file key
+   */
+  public static getAttachmentKey(articleId: string, id: string) {
+    return `attachments/${articleId}/${id}`;
+  }
+
+  /**
+   * Reads a markdown file with front matter
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} key - file key
+   * @returns {{ body: any; metadata: any; }} - Parsed file
+   */
+  private static async readMarkdown(key: string) {
+    try {
+      const file = await this.driver.getObject(key);
+      if (file == undefined) {
+        throw new Error('file undefined');
+      }
+
+      const parsed = matter(file.toString('utf-8'));
+      return {
+        body: parsed.content,
+        metadata: parsed.data,
+      };
+    } catch (error: any) {
+      console.error(`Error reading ${key} from storage:`, error);
+      return undefined;
+    }
+  }
+}
@@ -1,32 +1,16 @@
-// Import necessary AWS SDK clients and commands
-import {
-  PutItemCommand,
-  GetItemCommand,
-  UpdateItemCommand,
-  DeleteItemCommand, // Import DeleteItemCommand
-  AttributeValue,
-  BatchWriteItemCommand,
-  QueryCommand,
-} from '@aws-sdk/client-dynamodb';
-import { client } from './dynamodb'; // Import the DynamoDB client from a separate module
-
-// Define the Token interface
-interface Token {
-  username: string;
-  value: string;
-  type: string;
-  expiration: number;
-  newEmail?: string; // Optional parameter
-}
+import { Token, TokenRepository } from '../repositories/tokenRepository';
+import { DynamoTokenRepository } from '../repositories/dynamoTokenRepository';
 
 // Define the static Tokens class
 export class Tokens {
-  // Static properties
-  static client = client;
-  static tableName = 'Tokens';
+  private static repository: TokenRepository = new DynamoTokenRepository();
 
-  private static capitalizeFirstLetter(word: string): string {
-    return word.charAt(0).toUpperCase() + word.slice(1);
+  /**
+   * Replaces the token repository, used by tests
+   * @param repository The repository the tokens are kept in.
+   */
+  static useRepository(repository: TokenRepository) {
+    this.repository = repository;
   }
 
   /**
@@ -44,6 +28,7 @@ export class Tokens {
 
     const optionalFields: { [key: string]: string } = {
       newEmail: 'string',
+      attempts: 'number',
     };
 
     // Check for invalid fields
@@ -81,80 +66,32 @@ export class Tokens {
   }
 
   /**
-   * Creates a new token in DynamoDB after validating the input.
+   * Creates a new token after validating the input.
    * @param token The token object to create.
    */
   static async createToken(token: Token): Promise<void> {
     // Validate the token object
     this.validateToken(token);
 
-    // Prepare the DynamoDB PutItemCommand
-    const item: { [key: string]: AttributeValue } = {
-      Value: { S: token.value },
-      Username: { S: token.username },
-      Type: { S: token.type },
-      Expiration: { N: token.expiration.toString() },
-    };
-
-    // Include newEmail if it exists
-    if (token.newEmail) {
-      item.NewEmail = { S: token.newEmail };
-    }
-
-    const params = {
-      TableName: this.tableName,
-      Item: item,
-      ConditionExpression: 'attribute_not_exists(#value)', // Use placeholder for reserved keyword
-      ExpressionAttributeNames: {
-        '#value': 'Value', // Map the placeholder to the actual attribute name
-      },
-    };
-
+    let created: boolean;
     try {
-      const command = new PutItemCommand(params);
-      await this.client.send(command);
+      created = await this.repository.create(token);
     } catch (error: any) {
-      if (error.name === 'ConditionalCheckFailedException') {
-        throw new Error('Token with this value already exists.');
-      }
       throw new Error(`Failed to create token: ${error.message}`);
     }
+    if (!created) {
+      throw new Error('Token with this value already exists.');
+    }
   }
 
   /**
-   * Retrieves a token from DynamoDB by its value.
+   * Retrieves a token by its value.
    * @param value The unique value of the token.
    * @returns The Token object if found, otherwise null.
    */
   static async getToken(value: string): Promise<Token | null> {
-    const params = {
-      TableName: this.tableName,
-      Key: {
-        Value: { S: value },
-      },
-    };
-
     try {
-      const command = new GetItemCommand(params);
-      const response = await this.client.send(command);
-
-      if (!response.Item) {
-        return null;
-      }
-
-      const token: Token = {
-        value: response.Item.Value.S!,
-        username: response.Item.Username.S!,
-        type: response.Item.Type.S!,
-        expiration: parseInt(response.Item.Expiration.N!),
-      };
-
-      // Include newEmail if it exists
-      if (response.Item.NewEmail && response.Item.NewEmail.S) {
-        token.newEmail = response.Item.NewEmail.S;
-      }
-
-      return token;
+      return await this.repository.get(value);
     } catch (error: any) {
       throw new Error(`Failed to retrieve token: ${error.message}`);
     }
@@ -163,75 +100,32 @@ export class Tokens {
   /**
    * Deletes all tokens associated with a specific username.
    * @param username - The username whose tokens should be deleted.
+   * @param type - Only delete the tokens of this type, like 'password_reset'.
    * @returns A promise that resolves to true if deletion is successful, false otherwise.
    */
-  public static async deleteUserTokens(username: string): Promise<boolean> {
+  public static async deleteUserTokens(
+    username: string,
+    type?: string
+  ): Promise<boolean> {
     if (!username || typeof username !== 'string') {
       console.error('Invalid username provided');
       return false;
     }
 
-    // Step 1: Query all tokens for the given username using the GSI
-    const queryParams = {
-      TableName: this.tableName,
-      IndexName: 'UsernameIndex', // GSI to query by username
-      KeyConditionExpression: 'Username = :username',
-      ExpressionAttributeValues: {
-        ':username': { S: username },
-      },
-      ProjectionExpression: '#V', // Use alias for 'Value'
-      ExpressionAttributeNames: {
-        '#V': 'Value', // Alias '#V' maps to 'Value'
-      },
-    };
-
     try {
-      const queryCommand = new QueryCommand(queryParams);
-      const queryResponse = await this.client.send(queryCommand);
-
-      const items = queryResponse.Items;
+      const values = type
+        ? (await this.repository.list(username))
+            .filter((token) => token.type === type)
+            .map((token) => token.value)
+        : await this.repository.listValues(username);
 
-      if (!items || items.length === 0) {
+      if (values.length === 0) {
         // No tokens to delete
         console.log(`No tokens found for username: ${username}`);
         return true;
       }
 
-      // Step 2: Prepare batch delete operations using only the partition key 'Value'
-      const deleteRequests = items.map((item) => ({
-        DeleteRequest: {
-          Key: {
-            Value: { S: item['Value'].S }, // Use only 'Value' since it's the partition key
-          },
-        },
-      }));
-
-      // DynamoDB BatchWrite can handle up to 25 items per request
-      const BATCH_SIZE = 25;
-      for (let i = 0; i < deleteRequests.length; i += BATCH_SIZE) {
-        const batch = deleteRequests.slice(i, i + BATCH_SIZE);
-        const batchParams: any = {
-          RequestItems: {
-            [this.tableName]: batch,
-          },
-        };
-
-        const batchCommand = new BatchWriteItemCommand(batchParams);
-        const batchResponse = await this.client.send(batchCommand);
-
-        // Handle UnprocessedItems if any
-        if (
-          batchResponse.UnprocessedItems &&
-          Object.keys(batchResponse.UnprocessedItems).length > 0
-        ) {
-          console.warn(
-            'Some items were not processed in this batch:',
-            batchResponse.UnprocessedItems
-          );
-          // You might want to implement retry logic here
-          return false;
-        }
-      }
+      await this.repository.deleteMany(values);
 
       console.log(`Successfully deleted all tokens for username: ${username}`);
       return true;
@@ -242,7 +136,7 @@ export class Tokens {
   }
 
   /**
-   * Updates an existing token's attributes in DynamoDB.
+   * Updates an existing token's attributes.
    * @param value The unique value of the token to update.
    * @param updates An object containing the fields to update.
    */
@@ -260,90 +154,49 @@ export class Tokens {
       'type',
       'expiration',
       'newEmail',
+      'attempts',
     ];
 
-    // Build the update expression
-    let updateExpression = 'SET ';
-    const ExpressionAttributeNames: { [key: string]: string } = {};
-    const ExpressionAttributeValues: { [key: string]: AttributeValue } = {};
-
-    allowedFields.forEach((field, index) => {
+    const fields: Partial<Omit<Token, 'value'>> = {};
+    for (const field of allowedFields) {
       if (field in updates) {
-        const attributeName = `#field${index}`;
-        const attributeValue = `:value${index}`;
-        updateExpression += `${attributeName} = ${attributeValue}, `;
-        ExpressionAttributeNames[attributeName] =
-          this.capitalizeFirstLetter(field);
         const fieldValue = updates[field];
-        if (field === 'expiration' && typeof fieldValue === 'number') {
-          ExpressionAttributeValues[attributeValue] = {
-            N: fieldValue.toString(),
-          };
-        } else if (field === 'newEmail' && typeof fieldValue === 'string') {
-          ExpressionAttributeValues[attributeValue] = { S: fieldValue };
-        } else if (typeof fieldValue === 'string') {
-          ExpressionAttributeValues[attributeValue] = { S: fieldValue };
-        } else {
+        const expectedType = ['expiration', 'attempts'].includes(field)
+          ? 'number'
+          : 'string';
+        if (typeof fieldValue !== expectedType) {
           throw new Error(`Invalid type for field '${field}'.`);
         }
+        (fields as any)[field] = fieldValue;
       }
-    });
-
-    // Remove the trailing comma and space
-    updateExpression = updateExpression.slice(0, -2);
-
-    const params = {
-      TableName: this.tableName,
-      Key: {
-        Value: { S: value },
-      },
-      UpdateExpression: updateExpression,
-      ExpressionAttributeNames: {
-        '#value': 'Value', // Map placeholder for 'Value'
-        ...ExpressionAttributeNames,
-      },
-      ExpressionAttributeValues,
-      ConditionExpression: 'attribute_exists(Value)', // Ensure the token exists
-    };
+    }
 
+    let updated: boolean;
     try {
-      const command = new UpdateItemCommand(params);
-      await this.client.send(command);
-      console.log('Token updated successfully.');
+      updated = await this.repository.update(value, fields);
     } catch (error: any) {
-      if (error.name === 'ConditionalCheckFailedException') {
-        throw new Error('Token does not exist.');
-      }
       throw new Error(`Failed to update token: ${error.message}`);
     }
+    if (!updated) {
+      throw new Error('Token does not exist.');
+    }
+    console.log('Token updated successfully.');
   }
 
   /**
-   * Deletes a token from DynamoDB by its value.
+   * Deletes a token by its value.
    * @param value The unique value of the token to delete.
    */
   static async deleteToken(value: string): Promise<void> {
-    // Prepare the DynamoDB DeleteItemCommand
-    const params = {
-      TableName: this.tableName,
-      Key: {
-        Value: { S: value },
-      },
-      ConditionExpression: 'attribute_exists(#value)', // Use placeholder for reserved keyword
-      ExpressionAttributeNames: {
-        '#value': 'Value', // Map the placeholder to the actual field name 'Value'
-      },
-    };
-
+    let deleted: boolean;
     try {
-      const command = new DeleteItemCommand(params);
-      await this.client.send(command);
-      console.log('Token deleted successfully.');
+      deleted = await this.repository.delete(value);
     } catch (error: any) {
-      if (error.name === 'ConditionalCheckFailedException') {
-        throw new Error('Token does not exist.');
-      }
       throw new Error(`Failed to delete token: ${error.message}`);
     }
+    if (!deleted) {
+      throw new Error('Token does not exist.');
+    }
+    console.log('Token deleted successfully.');
   }
 }
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+
+import { Helper } from './helper';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Time-based one-time passwords (RFC 6238) with the settings every
+// authenticator app supports: SHA-1, 6 digits and 30 second steps
+export class Totp {
+  private static ISSUER: Readonly<string> = 'Project Catalog';
+  private static STEP: Readonly<number> = 30;
+  private static DIGITS: Readonly<number> = 6;
+  // Steps accepted before and after the current one, for clock drift
+  private static WINDOW: Readonly<number> = 1;
+
+  /**
+   * Creates a random secret, base32 encoded
+   *
+   * @public
+   * @static
+   * @returns {string}
+   */
+  public static generateSecret(): string {
+    return this.toBase32(crypto.randomBytes(20));
+  }
+
+  /**
+   * Returns the otpauth URI of a secret, shown as a QR code to the
+   * authenticator app
+   *
+   * @public
+   * @static
+   * @param {string} username - account name shown in the app
+   * @param {string} secret - base32 secret
+   * @returns {string}
+   */
+  public static getUri(username: string, secret: string): string {
+    const label = encodeURIComponent(`${this.ISSUER}:${username}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.ISSUER,
+      algorithm: 'SHA1',
+      digits: this.DIGITS.toString(),
+      period: this.STEP.toString(),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Returns the number of the time step of a UNIX timestamp
+   *
+   * @public
+   * @static
+   * @param {number} [time] - UNIX timestamp, now by default
+   * @returns {number}
+   */
+  public static getCounter(time: number = Helper.getUNIXTimestamp()): number {
+    return Math.floor(time / this.STEP);
+  }
+
+  /**
+   * Returns the code of a secret for a time step
+   *
+   * @public
+   * @static
+   * @param {string} secret - base32 secret
+   * @param {number} counter - time step
+   * @returns {string}
+   */
+  public static generateCode(secret: string, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+    message.writeUInt32BE(counter >>> 0, 4);
+    const hmac = crypto
+      .createHmac('sha1', this.fromBase32(secret))
+      .update(message)
+      .digest();
+
+    // Dynamic truncation, RFC 4226 section 5.3
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, '0');
+  }
+
+  /**
+   * Checks a code against the time steps around now. A code is accepted
+   * only once: steps up to lastCounter are refused.
+   *
+   * @public
+   * @static
+   * @param {string} secret - base32 secret
+   * @param {string} code - code entered by the user
+   * @param {number} [lastCounter=-1] - time step of the last accepted code
+   * @returns {number | null} - time step of the code, or null if it is wrong
+   */
+  public static verifyCode(
+    secret: string,
+    code: string,
+    lastCounter: number = -1
+  ): number | null {
+    if (typeof code != 'string' || !/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const current = this.getCounter();
+    for (
+      let counter = current - this.WINDOW;
+      counter <= current + this.WINDOW;
+      counter++
+    ) {
+      if (counter <= lastCounter) {
+        continue;
+      }
+      const expected = this.generateCode(secret, counter);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return counter;
+      }
+    }
+    return null;
+  }
+
+  private static toBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private static fromBase32(text: string): Buffer {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of text.replace(/=+$/, '').toUpperCase()) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index == -1) {
+        throw new Error(`Invalid base32 character '${char}'`);
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
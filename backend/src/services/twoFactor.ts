@@ -0,0 +1,562 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import dotenv from 'dotenv';
+
+import { User, UserRepository } from '../repositories/userRepository';
+import { DynamoUserRepository } from '../repositories/dynamoUserRepository';
+import { Audit } from './audit';
+import { Helper } from './helper';
+import { Roles } from './roles';
+import { Settings } from './settings';
+import { Tokens } from './tokens';
+import { Totp } from './totp';
+import { UserManagment } from './userManagment';
+
+dotenv.config();
+
+interface ApiResponse {
+  status: number;
+  response: {
+    [key: string]: any;
+  };
+}
+
+// Kept in the TwoFactor attribute of the user. The secret is encrypted with
+// TOTP_KEY and the recovery codes are hashed, they are shown only once.
+export interface TwoFactorState {
+  Secret: string;
+  /** False while the enrollment waits for the first code */
+  Enabled: boolean;
+  RecoveryCodes: string[];
+  /** Time step of the last accepted code, a code works only once */
+  LastCounter: number;
+}
+
+// Optional TOTP two-factor authentication, the admins can require it for
+// roles. Signing in with it enabled takes a second step: user/sign-in returns
+// a challenge that user/sign-in/2fa completes with a code.
+export class TwoFactor {
+  private static repository: UserRepository = new DynamoUserRepository();
+  private static CHALLENGE_TYPE: Readonly<string> = 'two_factor_challenge';
+  // Seconds to enter the code of a challenge
+  private static CHALLENGE_DURATION: Readonly<number> = 5 * 60;
+  private static CHALLENGE_ATTEMPTS: Readonly<number> = 5;
+  private static RECOVERY_CODES: Readonly<number> = 10;
+
+  /**
+   * Replaces the user repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {UserRepository} repository - user repository
+   */
+  public static useRepository(repository: UserRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Checks if a user object has two-factor authentication enabled
+   *
+   * @public
+   * @static
+   * @param {User} user - user object
+   * @returns {boolean}
+   */
+  public static isEnabled(user: User): boolean {
+    return user?.TwoFactor?.Enabled === true;
+  }
+
+  /**
+   * Checks if one of the roles of a user requires two-factor authentication
+   *
+   * @public
+   * @static
+   * @async
+   * @param {User} user - user object
+   * @returns {Promise<boolean>}
+   */
+  public static async isRequired(user: User): Promise<boolean> {
+    const required = await Settings.getTwoFactorRoles();
+    return Roles.getRoles(user).some((role) => required.includes(role));
+  }
+
+  /**
+   * Checks if a user has to enroll before using the permissions of their
+   * roles
+   *
+   * @public
+   * @static
+   * @async
+   * @param {User} user - user object
+   * @returns {Promise<boolean>}
+   */
+  public static async isMissing(user: User): Promise<boolean> {
+    return !this.isEnabled(user) && (await this.isRequired(user));
+  }
+
+  /**
+   * Changes the roles that require two-factor authentication. Admins have to
+   * enable it first if it would apply to them, or they would lock themselves
+   * out of the setting.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {User} actor - user object of the admin
+   * @param {*} roles - role names
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async setRequiredRoles(
+    actor: User,
+    roles: any
+  ): Promise<ApiResponse> {
+    if (
+      Array.isArray(roles) &&
+      !this.isEnabled(actor) &&
+      Roles.getRoles(actor).some((role) => roles.includes(role))
+    ) {
+      return {
+        status: 400,
+        response: {
+          message: 'enable two-factor authentication for your account first',
+        },
+      };
+    }
+
+    const result = await Settings.setTwoFactorRoles(roles);
+    if (result.status == 200) {
+      await Audit.record(actor.Username, 'settings.twoFactor', actor.Username, {
+        roles: result.response.roles.join(', '),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Returns the two-factor state of a user
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async getStatus(username: string): Promise<ApiResponse> {
+    try {
+      const user = await this.repository.get(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+
+      const enabled = this.isEnabled(user);
+      return {
+        status: 200,
+        response: {
+          enabled,
+          required: await this.isRequired(user),
+          recoveryCodes: enabled ? user.TwoFactor.RecoveryCodes.length : 0,
+        },
+      };
+    } catch (err) {
+      console.error('Error reading the two-factor state:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Starts the enrollment with a new secret. It is enabled by the first
+   * code, see enable.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @returns {Promise<ApiResponse>} - api response with the secret and the
+   *   otpauth URI
+   */
+  public static async setup(username: string): Promise<ApiResponse> {
+    try {
+      const user = await this.repository.get(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+      if (this.isEnabled(user)) {
+        return {
+          status: 400,
+          response: { message: 'two-factor authentication is already enabled' },
+        };
+      }
+
+      const secret = Totp.generateSecret();
+      const state: TwoFactorState = {
+        Secret: this.encrypt(secret),
+        Enabled: false,
+        RecoveryCodes: [],
+        LastCounter: -1,
+      };
+      await this.repository.update(username, { TwoFactor: state });
+
+      return {
+        status: 200,
+        response: { secret, uri: Totp.getUri(username, secret) },
+      };
+    } catch (err) {
+      console.error('Error starting the two-factor enrollment:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Enables two-factor authentication with the first code of the secret
+   * from setup
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} code - code from the authenticator app
+   * @returns {Promise<ApiResponse>} - api response with the recovery codes
+   */
+  public static async enable(
+    username: string,
+    code: string
+  ): Promise<ApiResponse> {
+    try {
+      const user = await this.repository.get(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+      const state: TwoFactorState | undefined = user.TwoFactor;
+      if (!state || state.Enabled) {
+        return {
+          status: 400,
+          response: { message: 'no two-factor enrollment in progress' },
+        };
+      }
+
+      const counter = Totp.verifyCode(this.decrypt(state.Secret), code);
+      if (counter == null) {
+        return { status: 400, response: { message: 'invalid code' } };
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await this.repository.update(username, {
+        TwoFactor: {
+          ...state,
+          Enabled: true,
+          LastCounter: counter,
+          RecoveryCodes: recoveryCodes.map((item) => this.hash(item)),
+        },
+      });
+      await Audit.record(username, 'user.twoFactor', username, {
+        enabled: true,
+      });
+
+      return { status: 200, response: { recoveryCodes } };
+    } catch (err) {
+      console.error('Error enabling two-factor authentication:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Turns two-factor authentication off. Needs the password and a code, and
+   * is refused while a role of the user requires it.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} password - password of the user
+   * @param {string} code - code from the app or a recovery code
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async disable(
+    username: string,
+    password: string,
+    code: string
+  ): Promise<ApiResponse> {
+    try {
+      const user = await this.repository.get(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+      if (!this.isEnabled(user)) {
+        return {
+          status: 400,
+          response: { message: 'two-factor authentication is not enabled' },
+        };
+      }
+      if (await this.isRequired(user)) {
+        return {
+          status: 400,
+          response: {
+            message: 'two-factor authentication is required for your role',
+          },
+        };
+      }
+
+      if (
+        typeof password != 'string' ||
+        !(await UserManagment.compareHash(password, user.Password))
+      ) {
+        return { status: 401, response: { message: 'invalid password' } };
+      }
+      if (!(await this.checkCode(user, code))) {
+        return { status: 400, response: { message: 'invalid code' } };
+      }
+
+      await this.repository.update(username, { TwoFactor: null });
+      await Audit.record(username, 'user.twoFactor', username, {
+        enabled: false,
+      });
+      return {
+        status: 200,
+        response: { message: 'two-factor authentication disabled' },
+      };
+    } catch (err) {
+      console.error('Error disabling two-factor authentication:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Replaces the recovery codes of a user with new ones
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username
+   * @param {string} code - code from the authenticator app
+   * @returns {Promise<ApiResponse>} - api response with the recovery codes
+   */
+  public static async regenerateRecoveryCodes(
+    username: string,
+    code: string
+  ): Promise<ApiResponse> {
+    try {
+      const user = await this.repository.get(username);
+      if (!user || !this.isEnabled(user)) {
+        return {
+          status: 400,
+          response: { message: 'two-factor authentication is not enabled' },
+        };
+      }
+
+      const state: TwoFactorState = user.TwoFactor;
+      const counter = Totp.verifyCode(
+        this.decrypt(state.Secret),
+        code,
+        state.LastCounter
+      );
+      if (counter == null) {
+        return { status: 400, response: { message: 'invalid code' } };
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await this.repository.update(username, {
+        TwoFactor: {
+          ...state,
+          LastCounter: counter,
+          RecoveryCodes: recoveryCodes.map((item) => this.hash(item)),
+        },
+      });
+      return { status: 200, response: { recoveryCodes } };
+    } catch (err) {
+      console.error('Error creating the recovery codes:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Starts the second step of signing in
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user who entered the password
+   * @returns {Promise<string>} - the challenge
+   */
+  public static async createChallenge(username: string): Promise<string> {
+    const challenge = uuidv4();
+    await Tokens.createToken({
+      username,
+      value: challenge,
+      type: this.CHALLENGE_TYPE,
+      expiration: Helper.getUNIXTimestamp() + this.CHALLENGE_DURATION,
+      attempts: 0,
+    });
+    return challenge;
+  }
+
+  /**
+   * Completes the second step of signing in. The challenge ends with the
+   * right code or after too many wrong ones.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} challenge - challenge from createChallenge
+   * @param {string} code - code from the app or a recovery code
+   * @returns {Promise<User | null>} - the user, or null if the challenge or
+   *   the code is not valid
+   */
+  public static async completeChallenge(
+    challenge: string,
+    code: string
+  ): Promise<User | null> {
+    if (typeof challenge != 'string' || typeof code != 'string') {
+      return null;
+    }
+
+    const token = await Tokens.getToken(challenge);
+    if (!token || token.type !== this.CHALLENGE_TYPE) {
+      return null;
+    }
+    if (token.expiration < Helper.getUNIXTimestamp()) {
+      await Tokens.deleteToken(challenge);
+      return null;
+    }
+
+    const user = await this.repository.get(token.username);
+    if (user && this.isEnabled(user) && (await this.checkCode(user, code))) {
+      await Tokens.deleteToken(challenge);
+      return user;
+    }
+
+    const attempts = (token.attempts || 0) + 1;
+    if (attempts >= this.CHALLENGE_ATTEMPTS) {
+      await Tokens.deleteToken(challenge);
+    } else {
+      await Tokens.updateToken(challenge, { attempts });
+    }
+    return null;
+  }
+
+  /**
+   * Checks a code from the authenticator app or a recovery code, and marks
+   * it as used
+   *
+   * @private
+   * @static
+   * @async
+   * @param {User} user - user object with two-factor authentication enabled
+   * @param {string} code - code entered by the user
+   * @returns {Promise<boolean>}
+   */
+  private static async checkCode(user: User, code: string): Promise<boolean> {
+    if (typeof code != 'string') {
+      return false;
+    }
+    const state: TwoFactorState = user.TwoFactor;
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+    const counter = Totp.verifyCode(
+      this.decrypt(state.Secret),
+      normalized,
+      state.LastCounter
+    );
+    if (counter != null) {
+      // Fails if another request used this code or a later one meanwhile
+      return await this.repository.setTwoFactorCounter(user.Username, counter);
+    }
+
+    const hashed = this.hash(normalized);
+    if (state.RecoveryCodes.includes(hashed)) {
+      await this.repository.update(user.Username, {
+        TwoFactor: {
+          ...state,
+          RecoveryCodes: state.RecoveryCodes.filter((item) => item != hashed),
+        },
+      });
+      await Audit.record(user.Username, 'user.recoveryCode', user.Username, {
+        left: state.RecoveryCodes.length - 1,
+      });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Creates recovery codes, like 3f2a-9c41-b7
+   *
+   * @private
+   * @static
+   * @returns {string[]}
+   */
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODES }, () =>
+      crypto
+        .randomBytes(5)
+        .toString('hex')
+        .replace(/^(.{4})(.{4})(.{2})$/, '$1-$2-$3')
+    );
+  }
+
+  /**
+   * Hashes a recovery code, the dashes are left out
+   *
+   * @private
+   * @static
+   * @param {string} code - recovery code
+   * @returns {string} - hex digest
+   */
+  private static hash(code: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(code.replace(/-/g, ''))
+      .digest('hex');
+  }
+
+  /**
+   * Derives the key that encrypts the secrets from TOTP_KEY
+   *
+   * @private
+   * @static
+   * @returns {Buffer} - 256-bit key
+   */
+  private static getKey(): Buffer {
+    return crypto
+      .createHash('sha256')
+      .update(process.env.TOTP_KEY || 'default')
+      .digest();
+  }
+
+  /**
+   * Encrypts a secret with AES-256-GCM
+   *
+   * @private
+   * @static
+   * @param {string} secret - base32 secret
+   * @returns {string} - iv, auth tag and ciphertext in base64, joined by dots
+   */
+  private static encrypt(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join('.');
+  }
+
+  /**
+   * Decrypts a secret from encrypt
+   *
+   * @private
+   * @static
+   * @param {string} stored - encrypted secret
+   * @returns {string} - base32 secret
+   * @throws {Error} - if the secret was changed or TOTP_KEY is different
+   */
+  private static decrypt(stored: string): string {
+    const [iv, tag, encrypted] = stored
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString();
+  }
+}
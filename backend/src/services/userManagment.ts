@@ -1,38 +1,48 @@
-import {
-  GetItemCommand,
-  PutItemCommand,
-  UpdateItemCommand,
-  UpdateItemCommandInput,
-  DeleteItemCommand,
-  ReturnValue,
-  QueryCommand,
-} from '@aws-sdk/client-dynamodb';
-import { unmarshall, marshall } from '@aws-sdk/util-dynamodb';
-
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { Helper } from './helper';
 import jwt from 'jsonwebtoken';
 import dotenv from 'dotenv';
-import { S3 } from './s3';
+import { Storage } from './storage';
 import { v4 as uuidv4 } from 'uuid';
 import { Email } from './Email';
 import { Articles } from './articles';
+import { Audit } from './audit';
+import { Comments } from './comments';
+import { Likes } from './likes';
+import { Page } from './pagination';
+import { PasswordPolicy } from './passwordPolicy';
+import { Permission, Roles } from './roles';
+import { Sessions } from './sessions';
+import { Steps } from './steps';
 
-import { client } from './dynamodb';
 import { Tokens } from './tokens';
+import { TwoFactor } from './twoFactor';
+import { USER_DIRECTORY, UserRepository } from '../repositories/userRepository';
+import { DynamoUserRepository } from '../repositories/dynamoUserRepository';
 
 dotenv.config();
 
+// Suspended accounts keep their data until they are reinstated. A ban is a
+// suspension without an end.
+export interface Suspension {
+  Reason: string;
+  /** UNIX timestamp of the end, null for a ban */
+  Until: number | null;
+  /** Username of the user who suspended the account */
+  By: string;
+  Since: number;
+}
+
 interface UserObject {
   Username: string;
+  Directory: string;
   Password: string;
   Email: string;
-  Admin: string;
-  CanPost: string;
+  Roles: string[];
   Verified: string;
   LastPasswordChange: number;
   LastEmailChange: number;
-  Liked: string[];
   ProfilePic: string;
   ProfilePicChange: any;
   AccountCreated: number;
@@ -47,6 +57,19 @@ interface ApiResponse {
 
 export class UserManagment {
   public static profilePicCooldown = 7 * 24 * 60 * 60; // 1 week
+  private static PASSWORD_RESET_DURATION = 60 * 60; // 1 hour
+  private static repository: UserRepository = new DynamoUserRepository();
+
+  /**
+   * Replaces the user repository, used by tests
+   *
+   * @public
+   * @static
+   * @param {UserRepository} repository - user repository
+   */
+  public static useRepository(repository: UserRepository) {
+    this.repository = repository;
+  }
 
   /**
    * Checks if an email is valid using regex
@@ -61,62 +84,120 @@ export class UserManagment {
     return emailRegex.test(email);
   }
 
+  /**
+   * Returns random bytes of a CSPRNG as a hex string, used for the codes
+   * sent in emails
+   *
+   * @public
+   * @static
+   * @param {number} length - number of bytes
+   * @returns {string}
+   */
   public static randomBytesHex(length: number) {
-    const buffer = new Uint8Array(length);
-
-    // Fill the buffer with random values
-    for (let i = 0; i < length; i++) {
-      buffer[i] = Math.floor(Math.random() * 256);
-    }
-
-    // Convert buffer to a hexadecimal string
-    const hexString = Array.from(buffer)
-      .map((byte) => byte.toString(16).padStart(2, '0'))
-      .join('');
-
-    return hexString;
+    return crypto.randomBytes(length).toString('hex');
   }
 
   /**
-   * Checks if the username matches the one in the user object or if the user is an admin
+   * Checks if the username matches the one of the account or if the roles of
+   * the account give a permission over the content of others. The routes
+   * pass req.account, the roles in the token could have been revoked.
    *
    * @public
    * @static
+   * @async
    * @param {string} username
-   * @param {dict} user - user object
-   * @returns {boolean}
+   * @param {UserObject} [account] - account of the user, none when signed out
+   * @param {Permission} permission - permission that allows acting for others
+   * @returns {Promise<boolean>}
    */
-  public static checkUsername(username: string, user: any) {
-    if (user.Admin === 'true') return true;
-    if (user.Username === username) return true;
-    return false;
+  public static async checkUsername(
+    username: string,
+    account: any,
+    permission: Permission
+  ): Promise<boolean> {
+    if (account?.Username && account.Username === username) return true;
+    return this.checkPermission(account, permission);
   }
 
   /**
-   * Checks if an user is an admin
+   * Checks if the roles of an account give a permission. Refuses when the
+   * two-factor settings cannot be read.
    *
    * @public
    * @static
-   * @param {UserObject} user - user object
-   * @returns {boolean}
+   * @async
+   * @param {UserObject} [account] - account of the user, none when signed out
+   * @param {Permission} permission - permission name
+   * @returns {Promise<boolean>}
+   */
+  public static async checkPermission(
+    account: any,
+    permission: Permission
+  ): Promise<boolean> {
+    try {
+      return (await this.getPermissionError(account, permission)) == null;
+    } catch (err) {
+      console.error('Error checking the two-factor settings:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Returns why the roles of an account do not give a permission, null when
+   * they do. Roles can require two-factor authentication for their
+   * permissions.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {UserObject} [account] - account of the user, none when signed out
+   * @param {Permission} permission - permission name
+   * @returns {Promise<string | null>} - error message
    */
-  public static checkAdmin(user: any) {
-    if (user.Admin === 'true') return true;
-    return false;
+  public static async getPermissionError(
+    account: any,
+    permission: Permission
+  ): Promise<string | null> {
+    if (!Roles.hasPermission(account, permission)) {
+      return 'permission denied';
+    }
+    if (await TwoFactor.isMissing(account)) {
+      return 'two-factor authentication required';
+    }
+    return null;
   }
 
   /**
-   * Checks if an user has the permision to post articles
+   * Returns the JWT claims of a user object, without the sensitive
+   * information and with the roles and the permissions they give
    *
    * @public
    * @static
    * @param {UserObject} user - user object
-   * @returns {boolean}
+   * @returns {*} claims
    */
-  public static checkCanPost(user: any) {
-    if (user.Admin === 'true') return true;
-    if (user.CanPost === 'true') return true;
-    return false;
+  public static getClaims(user: any) {
+    const {
+      Password,
+      Liked,
+      VerificationCode,
+      Admin,
+      CanPost,
+      Directory,
+      Suspension,
+      TwoFactor: twoFactor,
+      Session,
+      Rotation,
+      exp,
+      iat,
+      ...claims
+    } = user;
+    const roles = Roles.getRoles(user);
+    return {
+      ...claims,
+      Roles: roles,
+      Permissions: Roles.getPermissions(roles),
+    };
   }
 
   /**
@@ -157,17 +238,52 @@ export class UserManagment {
   }
 
   /**
-   * Creates a new refresh JWT from an user object
+   * Creates a new refresh JWT from an user object for a session, see
+   * src/services/sessions.ts
    *
    * @public
    * @static
    * @param {UserObject} user
+   * @param {string} session - session id
+   * @param {string} rotation - rotation id of the session
    * @returns {string}
    */
-  public static getRefreshJWT(user: any) {
-    return jwt.sign(user, process.env.JWT_REFRESH_KEY || 'default', {
-      expiresIn: '3d',
-    });
+  public static getRefreshJWT(user: any, session: string, rotation: string) {
+    return jwt.sign(
+      { ...user, Session: session, Rotation: rotation },
+      process.env.JWT_REFRESH_KEY || 'default',
+      { expiresIn: '3d' }
+    );
+  }
+
+  /**
+   * Returns the payload of a refresh JWT, or null if it is not valid. Used
+   * to find the session of a request, the session itself is checked by
+   * src/services/sessions.ts.
+   *
+   * @public
+   * @static
+   * @param {string} [token] - refresh JWT
+   * @param {boolean} [ignoreExpiration=false] - accept expired tokens
+   * @returns {*} payload or null
+   */
+  public static verifyRefreshJWT(
+    token: string | undefined,
+    ignoreExpiration: boolean = false
+  ) {
+    if (!token) {
+      return null;
+    }
+    try {
+      const payload: any = jwt.verify(
+        token,
+        process.env.JWT_REFRESH_KEY || 'default',
+        { ignoreExpiration }
+      );
+      return payload.Session ? payload : null;
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -226,16 +342,14 @@ export class UserManagment {
    * @param {string} username
    * @param {string} password
    * @param {string} email
-   * @param {string} [canPost='false']
-   * @param {string} [admin='false']
+   * @param {string[]} [roles=['author']]
    * @returns {unknown}
    */
   public static async createUser(
     username: string,
     password: string,
     email: string,
-    canPost: string = 'true',
-    admin: string = 'false'
+    roles: string[] = ['author']
   ) {
     // Validate the parameters
     if (!this.isValidEmail(email)) {
@@ -245,11 +359,9 @@ export class UserManagment {
       };
     }
 
-    if (password.length < 8) {
-      return {
-        status: 400,
-        response: { message: 'password must be at least 8 characters long' },
-      };
+    const refused = await PasswordPolicy.validate(password, username);
+    if (refused) {
+      return refused;
     }
 
     if ((await this.getUser(username)) != null) {
@@ -265,13 +377,11 @@ export class UserManagment {
     // Create the user object without the VerificationCode
     const userObject: UserObject = {
       Username: username,
+      Directory: USER_DIRECTORY,
       Password: password,
       Email: email,
-      Admin: admin,
-      Liked: [],
-      CanPost: canPost,
-      ProfilePic:
-        'https://project-catalog-storage.s3.us-east-2.amazonaws.com/images/pfp.png',
+      Roles: roles,
+      ProfilePic: Storage.getPublicUrl('images/pfp.png'),
       ProfilePicChange: 'null',
       AccountCreated: Helper.getUNIXTimestamp(),
       Verified: 'false',
@@ -280,34 +390,9 @@ export class UserManagment {
     };
 
     // Add the user object to the database
-    const params: any = {
-      TableName: 'Users',
-      Item: marshall(userObject),
-    };
-
     try {
-      await client.send(new PutItemCommand(params));
-
-      // Generate a verification code
-      const verificationCode = this.randomBytesHex(24);
-
-      // Create a token object
-      const token = {
-        username: username,
-        value: verificationCode,
-        type: 'email_verification',
-        expiration: 0,
-      };
-
-      // Store the token using the Tokens class
-      await Tokens.createToken(token);
-
-      // Send verification email
-      await Email.sendAccountVerificationEmail(
-        email,
-        username,
-        verificationCode
-      );
+      await this.repository.put(userObject);
+      await this.sendVerificationEmail(username, email);
 
       return {
         status: 200,
@@ -322,6 +407,35 @@ export class UserManagment {
     }
   }
 
+  /**
+   * Creates an email verification code and sends it to the user
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} username
+   * @param {string} email - address the code is sent to
+   * @returns {Promise<void>}
+   */
+  private static async sendVerificationEmail(username: string, email: string) {
+    // Generate a verification code
+    const verificationCode = this.randomBytesHex(24);
+
+    // Create a token object
+    const token = {
+      username: username,
+      value: verificationCode,
+      type: 'email_verification',
+      expiration: 0,
+    };
+
+    // Store the token using the Tokens class
+    await Tokens.createToken(token);
+
+    // Send verification email
+    await Email.sendAccountVerificationEmail(email, username, verificationCode);
+  }
+
   /**
    * Deletes a user from the database and returns a response
    *
@@ -332,18 +446,10 @@ export class UserManagment {
    * @returns {unknown}
    */
   public static async deleteUser(username: string) {
-    const params = {
-      TableName: 'Users',
-      Key: {
-        Username: { S: username },
-      },
-      ReturnValues: ReturnValue.ALL_OLD,
-    };
-
     try {
-      const response = await client.send(new DeleteItemCommand(params));
+      const user = await this.repository.delete(username);
 
-      if (!response.Attributes) {
+      if (!user) {
         return { status: 404, response: { message: 'account not found' } };
       }
       return {
@@ -366,19 +472,8 @@ export class UserManagment {
    * @returns {unknown}
    */
   public static async getUser(username: string) {
-    const params: any = {
-      TableName: 'Users',
-      Key: {
-        Username: { S: username },
-      },
-    };
-
     try {
-      const result = await client.send(new GetItemCommand(params));
-      if (result.Item) {
-        return unmarshall(result.Item);
-      }
-      return null;
+      return await this.repository.get(username);
     } catch (err) {
       console.log(err);
       return null;
@@ -386,24 +481,23 @@ export class UserManagment {
   }
 
   /**
-   * Checks if an article is in the user's liked list
+   * Fetches one page of the users, newest accounts first
    *
    * @public
    * @static
    * @async
-   * @param {string} username
-   * @param {string} articleId
-   * @returns {unknown}
+   * @param {number} limit - users per page
+   * @param {string} [search] - only users whose username or email contains it
+   * @param {string} [cursor] - cursor returned with the previous page
+   * @returns {Promise<Page>} - page of user objects
+   * @throws {InvalidCursorError} - if the cursor does not belong to the list
    */
-  public static async isLikedByUser(username: string, articleId: string) {
-    const user = await this.getUser(username);
-    if (!user) {
-      return false;
-    }
-    if (user.Liked.includes(articleId)) {
-      return true;
-    }
-    return false;
+  public static async listUsers(
+    limit: number,
+    search?: string,
+    cursor?: string
+  ): Promise<Page> {
+    return await this.repository.listPage({ search, limit }, cursor, true);
   }
 
   /**
@@ -427,9 +521,7 @@ export class UserManagment {
       'Password',
       'ProfilePic',
       'ProfilePicChange',
-      'CanPost',
-      'Admin',
-      'Liked',
+      'Roles',
       'Verified',
       'LastPasswordChange',
       'LastEmailChange',
@@ -443,18 +535,14 @@ export class UserManagment {
       };
     }
 
-    // Dynamically determine the DynamoDB attribute type
-    let dynamoValue;
-    if (typeof fieldValue === 'string') {
-      dynamoValue = { S: fieldValue };
-    } else if (typeof fieldValue === 'number') {
-      dynamoValue = { N: fieldValue.toString() };
-    } else if (typeof fieldValue === 'boolean') {
-      dynamoValue = { BOOL: fieldValue };
+    // Only plain values can be stored, arrays are stored as lists of strings
+    let value;
+    if (['string', 'number', 'boolean'].includes(typeof fieldValue)) {
+      value = fieldValue;
     } else if (Array.isArray(fieldValue)) {
-      dynamoValue = { L: fieldValue.map((item) => ({ S: item.toString() })) };
+      value = fieldValue.map((item) => item.toString());
     } else if (fieldValue === null) {
-      dynamoValue = { NULL: true };
+      value = null;
     } else {
       return {
         status: 400,
@@ -462,27 +550,13 @@ export class UserManagment {
       };
     }
 
-    const params: UpdateItemCommandInput = {
-      TableName: 'Users',
-      Key: {
-        Username: { S: username },
-      },
-      UpdateExpression: 'SET #field = :newVal',
-      ExpressionAttributeNames: {
-        '#field': fieldName,
-      },
-      ExpressionAttributeValues: {
-        ':newVal': dynamoValue,
-      },
-      ReturnValues: 'ALL_OLD',
-    };
-
     // Update the user and return a response
     try {
-      const command = new UpdateItemCommand(params);
-      const result = await client.send(command);
+      const updated = await this.repository.update(username, {
+        [fieldName]: value,
+      });
 
-      if (!result.Attributes) {
+      if (!updated) {
         return {
           status: 404,
           response: { message: 'User not found' },
@@ -503,17 +577,181 @@ export class UserManagment {
   }
 
   /**
-   * Authenticates the user with the username and password. Returns the user JWT object
-   * and the api response
+   * Grants or revokes a role of a user. The user gets the new permissions
+   * with the next token refresh, endpoints behind requirePermission follow
+   * right away.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @param {string} role - role name
+   * @param {boolean} granted - whether the user should have the role
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async changeRole(
+    username: string,
+    role: string,
+    granted: boolean
+  ): Promise<ApiResponse> {
+    if (!Roles.isRole(role)) {
+      return { status: 400, response: { message: 'invalid role' } };
+    }
+
+    try {
+      const user = await this.getUser(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+
+      // Users without a role left are readers
+      let roles = Roles.getRoles(user).filter(
+        (item) => item != role && item != 'reader'
+      );
+      if (granted) {
+        roles.push(role);
+      }
+      if (roles.length == 0) {
+        roles = ['reader'];
+      }
+
+      await this.repository.update(username, { Roles: roles });
+      return { status: 200, response: { roles } };
+    } catch (err) {
+      console.error('Error changing the roles:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Suspends an account, or reinstates it when the suspension is null. The
+   * articles of a suspended user are hidden from the public lists.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @param {(Suspension | null)} suspension - suspension or null
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async setSuspension(
+    username: string,
+    suspension: Suspension | null
+  ): Promise<ApiResponse> {
+    try {
+      if (
+        !(await this.repository.update(username, { Suspension: suspension }))
+      ) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+      await Articles.setAuthorSuspended(username, suspension != null);
+      return { status: 200, response: { suspension } };
+    } catch (err) {
+      console.error('Error changing the suspension:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns the suspension of a user object if it is still running. A
+   * suspension that has ended is lifted on the way.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {*} user - user object
+   * @returns {Promise<Suspension | null>} - running suspension or null
+   */
+  public static async getActiveSuspension(
+    user: any
+  ): Promise<Suspension | null> {
+    const suspension: Suspension | null = user?.Suspension ?? null;
+    if (!suspension) {
+      return null;
+    }
+
+    if (
+      suspension.Until != null &&
+      suspension.Until <= Helper.getUNIXTimestamp()
+    ) {
+      const result = await this.setSuspension(user.Username, null);
+      if (result.status == 200) {
+        await Audit.record('system', 'user.reinstate', user.Username, {
+          reason: 'suspension ended',
+        });
+      }
+      return null;
+    }
+    return suspension;
+  }
+
+  /**
+   * Returns the api response refusing a suspended user
+   *
+   * @public
+   * @static
+   * @param {Suspension} suspension - running suspension
+   * @returns {ApiResponse} - api response
+   */
+  public static getSuspendedResponse(suspension: Suspension): ApiResponse {
+    return {
+      status: 403,
+      response: {
+        message: 'account suspended',
+        suspension: { Reason: suspension.Reason, Until: suspension.Until },
+      },
+    };
+  }
+
+  /**
+   * Marks the email address of a user as unverified and sends a new
+   * verification email. Until it is verified the user can only use the
+   * endpoints that do not require a verified account.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - username of the user
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async requestVerification(
+    username: string
+  ): Promise<ApiResponse> {
+    try {
+      const user = await this.repository.get(username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+
+      await this.repository.update(username, { Verified: 'false' });
+      await this.sendVerificationEmail(username, user.Email);
+      return {
+        status: 200,
+        response: { message: 'verification email sent' },
+      };
+    } catch (err) {
+      console.error('Error requesting the verification:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Authenticates the user with the username and password and starts a
+   * session. Returns the user JWT object and the api response
    *
    * @public
    * @static
    * @async
    * @param {string} username
    * @param {string} password
+   * @param {string} [userAgent=''] - user agent kept with the session
    * @returns {unknown}
    */
-  public static async verifyUser(username: string, password: string) {
+  public static async verifyUser(
+    username: string,
+    password: string,
+    userAgent: string = ''
+  ) {
     const user = await this.getUser(username);
     if (user == null) {
       return {
@@ -531,23 +769,101 @@ export class UserManagment {
       };
     }
 
-    // Delete the sensitive information from the user object before
-    // turning it into a JWT
-    delete user.Password;
-    delete user.Liked;
-    delete user.VerificationCode;
+    // Only tell who signed in why they are refused
+    const suspension = await this.getActiveSuspension(user);
+    if (suspension) {
+      return this.getSuspendedResponse(suspension);
+    }
 
-    // Create the JWT and return it
-    const token = this.getAccessJWT(user);
-    const refresh = this.getRefreshJWT(user);
-    return {
-      status: 200,
-      response: {
-        accessToken: token,
-        refreshToken: refresh,
-        user: this.decodeJWT(token),
-      },
-    };
+    // The password is not enough, the code is sent to user/sign-in/2fa
+    if (TwoFactor.isEnabled(user)) {
+      try {
+        return {
+          status: 200,
+          response: {
+            message: 'two-factor code required',
+            challenge: await TwoFactor.createChallenge(user.Username),
+          },
+        };
+      } catch (err) {
+        console.error('Error creating the two-factor challenge:', err);
+        return { status: 500, response: { message: 'server error' } };
+      }
+    }
+
+    return this.startSession(user, userAgent);
+  }
+
+  /**
+   * Completes signing in with the challenge from verifyUser and a code of
+   * the authenticator app or a recovery code. Returns the same response as
+   * verifyUser.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} challenge - challenge returned by verifyUser
+   * @param {string} code - two-factor code
+   * @param {string} [userAgent=''] - user agent kept with the session
+   * @returns {unknown}
+   */
+  public static async verifyTwoFactor(
+    challenge: string,
+    code: string,
+    userAgent: string = ''
+  ) {
+    try {
+      const user = await TwoFactor.completeChallenge(challenge, code);
+      if (!user) {
+        return {
+          status: 401,
+          response: { message: 'invalid or expired code' },
+        };
+      }
+
+      const suspension = await this.getActiveSuspension(user);
+      if (suspension) {
+        return this.getSuspendedResponse(suspension);
+      }
+      return await this.startSession(user, userAgent);
+    } catch (err) {
+      console.error('Error checking the two-factor code:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Starts a session for a user who signed in and returns the tokens.
+   * twoFactorSetup tells users that a role requires two-factor
+   * authentication they did not enable yet.
+   *
+   * @private
+   * @static
+   * @async
+   * @param {UserObject} user - user object
+   * @param {string} userAgent - user agent kept with the session
+   * @returns {unknown}
+   */
+  private static async startSession(user: any, userAgent: string) {
+    try {
+      // Create the JWT without the sensitive information and return it
+      const claims = this.getClaims(user);
+      const token = this.getAccessJWT(claims);
+      const session = await Sessions.create(user.Username, userAgent);
+      const refresh = this.getRefreshJWT(claims, session.id, session.rotation);
+      return {
+        status: 200,
+        response: {
+          accessToken: token,
+          refreshToken: refresh,
+          user: this.decodeJWT(token),
+          twoFactorSetup: await TwoFactor.isMissing(user),
+        },
+      };
+    } catch (err) {
+      console.error('Error starting the session:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
   }
 
   /**
@@ -559,12 +875,15 @@ export class UserManagment {
    * @param {string} username - The username of the user.
    * @param {string} oldPassword - The current password of the user.
    * @param {string} newPassword - The new password to be set.
+   * @param {string} [session] - id of the session that keeps running, the
+   * other sessions end
    * @returns {unknown} - API response indicating success or failure.
    */
   public static async changePassword(
     username: string,
     oldPassword: string,
-    newPassword: string
+    newPassword: string,
+    session?: string
   ) {
     // Fetch the user object
     const user = await this.getUser(username);
@@ -584,14 +903,10 @@ export class UserManagment {
       };
     }
 
-    // Validate the new password length
-    if (newPassword.length < 8) {
-      return {
-        status: 400,
-        response: {
-          message: 'New password must be at least 8 characters long.',
-        },
-      };
+    // Validate the new password
+    const refused = await PasswordPolicy.validate(newPassword, username);
+    if (refused) {
+      return refused;
     }
 
     // Hash the new password
@@ -618,6 +933,9 @@ export class UserManagment {
       return timestampUpdateResponse;
     }
 
+    // A stolen refresh token must not outlive the old password
+    await Sessions.endAllSessions(username, session);
+
     return {
       status: 200,
       response: { message: 'Password changed successfully.' },
@@ -668,18 +986,18 @@ export class UserManagment {
       /images\/([a-f0-9-]+)\.(?:png|jpg|jpeg|gif)$/
     );
     if (oldImageId) {
-      await S3.removeImageFromS3(oldImageId[1]);
+      await Storage.removeImage(oldImageId[1]);
     }
 
     // Create the url for the new picture
     const imageId = uuidv4();
-    user.ProfilePic = `${process.env.AWS_S3_LINK}/images/${imageId}.png`;
+    user.ProfilePic = Storage.getPublicUrl(`images/${imageId}.png`);
 
-    // Save the picture in the S3 in 350x350 format
+    // Save the picture in the storage in 350x350 format
     try {
-      const response = await S3.saveImage(imageId, file, 350, 350);
+      const response = await Storage.saveImage(imageId, file, 350, 350);
       if (!response) {
-        throw new Error('S3 error');
+        throw new Error('storage error');
       }
     } catch (err) {
       console.log('Error: ', err);
@@ -690,56 +1008,18 @@ export class UserManagment {
     }
 
     // Update the profile picture link on all of the user's articles
-    if (user.Admin || user.CanPost) {
-      // A function to get all of the user's articles from a table
-      const queryArticles = async (tableName: string) => {
-        const articleReq = await client.send(
-          new QueryCommand({
-            TableName: tableName,
-            IndexName: 'AuthorDifficulty',
-            KeyConditionExpression: 'Author = :username',
-            ExpressionAttributeValues: {
-              ':username': { S: user.Username },
-            },
-            ProjectionExpression: 'ID',
-          })
-        );
-        return articleReq.Items || [];
-      };
-
-      // A function to update all the user articles from a table
-      const updateArticles = async (tableName: string, articles: any) => {
-        return Promise.all(
-          articles.map(async (item: any) => {
-            const id = item.ID?.S;
-            if (id) {
-              await client.send(
-                new UpdateItemCommand({
-                  TableName: tableName,
-                  Key: { ID: { S: id } },
-                  UpdateExpression: 'SET AuthorProfilePic = :newLink',
-                  ExpressionAttributeValues: {
-                    ':newLink': { S: user.ProfilePic },
-                  },
-                })
-              );
-            }
-          })
-        );
-      };
-
-      // Get user's articles
-      const [privateArticles, publicArticles] = await Promise.all([
-        queryArticles('ArticlesUnpublished'),
-        queryArticles('ArticlesPublished'),
-      ]);
-
-      // Update user's articles
-      await Promise.all([
-        updateArticles('ArticlesUnpublished', privateArticles),
-        updateArticles('ArticlesPublished', publicArticles),
-      ]);
-    }
+    await Promise.all([
+      Articles.updateAuthorProfilePic(
+        'ArticlesUnpublished',
+        user.Username,
+        user.ProfilePic
+      ),
+      Articles.updateAuthorProfilePic(
+        'ArticlesPublished',
+        user.Username,
+        user.ProfilePic
+      ),
+    ]);
 
     // Update the user's profile picture link
     const result = await UserManagment.updateUser(
@@ -750,13 +1030,11 @@ export class UserManagment {
     // Modify the response from the updateUser function by adding in the new JWT
     // Token and return it
     const resultWithToken: any = result;
-    delete user.Password;
-    delete user.Liked;
-    delete user.VerificationCode;
+    const claims = UserManagment.getClaims(user);
 
     resultWithToken.response.verificationToken =
-      UserManagment.getAccessJWT(user);
-    resultWithToken.response.user = user;
+      UserManagment.getAccessJWT(claims);
+    resultWithToken.response.user = claims;
     return resultWithToken;
   }
 
@@ -916,7 +1194,7 @@ export class UserManagment {
 
       user.LastPasswordChange = currentTime;
 
-      const verificationToken = this.getAccessJWT(user);
+      const verificationToken = this.getAccessJWT(this.getClaims(user));
       return {
         status: 200,
         response: {
@@ -972,7 +1250,7 @@ export class UserManagment {
       username: username,
       value: resetTokenValue,
       type: 'password_reset',
-      expiration: currentTime + 6 * 3600,
+      expiration: currentTime + this.PASSWORD_RESET_DURATION,
     };
 
     // Store the token using the Tokens class
@@ -985,7 +1263,7 @@ export class UserManagment {
 
     user.LastPasswordChange = currentTime;
 
-    const verificationToken = this.getAccessJWT(user);
+    const verificationToken = this.getAccessJWT(this.getClaims(user));
 
     return {
       status: 200,
@@ -997,96 +1275,136 @@ export class UserManagment {
     };
   }
 
-  public static async resetPassword(verificationCode: string) {
+  /**
+   * Checks a password reset code before the user chooses the new password
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} code - code of the password reset email
+   * @returns {Promise<ApiResponse>} - api response with the username
+   */
+  public static async checkPasswordReset(code: string) {
     try {
-      // Retrieve the token using the Tokens class
-      const token = await Tokens.getToken(verificationCode);
-
-      if (token && token.type === 'password_reset') {
-        const currentTimestamp = Helper.getUNIXTimestamp();
-
-        // Check if the token has expired
-        if (token.expiration < currentTimestamp) {
-          // Token has expired, delete it
-          await Tokens.deleteToken(verificationCode);
-          return {
-            status: 410,
-            response: {
-              message:
-                'Verification code has expired. Please request a new password reset.',
-            },
-          };
-        }
-
-        const username = token.username;
+      const token = await this.getPasswordResetToken(code);
+      if (!token) {
+        return {
+          status: 404,
+          response: { message: 'invalid or expired reset link' },
+        };
+      }
+      return { status: 200, response: { username: token.username } };
+    } catch (err) {
+      console.error('Error in checkPasswordReset:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
 
-        // Get the user associated with the token
-        const user = await this.getUser(username);
+  /**
+   * Sets the password chosen by the user with a password reset code. The
+   * code works once, and the sessions of the user and the other reset
+   * codes end with it.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} code - code of the password reset email
+   * @param {string} newPassword - password chosen by the user
+   * @returns {Promise<ApiResponse>} - api response
+   */
+  public static async resetPassword(code: string, newPassword: string) {
+    try {
+      const token = await this.getPasswordResetToken(code);
+      if (!token) {
+        return {
+          status: 404,
+          response: { message: 'invalid or expired reset link' },
+        };
+      }
 
-        if (user) {
-          // Generate a new password: username + 8 random characters
-          const newPassword = username + this.randomBytesHex(8);
-
-          // Hash the new password
-          const hashedPassword = await this.genPassHash(newPassword);
-
-          // Update the user's password
-          const updateRes = await this.updateUser(
-            username,
-            'Password',
-            hashedPassword
-          );
-
-          if (updateRes.status === 200) {
-            // Delete the token after successful password reset
-            await Tokens.deleteToken(verificationCode);
-
-            // Send email to user with the new password
-            const emailSent = await Email.sendNewPasswordEmail(
-              user.Email,
-              username,
-              newPassword
-            );
-            if (!emailSent) {
-              console.warn(
-                `Failed to send new password email to ${user.Email}`
-              );
-            }
+      const refused = await PasswordPolicy.validate(
+        newPassword,
+        token.username
+      );
+      if (refused) {
+        return refused;
+      }
 
-            return {
-              status: 200,
-              response: {
-                message:
-                  'Password reset successful. Please check your email for the new password.',
-              },
-            };
-          } else {
-            throw new Error('Unable to update user password.');
-          }
-        } else {
-          return {
-            status: 404,
-            response: { message: 'User not found.' },
-          };
-        }
-      } else {
+      // Deleting the code first lets only one request use it
+      try {
+        await Tokens.deleteToken(code);
+      } catch {
         return {
           status: 404,
-          response: { message: 'Invalid or expired verification code.' },
+          response: { message: 'invalid or expired reset link' },
         };
       }
-    } catch (err) {
-      console.error('Error in resetPassword:', err);
+
+      const user = await this.getUser(token.username);
+      if (!user) {
+        return { status: 404, response: { message: 'user not found' } };
+      }
+
+      const updateRes = await this.updateUser(
+        user.Username,
+        'Password',
+        await this.genPassHash(newPassword)
+      );
+      if (updateRes.status !== 200) {
+        throw new Error('Unable to update user password.');
+      }
+      await this.updateUser(
+        user.Username,
+        'LastPasswordChange',
+        Helper.getUNIXTimestamp()
+      );
+
+      await Tokens.deleteUserTokens(user.Username, 'password_reset');
+      await Sessions.endAllSessions(user.Username);
+
+      if (!(await Email.sendPasswordChangedEmail(user.Email, user.Username))) {
+        console.warn(`Failed to send password changed email to ${user.Email}`);
+      }
+
       return {
-        status: 500,
-        response: { message: 'Server error. Please try again later.' },
+        status: 200,
+        response: { message: 'password reset successful' },
       };
+    } catch (err) {
+      console.error('Error in resetPassword:', err);
+      return { status: 500, response: { message: 'server error' } };
+    }
+  }
+
+  /**
+   * Returns the password reset token of a code, or null if it is unknown
+   * or expired
+   *
+   * @private
+   * @static
+   * @async
+   * @param {string} code - code of the password reset email
+   * @returns {Promise<Token | null>}
+   */
+  private static async getPasswordResetToken(code: string) {
+    if (typeof code != 'string' || code == '') {
+      return null;
+    }
+
+    const token = await Tokens.getToken(code);
+    if (!token || token.type !== 'password_reset') {
+      return null;
     }
+    if (token.expiration < Helper.getUNIXTimestamp()) {
+      await Tokens.deleteToken(code);
+      return null;
+    }
+    return token;
   }
 
   /**
-   * Deletes a user account by first authenticating the user,
-   * then removing all their articles, and finally deleting the user from the database.
+   * Deletes a user account after checking the password of the user, see
+   * removeUserAccount
    *
    * @public
    * @static
@@ -1100,7 +1418,7 @@ export class UserManagment {
     password: string
   ): Promise<ApiResponse> {
     try {
-      // Step 1: Authenticate the user
+      // Authenticate the user
       const user = await this.getUser(username);
       if (!user) {
         return {
@@ -1118,11 +1436,44 @@ export class UserManagment {
         };
       }
 
-      // Step 2: Remove all user content
+      return await this.removeUserAccount(username);
+    } catch (error: any) {
+      console.error('Error deleting user account:', error);
+      return {
+        status: 500,
+        response: { message: 'Server error while deleting user account.' },
+      };
+    }
+  }
+
+  /**
+   * Deletes a user account by removing all of its articles, comments, likes,
+   * step progress and tokens, and finally the user from the database. The
+   * caller has to make sure the account may be deleted.
+   *
+   * @public
+   * @static
+   * @async
+   * @param {string} username - The username of the account to delete.
+   * @returns {Promise<ApiResponse>} - API response indicating success or failure.
+   */
+  public static async removeUserAccount(
+    username: string
+  ): Promise<ApiResponse> {
+    try {
+      const user = await this.getUser(username);
+      if (!user) {
+        return {
+          status: 404,
+          response: { message: 'user not found.' },
+        };
+      }
+
+      // Step 1: Remove all user content
       const id = user.ProfilePic.match(/images\/([^\/]+)\./)[1];
 
       if (id != 'pfp') {
-        const removeProfilePicRes = await S3.removeImageFromS3(id);
+        const removeProfilePicRes = await Storage.removeImage(id);
 
         if (!removeProfilePicRes) {
           return {
@@ -1149,7 +1500,28 @@ export class UserManagment {
         return removeArticlesResponse;
       }
 
-      // Step 3: Delete the user account from the database
+      if (!(await Comments.removeUserComments(username))) {
+        return {
+          status: 500,
+          response: { message: 'server error' },
+        };
+      }
+
+      if (!(await Likes.removeUserLikes(username))) {
+        return {
+          status: 500,
+          response: { message: 'server error' },
+        };
+      }
+
+      if (!(await Steps.removeUserProgress(username))) {
+        return {
+          status: 500,
+          response: { message: 'server error' },
+        };
+      }
+
+      // Step 2: Delete the user account from the database
       const deleteUserResponse = await this.deleteUser(username);
 
       // Optionally, you can add additional steps here, such as logging the deletion or sending a confirmation email.
@@ -1165,6 +1537,16 @@ export class UserManagment {
     }
   }
 
+  /**
+   * Middleware that lets through signed in users. The token is trusted for
+   * the claims, but the account is read on every request so a suspension or
+   * a deletion takes effect right away. The account is kept in req.account.
+   *
+   * @public
+   * @static
+   * @param {boolean} [requireVerified=true] - refuse unverified accounts
+   * @returns {*} - express middleware
+   */
   public static authenticateToken(requireVerified: boolean = true) {
     return (req: any, res: any, next: any) => {
       const token = req.cookies.token;
@@ -1178,7 +1560,7 @@ export class UserManagment {
       jwt.verify(
         token,
         process.env.JWT_KEY || 'default',
-        (err: any, user: any) => {
+        async (err: any, user: any) => {
           if (err) {
             if (err.name === 'TokenExpiredError') {
               return res.status(401).send({
@@ -1199,6 +1581,28 @@ export class UserManagment {
             });
           }
 
+          try {
+            const account = await this.repository.get(user.Username);
+            if (!account) {
+              return res.status(403).send({
+                status: 403,
+                response: { message: 'invalid token' },
+              });
+            }
+
+            const suspension = await this.getActiveSuspension(account);
+            if (suspension) {
+              const result = this.getSuspendedResponse(suspension);
+              return res.status(result.status).send(result);
+            }
+            req.account = account;
+          } catch (err) {
+            console.error('Error reading the account:', err);
+            return res
+              .status(500)
+              .send({ status: 500, response: { message: 'server error' } });
+          }
+
           req.user = user;
           next();
         }
@@ -1206,6 +1610,16 @@ export class UserManagment {
     };
   }
 
+  /**
+   * Middleware that reads the token if there is one. Suspended and deleted
+   * accounts are treated as signed out.
+   *
+   * @public
+   * @static
+   * @param {*} req
+   * @param {*} res
+   * @param {*} next
+   */
   public static authTokenOptional(req: any, res: any, next: any) {
     const token = req.cookies.token;
     if (token == null) {
@@ -1217,7 +1631,7 @@ export class UserManagment {
     jwt.verify(
       token,
       process.env.JWT_KEY || 'default',
-      (err: any, user: any) => {
+      async (err: any, user: any) => {
         if (err) {
           if (err.name === 'TokenExpiredError') {
             return res.status(401).send({
@@ -1230,9 +1644,57 @@ export class UserManagment {
             response: { message: 'invalid token' },
           });
         }
+
+        // Passed to the routes unbound, this is not the class here
+        try {
+          const account = await UserManagment.repository.get(user.Username);
+          if (!account || (await UserManagment.getActiveSuspension(account))) {
+            req.user = {};
+            next();
+            return;
+          }
+          req.account = account;
+        } catch (err) {
+          console.error('Error reading the account:', err);
+          return res
+            .status(500)
+            .send({ status: 500, response: { message: 'server error' } });
+        }
+
         req.user = user;
         next();
       }
     );
   }
+
+  /**
+   * Middleware that lets through only signed in users with a permission.
+   * The roles are checked on the account authenticateToken read, a revoked
+   * role must not keep working until the token expires.
+   *
+   * @public
+   * @static
+   * @param {Permission} permission - required permission
+   * @returns {*[]} - express middleware
+   */
+  public static requirePermission(permission: Permission) {
+    const checkPermission = async (req: any, res: any, next: any) => {
+      try {
+        const message = await this.getPermissionError(req.account, permission);
+        if (message) {
+          return res.status(403).send({ status: 403, response: { message } });
+        }
+      } catch (err) {
+        console.error('Error checking the two-factor settings:', err);
+        return res
+          .status(500)
+          .send({ status: 500, response: { message: 'server error' } });
+      }
+
+      req.user.Roles = Roles.getRoles(req.account);
+      next();
+    };
+
+    return [this.authenticateToken(), checkPermission];
+  }
 }
@@ -0,0 +1,51 @@
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { client } from '../services/dynamodb';
+import { ScanCommand } from '@aws-sdk/client-dynamodb';
+import { Articles } from '../services/articles';
+
+// Finds the articles left in both tables or without their markdown by a
+// failed publish or hide, and fixes them. With --dry-run the problems are
+// only listed.
+const dryRun = process.argv.includes('--dry-run');
+
+const scanIds = async (tableName: string) => {
+  const ids: string[] = [];
+  let ExclusiveStartKey: any = undefined;
+  do {
+    const data = await client.send(
+      new ScanCommand({
+        TableName: tableName,
+        ProjectionExpression: 'ID',
+        ExclusiveStartKey,
+      })
+    );
+    ids.push(...(data.Items || []).map((item) => unmarshall(item).ID));
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+  return ids;
+};
+
+const repair = async () => {
+  const ids = new Set([
+    ...(await scanIds('ArticlesPublished')),
+    ...(await scanIds('ArticlesUnpublished')),
+  ]);
+
+  let count = 0;
+  for (const id of ids) {
+    const report = await Articles.repairArticle(id, dryRun);
+    if (report.problems.length == 0) {
+      continue;
+    }
+    count += 1;
+    console.log(`${id}:\n  ${report.problems.join('\n  ')}`);
+  }
+
+  console.log(
+    `Checked ${ids.size} articles, ${count} ${
+      dryRun ? 'need repairs' : 'repaired'
+    }.`
+  );
+};
+
+repair();
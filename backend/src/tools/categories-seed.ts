@@ -0,0 +1,41 @@
+import { Category } from '../repositories/categoryRepository';
+import { DynamoCategoryRepository } from '../repositories/dynamoCategoryRepository';
+
+// The categories the site started with. Existing categories are left as they
+// are, so running the seed again does not undo changes made by the admins.
+const DEFAULT_CATEGORIES: Category[] = [
+  ['programming', 'Programming', 'code'],
+  ['3d-modeling', '3D Modeling', 'package'],
+  ['electronics', 'Electronics', 'plug'],
+  ['business', 'Business', 'repo'],
+  ['woodworking', 'Woodworking', 'screen-full'],
+  ['chemistry', 'Chemistry', 'beaker'],
+  ['cybersecurity', 'Cybersecurity', 'unlock'],
+  ['physics', 'Physics', 'book'],
+].map(([Slug, Name, Icon], index) => ({
+  Slug,
+  Name,
+  Description: '',
+  Icon,
+  HeroImage: null,
+  SortOrder: index,
+  Active: true,
+}));
+
+const seed = async () => {
+  const repository = new DynamoCategoryRepository();
+  let count = 0;
+
+  for (const category of DEFAULT_CATEGORIES) {
+    if (await repository.create(category)) {
+      console.log(`Added category: ${category.Slug}`);
+      count++;
+    } else {
+      console.log(`Skipping ${category.Slug}: already exists`);
+    }
+  }
+
+  console.log(`Added ${count} categories.`);
+};
+
+seed();
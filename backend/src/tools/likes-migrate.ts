@@ -0,0 +1,141 @@
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { client } from '../services/dynamodb';
+import {
+  ScanCommand,
+  QueryCommand,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { Helper } from '../services/helper';
+
+// Moves the Liked arrays of the user items into the Likes table
+const migrateUsers = async () => {
+  let ExclusiveStartKey: any = undefined;
+  let count = 0;
+  do {
+    const data = await client.send(
+      new ScanCommand({
+        TableName: 'Users',
+        ProjectionExpression: 'Username, Liked',
+        FilterExpression: 'attribute_exists(Liked)',
+        ExclusiveStartKey,
+      })
+    );
+
+    for (const item of data.Items || []) {
+      const user = unmarshall(item);
+      const liked: string[] = [...new Set<string>(user.Liked || [])];
+
+      for (const articleId of liked) {
+        // Likes of articles that are no longer published were already lost
+        const article = await client.send(
+          new GetItemCommand({
+            TableName: 'ArticlesPublished',
+            Key: marshall({ ID: articleId }),
+            ProjectionExpression: 'ID',
+          })
+        );
+        if (!article.Item) {
+          console.log(
+            `Skipping ${user.Username} -> ${articleId}: not published`
+          );
+          continue;
+        }
+
+        try {
+          await client.send(
+            new PutItemCommand({
+              TableName: 'Likes',
+              Item: marshall({
+                Username: user.Username,
+                ArticleID: articleId,
+                LikedAt: Helper.getUNIXTimestamp(),
+              }),
+              ConditionExpression: 'attribute_not_exists(ArticleID)',
+            })
+          );
+          count += 1;
+        } catch (err: any) {
+          if (err.name !== 'ConditionalCheckFailedException') {
+            throw err;
+          }
+        }
+      }
+
+      await client.send(
+        new UpdateItemCommand({
+          TableName: 'Users',
+          Key: marshall({ Username: user.Username }),
+          UpdateExpression: 'remove Liked',
+        })
+      );
+      console.log(`Migrated: ${user.Username}`);
+    }
+
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+
+  console.log(`Migrated ${count} likes.`);
+};
+
+// Sets the rating of every published article to the number of its likes
+const recountRatings = async () => {
+  let ExclusiveStartKey: any = undefined;
+  let count = 0;
+  do {
+    const data = await client.send(
+      new ScanCommand({
+        TableName: 'ArticlesPublished',
+        ProjectionExpression: 'ID, Rating',
+        ExclusiveStartKey,
+      })
+    );
+
+    for (const item of data.Items || []) {
+      const article = unmarshall(item);
+
+      let likes = 0;
+      let LikesStartKey: any = undefined;
+      do {
+        const likesData = await client.send(
+          new QueryCommand({
+            TableName: 'Likes',
+            IndexName: 'ArticleLiked',
+            KeyConditionExpression: 'ArticleID = :id',
+            ExpressionAttributeValues: { ':id': { S: article.ID } },
+            Select: 'COUNT',
+            ExclusiveStartKey: LikesStartKey,
+          })
+        );
+        likes += likesData.Count || 0;
+        LikesStartKey = likesData.LastEvaluatedKey;
+      } while (LikesStartKey);
+
+      if (article.Rating !== likes) {
+        await client.send(
+          new UpdateItemCommand({
+            TableName: 'ArticlesPublished',
+            Key: marshall({ ID: article.ID }),
+            UpdateExpression: 'set Rating = :rating',
+            ConditionExpression: 'attribute_exists(ID)',
+            ExpressionAttributeValues: marshall({ ':rating': likes }),
+          })
+        );
+        count += 1;
+        console.log(`Rating of ${article.ID}: ${article.Rating} -> ${likes}`);
+      }
+    }
+
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+
+  console.log(`Corrected ${count} ratings.`);
+};
+
+const migrate = async () => {
+  await migrateUsers();
+  await recountRatings();
+};
+
+migrate();
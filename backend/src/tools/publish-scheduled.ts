@@ -0,0 +1,25 @@
+import { handler } from '../scheduler';
+
+// Runs the scheduler once, or every minute with --watch, for local
+// development where serverless offline does not run schedule events
+const INTERVAL = 60 * 1000;
+const watch = process.argv.includes('--watch');
+
+const run = async () => {
+  try {
+    const report = await handler();
+    console.log(
+      `${new Date().toISOString()}: published ${
+        report.published.length
+      }, failed ${report.failed.length}`
+    );
+  } catch (err) {
+    console.error('Error publishing the scheduled articles:', err);
+  }
+
+  if (watch) {
+    setTimeout(run, INTERVAL);
+  }
+};
+
+run();
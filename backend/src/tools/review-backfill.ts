@@ -0,0 +1,45 @@
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { client } from '../services/dynamodb';
+import { ScanCommand } from '@aws-sdk/client-dynamodb';
+import { Reviews } from '../services/reviews';
+
+// Opens a review round for the articles that were submitted before the
+// review workflow existed
+const backfill = async () => {
+  let ExclusiveStartKey: any = undefined;
+  let count = 0;
+  do {
+    const data = await client.send(
+      new ScanCommand({
+        TableName: 'ArticlesUnpublished',
+        FilterExpression: '#status = :review',
+        ExpressionAttributeNames: { '#status': 'Status' },
+        ExpressionAttributeValues: { ':review': { S: 'review' } },
+        ExclusiveStartKey,
+      })
+    );
+
+    for (const item of data.Items || []) {
+      const metadata = unmarshall(item);
+      const result = await Reviews.submitArticle(
+        metadata.ID,
+        metadata.Author,
+        metadata.Title,
+        null
+      );
+
+      if (result.status == 200) {
+        count += 1;
+        console.log(`Queued: ${metadata.Title}`);
+      } else {
+        console.log(`Skipping ${metadata.ID}: ${result.response.message}`);
+      }
+    }
+
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+
+  console.log(`Queued ${count} articles for review.`);
+};
+
+backfill();
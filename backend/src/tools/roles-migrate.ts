@@ -0,0 +1,45 @@
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { client } from '../services/dynamodb';
+import { ScanCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { Roles } from '../services/roles';
+
+// Replaces the Admin and CanPost flags of the user items with a list of roles
+const migrate = async () => {
+  let ExclusiveStartKey: any = undefined;
+  let count = 0;
+  do {
+    const data = await client.send(
+      new ScanCommand({
+        TableName: 'Users',
+        ProjectionExpression: 'Username, Admin, CanPost, #r',
+        ExpressionAttributeNames: { '#r': 'Roles' },
+        FilterExpression:
+          'attribute_exists(Admin) OR attribute_exists(CanPost)',
+        ExclusiveStartKey,
+      })
+    );
+
+    for (const item of data.Items || []) {
+      const user = unmarshall(item);
+      const roles = Roles.getRoles(user);
+
+      await client.send(
+        new UpdateItemCommand({
+          TableName: 'Users',
+          Key: marshall({ Username: user.Username }),
+          UpdateExpression: 'set #r = :roles remove Admin, CanPost',
+          ExpressionAttributeNames: { '#r': 'Roles' },
+          ExpressionAttributeValues: marshall({ ':roles': roles }),
+        })
+      );
+      console.log(`Migrated: ${user.Username} -> ${roles.join(', ')}`);
+      count += 1;
+    }
+
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+
+  console.log(`Migrated ${count} users.`);
+};
+
+migrate();
@@ -0,0 +1,43 @@
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { client } from '../services/dynamodb';
+import { ScanCommand } from '@aws-sdk/client-dynamodb';
+import { Storage } from '../services/storage';
+import { Search } from '../services/search';
+
+// Rebuilds the search index from the published articles
+const reindex = async () => {
+  let ExclusiveStartKey: any = undefined;
+  let count = 0;
+  do {
+    const data = await client.send(
+      new ScanCommand({ TableName: 'ArticlesPublished', ExclusiveStartKey })
+    );
+
+    for (const item of data.Items || []) {
+      const metadata = unmarshall(item);
+      if (metadata.AuthorSuspended === true) {
+        console.log(`Skipping ${metadata.ID}: author suspended`);
+        continue;
+      }
+      const article = await Storage.readArticle(
+        'ArticlesPublished',
+        metadata.ID
+      );
+      if (!article) {
+        console.log(`Skipping ${metadata.ID}: markdown not found`);
+        continue;
+      }
+
+      if (await Search.indexArticle(metadata, article.body)) {
+        count += 1;
+        console.log(`Indexed: ${metadata.Title}`);
+      }
+    }
+
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+
+  console.log(`Indexed ${count} articles.`);
+};
+
+reindex();
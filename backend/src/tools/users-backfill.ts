@@ -0,0 +1,47 @@
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { client } from '../services/dynamodb';
+import { ScanCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { USER_DIRECTORY } from '../repositories/userRepository';
+
+// Adds the Directory attribute to the users created before the admin user
+// list, the AccountCreatedIndex only has the users that have it
+const backfill = async () => {
+  let ExclusiveStartKey: any = undefined;
+  let count = 0;
+  do {
+    const data = await client.send(
+      new ScanCommand({
+        TableName: 'Users',
+        ProjectionExpression: 'Username, AccountCreated',
+        FilterExpression: 'attribute_not_exists(Directory)',
+        ExclusiveStartKey,
+      })
+    );
+
+    for (const item of data.Items || []) {
+      const user = unmarshall(item);
+
+      // The index needs a sort key too
+      await client.send(
+        new UpdateItemCommand({
+          TableName: 'Users',
+          Key: marshall({ Username: user.Username }),
+          UpdateExpression:
+            'set Directory = :directory, AccountCreated = if_not_exists(AccountCreated, :zero)',
+          ExpressionAttributeValues: marshall({
+            ':directory': USER_DIRECTORY,
+            ':zero': 0,
+          }),
+        })
+      );
+      console.log(`Listed: ${user.Username}`);
+      count += 1;
+    }
+
+    ExclusiveStartKey = data.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+
+  console.log(`Listed ${count} users.`);
+};
+
+backfill();
@@ -0,0 +1,243 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Email } from '../src/services/Email';
+import { Helper } from '../src/services/helper';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('/admin', () => {
+  let store: Store;
+  let alice: any;
+  let admin: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice', { AccountCreated: 200 });
+    admin = await addUser(store, 'admin', {
+      Roles: ['admin'],
+      AccountCreated: 100,
+    });
+  });
+
+  // Returns the actions in the audit trail of a user, newest first
+  const auditActions = async (username: string) => {
+    const response = await request(app)
+      .get(`/admin/users/${username}/audit`)
+      .set('Cookie', authCookie(admin));
+    return response.body.response.return.map((entry: any) => entry.Action);
+  };
+
+  it('only lets users with the user.manage permission in', async () => {
+    const response = await request(app)
+      .get('/admin/users')
+      .set('Cookie', authCookie(alice));
+
+    expect(response.status).toBe(403);
+  });
+
+  describe('GET /users', () => {
+    it('lists the users newest first without their passwords', async () => {
+      const response = await request(app)
+        .get('/admin/users')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.total).toBe(2);
+      expect(response.body.response.return).toEqual([
+        expect.objectContaining({ Username: 'alice', Suspension: null }),
+        expect.objectContaining({ Username: 'admin', Roles: ['admin'] }),
+      ]);
+      expect(response.body.response.return[0].Password).toBeUndefined();
+    });
+
+    it('searches the usernames and the emails', async () => {
+      await addUser(store, 'bob', { Email: 'bob@alice.dev' });
+
+      const response = await request(app)
+        .get('/admin/users?search=alice')
+        .set('Cookie', authCookie(admin));
+
+      expect(
+        response.body.response.return.map((user: any) => user.Username)
+      ).toEqual(['alice', 'bob']);
+    });
+
+    it('continues from the cursor', async () => {
+      for (let i = 0; i < 25; i++) {
+        await store.users.put({
+          Username: `user${i}`,
+          Directory: 'users',
+          AccountCreated: 1000 + i,
+        });
+      }
+
+      const first = await request(app)
+        .get('/admin/users')
+        .set('Cookie', authCookie(admin));
+      const second = await request(app)
+        .get(`/admin/users?cursor=${first.body.response.cursor}`)
+        .set('Cookie', authCookie(admin));
+
+      expect(first.body.response.return).toHaveLength(25);
+      expect(first.body.response.hasMore).toBe(true);
+      expect(
+        second.body.response.return.map((user: any) => user.Username)
+      ).toEqual(['alice', 'admin']);
+      expect(second.body.response.hasMore).toBe(false);
+    });
+  });
+
+  describe('GET /users/:username', () => {
+    it('counts the articles of the user', async () => {
+      await store.articles.put(
+        'ArticlesPublished',
+        articleMetadata({ ID: 'published' })
+      );
+      await store.articles.put(
+        'ArticlesUnpublished',
+        articleMetadata({ ID: 'private' })
+      );
+
+      const response = await request(app)
+        .get('/admin/users/alice')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.body.response.return).toMatchObject({
+        Username: 'alice',
+        PublishedArticles: 1,
+        UnpublishedArticles: 1,
+      });
+    });
+  });
+
+  describe('POST /users/:username/can-post', () => {
+    it('revokes the author role', async () => {
+      const response = await request(app)
+        .post('/admin/users/alice/can-post')
+        .set('Cookie', authCookie(admin))
+        .send({ canPost: false });
+
+      expect(response.status).toBe(200);
+      expect((await store.users.get('alice'))!.Roles).toEqual(['reader']);
+      expect(await auditActions('alice')).toEqual(['user.canPost']);
+    });
+  });
+
+  describe('POST /users/:username/verification', () => {
+    it('sends a new verification email', async () => {
+      const response = await request(app)
+        .post('/admin/users/alice/verification')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.status).toBe(200);
+      expect((await store.users.get('alice'))!.Verified).toBe('false');
+      expect(Email.sendEmail).toHaveBeenCalledWith(
+        'alice@example.com',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(await auditActions('alice')).toEqual(['user.verification']);
+    });
+  });
+
+  describe('POST and DELETE /users/:username/suspension', () => {
+    it('suspends and reinstates an account', async () => {
+      const until = Helper.getUNIXTimestamp() + 3600;
+      const suspend = await request(app)
+        .post('/admin/users/alice/suspension')
+        .set('Cookie', authCookie(admin))
+        .send({ reason: 'spam', until });
+
+      expect(suspend.status).toBe(200);
+      expect((await store.users.get('alice'))!.Suspension).toMatchObject({
+        Reason: 'spam',
+        Until: until,
+        By: 'admin',
+      });
+
+      const reinstate = await request(app)
+        .delete('/admin/users/alice/suspension')
+        .set('Cookie', authCookie(admin));
+
+      expect(reinstate.status).toBe(200);
+      expect((await store.users.get('alice'))!.Suspension).toBeNull();
+      expect(await auditActions('alice')).toEqual([
+        'user.reinstate',
+        'user.suspend',
+      ]);
+    });
+
+    it('bans an account without an end', async () => {
+      await request(app)
+        .post('/admin/users/alice/suspension')
+        .set('Cookie', authCookie(admin))
+        .send({ reason: 'fraud' });
+
+      expect((await store.users.get('alice'))!.Suspension.Until).toBeNull();
+      expect(await auditActions('alice')).toEqual(['user.ban']);
+    });
+
+    it('rejects a missing reason, a past end and the own account', async () => {
+      const requests = [
+        { username: 'alice', body: { until: null } },
+        { username: 'alice', body: { reason: 'spam', until: 100 } },
+        { username: 'admin', body: { reason: 'spam' } },
+      ];
+
+      for (const { username, body } of requests) {
+        const response = await request(app)
+          .post(`/admin/users/${username}/suspension`)
+          .set('Cookie', authCookie(admin))
+          .send(body);
+        expect(response.status).toBe(400);
+      }
+      expect((await store.users.get('alice'))!.Suspension).toBeUndefined();
+    });
+  });
+
+  describe('DELETE /users/:username', () => {
+    it('deletes the account without its password and keeps the trail', async () => {
+      await store.articles.put(
+        'ArticlesPublished',
+        articleMetadata({ ID: 'published' })
+      );
+
+      const response = await request(app)
+        .delete('/admin/users/alice')
+        .set('Cookie', authCookie(admin))
+        .send({ reason: 'requested by email' });
+
+      expect(response.status).toBe(200);
+      expect(await store.users.get('alice')).toBeNull();
+      expect(
+        await store.articles.get('ArticlesPublished', 'published')
+      ).toBeNull();
+      expect(await auditActions('alice')).toEqual(['user.delete']);
+    });
+  });
+
+  it('records the role changes of /user/roles', async () => {
+    await request(app)
+      .post('/user/roles')
+      .set('Cookie', authCookie(admin))
+      .send({ username: 'alice', role: 'reviewer' });
+
+    const response = await request(app)
+      .get('/admin/users/alice/audit')
+      .set('Cookie', authCookie(admin));
+
+    expect(response.body.response.return).toEqual([
+      expect.objectContaining({
+        Actor: 'admin',
+        Action: 'role.grant',
+        Details: { role: 'reviewer' },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { Articles } from '../src/services/articles';
+import { Storage } from '../src/services/storage';
+import { Store, articleMetadata, useMemoryStore } from './helpers';
+
+describe('moving articles between the tables', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = useMemoryStore();
+  });
+
+  const createArticle = async (tableName = 'ArticlesUnpublished') => {
+    const response = await Articles.createArticle(
+      tableName,
+      articleMetadata(),
+      '# Hello'
+    );
+    return response.response.id as string;
+  };
+
+  // Where the metadata and the markdown of an article are
+  const locate = async (id: string) => ({
+    published: (await store.articles.get('ArticlesPublished', id)) != null,
+    unpublished: (await store.articles.get('ArticlesUnpublished', id)) != null,
+    publishedFile: store.storage.files.has(`ArticlesPublished/${id}.md`),
+    unpublishedFile: store.storage.files.has(`ArticlesUnpublished/${id}.md`),
+  });
+
+  const unpublishedOnly = {
+    published: false,
+    unpublished: true,
+    publishedFile: false,
+    unpublishedFile: true,
+  };
+
+  it('moves the metadata and the markdown', async () => {
+    const id = await createArticle();
+
+    expect((await Articles.publishArticle(id)).status).toBe(200);
+
+    expect(await locate(id)).toEqual({
+      published: true,
+      unpublished: false,
+      publishedFile: true,
+      unpublishedFile: false,
+    });
+  });
+
+  it('keeps the suspension flag', async () => {
+    const id = await createArticle();
+    await store.articles.update('ArticlesUnpublished', id, {
+      AuthorSuspended: true,
+    });
+
+    await Articles.publishArticle(id);
+
+    const article = await store.articles.get('ArticlesPublished', id);
+    expect(article!.AuthorSuspended).toBe(true);
+    expect(
+      store.storage.files.get(`ArticlesPublished/${id}.md`)!.toString()
+    ).not.toContain('AuthorSuspended');
+  });
+
+  it('removes the new markdown when the transaction is refused', async () => {
+    const id = await createArticle();
+    jest.spyOn(store.articles, 'move').mockResolvedValue(false);
+
+    const response = await Articles.publishArticle(id);
+
+    expect(response.status).toBe(409);
+    expect(await locate(id)).toEqual(unpublishedOnly);
+  });
+
+  it('removes the new markdown when the transaction fails', async () => {
+    const id = await createArticle();
+    jest.spyOn(store.articles, 'move').mockRejectedValue(new Error('timeout'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await Articles.publishArticle(id);
+
+    expect(response.status).toBe(500);
+    expect(await locate(id)).toEqual(unpublishedOnly);
+  });
+
+  it('changes nothing when the markdown cannot be written', async () => {
+    const id = await createArticle();
+    jest.spyOn(Storage, 'addArticle').mockResolvedValue(false);
+
+    expect((await Articles.publishArticle(id)).status).toBe(500);
+    expect(await locate(id)).toEqual(unpublishedOnly);
+  });
+
+  it('does not add an article moved during an update back', async () => {
+    const id = await createArticle();
+    const stale = await Articles.getArticleMetadata(id, 'ArticlesUnpublished');
+    await Articles.publishArticle(id);
+    jest.spyOn(Articles, 'getArticleMetadata').mockResolvedValue(stale);
+
+    const response = await Articles.updateArticle(
+      'ArticlesUnpublished',
+      { ...articleMetadata({ Title: 'Changed' }), ID: id },
+      '# Changed'
+    );
+
+    expect(response.status).toBe(404);
+    expect(await store.articles.get('ArticlesUnpublished', id)).toBeNull();
+  });
+
+  describe('repair', () => {
+    it('keeps the published copy of an article in both tables', async () => {
+      const id = await createArticle();
+      const article = await store.articles.get('ArticlesUnpublished', id);
+      await store.articles.put('ArticlesPublished', { ...article, Rating: 0 });
+      await store.storage.putObject(`ArticlesPublished/${id}.md`, '# Hello');
+
+      const report = await Articles.repairArticle(id);
+
+      expect(report.problems).toHaveLength(2);
+      expect(await locate(id)).toEqual({
+        published: true,
+        unpublished: false,
+        publishedFile: true,
+        unpublishedFile: false,
+      });
+    });
+
+    it('restores markdown left under the other table', async () => {
+      const id = await createArticle();
+      const article = await store.articles.get('ArticlesUnpublished', id);
+      await store.articles.delete('ArticlesUnpublished', id);
+      await store.articles.put('ArticlesPublished', { ...article, Rating: 0 });
+
+      await Articles.repairArticle(id);
+
+      expect(await locate(id)).toEqual({
+        published: true,
+        unpublished: false,
+        publishedFile: true,
+        unpublishedFile: false,
+      });
+      expect(
+        (await Articles.getArticle(id, 'ArticlesPublished')).response.return
+          .body
+      ).toContain('# Hello');
+    });
+
+    it('reports lost markdown and changes nothing in a dry run', async () => {
+      const lost = await createArticle();
+      await store.storage.deleteObject(`ArticlesUnpublished/${lost}.md`);
+      const duplicate = await createArticle();
+      const article = await store.articles.get(
+        'ArticlesUnpublished',
+        duplicate
+      );
+      await store.articles.put('ArticlesPublished', article!);
+
+      expect((await Articles.repairArticle(lost)).problems).toEqual([
+        `markdown ArticlesUnpublished/${lost}.md is missing`,
+      ]);
+      expect((await Articles.repairArticle(duplicate, true)).problems).toEqual([
+        'in both tables, keeping the one in ArticlesUnpublished',
+      ]);
+      expect(
+        await store.articles.get('ArticlesPublished', duplicate)
+      ).not.toBeNull();
+    });
+  });
+});
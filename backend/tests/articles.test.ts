@@ -0,0 +1,390 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Articles } from '../src/services/articles';
+import { Reviews } from '../src/services/reviews';
+import { Revisions } from '../src/services/revisions';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('/articles', () => {
+  let store: Store;
+  let alice: any;
+  let bob: any;
+  let admin: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    bob = await addUser(store, 'bob');
+    admin = await addUser(store, 'admin', { Roles: ['admin'] });
+  });
+
+  // Creates an unpublished article of alice and returns its id
+  const createArticle = async (fields: any = {}, body = '# Hello') => {
+    const response = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata(fields), body });
+    expect(response.status).toBe(200);
+    return response.body.response.id as string;
+  };
+
+  // Creates an article of alice and publishes it as the admin
+  const publishArticle = async (fields: any = {}) => {
+    const id = await createArticle(fields);
+    const response = await request(app)
+      .post(`/articles/publish?id=${id}`)
+      .set('Cookie', authCookie(admin));
+    expect(response.status).toBe(200);
+    return id;
+  };
+
+  describe('POST /', () => {
+    it('stores the metadata and the body of a new article', async () => {
+      const id = await createArticle();
+
+      const stored = await store.articles.get('ArticlesUnpublished', id);
+      expect(stored).toMatchObject({
+        ID: id,
+        Title: 'Binary search',
+        Status: 'private',
+        Image: null,
+      });
+      expect(store.storage.files.has(`ArticlesUnpublished/${id}.md`)).toBe(
+        true
+      );
+    });
+
+    it('requires an authentication token', async () => {
+      const response = await request(app)
+        .post('/articles')
+        .send({ metadata: articleMetadata(), body: '' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.response.message).toBe(
+        'missing authentication token'
+      );
+    });
+
+    it('rejects an unknown category', async () => {
+      const response = await request(app)
+        .post('/articles')
+        .set('Cookie', authCookie(alice))
+        .send({
+          metadata: articleMetadata({ PrimaryCategory: 'cooking' }),
+          body: '',
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects users that cannot post', async () => {
+      const reader = await addUser(store, 'reader', { Roles: ['reader'] });
+
+      const response = await request(app)
+        .post('/articles')
+        .set('Cookie', authCookie(reader))
+        .send({ metadata: articleMetadata(), body: '' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('starts a review round when submitted for review', async () => {
+      const id = await createArticle({ Status: 'review' });
+
+      expect(Reviews.submitArticle).toHaveBeenCalledWith(
+        id,
+        'alice',
+        'Binary search',
+        1
+      );
+    });
+  });
+
+  describe('GET /get', () => {
+    it('returns the body with the metadata from the database', async () => {
+      const id = await createArticle({}, 'Some **markdown**');
+
+      const response = await request(app)
+        .get(`/articles/get?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.return.body.trim()).toBe(
+        'Some **markdown**'
+      );
+      expect(response.body.response.return.metadata.ID).toBe(id);
+    });
+
+    it('hides private articles from other users', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .get(`/articles/get?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(bob));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('returns 404 for a missing article', async () => {
+      const response = await request(app).get(
+        '/articles/get?id=00000000-0000-4000-8000-000000000000'
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /publish and /hide', () => {
+    it('moves the article between the tables', async () => {
+      const id = await publishArticle();
+
+      expect(await store.articles.get('ArticlesUnpublished', id)).toBeNull();
+      expect(await store.articles.get('ArticlesPublished', id)).toMatchObject({
+        ID: id,
+        Rating: 0,
+      });
+
+      const response = await request(app)
+        .post(`/articles/hide?id=${id}`)
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(200);
+      expect(await store.articles.get('ArticlesPublished', id)).toBeNull();
+      expect(
+        await store.articles.get('ArticlesUnpublished', id)
+      ).not.toBeNull();
+    });
+
+    it('only lets admins publish', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .post(`/articles/publish?id=${id}`)
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PUT / and PATCH /', () => {
+    it('replaces the content and keeps the server managed fields', async () => {
+      const id = await createArticle({ CreatedAt: 100 });
+
+      const response = await request(app)
+        .put('/articles?visibility=private')
+        .set('Cookie', authCookie(alice))
+        .send({
+          metadata: articleMetadata({
+            ID: id,
+            Title: 'Linear search',
+            CreatedAt: 5,
+          }),
+          body: 'new body',
+        });
+
+      expect(response.status).toBe(200);
+      const stored = await store.articles.get('ArticlesUnpublished', id);
+      expect(stored).toMatchObject({ Title: 'Linear search', CreatedAt: 100 });
+      expect(stored!.UpdatedAt).toEqual(expect.any(Number));
+    });
+
+    it('changes a single field', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .patch(`/articles?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(alice))
+        .send({ key: 'Title', value: 'Patched' });
+
+      expect(response.status).toBe(200);
+      expect((await store.articles.get('ArticlesUnpublished', id))!.Title).toBe(
+        'Patched'
+      );
+    });
+
+    it('does not let other users edit', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .patch(`/articles?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(bob))
+        .send({ key: 'Title', value: 'Patched' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('leaves the status to the review workflow', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .patch(`/articles?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(alice))
+        .send({ key: 'Status', value: 'review' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /delete', () => {
+    it('removes the article and its file', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .delete(`/articles/delete?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(200);
+      expect(await store.articles.get('ArticlesUnpublished', id)).toBeNull();
+      expect(store.storage.files.has(`ArticlesUnpublished/${id}.md`)).toBe(
+        false
+      );
+    });
+
+    it('removes the history with the article', async () => {
+      const revisions = jest
+        .spyOn(Revisions, 'removeRevisions')
+        .mockResolvedValue(true);
+      const reviews = jest
+        .spyOn(Reviews, 'removeReviews')
+        .mockResolvedValue(true);
+      const id = await createArticle();
+
+      await Articles.removeArticle('ArticlesUnpublished', id);
+
+      expect(revisions).toHaveBeenCalledWith(id);
+      expect(reviews).toHaveBeenCalledWith(id);
+    });
+
+    it('does not let other users delete', async () => {
+      const id = await createArticle();
+
+      const response = await request(app)
+        .delete(`/articles/delete?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(bob));
+
+      expect(response.status).toBe(403);
+      expect(
+        await store.articles.get('ArticlesUnpublished', id)
+      ).not.toBeNull();
+    });
+  });
+
+  describe('listings', () => {
+    it('pages through a category with cursors', async () => {
+      for (let i = 1; i <= 3; i++) {
+        await publishArticle({ Title: `Article ${i}`, CreatedAt: i });
+      }
+
+      const first = await request(app).get(
+        '/articles/programming?searchBy=date&limit=2&count=true'
+      );
+      expect(first.status).toBe(200);
+      expect(
+        first.body.response.return.map((article: any) => article.Title)
+      ).toEqual(['Article 3', 'Article 2']);
+      expect(first.body.response.hasMore).toBe(true);
+      expect(first.body.response.total).toBe(3);
+
+      const second = await request(app).get(
+        `/articles/programming?searchBy=date&limit=2&cursor=${first.body.response.cursor}`
+      );
+      expect(second.status).toBe(200);
+      expect(
+        second.body.response.return.map((article: any) => article.Title)
+      ).toEqual(['Article 1']);
+      expect(second.body.response.hasMore).toBe(false);
+      expect(second.body.response.cursor).toBeNull();
+    });
+
+    it('accepts a page number instead of a cursor', async () => {
+      for (let i = 1; i <= 3; i++) {
+        await publishArticle({ Title: `Article ${i}`, CreatedAt: i });
+      }
+
+      const response = await request(app).get(
+        '/articles/programming?searchBy=date&sortBy=lowest&limit=2&page=2'
+      );
+
+      expect(
+        response.body.response.return.map((article: any) => article.Title)
+      ).toEqual(['Article 3']);
+    });
+
+    it('rejects a malformed cursor', async () => {
+      const response = await request(app).get(
+        '/articles/programming?cursor=not-a-cursor'
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.response.message).toBe('invalid cursor');
+    });
+
+    it('filters by difficulty', async () => {
+      await publishArticle({ Title: 'Easy one' });
+      await publishArticle({ Title: 'Hard one', Difficulty: 'HARD' });
+
+      const response = await request(app).get('/articles/programming/HARD');
+
+      expect(
+        response.body.response.return.map((article: any) => article.Title)
+      ).toEqual(['Hard one']);
+    });
+
+    it('lists the private articles of an author to the author only', async () => {
+      await createArticle();
+
+      const own = await request(app)
+        .get('/articles/author?authorName=alice&visibility=private')
+        .set('Cookie', authCookie(alice));
+      expect(own.status).toBe(200);
+      expect(own.body.response.return).toHaveLength(1);
+
+      const other = await request(app)
+        .get('/articles/author?authorName=alice&visibility=private')
+        .set('Cookie', authCookie(bob));
+      expect(other.status).toBe(403);
+    });
+
+    it('lists the articles waiting for review to admins', async () => {
+      await createArticle({ Status: 'review' });
+      await createArticle();
+
+      const response = await request(app)
+        .get('/articles/private?status=review')
+        .set('Cookie', authCookie(admin));
+      expect(response.status).toBe(200);
+      expect(response.body.response.return).toHaveLength(1);
+
+      const denied = await request(app)
+        .get('/articles/private?status=review')
+        .set('Cookie', authCookie(alice));
+      expect(denied.status).toBe(403);
+    });
+
+    it('looks up unpublished articles by their exact title for editors', async () => {
+      await createArticle({ Title: 'Binary search' });
+      await createArticle({ Title: 'Binary search trees' });
+      const moderator = await addUser(store, 'mod', { Roles: ['moderator'] });
+
+      const response = await request(app)
+        .get('/articles/title?title=Binary%20search&visibility=private')
+        .set('Cookie', authCookie(moderator));
+      expect(response.status).toBe(200);
+      expect(
+        response.body.response.return.map((article: any) => article.Title)
+      ).toEqual(['Binary search']);
+
+      const denied = await request(app)
+        .get('/articles/title?title=Binary%20search&visibility=private')
+        .set('Cookie', authCookie(alice));
+      expect(denied.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import request from 'supertest';
+import crypto from 'crypto';
+
+import app from '../src/app';
+import { Articles } from '../src/services/articles';
+import { Attachments } from '../src/services/attachments';
+import { Helper } from '../src/services/helper';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('article attachments', () => {
+  let store: Store;
+  let alice: any;
+  let bob: any;
+  let articleId: string;
+
+  const stl = Buffer.from([0x00, 0x01, 0x02, 0x03, 0xff]);
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    bob = await addUser(store, 'bob');
+
+    const created = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata(), body: '# Hi' });
+    articleId = created.body.response.id;
+  });
+
+  const upload = (name: string, body: Buffer, user = alice, query = '') =>
+    request(app)
+      .post(
+        `/articles/attachments?id=${articleId}&name=${encodeURIComponent(
+          name
+        )}${query}`
+      )
+      .set('Cookie', authCookie(user))
+      .set('Content-Type', 'application/octet-stream')
+      .send(body);
+
+  const getLink = async (attachmentId: string, user?: any) => {
+    const link = request(app).get(
+      `/articles/attachments/link?id=${articleId}&attachmentId=${attachmentId}`
+    );
+    return user ? link.set('Cookie', authCookie(user)) : link;
+  };
+
+  const download = (url: string) => request(app).get(url).responseType('blob');
+
+  it('stores a file with its checksum', async () => {
+    const response = await upload('bracket.stl', stl);
+
+    expect(response.status).toBe(200);
+    const item = response.body.response.return;
+    expect(item).toMatchObject({
+      Name: 'bracket.stl',
+      ContentType: 'model/stl',
+      Size: stl.length,
+      Checksum: crypto.createHash('sha256').update(stl).digest('hex'),
+      Uploader: 'alice',
+      Downloads: 0,
+    });
+    expect(
+      store.storage.files.get(`attachments/${articleId}/${item.ID}`)
+    ).toEqual(stl);
+  });
+
+  it('refuses files that are not allowed', async () => {
+    expect((await upload('setup.exe', stl)).status).toBe(400);
+    expect((await upload('board.zip', stl)).status).toBe(400);
+    expect((await upload('main.c', stl)).status).toBe(400);
+    expect(
+      (await upload('bracket.stl', stl, alice, '&checksum=abc')).status
+    ).toBe(400);
+    expect(
+      (await upload('bracket.stl', Buffer.alloc(Attachments.MAX_FILE_SIZE + 1)))
+        .status
+    ).toBe(413);
+    expect(await store.attachments.list(articleId)).toEqual([]);
+  });
+
+  it('keeps the uploads within the quota of the user', async () => {
+    jest
+      .spyOn(store.attachments, 'getUploaderUsage')
+      .mockResolvedValue(50 * 1024 * 1024 - 1);
+
+    const response = await upload('bracket.stl', stl);
+
+    expect(response.status).toBe(413);
+    expect(response.body.response.message).toBe('storage quota exceeded');
+  });
+
+  it('downloads a file through a signed link and counts it', async () => {
+    const id = (await upload('bracket.stl', stl)).body.response.return.ID;
+
+    const link = await getLink(id, alice);
+    expect(link.status).toBe(200);
+
+    const response = await download(link.body.response.return.url);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(stl);
+    expect(response.headers['content-disposition']).toContain('bracket.stl');
+    expect(response.headers['x-checksum-sha256']).toBe(
+      crypto.createHash('sha256').update(stl).digest('hex')
+    );
+    expect((await store.attachments.get(articleId, id))!.Downloads).toBe(1);
+
+    const preview = await download(
+      `${link.body.response.return.url}&preview=true`
+    );
+    expect(preview.status).toBe(200);
+    expect((await store.attachments.get(articleId, id))!.Downloads).toBe(1);
+  });
+
+  it('refuses changed and expired links', async () => {
+    const id = (await upload('bracket.stl', stl)).body.response.return.ID;
+    const url: string = (await getLink(id, alice)).body.response.return.url;
+
+    const changed = await download(url.replace(/\d+&signature/, '1&signature'));
+    expect(changed.status).toBe(403);
+
+    jest
+      .spyOn(Helper, 'getUNIXTimestamp')
+      .mockReturnValue(Math.floor(Date.now() / 1000) + 60 * 60);
+    expect((await download(url)).status).toBe(403);
+    expect((await store.attachments.get(articleId, id))!.Downloads).toBe(0);
+  });
+
+  it('keeps the files of private articles private', async () => {
+    const id = (await upload('bracket.stl', stl)).body.response.return.ID;
+
+    expect((await upload('other.stl', stl, bob)).status).toBe(403);
+    expect((await getLink(id)).status).toBe(403);
+    const list = await request(app)
+      .get(`/articles/attachments?id=${articleId}`)
+      .set('Cookie', authCookie(bob));
+    expect(list.status).toBe(403);
+
+    await Articles.publishArticle(articleId);
+    expect((await getLink(id)).status).toBe(200);
+  });
+
+  it('removes the files of a deleted article', async () => {
+    const id = (await upload('bracket.stl', stl)).body.response.return.ID;
+    await upload('notes.txt', Buffer.from('hello'));
+
+    const removed = await request(app)
+      .delete(`/articles/attachments?id=${articleId}&attachmentId=${id}`)
+      .set('Cookie', authCookie(alice));
+    expect(removed.status).toBe(200);
+    expect(store.storage.files.has(`attachments/${articleId}/${id}`)).toBe(
+      false
+    );
+
+    await Articles.removeArticle('ArticlesUnpublished', articleId);
+
+    expect(await store.attachments.list(articleId)).toEqual([]);
+    expect(
+      [...store.storage.files.keys()].some((key) =>
+        key.startsWith('attachments/')
+      )
+    ).toBe(false);
+  });
+
+  it('removes the files when the articles of a user are removed', async () => {
+    await upload('bracket.stl', stl);
+
+    await Articles.removeAllArticlesByUser('alice');
+
+    expect(await store.attachments.list(articleId)).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import {
+  Store,
+  addCategory,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('/categories', () => {
+  let store: Store;
+  let alice: any;
+  let admin: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    admin = await addUser(store, 'admin', { Roles: ['admin'] });
+  });
+
+  // Adds a published and an unpublished article in a category
+  const addArticles = async (category: string) => {
+    await store.articles.put(
+      'ArticlesPublished',
+      articleMetadata({ ID: 'published', PrimaryCategory: category })
+    );
+    await store.articles.put(
+      'ArticlesUnpublished',
+      articleMetadata({ ID: 'unpublished', PrimaryCategory: category })
+    );
+    for (const [table, id] of [
+      ['ArticlesPublished', 'published'],
+      ['ArticlesUnpublished', 'unpublished'],
+    ]) {
+      await store.storage.putObject(
+        `${table}/${id}.md`,
+        `---\nID: ${id}\nPrimaryCategory: ${category}\n---\nbody`
+      );
+    }
+  };
+
+  describe('GET /', () => {
+    it('lists the active categories in their order', async () => {
+      addCategory(store, 'physics', { SortOrder: -1 });
+      addCategory(store, 'chemistry', { Active: false });
+
+      const response = await request(app).get('/categories');
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.response.return.map((category: any) => category.Slug)
+      ).toEqual(['physics', 'electronics', 'programming']);
+    });
+
+    it('lists the retired categories to admins only', async () => {
+      addCategory(store, 'chemistry', { Active: false });
+
+      const all = await request(app)
+        .get('/categories?all=true')
+        .set('Cookie', authCookie(admin));
+      expect(all.body.response.return).toHaveLength(3);
+
+      const denied = await request(app)
+        .get('/categories?all=true')
+        .set('Cookie', authCookie(alice));
+      expect(denied.status).toBe(403);
+    });
+  });
+
+  describe('POST /', () => {
+    it('adds a category that articles can use', async () => {
+      const response = await request(app)
+        .post('/categories')
+        .set('Cookie', authCookie(admin))
+        .send({ Slug: 'cooking', Name: 'Cooking', Icon: 'flame' });
+
+      expect(response.status).toBe(200);
+      expect(await store.categories.get('cooking')).toMatchObject({
+        Name: 'Cooking',
+        Icon: 'flame',
+        Active: true,
+      });
+
+      const article = await request(app)
+        .post('/articles')
+        .set('Cookie', authCookie(alice))
+        .send({
+          metadata: articleMetadata({ PrimaryCategory: 'cooking' }),
+          body: '',
+        });
+      expect(article.status).toBe(200);
+    });
+
+    it('rejects slugs used by the article routes', async () => {
+      const response = await request(app)
+        .post('/categories')
+        .set('Cookie', authCookie(admin))
+        .send({ Slug: 'search', Name: 'Search' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects an existing slug', async () => {
+      const response = await request(app)
+        .post('/categories')
+        .set('Cookie', authCookie(admin))
+        .send({ Slug: 'programming', Name: 'Programming' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('only lets admins add categories', async () => {
+      const response = await request(app)
+        .post('/categories')
+        .set('Cookie', authCookie(alice))
+        .send({ Slug: 'cooking', Name: 'Cooking' });
+
+      expect(response.status).toBe(403);
+      expect(await store.categories.get('cooking')).toBeNull();
+    });
+  });
+
+  describe('PATCH /:slug', () => {
+    it('changes the fields of a category', async () => {
+      const response = await request(app)
+        .patch('/categories/programming')
+        .set('Cookie', authCookie(admin))
+        .send({ Description: 'Code', SortOrder: 3 });
+
+      expect(response.status).toBe(200);
+      expect(await store.categories.get('programming')).toMatchObject({
+        Description: 'Code',
+        SortOrder: 3,
+      });
+    });
+
+    it('moves the articles when the slug changes', async () => {
+      await addArticles('programming');
+
+      const response = await request(app)
+        .patch('/categories/programming')
+        .set('Cookie', authCookie(admin))
+        .send({ Slug: 'software' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.moved).toBe(2);
+      expect(await store.categories.get('programming')).toBeNull();
+      expect(await store.categories.get('software')).toMatchObject({
+        Name: 'Programming',
+      });
+      for (const [table, id] of [
+        ['ArticlesPublished', 'published'],
+        ['ArticlesUnpublished', 'unpublished'],
+      ]) {
+        expect((await store.articles.get(table, id))!.PrimaryCategory).toBe(
+          'software'
+        );
+        expect(
+          store.storage.files.get(`${table}/${id}.md`)!.toString()
+        ).toContain('PrimaryCategory: software');
+      }
+    });
+
+    it('does not retire a category without moving its articles', async () => {
+      const response = await request(app)
+        .patch('/categories/programming')
+        .set('Cookie', authCookie(admin))
+        .send({ Active: false });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /:slug', () => {
+    it('retires the category and moves its articles', async () => {
+      await addArticles('programming');
+
+      const response = await request(app)
+        .delete('/categories/programming?moveTo=electronics')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.moved).toBe(2);
+      expect((await store.categories.get('programming'))!.Active).toBe(false);
+      expect(
+        (await store.articles.get('ArticlesPublished', 'published'))!
+          .PrimaryCategory
+      ).toBe('electronics');
+
+      const listing = await request(app).get('/articles/programming');
+      expect(listing.status).toBe(400);
+    });
+
+    it('requires an active category to move the articles to', async () => {
+      addCategory(store, 'chemistry', { Active: false });
+
+      const response = await request(app)
+        .delete('/categories/programming?moveTo=chemistry')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.status).toBe(400);
+      expect((await store.categories.get('programming'))!.Active).toBe(true);
+    });
+  });
+});
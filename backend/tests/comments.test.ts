@@ -0,0 +1,134 @@
+import { Comments } from '../src/services/comments';
+import { mockDynamoDB } from './helpers';
+
+describe('Comments.removeComment', () => {
+  const articleId = '0b7e6a3c-9a0e-4f6e-8a57-1f0c1c2d3e4f';
+  const comment = (fields: any = {}) => ({
+    ArticleID: articleId,
+    ID: 'comment',
+    Author: 'alice',
+    Body: 'Nice',
+    ReplyCount: 0,
+    ...fields,
+  });
+
+  // Answers the reply count update with the parent, the other commands with
+  // nothing
+  const useParent = (parent: any) =>
+    mockDynamoDB((name, input) => {
+      if (
+        name == 'UpdateItemCommand' &&
+        input.UpdateExpression.includes('add')
+      ) {
+        return parent instanceof Error
+          ? parent
+          : {
+              Attributes: {
+                ArticleID: { S: articleId },
+                ID: { S: 'parent' },
+                ReplyCount: { N: String(parent.ReplyCount) },
+                Deleted: { BOOL: parent.Deleted },
+              },
+            };
+      }
+    });
+
+  const commands = (send: jest.SpyInstance) =>
+    send.mock.calls.map(([command]: any[]) => ({
+      name: command.constructor.name,
+      input: command.input,
+    }));
+
+  it('blanks a comment that has replies instead of deleting it', async () => {
+    const send = mockDynamoDB(() => ({}));
+
+    const response = await Comments.removeComment(
+      comment({ ReplyCount: 2 }),
+      'mod'
+    );
+
+    expect(response.status).toBe(200);
+    const [update] = commands(send);
+    expect(commands(send)).toHaveLength(1);
+    expect(update.name).toBe('UpdateItemCommand');
+    expect(update.input.ExpressionAttributeValues).toEqual({
+      ':empty': { S: '' },
+      ':true': { BOOL: true },
+      ':moderator': { S: 'mod' },
+    });
+  });
+
+  it('takes a removed reply off the reply count of its thread', async () => {
+    const send = useParent({ ReplyCount: 1, Deleted: false });
+
+    const response = await Comments.removeComment(
+      comment({ ParentID: 'parent' }),
+      null
+    );
+
+    expect(response.status).toBe(200);
+    expect(commands(send).map((command) => command.name)).toEqual([
+      'DeleteItemCommand',
+      'UpdateItemCommand',
+    ]);
+    const update = commands(send)[1].input;
+    expect(update.Key).toEqual({
+      ArticleID: { S: articleId },
+      ID: { S: 'parent' },
+    });
+    expect(update.ExpressionAttributeValues).toEqual({
+      ':change': { N: '-1' },
+    });
+  });
+
+  it('drops a removed thread once its last reply is gone', async () => {
+    const send = useParent({ ReplyCount: 0, Deleted: true });
+
+    await Comments.removeComment(comment({ ParentID: 'parent' }), null);
+
+    const deletes = commands(send).filter(
+      (command) => command.name == 'DeleteItemCommand'
+    );
+    expect(deletes.map((command) => command.input.Key.ID.S)).toEqual([
+      'comment',
+      'parent',
+    ]);
+  });
+
+  it('keeps a removed thread that still has replies', async () => {
+    const send = useParent({ ReplyCount: 1, Deleted: true });
+
+    await Comments.removeComment(comment({ ParentID: 'parent' }), null);
+
+    expect(
+      commands(send).filter((command) => command.name == 'DeleteItemCommand')
+    ).toHaveLength(1);
+  });
+
+  it('removes a reply whose thread is already gone', async () => {
+    const send = useParent(
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      })
+    );
+
+    const response = await Comments.removeComment(
+      comment({ ParentID: 'parent' }),
+      null
+    );
+
+    expect(response.status).toBe(200);
+    expect(commands(send)).toHaveLength(2);
+  });
+
+  it('answers with a server error when the comment cannot be deleted', async () => {
+    mockDynamoDB(() => new Error('unavailable'));
+
+    const response = await Comments.removeComment(comment(), null);
+
+    expect(response).toEqual({
+      status: 500,
+      response: { message: 'server error' },
+    });
+  });
+});
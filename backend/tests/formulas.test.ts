@@ -0,0 +1,103 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Formulas } from '../src/services/formulas';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('formulas', () => {
+  let store: Store;
+  let alice: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+  });
+
+  const createArticle = (body: string) =>
+    request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata(), body });
+
+  it('finds inline and display math outside of code', () => {
+    const body = [
+      'Energy is $E = mc^2$, water is $\\ce{H2O}$ and \\$5 is money.',
+      '',
+      '$$',
+      '\\int_0^1 x\\,dx',
+      '$$',
+      '',
+      'Code like `$HOME` and',
+      '```bash',
+      'echo $PATH $USER',
+      '```',
+      '',
+      '```math',
+      'a^2 + b^2',
+      '```',
+    ].join('\n');
+
+    expect(Formulas.extract(body)).toEqual([
+      { expression: 'E = mc^2', display: false },
+      { expression: '\\ce{H2O}', display: false },
+      { expression: '\\int_0^1 x\\,dx', display: true },
+      { expression: 'a^2 + b^2', display: true },
+    ]);
+  });
+
+  it('accepts valid math and chemical equations', () => {
+    expect(
+      Formulas.check(
+        '$\\frac{a}{b}$ and $\\ce{2H2 + O2 -> 2H2O}$\n\n$$\n\\sum_{i=1}^n i\n$$'
+      )
+    ).toEqual([]);
+  });
+
+  it('rejects malformed and oversized expressions', () => {
+    expect(Formulas.check('$\\frac{a}{b$')).toHaveLength(1);
+    expect(Formulas.check('$\\notacommand$')).toHaveLength(1);
+    expect(
+      Formulas.check(`$${'x'.repeat(Formulas.MAX_EXPRESSION_LENGTH + 1)}$`)
+    ).toEqual([
+      `formula is longer than ${Formulas.MAX_EXPRESSION_LENGTH} characters`,
+    ]);
+    expect(
+      Formulas.check('$x$ '.repeat(Formulas.MAX_EXPRESSIONS + 1))
+    ).toHaveLength(1);
+    // Macros that expand without end
+    expect(Formulas.check('$\\def\\a{\\a\\a}\\a$')[0]).toContain(
+      'Too many expansions'
+    );
+  });
+
+  it('refuses to save articles with invalid math', async () => {
+    const refused = await createArticle('Broken $\\frac{a}{b$ math');
+    expect(refused.status).toBe(400);
+    expect(refused.body.response.message).toContain('invalid formula');
+
+    const created = await createArticle('Fine $\\frac{a}{b}$ math');
+    expect(created.status).toBe(200);
+    const id = created.body.response.id;
+
+    const updated = await request(app)
+      .put('/articles?visibility=private')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata({ ID: id }), body: '$$\n\\left(\n$$' });
+    expect(updated.status).toBe(400);
+
+    const patched = await request(app)
+      .patch(`/articles?id=${id}&visibility=private`)
+      .set('Cookie', authCookie(alice))
+      .send({ key: 'body', value: '$\\sqrt{$' });
+    expect(patched.status).toBe(400);
+    expect(
+      store.storage.files.get(`ArticlesUnpublished/${id}.md`)!.toString()
+    ).toContain('Fine $\\frac{a}{b}$ math');
+  });
+});
@@ -0,0 +1,249 @@
+import { Articles } from '../src/services/articles';
+import { client } from '../src/services/dynamodb';
+import { Attachments } from '../src/services/attachments';
+import { Audit } from '../src/services/audit';
+import { Categories } from '../src/services/categories';
+import { Comments } from '../src/services/comments';
+import { Email } from '../src/services/Email';
+import { Likes } from '../src/services/likes';
+import { Media } from '../src/services/media';
+import { PasswordPolicy } from '../src/services/passwordPolicy';
+import { Reviews } from '../src/services/reviews';
+import { Revisions } from '../src/services/revisions';
+import { Search } from '../src/services/search';
+import { Sessions } from '../src/services/sessions';
+import { Settings } from '../src/services/settings';
+import { Steps } from '../src/services/steps';
+import { Storage, StorageDriver } from '../src/services/storage';
+import { Tokens } from '../src/services/tokens';
+import { TwoFactor } from '../src/services/twoFactor';
+import { UserManagment } from '../src/services/userManagment';
+import { MemoryArticleRepository } from '../src/repositories/memoryArticleRepository';
+import { MemoryAttachmentRepository } from '../src/repositories/memoryAttachmentRepository';
+import { MemoryAuditRepository } from '../src/repositories/memoryAuditRepository';
+import { MemoryCategoryRepository } from '../src/repositories/memoryCategoryRepository';
+import { MemoryMediaRepository } from '../src/repositories/memoryMediaRepository';
+import { MemorySettingsRepository } from '../src/repositories/memorySettingsRepository';
+import { MemoryStepProgressRepository } from '../src/repositories/memoryStepProgressRepository';
+import { MemoryTokenRepository } from '../src/repositories/memoryTokenRepository';
+import { MemoryUserRepository } from '../src/repositories/memoryUserRepository';
+
+export class MemoryStorage implements StorageDriver {
+  public files = new Map<string, Buffer>();
+
+  public async putObject(key: string, body: string | Buffer): Promise<void> {
+    this.files.set(key, Buffer.from(body));
+  }
+
+  public async getObject(key: string): Promise<Buffer | undefined> {
+    return this.files.get(key);
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  public async deleteObjects(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.files.delete(key));
+  }
+
+  public getPublicUrl(key: string): string {
+    return `http://storage.test/${key}`;
+  }
+}
+
+export interface Store {
+  articles: MemoryArticleRepository;
+  attachments: MemoryAttachmentRepository;
+  audit: MemoryAuditRepository;
+  categories: MemoryCategoryRepository;
+  media: MemoryMediaRepository;
+  settings: MemorySettingsRepository;
+  stepProgress: MemoryStepProgressRepository;
+  users: MemoryUserRepository;
+  tokens: MemoryTokenRepository;
+  storage: MemoryStorage;
+}
+
+/**
+ * Gives the services in-memory repositories and storage, and stubs the
+ * services that are not backed by a repository yet. The repositories are
+ * empty apart from the programming and electronics categories.
+ */
+export const useMemoryStore = (): Store => {
+  const store: Store = {
+    articles: new MemoryArticleRepository(),
+    attachments: new MemoryAttachmentRepository(),
+    audit: new MemoryAuditRepository(),
+    categories: new MemoryCategoryRepository(),
+    media: new MemoryMediaRepository(),
+    settings: new MemorySettingsRepository(),
+    stepProgress: new MemoryStepProgressRepository(),
+    users: new MemoryUserRepository(),
+    tokens: new MemoryTokenRepository(),
+    storage: new MemoryStorage(),
+  };
+  Articles.useRepository(store.articles);
+  Attachments.useRepository(store.attachments);
+  Audit.useRepository(store.audit);
+  Categories.useRepository(store.categories);
+  Media.useRepository(store.media);
+  UserManagment.useRepository(store.users);
+  TwoFactor.useRepository(store.users);
+  Settings.useRepository(store.settings);
+  Steps.useRepository(store.stepProgress);
+  Tokens.useRepository(store.tokens);
+  Sessions.useRepository(store.tokens);
+  Storage.useDriver(store.storage);
+  PasswordPolicy.useBreachCorpus(null);
+
+  const ok = { status: 200, response: {} };
+  jest.spyOn(Search, 'indexArticle').mockResolvedValue(true);
+  jest.spyOn(Search, 'removeArticle').mockResolvedValue(true);
+  jest
+    .spyOn(Revisions, 'createRevision')
+    .mockResolvedValue({ status: 200, response: { return: { Revision: 1 } } });
+  jest.spyOn(Revisions, 'removeRevisions').mockResolvedValue(true);
+  jest.spyOn(Reviews, 'submitArticle').mockResolvedValue(ok);
+  jest.spyOn(Reviews, 'withdrawSubmission').mockResolvedValue(ok);
+  jest.spyOn(Reviews, 'acceptSubmission').mockResolvedValue(ok);
+  jest.spyOn(Reviews, 'removeReviews').mockResolvedValue(true);
+  jest.spyOn(Comments, 'removeArticleComments').mockResolvedValue(true);
+  jest.spyOn(Comments, 'removeUserComments').mockResolvedValue(true);
+  jest.spyOn(Likes, 'removeArticleLikes').mockResolvedValue(true);
+  jest.spyOn(Likes, 'removeUserLikes').mockResolvedValue(true);
+  jest.spyOn(Email, 'sendEmail').mockResolvedValue(true);
+
+  addCategory(store, 'programming');
+  addCategory(store, 'electronics');
+
+  return store;
+};
+
+/**
+ * Adds an active category
+ *
+ * @param {Store} store - store from useMemoryStore
+ * @param {string} slug - category slug
+ * @param {*} [fields={}] - fields to override, like Active
+ * @returns {*} - the stored category
+ */
+export const addCategory = (store: Store, slug: string, fields: any = {}) => {
+  const category = {
+    Slug: slug,
+    Name: slug[0].toUpperCase() + slug.slice(1),
+    Description: '',
+    Icon: 'book',
+    HeroImage: null,
+    SortOrder: 0,
+    Active: true,
+    ...fields,
+  };
+  store.categories.put(category);
+  return category;
+};
+
+/**
+ * Adds a verified author, with "password123" as the password
+ *
+ * @param {Store} store - store from useMemoryStore
+ * @param {string} username - username
+ * @param {*} [fields={}] - fields to override, like Roles
+ * @returns {Promise<any>} - the stored user
+ */
+export const addUser = async (
+  store: Store,
+  username: string,
+  fields: any = {}
+) => {
+  const user = {
+    Username: username,
+    Directory: 'users',
+    Password: await UserManagment.genPassHash('password123'),
+    Email: `${username}@example.com`,
+    Roles: ['author'],
+    Verified: 'true',
+    ProfilePic: Storage.getPublicUrl('images/pfp.png'),
+    ProfilePicChange: 'null',
+    AccountCreated: 0,
+    LastPasswordChange: 0,
+    LastEmailChange: 0,
+    ...fields,
+  };
+  await store.users.put(user);
+  return user;
+};
+
+/**
+ * Returns the cookie header of a signed in user
+ *
+ * @param {*} user - user object
+ * @returns {string}
+ */
+export const authCookie = (user: any) => {
+  return `token=${UserManagment.getAccessJWT(UserManagment.getClaims(user))}`;
+};
+
+/**
+ * Starts a session for a user, like signing in
+ *
+ * @param {*} user - user object
+ * @param {string} [userAgent='jest'] - user agent of the session
+ * @returns {Promise<string>} - the cookie header with the refresh token
+ */
+export const refreshCookie = async (user: any, userAgent = 'jest') => {
+  const session = await Sessions.create(user.Username, userAgent);
+  const refresh = UserManagment.getRefreshJWT(
+    UserManagment.getClaims(user),
+    session.id,
+    session.rotation
+  );
+  return `refresh=${refresh}`;
+};
+
+/**
+ * Metadata of a valid article
+ *
+ * @param {*} [fields={}] - fields to override
+ * @returns {*}
+ */
+export const articleMetadata = (fields: any = {}) => ({
+  Title: 'Binary search',
+  Description: 'Finding things quickly',
+  Author: 'alice',
+  AuthorProfilePic: 'http://storage.test/images/pfp.png',
+  PrimaryCategory: 'programming',
+  SecondaryCategories: ['electronics'],
+  CreatedAt: 0,
+  Difficulty: 'EASY',
+  ...fields,
+});
+
+/**
+ * Answers the commands sent to DynamoDB by the services that use the client
+ * directly. An answer that is an Error is thrown like a failed request.
+ *
+ * @param {Function} answer - called with the name and the input of a command
+ * @returns {jest.SpyInstance} - spy of the client, holding the commands sent
+ */
+export const mockDynamoDB = (answer: (name: string, input: any) => any) =>
+  jest.spyOn(client as any, 'send').mockImplementation(async (command: any) => {
+    const result = await answer(command.constructor.name, command.input);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result ?? {};
+  });
+
+/**
+ * Error of a transaction cancelled by the conditions of its items
+ *
+ * @param {...string} codes - cancellation code of every item, like
+ * ConditionalCheckFailed or None
+ * @returns {Error}
+ */
+export const transactionCancelled = (...codes: string[]) =>
+  Object.assign(new Error('Transaction cancelled'), {
+    name: 'TransactionCanceledException',
+    CancellationReasons: codes.map((Code) => ({ Code })),
+  });
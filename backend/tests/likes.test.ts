@@ -0,0 +1,125 @@
+import { Likes } from '../src/services/likes';
+import { mockDynamoDB, transactionCancelled } from './helpers';
+
+describe('likes', () => {
+  const articleId = '0b7e6a3c-9a0e-4f6e-8a57-1f0c1c2d3e4f';
+
+  describe('likeArticle', () => {
+    it('writes the like and the rating in one transaction', async () => {
+      const send = mockDynamoDB(() => ({}));
+
+      const response = await Likes.likeArticle('alice', articleId);
+
+      expect(response).toEqual({
+        status: 200,
+        response: { message: 'article liked', result: true },
+      });
+      expect(send).toHaveBeenCalledTimes(1);
+      const [like, rating] = (send.mock.calls[0][0] as any).input.TransactItems;
+      expect(like.Put.ConditionExpression).toBe(
+        'attribute_not_exists(ArticleID)'
+      );
+      expect(rating.Update.ConditionExpression).toBe('attribute_exists(ID)');
+    });
+
+    it('changes nothing when the article is already liked', async () => {
+      mockDynamoDB(() =>
+        transactionCancelled('ConditionalCheckFailed', 'None')
+      );
+
+      const response = await Likes.likeArticle('alice', articleId);
+
+      expect(response).toEqual({
+        status: 200,
+        response: { message: 'article already liked', result: true },
+      });
+    });
+
+    it('refuses articles that are not published', async () => {
+      mockDynamoDB(() =>
+        transactionCancelled('None', 'ConditionalCheckFailed')
+      );
+
+      expect((await Likes.likeArticle('alice', articleId)).status).toBe(404);
+    });
+
+    it('refuses invalid ids without a request', async () => {
+      const send = mockDynamoDB(() => ({}));
+
+      expect((await Likes.likeArticle('alice', 'nope')).status).toBe(400);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlikeArticle', () => {
+    it('changes nothing when the article is not liked', async () => {
+      const send = mockDynamoDB(() =>
+        transactionCancelled('ConditionalCheckFailed', 'None')
+      );
+
+      const response = await Likes.unlikeArticle('alice', articleId);
+
+      expect(response).toEqual({
+        status: 200,
+        response: { message: 'article not liked', result: false },
+      });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('removes only the like of an article that is no longer published', async () => {
+      const send = mockDynamoDB((name) =>
+        name == 'TransactWriteItemsCommand'
+          ? transactionCancelled('None', 'ConditionalCheckFailed')
+          : {}
+      );
+
+      const response = await Likes.unlikeArticle('alice', articleId);
+
+      expect(response.response.result).toBe(false);
+      expect(
+        send.mock.calls.map(([command]: any[]) => command.constructor.name)
+      ).toEqual(['TransactWriteItemsCommand', 'DeleteItemCommand']);
+    });
+
+    it('answers with a server error when DynamoDB fails', async () => {
+      mockDynamoDB(() => new Error('down'));
+
+      expect((await Likes.unlikeArticle('alice', articleId)).status).toBe(500);
+    });
+  });
+
+  describe('getLikedArticles', () => {
+    it('returns the cursor of the next page', async () => {
+      // The second query checks if anything follows the page
+      mockDynamoDB((name, input) =>
+        input.Select == 'COUNT'
+          ? { Count: 1 }
+          : {
+              Items: [
+                { Username: { S: 'alice' }, ArticleID: { S: articleId } },
+              ],
+              LastEvaluatedKey: {
+                Username: { S: 'alice' },
+                ArticleID: { S: articleId },
+              },
+            }
+      );
+
+      const response = await Likes.getLikedArticles('alice', 1, 1);
+
+      expect(response.status).toBe(200);
+      expect(response.response.return).toEqual([
+        { Username: 'alice', ArticleID: articleId },
+      ]);
+      expect(response.response.hasMore).toBe(true);
+      expect(response.response.cursor).toEqual(expect.any(String));
+    });
+
+    it('caps the limit', async () => {
+      const send = mockDynamoDB(() => ({}));
+
+      expect((await Likes.getLikedArticles('alice', 1, 51)).status).toBe(400);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import request from 'supertest';
+import sharp from 'sharp';
+
+import app from '../src/app';
+import { Articles } from '../src/services/articles';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('article media', () => {
+  let store: Store;
+  let alice: any;
+  let bob: any;
+  let articleId: string;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    bob = await addUser(store, 'bob');
+
+    const created = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata(), body: '# Hi' });
+    articleId = created.body.response.id;
+  });
+
+  // A base64 encoded png of the given size
+  const createImage = async (width: number, height: number) => {
+    const image = await sharp({
+      create: { width, height, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+    return `data:image/png;base64,${image.toString('base64')}`;
+  };
+
+  const upload = async (image: string, user = alice) =>
+    request(app)
+      .post(`/articles/media?id=${articleId}`)
+      .set('Cookie', authCookie(user))
+      .send({ image });
+
+  const mediaFiles = () =>
+    [...store.storage.files.keys()].filter((key) => key.startsWith('media/'));
+
+  it('stores an image in the widths up to its own', async () => {
+    const response = await upload(await createImage(800, 400));
+
+    expect(response.status).toBe(200);
+    const item = response.body.response.return;
+    expect(item).toMatchObject({
+      Width: 800,
+      Height: 400,
+      Sizes: [320, 640, 800],
+    });
+    expect(item.Url).toBe(
+      `http://storage.test/media/${articleId}/${item.ID}-800.webp`
+    );
+    expect(item.Srcset).toContain(`${item.ID}-320.webp 320w`);
+
+    const meta = await sharp(
+      store.storage.files.get(`media/${articleId}/${item.ID}-320.webp`)
+    ).metadata();
+    expect(meta).toMatchObject({ format: 'webp', width: 320, height: 160 });
+  });
+
+  it('does not store wider than the largest width', async () => {
+    const response = await upload(await createImage(2000, 1000));
+
+    expect(response.body.response.return.Sizes).toEqual([320, 640, 1024, 1600]);
+  });
+
+  it('refuses files that are not images', async () => {
+    const response = await upload(Buffer.from('hello').toString('base64'));
+
+    expect(response.status).toBe(400);
+    expect(mediaFiles()).toEqual([]);
+  });
+
+  it('only lets the author manage the media', async () => {
+    const image = await createImage(100, 100);
+
+    expect((await upload(image, bob)).status).toBe(403);
+
+    const id = (await upload(image)).body.response.return.ID;
+    const list = await request(app)
+      .get(`/articles/media?id=${articleId}`)
+      .set('Cookie', authCookie(bob));
+    expect(list.status).toBe(403);
+
+    const removed = await request(app)
+      .delete(`/articles/media?id=${articleId}&mediaId=${id}`)
+      .set('Cookie', authCookie(bob));
+    expect(removed.status).toBe(403);
+  });
+
+  it('lists and removes images', async () => {
+    const first = (await upload(await createImage(100, 100))).body.response
+      .return.ID;
+    const second = (await upload(await createImage(400, 300))).body.response
+      .return.ID;
+
+    const removed = await request(app)
+      .delete(`/articles/media?id=${articleId}&mediaId=${first}`)
+      .set('Cookie', authCookie(alice));
+    expect(removed.status).toBe(200);
+
+    const list = await request(app)
+      .get(`/articles/media?id=${articleId}`)
+      .set('Cookie', authCookie(alice));
+    expect(list.body.response.return.map((item: any) => item.ID)).toEqual([
+      second,
+    ]);
+    expect(mediaFiles()).toEqual([
+      `media/${articleId}/${second}-320.webp`,
+      `media/${articleId}/${second}-400.webp`,
+    ]);
+  });
+
+  it('removes the media of a deleted article', async () => {
+    await upload(await createImage(100, 100));
+
+    const response = await request(app)
+      .delete(`/articles/delete?id=${articleId}&visibility=private`)
+      .set('Cookie', authCookie(alice));
+
+    expect(response.status).toBe(200);
+    expect(await store.media.list(articleId)).toEqual([]);
+    expect(mediaFiles()).toEqual([]);
+  });
+
+  it('removes the media in Articles.removeArticle', async () => {
+    await upload(await createImage(100, 100));
+
+    await Articles.removeArticle('ArticlesUnpublished', articleId);
+
+    expect(await store.media.list(articleId)).toEqual([]);
+    expect(mediaFiles()).toEqual([]);
+  });
+
+  it('removes the media when the articles of a user are removed', async () => {
+    await upload(await createImage(100, 100));
+
+    await Articles.removeAllArticlesByUser('alice');
+
+    expect(await store.media.list(articleId)).toEqual([]);
+    expect(mediaFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { Pagination } from '../src/services/pagination';
+import { mockDynamoDB } from './helpers';
+
+describe('Pagination.fetchPage', () => {
+  const item = (id: number) => ({ ID: { S: `article-${id}` } });
+  const key = (id: number) => ({ ID: { S: `article-${id}` } });
+
+  const params = {
+    TableName: 'ArticlesPublished',
+    IndexName: 'PrimaryCategoryPublished',
+    KeyConditionExpression: '#k0 = :k0',
+    Limit: 3,
+  };
+
+  it('goes on with a filtered query until the page is full', async () => {
+    // The filter leaves one item of the first request and two of the second
+    const answers = [
+      { Items: [item(1)], LastEvaluatedKey: key(3) },
+      { Items: [item(4), item(5)], LastEvaluatedKey: key(5) },
+    ];
+    const send = mockDynamoDB((_name, input) =>
+      input.Select == 'COUNT' ? { Count: 1 } : answers.shift()
+    );
+
+    const page = await Pagination.fetchPage(
+      { ...params, FilterExpression: '#suspended <> :suspended' },
+      1
+    );
+
+    expect(page.items.map((article) => article.ID)).toEqual([
+      'article-1',
+      'article-4',
+      'article-5',
+    ]);
+    expect(page.hasMore).toBe(true);
+    expect(Pagination.decodeCursor(page.cursor)).toEqual(key(5));
+
+    const inputs = send.mock.calls.map(([command]: any[]) => command.input);
+    expect(inputs[1].ExclusiveStartKey).toEqual(key(3));
+    expect(inputs[1].Limit).toBe(2);
+  });
+
+  it('stops at the end of a filtered query', async () => {
+    const answers = [
+      { Items: [item(1)], LastEvaluatedKey: key(3) },
+      { Items: [item(4)] },
+    ];
+    mockDynamoDB(() => answers.shift());
+
+    const page = await Pagination.fetchPage(
+      { ...params, FilterExpression: '#suspended <> :suspended' },
+      1
+    );
+
+    expect(page.items).toHaveLength(2);
+    expect(page.hasMore).toBe(false);
+    expect(page.cursor).toBeNull();
+  });
+
+  it('sends one request for a page of a query without a filter', async () => {
+    const send = mockDynamoDB((_name, input) =>
+      input.Select == 'COUNT'
+        ? { Count: 1 }
+        : { Items: [item(1)], LastEvaluatedKey: key(1) }
+    );
+
+    const page = await Pagination.fetchPage(params, 1);
+
+    expect(page.items).toHaveLength(1);
+    expect(
+      send.mock.calls.filter(([command]: any[]) => !command.input.Select)
+    ).toHaveLength(1);
+  });
+
+  it('walks filtered pages up to the page number', async () => {
+    const answers = [
+      { Items: [item(1), item(2)], LastEvaluatedKey: key(3) },
+      { Items: [item(4)], LastEvaluatedKey: key(4) },
+      { Items: [item(5)] },
+    ];
+    mockDynamoDB(() => answers.shift());
+
+    const page = await Pagination.fetchPage(
+      { ...params, FilterExpression: '#suspended <> :suspended' },
+      2
+    );
+
+    expect(page.items.map((article) => article.ID)).toEqual(['article-5']);
+    expect(page.hasMore).toBe(false);
+  });
+});
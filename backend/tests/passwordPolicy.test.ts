@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+
+import app from '../src/app';
+import { FileBreachCorpus } from '../src/services/breachCorpus';
+import { PasswordPolicy } from '../src/services/passwordPolicy';
+import { Store, addUser, authCookie, useMemoryStore } from './helpers';
+
+const sha1 = (text: string) =>
+  crypto.createHash('sha1').update(text).digest('hex').toUpperCase();
+
+describe('password policy', () => {
+  let store: Store;
+  let directory: string;
+
+  beforeEach(() => {
+    store = useMemoryStore();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'breach-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Writes a corpus file in the format of the downloadable list
+  const writeCorpus = (passwords: string[]) => {
+    const file = path.join(directory, 'pwned.txt');
+    const lines = passwords.map(
+      (password, index) => `${sha1(password)}:${index + 1}`
+    );
+    fs.writeFileSync(file, lines.sort().join('\r\n') + '\r\n');
+    return file;
+  };
+
+  const signUp = (password: string) =>
+    request(app).post('/user/sign-up').send({
+      username: 'carol',
+      password,
+      email: 'carol@example.com',
+    });
+
+  it('refuses common passwords with digits and symbols around them', async () => {
+    const response = await signUp('Password123!');
+
+    expect(response.status).toBe(400);
+    expect(response.body.response.message).toBe('password is too common');
+    expect(await store.users.get('carol')).toBeNull();
+  });
+
+  it('requires several character classes', async () => {
+    const response = await signUp('abcdefghijkl');
+
+    expect(response.status).toBe(400);
+    expect(response.body.response.problems).toEqual([
+      'password must contain 2 of lowercase letters, uppercase letters, digits and symbols',
+    ]);
+  });
+
+  it('refuses passwords with the username', async () => {
+    const response = await signUp('Carol-2024');
+
+    expect(response.status).toBe(400);
+    expect(response.body.response.message).toBe(
+      'password must not contain the username'
+    );
+  });
+
+  it('is enforced when changing the password', async () => {
+    const alice = await addUser(store, 'alice');
+
+    const response = await request(app)
+      .post('/user/change-password')
+      .set('Cookie', authCookie(alice))
+      .send({ oldPassword: 'password123', newPassword: 'qwerty123' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.response.message).toBe('password is too common');
+  });
+
+  it('returns the policy for the strength meter', async () => {
+    const response = await request(app).get('/user/password-policy');
+
+    expect(response.body.response.policy).toEqual({
+      minLength: 8,
+      maxLength: 128,
+      minClasses: 2,
+    });
+  });
+
+  describe('breach corpus', () => {
+    const breached = ['correct-horse-42', 'Tr0ub4dor&3', 'hunter2!x'];
+    const others = Array.from({ length: 500 }, (_, i) => `filler-${i}`);
+
+    it('returns the hashes of a prefix', async () => {
+      const corpus = new FileBreachCorpus(
+        writeCorpus([...breached, ...others])
+      );
+
+      for (const password of [...breached, ...others.slice(0, 50)]) {
+        const hash = sha1(password);
+        const range = await corpus.getRange(hash.slice(0, 5));
+        expect(range.has(hash.slice(5))).toBe(true);
+      }
+      expect((await corpus.getRange('00000')).size).toBe(
+        others.filter((item) => sha1(item).startsWith('00000')).length
+      );
+    });
+
+    it('refuses breached passwords', async () => {
+      PasswordPolicy.useBreachCorpus(
+        new FileBreachCorpus(writeCorpus([...breached, ...others]))
+      );
+
+      const refused = await signUp('correct-horse-42');
+      expect(refused.status).toBe(400);
+      expect(refused.body.response.message).toBe(
+        'password has appeared in a data breach'
+      );
+
+      expect((await signUp('correct-horse-43')).status).toBe(200);
+    });
+
+    it('lets users sign up when the corpus cannot be read', async () => {
+      PasswordPolicy.useBreachCorpus(
+        new FileBreachCorpus(path.join(directory, 'missing.txt'))
+      );
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect((await signUp('correct-horse-42')).status).toBe(200);
+    });
+  });
+});
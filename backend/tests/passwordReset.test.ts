@@ -0,0 +1,117 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Email } from '../src/services/Email';
+import { Helper } from '../src/services/helper';
+import {
+  Store,
+  addUser,
+  authCookie,
+  refreshCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('password reset', () => {
+  let store: Store;
+  let alice: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+  });
+
+  // Requests a reset and returns the code of the email
+  const requestReset = async () => {
+    const send = jest.spyOn(Email, 'sendPasswordResetEmail');
+    await request(app)
+      .post('/user/forgot-password')
+      .send({ username: 'alice' });
+    return send.mock.calls[send.mock.calls.length - 1][2];
+  };
+
+  const reset = (code: string, password: string) =>
+    request(app).post(`/user/password-reset/${code}`).send({ password });
+
+  const signIn = (password: string) =>
+    request(app).post('/user/sign-in').send({ username: 'alice', password });
+
+  it('sets the password chosen by the user', async () => {
+    const code = await requestReset();
+
+    const check = await request(app).get(`/user/password-reset/${code}`);
+    expect(check.status).toBe(200);
+    expect(check.body.response.username).toBe('alice');
+
+    expect((await reset(code, 'new-password')).status).toBe(200);
+    expect((await signIn('password123')).status).toBe(401);
+    expect((await signIn('new-password')).status).toBe(200);
+  });
+
+  it('sends the code, not a password', async () => {
+    const code = await requestReset();
+    await reset(code, 'new-password');
+
+    const bodies = (Email.sendEmail as jest.Mock).mock.calls.map(
+      (call) => call[2] as string
+    );
+    expect(code).toMatch(/^[0-9a-f]{48}$/);
+    expect(bodies.some((body) => body.includes('new-password'))).toBe(false);
+  });
+
+  it('returns the claims of the user, not the account', async () => {
+    const response = await request(app)
+      .post('/user/password-reset')
+      .set('Cookie', authCookie(alice));
+
+    const user = response.body.response.user;
+    expect(user.Username).toBe('alice');
+    expect(user.Permissions).toEqual(expect.any(Array));
+    expect(user).not.toHaveProperty('Password');
+    expect(user).not.toHaveProperty('TwoFactor');
+    expect(user).not.toHaveProperty('Liked');
+  });
+
+  it('accepts a code only once', async () => {
+    const code = await requestReset();
+
+    await reset(code, 'new-password');
+    const again = await reset(code, 'other-password');
+
+    expect(again.status).toBe(404);
+    expect((await signIn('new-password')).status).toBe(200);
+  });
+
+  it('refuses expired codes', async () => {
+    const code = await requestReset();
+    const now = Helper.getUNIXTimestamp();
+    jest.spyOn(Helper, 'getUNIXTimestamp').mockReturnValue(now + 60 * 60 + 1);
+
+    expect((await reset(code, 'new-password')).status).toBe(404);
+  });
+
+  it('keeps the code when the password is too short', async () => {
+    const code = await requestReset();
+
+    expect((await reset(code, 'short')).status).toBe(400);
+    expect((await reset(code, 'new-password')).status).toBe(200);
+  });
+
+  it('ends the sessions and the other reset codes', async () => {
+    const cookie = await refreshCookie(alice);
+    const code = await requestReset();
+    await store.tokens.create({
+      username: 'alice',
+      value: 'older-code',
+      type: 'password_reset',
+      expiration: Helper.getUNIXTimestamp() + 60 * 60,
+    });
+
+    await reset(code, 'new-password');
+
+    const refresh = await request(app)
+      .get('/user/token-refresh')
+      .set('Cookie', cookie);
+    expect(refresh.status).toBe(401);
+    expect((await reset('older-code', 'other-password')).status).toBe(404);
+  });
+});
@@ -0,0 +1,136 @@
+import { Reviews } from '../src/services/reviews';
+import { mockDynamoDB } from './helpers';
+
+describe('Reviews.declineSubmission', () => {
+  const articleId = '0b7e6a3c-9a0e-4f6e-8a57-1f0c1c2d3e4f';
+
+  // Answers the query of the latest round with a round of the article and
+  // the update with the updated round
+  const useRound = (round: any, update?: Error) =>
+    mockDynamoDB((name, input) => {
+      if (name == 'QueryCommand') {
+        return {
+          Items: round
+            ? [
+                {
+                  ArticleID: { S: articleId },
+                  Round: { N: '2' },
+                  Status: { S: round.Status },
+                  ...(round.Reviewer && { Reviewer: { S: round.Reviewer } }),
+                },
+              ]
+            : [],
+        };
+      }
+      if (name == 'UpdateItemCommand') {
+        return (
+          update ?? {
+            Attributes: {
+              ArticleID: { S: articleId },
+              Round: { N: '2' },
+              Status: input.ExpressionAttributeValues[':outcome'],
+            },
+          }
+        );
+      }
+    });
+
+  const updateInput = (send: jest.SpyInstance) =>
+    send.mock.calls
+      .map(([command]: any[]) => command)
+      .find((command) => command.constructor.name == 'UpdateItemCommand').input;
+
+  it('closes the pending round with the reason', async () => {
+    const send = useRound({ Status: 'pending' });
+
+    const response = await Reviews.declineSubmission(
+      articleId,
+      'admin',
+      '  Needs sources  '
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.response.return.Status).toBe('declined');
+    const input = updateInput(send);
+    expect(input.Key).toEqual({
+      ArticleID: { S: articleId },
+      Round: { N: '2' },
+    });
+    expect(input.ConditionExpression).toBe('#status = :pending');
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':outcome': { S: 'declined' },
+      ':reason': { S: 'Needs sources' },
+      ':reviewer': { S: 'admin' },
+      ':assigned': { S: 'admin' },
+    });
+  });
+
+  it('keeps the assigned reviewer', async () => {
+    const send = useRound({ Status: 'pending', Reviewer: 'mod' });
+
+    await Reviews.declineSubmission(articleId, 'admin', 'Needs sources');
+
+    expect(updateInput(send).ExpressionAttributeValues[':assigned']).toEqual({
+      S: 'mod',
+    });
+  });
+
+  it('needs a reason', async () => {
+    const send = useRound({ Status: 'pending' });
+
+    expect(
+      (await Reviews.declineSubmission(articleId, 'admin', '  ')).status
+    ).toBe(400);
+    expect(
+      (await Reviews.declineSubmission(articleId, 'admin', 'x'.repeat(1001)))
+        .status
+    ).toBe(400);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('refuses an article without a pending round', async () => {
+    useRound({ Status: 'accepted' });
+    expect(
+      (await Reviews.declineSubmission(articleId, 'admin', 'Needs sources'))
+        .status
+    ).toBe(404);
+
+    useRound(null);
+    expect(
+      (await Reviews.declineSubmission(articleId, 'admin', 'Needs sources'))
+        .status
+    ).toBe(404);
+  });
+
+  it('refuses a round that was closed meanwhile', async () => {
+    useRound(
+      { Status: 'pending' },
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      })
+    );
+
+    const response = await Reviews.declineSubmission(
+      articleId,
+      'admin',
+      'Needs sources'
+    );
+
+    expect(response).toEqual({
+      status: 409,
+      response: { message: 'the review has already been closed' },
+    });
+  });
+
+  it('answers with a server error when the round cannot be read', async () => {
+    mockDynamoDB(() => new Error('unavailable'));
+
+    const response = await Reviews.declineSubmission(
+      articleId,
+      'admin',
+      'Needs sources'
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,180 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { UserManagment } from '../src/services/userManagment';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  refreshCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('roles', () => {
+  let store: Store;
+  let alice: any;
+  let admin: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    admin = await addUser(store, 'admin', { Roles: ['admin'] });
+  });
+
+  // Adds an article of alice waiting for a review and returns its id
+  const submitArticle = async () => {
+    const response = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata({ Status: 'review' }), body: '' });
+    expect(response.status).toBe(200);
+    return response.body.response.id as string;
+  };
+
+  describe('claims', () => {
+    it('carries the roles and the permissions in the token', async () => {
+      const response = await request(app)
+        .post('/user/sign-in')
+        .send({ username: 'alice', password: 'password123' });
+
+      expect(response.body.response.user).toMatchObject({
+        Roles: ['author'],
+        Permissions: ['article.create'],
+      });
+    });
+
+    it('reads the legacy flags of accounts without roles', () => {
+      expect(
+        UserManagment.getClaims({ Username: 'old', Admin: 'true' }).Roles
+      ).toEqual(['admin']);
+      expect(
+        UserManagment.getClaims({ Username: 'old', CanPost: 'false' }).Roles
+      ).toEqual(['reader']);
+    });
+
+    it('refreshes the roles with the token', async () => {
+      const cookie = await refreshCookie(alice);
+      await store.users.update('alice', { Roles: ['author', 'reviewer'] });
+
+      const response = await request(app)
+        .get('/user/token-refresh')
+        .set('Cookie', cookie);
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.user.Roles).toEqual(['author', 'reviewer']);
+      expect(response.body.response.user.Permissions).toContain(
+        'article.publish'
+      );
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('lets reviewers publish', async () => {
+      const reviewer = await addUser(store, 'rita', { Roles: ['reviewer'] });
+      const id = await submitArticle();
+
+      const response = await request(app)
+        .post(`/articles/publish?id=${id}`)
+        .set('Cookie', authCookie(reviewer));
+
+      expect(response.status).toBe(200);
+    });
+
+    it('does not let authors publish', async () => {
+      const id = await submitArticle();
+
+      const response = await request(app)
+        .post(`/articles/publish?id=${id}`)
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('stops a revoked role before the token expires', async () => {
+      const reviewer = await addUser(store, 'rita', { Roles: ['reviewer'] });
+      const cookie = authCookie(reviewer);
+      const id = await submitArticle();
+      await store.users.update('rita', { Roles: ['reader'] });
+
+      const response = await request(app)
+        .post(`/articles/publish?id=${id}`)
+        .set('Cookie', cookie);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('permission checks of the routes', () => {
+    it('stops a revoked role before the token expires', async () => {
+      const id = await submitArticle();
+      const cookie = authCookie(admin);
+      const readPrivate = () =>
+        request(app)
+          .get(`/articles/get?id=${id}&visibility=private`)
+          .set('Cookie', cookie);
+
+      expect((await readPrivate()).status).toBe(200);
+      await store.users.update('admin', { Roles: ['reader'] });
+      expect((await readPrivate()).status).toBe(403);
+    });
+  });
+
+  describe('POST and DELETE /user/roles', () => {
+    it('grants and revokes a role', async () => {
+      const grant = await request(app)
+        .post('/user/roles')
+        .set('Cookie', authCookie(admin))
+        .send({ username: 'alice', role: 'moderator' });
+
+      expect(grant.status).toBe(200);
+      expect((await store.users.get('alice'))!.Roles).toEqual([
+        'author',
+        'moderator',
+      ]);
+
+      const revoke = await request(app)
+        .delete('/user/roles?username=alice&role=author')
+        .set('Cookie', authCookie(admin));
+
+      expect(revoke.status).toBe(200);
+      expect((await store.users.get('alice'))!.Roles).toEqual(['moderator']);
+    });
+
+    it('leaves users without roles as readers', async () => {
+      const response = await request(app)
+        .delete('/user/roles?username=alice&role=author')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.body.response.roles).toEqual(['reader']);
+    });
+
+    it('rejects unknown roles', async () => {
+      const response = await request(app)
+        .post('/user/roles')
+        .set('Cookie', authCookie(admin))
+        .send({ username: 'alice', role: 'owner' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('does not let admins revoke their own admin role', async () => {
+      const response = await request(app)
+        .delete('/user/roles?username=admin&role=admin')
+        .set('Cookie', authCookie(admin));
+
+      expect(response.status).toBe(400);
+      expect((await store.users.get('admin'))!.Roles).toEqual(['admin']);
+    });
+
+    it('only lets users with the role.manage permission change roles', async () => {
+      const response = await request(app)
+        .post('/user/roles')
+        .set('Cookie', authCookie(alice))
+        .send({ username: 'alice', role: 'admin' });
+
+      expect(response.status).toBe(403);
+      expect((await store.users.get('alice'))!.Roles).toEqual(['author']);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { handler } from '../src/scheduler';
+import { Articles } from '../src/services/articles';
+import { Helper } from '../src/services/helper';
+import { Reviews } from '../src/services/reviews';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('scheduled publishing', () => {
+  let store: Store;
+  let alice: any;
+  let admin: any;
+  const hour = 60 * 60;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    admin = await addUser(store, 'admin', { Roles: ['admin'] });
+  });
+
+  // Creates a submission of alice and accepts it for the given time
+  const scheduleArticle = async (publishAt: number) => {
+    const created = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata({ Status: 'review' }), body: '# Hi' });
+    const id = created.body.response.id as string;
+
+    const response = await request(app)
+      .post(`/articles/publish?id=${id}`)
+      .set('Cookie', authCookie(admin))
+      .send({ publishAt });
+    expect(response.status).toBe(200);
+    return id;
+  };
+
+  // Runs the scheduler as if it was the given time
+  const runScheduler = (now: number) => {
+    jest.spyOn(Helper, 'getUNIXTimestamp').mockReturnValue(now);
+    return handler();
+  };
+
+  it('keeps an accepted article private until its time', async () => {
+    const publishAt = Helper.getUNIXTimestamp() + hour;
+    const id = await scheduleArticle(publishAt);
+
+    expect(await store.articles.get('ArticlesUnpublished', id)).toMatchObject({
+      Status: 'scheduled',
+      PublishedAt: publishAt,
+    });
+    expect(await store.articles.get('ArticlesPublished', id)).toBeNull();
+    expect(Reviews.acceptSubmission).toHaveBeenCalledWith(id, 'admin');
+  });
+
+  it('refuses a time in the past', async () => {
+    const created = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: articleMetadata(), body: '' });
+
+    const response = await request(app)
+      .post(`/articles/publish?id=${created.body.response.id}`)
+      .set('Cookie', authCookie(admin))
+      .send({ publishAt: Helper.getUNIXTimestamp() - hour });
+
+    expect(response.status).toBe(400);
+    expect(Reviews.acceptSubmission).not.toHaveBeenCalled();
+  });
+
+  it('publishes the articles that are due', async () => {
+    const now = Helper.getUNIXTimestamp();
+    const due = await scheduleArticle(now + hour);
+    const later = await scheduleArticle(now + 2 * hour);
+
+    const report = await runScheduler(now + hour + 60);
+
+    expect(report).toEqual({ published: [due], failed: [] });
+    expect(await store.articles.get('ArticlesPublished', due)).toMatchObject({
+      PublishedAt: now + hour,
+    });
+    expect(await store.articles.get('ArticlesUnpublished', due)).toBeNull();
+    expect(
+      await store.articles.get('ArticlesUnpublished', later)
+    ).toMatchObject({ Status: 'scheduled' });
+  });
+
+  it('publishes an article accepted early now', async () => {
+    const now = Helper.getUNIXTimestamp();
+    const id = await scheduleArticle(now + hour);
+
+    await request(app)
+      .post(`/articles/publish?id=${id}`)
+      .set('Cookie', authCookie(admin));
+
+    const article = await store.articles.get('ArticlesPublished', id);
+    expect(article!.PublishedAt).toBeLessThanOrEqual(Helper.getUNIXTimestamp());
+  });
+
+  it('takes an edited article out of the schedule', async () => {
+    const id = await scheduleArticle(Helper.getUNIXTimestamp() + hour);
+    const stored = await store.articles.get('ArticlesUnpublished', id);
+
+    const response = await request(app)
+      .put('/articles?visibility=private')
+      .set('Cookie', authCookie(alice))
+      .send({ metadata: { ...stored, Title: 'Changed' }, body: '# Changed' });
+
+    expect(response.status).toBe(200);
+    const article = await store.articles.get('ArticlesUnpublished', id);
+    expect(article!.Status).toBe('private');
+    expect(article!.PublishedAt).toBeUndefined();
+  });
+
+  it('takes a patched article out of the schedule', async () => {
+    const id = await scheduleArticle(Helper.getUNIXTimestamp() + hour);
+
+    const response = await request(app)
+      .patch(`/articles?id=${id}&visibility=private`)
+      .set('Cookie', authCookie(alice))
+      .send({ key: 'body', value: '# Changed' });
+
+    expect(response.status).toBe(200);
+    const scheduled = await Articles.getScheduledArticles();
+    expect(scheduled.response.return).toEqual([]);
+    const article = await store.articles.get('ArticlesUnpublished', id);
+    expect(article!.Status).toBe('private');
+    expect(article!.PublishedAt).toBeUndefined();
+  });
+
+  it('does not let the publication time be patched', async () => {
+    const id = await scheduleArticle(Helper.getUNIXTimestamp() + hour);
+
+    const response = await request(app)
+      .patch(`/articles?id=${id}&visibility=private`)
+      .set('Cookie', authCookie(alice))
+      .send({ key: 'PublishedAt', value: Helper.getUNIXTimestamp() });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('cancels a scheduled publication', async () => {
+    const id = await scheduleArticle(Helper.getUNIXTimestamp() + hour);
+
+    const response = await request(app)
+      .post(`/articles/unschedule?id=${id}`)
+      .set('Cookie', authCookie(admin));
+
+    expect(response.status).toBe(200);
+    const article = await store.articles.get('ArticlesUnpublished', id);
+    expect(article!.Status).toBe('private');
+    expect(
+      (await runScheduler(Helper.getUNIXTimestamp() + 2 * hour)).published
+    ).toEqual([]);
+  });
+
+  it('lists the upcoming publications for reviewers', async () => {
+    const now = Helper.getUNIXTimestamp();
+    const second = await scheduleArticle(now + 2 * hour);
+    const first = await scheduleArticle(now + hour);
+
+    const response = await request(app)
+      .get('/articles/scheduled')
+      .set('Cookie', authCookie(admin));
+
+    expect(response.status).toBe(200);
+    expect(response.body.response.return.map((item: any) => item.ID)).toEqual([
+      first,
+      second,
+    ]);
+
+    const denied = await request(app)
+      .get('/articles/scheduled')
+      .set('Cookie', authCookie(alice));
+    expect(denied.status).toBe(403);
+  });
+});
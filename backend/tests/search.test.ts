@@ -0,0 +1,134 @@
+import { Search } from '../src/services/search';
+import { Stemmer } from '../src/services/stemmer';
+import { mockDynamoDB } from './helpers';
+
+describe('Stemmer', () => {
+  it('reduces words to their porter stem', () => {
+    expect(Stemmer.stem('caresses')).toBe('caress');
+    expect(Stemmer.stem('ponies')).toBe('poni');
+    expect(Stemmer.stem('hopping')).toBe('hop');
+    expect(Stemmer.stem('relational')).toBe('relat');
+    expect(Stemmer.stem('techniques')).toBe('techniqu');
+    expect(Stemmer.stem('programming')).toBe('program');
+  });
+
+  it('gives the forms of a word the same stem', () => {
+    expect(Stemmer.stem('connected')).toBe(Stemmer.stem('connection'));
+    expect(Stemmer.stem('searching')).toBe(Stemmer.stem('searches'));
+  });
+
+  it('leaves short words alone', () => {
+    expect(Stemmer.stem('is')).toBe('is');
+    expect(Stemmer.stem('go')).toBe('go');
+  });
+});
+
+describe('Search', () => {
+  describe('tokenize', () => {
+    it('stems the words and skips the stop words', () => {
+      expect(Search.tokenize('The searching of the trees')).toEqual([
+        'search',
+        'tree',
+      ]);
+    });
+
+    it('keeps language names and drops urls', () => {
+      expect(
+        Search.tokenize('Learn C++ and C# at https://example.com/c [docs](x)')
+      ).toEqual(['learn', 'c++', 'c#', 'doc']);
+    });
+
+    it('returns no terms for a text that is not a string', () => {
+      expect(Search.tokenize(undefined as any)).toEqual([]);
+    });
+  });
+
+  describe('searchArticles', () => {
+    // Postings of the term "tree" (stemmed from "trees"), in no useful order
+    const postings = [
+      { ArticleID: 'rare', TermFrequency: 1, DocLength: 100 },
+      { ArticleID: 'short', TermFrequency: 3, DocLength: 20 },
+      { ArticleID: 'long', TermFrequency: 3, DocLength: 1000 },
+    ];
+
+    const useIndex = () =>
+      mockDynamoDB((name, input) => {
+        if (name == 'GetItemCommand') {
+          return {
+            Item: { DocCount: { N: '10' }, TotalLength: { N: '1000' } },
+          };
+        }
+        if (name == 'QueryCommand') {
+          const term = input.ExpressionAttributeValues[':t'].S;
+          return {
+            Items: (term == 'tree' ? postings : []).map((posting) => ({
+              Term: { S: term },
+              ArticleID: { S: posting.ArticleID },
+              TermFrequency: { N: String(posting.TermFrequency) },
+              DocLength: { N: String(posting.DocLength) },
+              PrimaryCategory: { S: 'programming' },
+            })),
+          };
+        }
+        if (name == 'BatchGetItemCommand') {
+          return {
+            Responses: {
+              ArticlesPublished: input.RequestItems.ArticlesPublished.Keys,
+            },
+          };
+        }
+      });
+
+    // The long article holds the term as often as the short one, but its
+    // length outweighs that even against the article holding it once
+    it('ranks the articles by BM25 score', async () => {
+      useIndex();
+
+      const result = await Search.searchArticles('trees', {}, 1, 10);
+
+      expect(result.status).toBe(200);
+      expect(result.response.return.map((article: any) => article.ID)).toEqual([
+        'short',
+        'rare',
+        'long',
+      ]);
+      expect(result.response.total).toBe(3);
+    });
+
+    it('pages through the ranking with a cursor', async () => {
+      useIndex();
+
+      const first = await Search.searchArticles('trees', {}, 1, 2);
+      const second = await Search.searchArticles(
+        'trees',
+        {},
+        1,
+        2,
+        first.response.cursor
+      );
+
+      expect(first.response.hasMore).toBe(true);
+      expect(second.response.return.map((article: any) => article.ID)).toEqual([
+        'long',
+      ]);
+      expect(second.response.hasMore).toBe(false);
+    });
+
+    it('does not query the index for a query of stop words', async () => {
+      const send = useIndex();
+
+      const result = await Search.searchArticles('the and of', {}, 1, 10);
+
+      expect(result.response.return).toEqual([]);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('answers with a server error when the index cannot be read', async () => {
+      mockDynamoDB(() => new Error('unavailable'));
+
+      const result = await Search.searchArticles('trees', {}, 1, 10);
+
+      expect(result.status).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Helper } from '../src/services/helper';
+import { Sessions } from '../src/services/sessions';
+import {
+  Store,
+  addUser,
+  authCookie,
+  refreshCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('sessions', () => {
+  let store: Store;
+  let alice: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+  });
+
+  // Returns the refresh cookie set by a response, or undefined
+  const getRefreshCookie = (response: request.Response) => {
+    const cookies = (response.headers['set-cookie'] || []) as string[];
+    return cookies
+      .find((cookie) => cookie.startsWith('refresh='))
+      ?.split(';')[0];
+  };
+
+  const refresh = (cookie: string) =>
+    request(app).get('/user/token-refresh').set('Cookie', cookie);
+
+  const listSessions = (cookie: string) =>
+    request(app)
+      .get('/user/sessions')
+      .set('Cookie', `${authCookie(alice)}; ${cookie}`);
+
+  it('starts a session when signing in', async () => {
+    const signIn = await request(app)
+      .post('/user/sign-in')
+      .set('User-Agent', 'Firefox')
+      .send({ username: 'alice', password: 'password123' });
+
+    const response = await listSessions(getRefreshCookie(signIn)!);
+
+    expect(response.status).toBe(200);
+    expect(response.body.response.return).toEqual([
+      expect.objectContaining({ UserAgent: 'Firefox', Current: true }),
+    ]);
+  });
+
+  it('answers with a server error when the session cannot be stored', async () => {
+    jest.spyOn(Sessions, 'create').mockRejectedValue(new Error('down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await request(app)
+      .post('/user/sign-in')
+      .send({ username: 'alice', password: 'password123' });
+
+    expect(response.status).toBe(500);
+  });
+
+  describe('GET /token-refresh', () => {
+    it('replaces the refresh token', async () => {
+      const cookie = await refreshCookie(alice);
+
+      const response = await refresh(cookie);
+
+      expect(response.status).toBe(200);
+      const next = getRefreshCookie(response);
+      expect(next).toBeDefined();
+      expect(next).not.toBe(cookie);
+      expect((await refresh(next!)).status).toBe(200);
+    });
+
+    it('lets the previous token through right after the rotation', async () => {
+      const cookie = await refreshCookie(alice);
+      await refresh(cookie);
+
+      const again = await refresh(cookie);
+
+      expect(again.status).toBe(200);
+      expect(getRefreshCookie(again)).toBeUndefined();
+    });
+
+    it('ends the session when an old token is used again', async () => {
+      const cookie = await refreshCookie(alice);
+      const next = getRefreshCookie(await refresh(cookie))!;
+      jest
+        .spyOn(Helper, 'getUNIXTimestamp')
+        .mockReturnValue(Math.floor(Date.now() / 1000) + 60);
+
+      const reused = await refresh(cookie);
+
+      expect(reused.status).toBe(401);
+      expect(reused.body.response.message).toBe('session ended');
+      expect((await refresh(next)).status).toBe(401);
+      expect(
+        (await store.audit.listByTarget('alice', 10)).items[0]
+      ).toMatchObject({ Actor: 'system', Action: 'session.reuse' });
+    });
+
+    it('refuses refresh tokens without a session', async () => {
+      const cookie = await refreshCookie(alice);
+      await store.tokens.deleteMany(await store.tokens.listValues('alice'));
+
+      expect((await refresh(cookie)).status).toBe(401);
+    });
+  });
+
+  describe('POST /logout', () => {
+    it('ends the session and clears the cookies', async () => {
+      const cookie = await refreshCookie(alice);
+
+      const response = await request(app)
+        .post('/user/logout')
+        .set('Cookie', cookie);
+
+      expect(response.status).toBe(200);
+      expect(getRefreshCookie(response)).toBe('refresh=');
+      expect((await refresh(cookie)).status).toBe(401);
+    });
+  });
+
+  describe('DELETE /sessions', () => {
+    it('ends a single session', async () => {
+      const current = await refreshCookie(alice, 'Firefox');
+      const other = await refreshCookie(alice, 'Chrome');
+      const sessions = (await listSessions(current)).body.response.return;
+      const id = sessions.find((session: any) => !session.Current).ID;
+
+      const response = await request(app)
+        .delete(`/user/sessions?id=${id}`)
+        .set('Cookie', `${authCookie(alice)}; ${current}`);
+
+      expect(response.status).toBe(200);
+      expect((await refresh(other)).status).toBe(401);
+      expect((await refresh(current)).status).toBe(200);
+    });
+
+    it('signs out everywhere without an id', async () => {
+      const first = await refreshCookie(alice);
+      const second = await refreshCookie(alice);
+
+      const response = await request(app)
+        .delete('/user/sessions')
+        .set('Cookie', `${authCookie(alice)}; ${first}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.ended).toBe(2);
+      expect((await refresh(first)).status).toBe(401);
+      expect((await refresh(second)).status).toBe(401);
+    });
+
+    it('does not end the sessions of other users', async () => {
+      const bob = await addUser(store, 'bob');
+      const cookie = await refreshCookie(bob);
+      const id = (await store.tokens.listValues('bob'))[0];
+
+      const response = await request(app)
+        .delete(`/user/sessions?id=${id}`)
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(404);
+      expect((await refresh(cookie)).status).toBe(200);
+    });
+  });
+
+  describe('POST /change-password', () => {
+    it('ends the other sessions when the password changes', async () => {
+      const current = await refreshCookie(alice);
+      const other = await refreshCookie(alice);
+
+      const response = await request(app)
+        .post('/user/change-password')
+        .set('Cookie', `${authCookie(alice)}; ${current}`)
+        .send({ oldPassword: 'password123', newPassword: 'new-Password1' });
+
+      expect(response.status).toBe(200);
+      expect((await refresh(other)).status).toBe(401);
+      expect((await refresh(current)).status).toBe(200);
+    });
+  });
+});
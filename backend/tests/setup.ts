@@ -0,0 +1,25 @@
+// The tests run without AWS: the routes get the in-memory repositories from
+// ./helpers, anything else that reaches DynamoDB fails right away
+jest.mock('../src/services/dynamodb', () => ({
+  client: {
+    send: () => Promise.reject(new Error('DynamoDB is not available in tests')),
+  },
+}));
+
+// Every request of a suite comes from the same address
+jest.mock('../src/services/rateLimiting', () => ({
+  RateLimiting: new Proxy(
+    {},
+    { get: () => (req: any, res: any, next: any) => next() }
+  ),
+}));
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
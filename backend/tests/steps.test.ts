@@ -0,0 +1,211 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Articles } from '../src/services/articles';
+import { Steps } from '../src/services/steps';
+import { UserManagment } from '../src/services/userManagment';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('step by step articles', () => {
+  let store: Store;
+  let alice: any;
+  let bob: any;
+
+  const steps = [
+    { Title: 'Print the case', Body: '![case](case.png)', Minutes: 240 },
+    { Title: 'Solder the header', Body: 'Tin the pads first.\n\n$V = IR$' },
+    { Title: 'Flash the firmware', Body: '```bash\nmake flash\n```' },
+  ];
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    bob = await addUser(store, 'bob');
+  });
+
+  // Creates a step by step article of alice and returns its id
+  const createArticle = async (fields: any = {}) => {
+    const response = await request(app)
+      .post('/articles')
+      .set('Cookie', authCookie(alice))
+      .send({
+        metadata: articleMetadata({ Format: 'steps', ...fields }),
+        body: 'You will need a soldering iron.',
+        steps,
+      });
+    expect(response.status).toBe(200);
+    return response.body.response.id as string;
+  };
+
+  const getArticle = async (id: string) =>
+    (
+      await request(app)
+        .get(`/articles/get?id=${id}&visibility=private`)
+        .set('Cookie', authCookie(alice))
+    ).body.response.return;
+
+  const setStep = (id: string, stepId: string, done: boolean, user = bob) =>
+    request(app)
+      .put(`/articles/steps/progress?id=${id}`)
+      .set('Cookie', authCookie(user))
+      .send({ stepId, done });
+
+  it('round-trips the steps through the markdown in the storage', async () => {
+    const id = await createArticle();
+
+    const article = await getArticle(id);
+    expect(article.intro).toBe('You will need a soldering iron.');
+    expect(article.steps).toEqual(
+      steps.map((step) => ({
+        ID: expect.any(String),
+        Minutes: null,
+        ...step,
+      }))
+    );
+    expect(article.metadata).toMatchObject({ Format: 'steps', StepCount: 3 });
+
+    const file = store.storage.files
+      .get(`ArticlesUnpublished/${id}.md`)!
+      .toString();
+    expect(file).toContain('Format: steps');
+    expect(file).toContain(
+      `<!-- step id="${article.steps[0].ID}" minutes="240" -->\n## Print the case`
+    );
+    expect(Steps.serialize(article.intro, article.steps).trim()).toBe(
+      article.body.trim()
+    );
+  });
+
+  it('keeps the step ids when the article is edited', async () => {
+    const id = await createArticle();
+    const [first, , third] = (await getArticle(id)).steps;
+
+    const response = await request(app)
+      .put('/articles?visibility=private')
+      .set('Cookie', authCookie(alice))
+      .send({
+        metadata: articleMetadata({ ID: id, Format: 'steps' }),
+        body: '',
+        steps: [third, { ...first, Title: 'Print the lid' }],
+      });
+
+    expect(response.status).toBe(200);
+    const edited = await getArticle(id);
+    expect(edited.steps.map((step: any) => step.ID)).toEqual([
+      third.ID,
+      first.ID,
+    ]);
+    expect(edited.steps[1].Title).toBe('Print the lid');
+    expect(edited.metadata.StepCount).toBe(2);
+  });
+
+  it('refuses invalid steps', async () => {
+    const send = (fields: any) =>
+      request(app)
+        .post('/articles')
+        .set('Cookie', authCookie(alice))
+        .send({
+          metadata: articleMetadata({ Format: 'steps' }),
+          body: '',
+          steps,
+          ...fields,
+        });
+
+    expect((await send({ steps: [] })).status).toBe(400);
+    expect((await send({ steps: [{ Title: '', Body: '' }] })).status).toBe(400);
+    expect(
+      (await send({ steps: [{ Title: 'A', Body: '', Minutes: -5 }] })).status
+    ).toBe(400);
+    expect(
+      (await send({ body: '<!-- step id="x" -->\n## Sneaky' })).status
+    ).toBe(400);
+    expect(
+      (
+        await send({
+          steps: [{ Title: 'A', Body: '$\\frac{a}{b$' }],
+        })
+      ).status
+    ).toBe(400);
+    expect(
+      (
+        await request(app)
+          .post('/articles')
+          .set('Cookie', authCookie(alice))
+          .send({
+            metadata: articleMetadata({ Format: 'slides' }),
+            body: '',
+          })
+      ).status
+    ).toBe(400);
+  });
+
+  it('tracks the progress of every reader', async () => {
+    const id = await createArticle();
+    await Articles.publishArticle(id);
+    const [first, second] = (
+      await request(app).get(`/articles/get?id=${id}&visibility=public`)
+    ).body.response.return.steps;
+
+    expect((await setStep(id, second.ID, true)).status).toBe(200);
+    const response = await setStep(id, first.ID, true);
+    expect(response.body.response.return).toMatchObject({
+      Completed: [first.ID, second.ID],
+      LastStep: first.ID,
+    });
+    await setStep(id, second.ID, false);
+
+    const progress = await request(app)
+      .get(`/articles/steps/progress?id=${id}`)
+      .set('Cookie', authCookie(bob));
+    expect(progress.body.response.return).toMatchObject({
+      Completed: [first.ID],
+      LastStep: second.ID,
+    });
+
+    const other = await request(app)
+      .get(`/articles/steps/progress?id=${id}`)
+      .set('Cookie', authCookie(alice));
+    expect(other.body.response.return.Completed).toEqual([]);
+
+    expect((await setStep(id, 'missing', true)).status).toBe(404);
+    expect(
+      (
+        await request(app)
+          .put(`/articles/steps/progress?id=${id}`)
+          .send({ stepId: first.ID, done: true })
+      ).status
+    ).toBe(400);
+  });
+
+  it('keeps the progress of private articles to their readers', async () => {
+    const id = await createArticle();
+    const [first] = (await getArticle(id)).steps;
+
+    expect((await setStep(id, first.ID, true)).status).toBe(403);
+    expect((await setStep(id, first.ID, true, alice)).status).toBe(200);
+  });
+
+  it('removes the progress with the article and the reader', async () => {
+    const kept = await createArticle();
+    const removed = await createArticle();
+    const keptStep = (await getArticle(kept)).steps[0].ID;
+    const removedStep = (await getArticle(removed)).steps[0].ID;
+    await setStep(removed, removedStep, true, alice);
+
+    await Articles.removeArticle('ArticlesUnpublished', removed);
+    expect(await store.stepProgress.get('alice', removed)).toBeNull();
+
+    await Articles.publishArticle(kept);
+    await setStep(kept, keptStep, true);
+    await setStep(kept, keptStep, true, alice);
+    await UserManagment.removeUserAccount('bob');
+    expect(await store.stepProgress.get('bob', kept)).toBeNull();
+    expect(await store.stepProgress.get('alice', kept)).not.toBeNull();
+  });
+});
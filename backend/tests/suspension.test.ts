@@ -0,0 +1,141 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Helper } from '../src/services/helper';
+import { Search } from '../src/services/search';
+import { Storage } from '../src/services/storage';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  refreshCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('suspensions', () => {
+  let store: Store;
+  let alice: any;
+  let admin: any;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    admin = await addUser(store, 'admin', { Roles: ['admin'] });
+  });
+
+  const suspend = async (until: number | null = null) => {
+    const response = await request(app)
+      .post('/admin/users/alice/suspension')
+      .set('Cookie', authCookie(admin))
+      .send({ reason: 'spam', until });
+    expect(response.status).toBe(200);
+  };
+
+  // Titles of the published articles in the programming category
+  const listTitles = async () => {
+    const response = await request(app).get(
+      '/articles/programming?searchBy=date'
+    );
+    return response.body.response.return.map((article: any) => article.Title);
+  };
+
+  it('refuses to sign in with the reason and the end', async () => {
+    const until = Helper.getUNIXTimestamp() + 3600;
+    await suspend(until);
+
+    const response = await request(app)
+      .post('/user/sign-in')
+      .send({ username: 'alice', password: 'password123' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.response).toEqual({
+      message: 'account suspended',
+      suspension: { Reason: 'spam', Until: until },
+    });
+  });
+
+  it('refuses to refresh the token', async () => {
+    const cookie = await refreshCookie(alice);
+    await suspend();
+
+    const response = await request(app)
+      .get('/user/token-refresh')
+      .set('Cookie', cookie);
+
+    expect(response.status).toBe(403);
+    expect(response.body.response.message).toBe('account suspended');
+  });
+
+  it('stops a token issued before the suspension', async () => {
+    const cookie = authCookie(alice);
+    await suspend();
+
+    const response = await request(app)
+      .post('/articles')
+      .set('Cookie', cookie)
+      .send({ metadata: articleMetadata(), body: '# Suspended' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.response.message).toBe('account suspended');
+  });
+
+  it('hides the articles from the listings until reinstated', async () => {
+    await store.articles.put(
+      'ArticlesPublished',
+      articleMetadata({ ID: 'a', Title: 'By alice', CreatedAt: 2 })
+    );
+    await store.articles.put(
+      'ArticlesPublished',
+      articleMetadata({ ID: 'b', Title: 'By bob', Author: 'bob', CreatedAt: 1 })
+    );
+
+    await suspend();
+    expect(await listTitles()).toEqual(['By bob']);
+
+    await request(app)
+      .delete('/admin/users/alice/suspension')
+      .set('Cookie', authCookie(admin));
+    expect(await listTitles()).toEqual(['By alice', 'By bob']);
+  });
+
+  it('keeps the articles out of the search index until reinstated', async () => {
+    await store.articles.put(
+      'ArticlesPublished',
+      articleMetadata({ ID: 'a', Title: 'By alice' })
+    );
+    await Storage.addArticle(
+      'ArticlesPublished',
+      articleMetadata({ ID: 'a', Title: 'By alice' }),
+      '# Hello'
+    );
+
+    await suspend();
+    expect(Search.removeArticle).toHaveBeenCalledWith('a');
+
+    await request(app)
+      .delete('/admin/users/alice/suspension')
+      .set('Cookie', authCookie(admin));
+    expect(Search.indexArticle).toHaveBeenCalledWith(
+      expect.objectContaining({ ID: 'a', Title: 'By alice' }),
+      expect.stringContaining('# Hello')
+    );
+  });
+
+  it('lifts a suspension that has ended', async () => {
+    await suspend(Helper.getUNIXTimestamp() + 3600);
+    await store.users.update('alice', {
+      Suspension: { Reason: 'spam', Until: 100, By: 'admin', Since: 0 },
+    });
+
+    const response = await request(app)
+      .post('/user/sign-in')
+      .send({ username: 'alice', password: 'password123' });
+
+    expect(response.status).toBe(200);
+    expect((await store.users.get('alice'))!.Suspension).toBeNull();
+    expect(await store.audit.listByTarget('alice', 10)).toMatchObject({
+      items: [{ Actor: 'system', Action: 'user.reinstate' }, {}],
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { DynamoUserRepository } from '../src/repositories/dynamoUserRepository';
+import { Helper } from '../src/services/helper';
+import { Totp } from '../src/services/totp';
+import { UserManagment } from '../src/services/userManagment';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  mockDynamoDB,
+  useMemoryStore,
+} from './helpers';
+
+describe('two-factor authentication', () => {
+  let store: Store;
+  let alice: any;
+  let admin: any;
+  let now: number;
+
+  beforeEach(async () => {
+    store = useMemoryStore();
+    alice = await addUser(store, 'alice');
+    admin = await addUser(store, 'admin', { Roles: ['admin'] });
+
+    // Every code is accepted once, the tests move to the next time step
+    now = 1700000000;
+    jest.spyOn(Helper, 'getUNIXTimestamp').mockImplementation(() => now);
+  });
+
+  const nextCode = (secret: string) => {
+    now += 30;
+    return Totp.generateCode(secret, Totp.getCounter(now));
+  };
+
+  // Enrolls a user and returns the secret and the recovery codes
+  const enroll = async (user: any) => {
+    const setup = await request(app)
+      .post('/user/2fa/setup')
+      .set('Cookie', authCookie(user));
+    const secret = setup.body.response.secret;
+
+    const enable = await request(app)
+      .post('/user/2fa/enable')
+      .set('Cookie', authCookie(user))
+      .send({ code: nextCode(secret) });
+    expect(enable.status).toBe(200);
+
+    return { secret, recoveryCodes: enable.body.response.recoveryCodes };
+  };
+
+  const signIn = (username: string) =>
+    request(app)
+      .post('/user/sign-in')
+      .send({ username, password: 'password123' });
+
+  const getChallenge = async (username: string) =>
+    (await signIn(username)).body.response.challenge as string;
+
+  const sendCode = (challenge: string, code: string) =>
+    request(app).post('/user/sign-in/2fa').send({ challenge, code });
+
+  it('generates the codes of RFC 6238', () => {
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    expect(Totp.generateCode(secret, Totp.getCounter(59))).toBe('287082');
+    expect(Totp.generateCode(secret, Totp.getCounter(1111111109))).toBe(
+      '081804'
+    );
+  });
+
+  describe('enrollment', () => {
+    it('enables it with the first code and returns recovery codes', async () => {
+      const setup = await request(app)
+        .post('/user/2fa/setup')
+        .set('Cookie', authCookie(alice));
+
+      expect(setup.status).toBe(200);
+      expect(setup.body.response.uri).toContain(
+        `secret=${setup.body.response.secret}`
+      );
+      expect((await store.users.get('alice'))!.TwoFactor.Secret).not.toBe(
+        setup.body.response.secret
+      );
+
+      const enable = await request(app)
+        .post('/user/2fa/enable')
+        .set('Cookie', authCookie(alice))
+        .send({ code: nextCode(setup.body.response.secret) });
+
+      expect(enable.status).toBe(200);
+      expect(enable.body.response.recoveryCodes).toHaveLength(10);
+
+      const status = await request(app)
+        .get('/user/2fa')
+        .set('Cookie', authCookie(alice));
+      expect(status.body.response).toEqual({
+        enabled: true,
+        required: false,
+        recoveryCodes: 10,
+      });
+    });
+
+    it('rejects a wrong first code', async () => {
+      await request(app)
+        .post('/user/2fa/setup')
+        .set('Cookie', authCookie(alice));
+
+      const enable = await request(app)
+        .post('/user/2fa/enable')
+        .set('Cookie', authCookie(alice))
+        .send({ code: '000000' });
+
+      expect(enable.status).toBe(400);
+      expect((await store.users.get('alice'))!.TwoFactor.Enabled).toBe(false);
+    });
+
+    it('keeps the secret and the codes out of the token', async () => {
+      await enroll(alice);
+
+      const claims = UserManagment.getClaims(await store.users.get('alice'));
+
+      expect(claims.TwoFactor).toBeUndefined();
+    });
+  });
+
+  describe('signing in', () => {
+    it('asks for a code before setting the cookies', async () => {
+      const { secret } = await enroll(alice);
+
+      const first = await signIn('alice');
+
+      expect(first.status).toBe(200);
+      expect(first.body.response.challenge).toBeDefined();
+      expect(first.body.response.user).toBeUndefined();
+      expect(first.headers['set-cookie']).toBeUndefined();
+
+      const second = await sendCode(
+        first.body.response.challenge,
+        nextCode(secret)
+      );
+
+      expect(second.status).toBe(200);
+      expect(second.body.response.user.Username).toBe('alice');
+      expect(second.headers['set-cookie']).toBeDefined();
+    });
+
+    it('accepts a code only once', async () => {
+      const { secret } = await enroll(alice);
+      const code = nextCode(secret);
+      await sendCode(await getChallenge('alice'), code);
+
+      const again = await sendCode(await getChallenge('alice'), code);
+
+      expect(again.status).toBe(401);
+    });
+
+    it('rejects a code that another request used meanwhile', async () => {
+      const { secret } = await enroll(alice);
+      const challenge = await getChallenge('alice');
+      const code = nextCode(secret);
+      // The other request raises the counter between the read and the update
+      const setCounter = store.users.setTwoFactorCounter.bind(store.users);
+      jest
+        .spyOn(store.users, 'setTwoFactorCounter')
+        .mockImplementation(async (username, counter) => {
+          await setCounter(username, counter);
+          return await setCounter(username, counter);
+        });
+
+      const response = await sendCode(challenge, code);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('accepts a recovery code once', async () => {
+      const { recoveryCodes } = await enroll(alice);
+
+      const first = await sendCode(
+        await getChallenge('alice'),
+        recoveryCodes[0]
+      );
+      const second = await sendCode(
+        await getChallenge('alice'),
+        recoveryCodes[0]
+      );
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(401);
+      expect(
+        (await store.users.get('alice'))!.TwoFactor.RecoveryCodes
+      ).toHaveLength(9);
+    });
+
+    it('ends the challenge after five wrong codes', async () => {
+      const { secret } = await enroll(alice);
+      const challenge = await getChallenge('alice');
+
+      for (let i = 0; i < 5; i++) {
+        expect((await sendCode(challenge, '000000')).status).toBe(401);
+      }
+
+      expect((await sendCode(challenge, nextCode(secret))).status).toBe(401);
+    });
+  });
+
+  describe('disabling', () => {
+    it('needs the password and a code', async () => {
+      const { secret } = await enroll(alice);
+
+      const wrongPassword = await request(app)
+        .post('/user/2fa/disable')
+        .set('Cookie', authCookie(alice))
+        .send({ password: 'wrong-password', code: nextCode(secret) });
+      expect(wrongPassword.status).toBe(401);
+
+      const response = await request(app)
+        .post('/user/2fa/disable')
+        .set('Cookie', authCookie(alice))
+        .send({ password: 'password123', code: nextCode(secret) });
+
+      expect(response.status).toBe(200);
+      expect((await store.users.get('alice'))!.TwoFactor).toBeNull();
+      expect((await signIn('alice')).body.response.user).toBeDefined();
+    });
+  });
+
+  describe('required for roles', () => {
+    const requireFor = (roles: string[]) =>
+      request(app)
+        .put('/user/roles/two-factor')
+        .set('Cookie', authCookie(admin))
+        .send({ roles });
+
+    it('withholds the permissions until the user enrolls', async () => {
+      const ada = await addUser(store, 'ada', { Roles: ['admin'] });
+      await enroll(admin);
+      expect((await requireFor(['admin'])).status).toBe(200);
+
+      expect((await signIn('ada')).body.response.twoFactorSetup).toBe(true);
+      const refused = await request(app)
+        .get('/user/roles')
+        .set('Cookie', authCookie(ada));
+      expect(refused.status).toBe(403);
+      expect(refused.body.response.message).toBe(
+        'two-factor authentication required'
+      );
+
+      await enroll(ada);
+      const allowed = await request(app)
+        .get('/user/roles')
+        .set('Cookie', authCookie(ada));
+      expect(allowed.status).toBe(200);
+    });
+
+    it('withholds the permissions in the article routes too', async () => {
+      const ada = await addUser(store, 'ada', { Roles: ['admin'] });
+      await enroll(admin);
+      await requireFor(['admin']);
+      const created = await request(app)
+        .post('/articles')
+        .set('Cookie', authCookie(alice))
+        .send({ metadata: articleMetadata(), body: '' });
+      const id = created.body.response.id;
+
+      const readPrivate = () =>
+        request(app)
+          .get(`/articles/get?id=${id}&visibility=private`)
+          .set('Cookie', authCookie(ada));
+      const deleteArticle = () =>
+        request(app)
+          .delete(`/articles/delete?id=${id}&visibility=private`)
+          .set('Cookie', authCookie(ada));
+
+      expect((await readPrivate()).status).toBe(403);
+      expect((await deleteArticle()).status).toBe(403);
+
+      await enroll(ada);
+      expect((await readPrivate()).status).toBe(200);
+    });
+
+    it('does not let admins lock themselves out', async () => {
+      const refused = await requireFor(['admin']);
+      expect(refused.status).toBe(400);
+
+      await enroll(admin);
+      expect((await requireFor(['admin'])).status).toBe(200);
+    });
+
+    it('cannot be disabled while required', async () => {
+      const { secret } = await enroll(alice);
+      await requireFor(['author']);
+
+      const response = await request(app)
+        .post('/user/2fa/disable')
+        .set('Cookie', authCookie(alice))
+        .send({ password: 'password123', code: nextCode(secret) });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects unknown roles', async () => {
+      expect((await requireFor(['owner'])).status).toBe(400);
+    });
+  });
+});
+
+describe('DynamoUserRepository.setTwoFactorCounter', () => {
+  it('raises the counter only if it is lower', async () => {
+    const send = mockDynamoDB(() => ({}));
+
+    expect(
+      await new DynamoUserRepository().setTwoFactorCounter('alice', 7)
+    ).toBe(true);
+
+    const input = (send.mock.calls[0][0] as any).input;
+    expect(input.ConditionExpression).toContain(
+      'TwoFactor.LastCounter < :counter'
+    );
+    expect(input.ExpressionAttributeValues).toEqual({ ':counter': { N: '7' } });
+  });
+
+  it('resolves to false when the condition fails', async () => {
+    mockDynamoDB(() =>
+      Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+      })
+    );
+
+    expect(
+      await new DynamoUserRepository().setTwoFactorCounter('alice', 7)
+    ).toBe(false);
+  });
+});
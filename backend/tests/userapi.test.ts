@@ -0,0 +1,269 @@
+import request from 'supertest';
+
+import app from '../src/app';
+import { Likes } from '../src/services/likes';
+import {
+  Store,
+  addUser,
+  articleMetadata,
+  authCookie,
+  useMemoryStore,
+} from './helpers';
+
+describe('/user', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = useMemoryStore();
+  });
+
+  describe('POST /sign-up', () => {
+    it('creates an unverified user with a verification token', async () => {
+      const response = await request(app).post('/user/sign-up').send({
+        username: 'carol',
+        password: 'correct-horse-42',
+        email: 'carol@example.com',
+      });
+
+      expect(response.status).toBe(200);
+      const user = await store.users.get('carol');
+      expect(user).toMatchObject({
+        Email: 'carol@example.com',
+        Verified: 'false',
+      });
+      expect(user!.Password).not.toBe('correct-horse-42');
+
+      const [code] = await store.tokens.listValues('carol');
+      expect(await store.tokens.get(code)).toMatchObject({
+        type: 'email_verification',
+      });
+    });
+
+    it('rejects a taken username', async () => {
+      await addUser(store, 'carol');
+
+      const response = await request(app).post('/user/sign-up').send({
+        username: 'carol',
+        password: 'correct-horse-42',
+        email: 'other@example.com',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.response.message).toBe('username is already in use');
+    });
+
+    it('rejects a short password', async () => {
+      const response = await request(app).post('/user/sign-up').send({
+        username: 'carol',
+        password: 'short',
+        email: 'carol@example.com',
+      });
+
+      expect(response.status).toBe(400);
+      expect(await store.users.get('carol')).toBeNull();
+    });
+  });
+
+  describe('POST /email-verification/:code', () => {
+    it('verifies the account once', async () => {
+      await request(app).post('/user/sign-up').send({
+        username: 'carol',
+        password: 'correct-horse-42',
+        email: 'carol@example.com',
+      });
+      const [code] = await store.tokens.listValues('carol');
+
+      const response = await request(app).post(
+        `/user/email-verification/${code}`
+      );
+
+      expect(response.status).toBe(200);
+      expect((await store.users.get('carol'))!.Verified).toBe('true');
+      expect(await store.tokens.get(code)).toBeNull();
+
+      const again = await request(app).post(`/user/email-verification/${code}`);
+      expect(again.status).toBe(404);
+    });
+  });
+
+  describe('POST /sign-in', () => {
+    it('returns the user without the password and sets the cookies', async () => {
+      await addUser(store, 'alice');
+
+      const response = await request(app)
+        .post('/user/sign-in')
+        .send({ username: 'alice', password: 'password123' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.response.user.Username).toBe('alice');
+      expect(response.body.response.user.Password).toBeUndefined();
+      expect(response.body.response.accessToken).toBeUndefined();
+      const cookies = response.headers['set-cookie'] as unknown as string[];
+      expect(cookies.some((cookie) => cookie.startsWith('token='))).toBe(true);
+      expect(cookies.some((cookie) => cookie.startsWith('refresh='))).toBe(
+        true
+      );
+    });
+
+    it('rejects a wrong password', async () => {
+      await addUser(store, 'alice');
+
+      const response = await request(app)
+        .post('/user/sign-in')
+        .send({ username: 'alice', password: 'wrong-password' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /change-password', () => {
+    it('replaces the password hash', async () => {
+      const alice = await addUser(store, 'alice');
+
+      const response = await request(app)
+        .post('/user/change-password')
+        .set('Cookie', authCookie(alice))
+        .send({ oldPassword: 'password123', newPassword: 'new-password' });
+
+      expect(response.status).toBe(200);
+      const signIn = await request(app)
+        .post('/user/sign-in')
+        .send({ username: 'alice', password: 'new-password' });
+      expect(signIn.status).toBe(200);
+    });
+
+    it('requires the old password', async () => {
+      const alice = await addUser(store, 'alice');
+
+      const response = await request(app)
+        .post('/user/change-password')
+        .set('Cookie', authCookie(alice))
+        .send({ oldPassword: 'wrong-password', newPassword: 'new-password' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('requires a verified account', async () => {
+      const alice = await addUser(store, 'alice', { Verified: 'false' });
+
+      const response = await request(app)
+        .post('/user/change-password')
+        .set('Cookie', authCookie(alice))
+        .send({ oldPassword: 'password123', newPassword: 'new-password' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /change-email', () => {
+    it('sends a token that changes the email', async () => {
+      const alice = await addUser(store, 'alice');
+
+      const response = await request(app)
+        .post('/user/change-email')
+        .set('Cookie', authCookie(alice))
+        .send({ password: 'password123', newEmail: 'new@example.com' });
+      expect(response.status).toBe(200);
+
+      const [token] = await store.tokens.listValues('alice');
+      const verify = await request(app).post(
+        `/user/verify-email-change/${token}`
+      );
+
+      expect(verify.status).toBe(200);
+      expect((await store.users.get('alice'))!.Email).toBe('new@example.com');
+    });
+  });
+
+  describe('POST /remove-account', () => {
+    it('removes the user with their articles and tokens', async () => {
+      const alice = await addUser(store, 'alice');
+      await store.articles.put(
+        'ArticlesUnpublished',
+        articleMetadata({ ID: '00000000-0000-4000-8000-000000000001' })
+      );
+      await store.tokens.create({
+        username: 'alice',
+        value: 'token',
+        type: 'password_reset',
+        expiration: 0,
+      });
+
+      const response = await request(app)
+        .post('/user/remove-account')
+        .set('Cookie', authCookie(alice))
+        .send({ password: 'password123' });
+
+      expect(response.status).toBe(200);
+      expect(await store.users.get('alice')).toBeNull();
+      expect(await store.tokens.listValues('alice')).toEqual([]);
+      expect(
+        await store.articles.get(
+          'ArticlesUnpublished',
+          '00000000-0000-4000-8000-000000000001'
+        )
+      ).toBeNull();
+    });
+
+    it('requires the password', async () => {
+      const alice = await addUser(store, 'alice');
+
+      const response = await request(app)
+        .post('/user/remove-account')
+        .set('Cookie', authCookie(alice))
+        .send({ password: 'wrong-password' });
+
+      expect(response.status).toBe(403);
+      expect(await store.users.get('alice')).not.toBeNull();
+    });
+  });
+
+  describe('likes', () => {
+    it('toggles the like when no state is given', async () => {
+      const alice = await addUser(store, 'alice');
+      jest.spyOn(Likes, 'isLiked').mockResolvedValue(false);
+      const like = jest
+        .spyOn(Likes, 'likeArticle')
+        .mockResolvedValue({ status: 200, response: { result: true } });
+
+      const response = await request(app)
+        .post('/user/like')
+        .set('Cookie', authCookie(alice))
+        .send({ articleId: 'article' });
+
+      expect(response.status).toBe(200);
+      expect(like).toHaveBeenCalledWith('alice', 'article');
+    });
+
+    it('lists the liked articles that still exist', async () => {
+      const alice = await addUser(store, 'alice');
+      await store.articles.put(
+        'ArticlesPublished',
+        articleMetadata({ ID: 'kept', Rating: 1 })
+      );
+      const liked = jest.spyOn(Likes, 'getLikedArticles').mockResolvedValue({
+        status: 200,
+        response: {
+          return: [
+            { ArticleID: 'kept', LikedAt: 2 },
+            { ArticleID: 'removed', LikedAt: 1 },
+          ],
+          cursor: 'next',
+          hasMore: true,
+        },
+      });
+
+      const response = await request(app)
+        .get('/user/liked?limit=2&cursor=first')
+        .set('Cookie', authCookie(alice));
+
+      expect(response.status).toBe(200);
+      expect(liked).toHaveBeenCalledWith('alice', 1, 2, 'first');
+      expect(response.body.response).toMatchObject({
+        return: [expect.objectContaining({ ID: 'kept', LikedAt: 2 })],
+        cursor: 'next',
+        hasMore: true,
+      });
+    });
+  });
+});
@@ -6,26 +6,52 @@ import {
   RepoDeletedIcon,
   TrashIcon,
   CheckIcon,
-  CircleSlashIcon,
+  CommentDiscussionIcon,
   PencilIcon,
+  HistoryIcon,
+  CalendarIcon,
+  XIcon,
 } from '@primer/octicons-react';
 import { PortalWrapper } from '../../core/portalWrapper';
 import { ShowConfirmationPopup } from '../confirmationPopup';
+import { RevisionHistoryModal } from '../revisionHistoryModal';
+import { ReviewModal } from '../reviewModal';
+import { ScheduleModal } from '../scheduleModal';
 
-import { getUser, fetchWrapper } from '@helper/helper';
+import { getUser, fetchWrapper, hasPermission } from '@helper/helper';
 
 export const ArticleDropdown = ({ setHovering, article, visibility }: any) => {
   const [dropdownState, setDropdownState] = React.useState(false);
+  const [historyModal, setHistoryModal] = React.useState(false);
+  const [reviewModal, setReviewModal] = React.useState(false);
+  const [scheduleModal, setScheduleModal] = React.useState(false);
 
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
 
   const user = getUser();
   const verified = user?.Verified == 'true' || false;
   let articleOwner = false;
-  if (user && (article.Author == user.Username || user.Admin == 'true')) {
+  if (
+    user &&
+    (article.Author == user.Username || hasPermission(user, 'article.editAny'))
+  ) {
     articleOwner = true;
   }
 
+  // Reviewers review the submissions from the admin view
+  const reviewing =
+    verified &&
+    hasPermission(user, 'article.review') &&
+    window.location.pathname.split('/')[1] == 'adminView' &&
+    article.Status == 'review';
+
+  // Accepted submissions can be published now or at a later time
+  const publishing =
+    verified &&
+    hasPermission(user, 'article.publish') &&
+    visibility == 'private' &&
+    (article.Status == 'review' || article.Status == 'scheduled');
+
   const actionListStyle = {
     textAlign: 'center',
     fontSize: '14px',
@@ -115,66 +141,85 @@ export const ArticleDropdown = ({ setHovering, article, visibility }: any) => {
     );
   };
 
-  const handleDecline = () => {
-    const unpublishArticle = async () => {
+  const handleSchedule = () => {
+    setDropdownState(false);
+    setHovering(false);
+    setScheduleModal(true);
+  };
+
+  const handleUnschedule = () => {
+    const unscheduleArticle = async () => {
       try {
-        const hideData = await fetchWrapper(
-          `${backendUrl}/articles/?id=${article.ID}&visibility=private`,
+        const unscheduleData = await fetchWrapper(
+          `${backendUrl}/articles/unschedule?id=${article.ID}`,
           {
-            method: 'PATCH',
-            body: JSON.stringify({
-              key: 'Status',
-              value: 'private',
-            }),
+            method: 'POST',
           }
         );
 
-        if (hideData.status == 200) {
+        if (unscheduleData.status == 200) {
           sessionStorage.clear();
           location.reload();
         } else {
-          alert('There was a problem while trying to decline the article');
+          alert('There was a problem while trying to unschedule the article');
         }
       } catch {
-        alert('There was a problem while trying to decline the article');
+        alert('There was a problem while trying to unschedule the article');
       }
     };
     ShowConfirmationPopup(
-      'Decline Request',
-      'Are you sure you want to decline this article?',
+      'Unschedule Article',
+      'The article will not be published and goes back to its author.',
       () => {},
-      unpublishArticle
+      unscheduleArticle
     );
   };
 
+  const handleReview = () => {
+    setDropdownState(false);
+    setHovering(false);
+    setReviewModal(true);
+  };
+
   const handleEdit = () => {
     window.location.href = `/create?id=${article.ID}`;
   };
 
+  const handleHistory = () => {
+    setDropdownState(false);
+    setHovering(false);
+    setHistoryModal(true);
+  };
+
   const dropdownItems = [
     {
-      show:
-        verified &&
-        user?.Admin &&
-        visibility == 'private' &&
-        article.Status == 'review',
+      show: publishing,
       onSelect: handlePublish,
       text:
-        window.location.pathname.split('/')[1] == 'adminView'
+        article.Status == 'scheduled'
+          ? 'Publish Now'
+          : window.location.pathname.split('/')[1] == 'adminView'
           ? 'Accept'
           : 'Publish',
       icon: <CheckIcon size={20} />,
     },
     {
-      show:
-        verified &&
-        user?.Admin &&
-        visibility == 'private' &&
-        window.location.pathname.split('/')[1] == 'adminView' &&
-        article.Status == 'review',
-      onSelect: handleDecline,
-      text: 'Decline',
-      icon: <CircleSlashIcon size={20} />,
+      show: publishing,
+      onSelect: handleSchedule,
+      text: article.Status == 'scheduled' ? 'Reschedule' : 'Schedule',
+      icon: <CalendarIcon size={20} />,
+    },
+    {
+      show: publishing && article.Status == 'scheduled',
+      onSelect: handleUnschedule,
+      text: 'Unschedule',
+      icon: <XIcon size={20} />,
+    },
+    {
+      show: articleOwner && visibility == 'private',
+      onSelect: handleReview,
+      text: reviewing ? 'Review' : 'Reviews',
+      icon: <CommentDiscussionIcon size={20} />,
     },
     {
       show: verified && articleOwner,
@@ -188,6 +233,12 @@ export const ArticleDropdown = ({ setHovering, article, visibility }: any) => {
       text: 'Edit',
       icon: <PencilIcon size={20} />,
     },
+    {
+      show: articleOwner,
+      onSelect: handleHistory,
+      text: 'History',
+      icon: <HistoryIcon size={20} />,
+    },
     {
       show: verified && articleOwner && visibility == 'public',
       onSelect: handleUnpublish,
@@ -264,6 +315,22 @@ export const ArticleDropdown = ({ setHovering, article, visibility }: any) => {
           </Box>
         </>
       )}
+      <RevisionHistoryModal
+        isOpen={historyModal}
+        closeFunc={() => setHistoryModal(false)}
+        articleId={article.ID}
+      />
+      <ReviewModal
+        isOpen={reviewModal}
+        closeFunc={() => setReviewModal(false)}
+        articleId={article.ID}
+        reviewing={reviewing}
+      />
+      <ScheduleModal
+        isOpen={scheduleModal}
+        closeFunc={() => setScheduleModal(false)}
+        articleId={article.ID}
+      />
     </Box>
   );
 };
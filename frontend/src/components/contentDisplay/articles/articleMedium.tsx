@@ -4,6 +4,7 @@ import { getRelativeDate } from '@helper/helper';
 import { AnimatedImage } from '../../animation/animatedImage';
 import { ArticleDropdown } from './articleDropdown';
 import { ArticleDifficultyLabel } from './articleDifficultyLabel';
+import { useStepCompletion } from '../../other/useStepCompletion';
 
 interface Props {
   article: Article;
@@ -23,11 +24,14 @@ interface Article {
   Difficulty: string;
   Image: string;
   ID: string;
+  Format?: string;
+  StepCount?: number;
 }
 
 export const ArticleMedium = (props: Props) => {
   const [hovering, setHovering] = React.useState(false);
   const { article } = props;
+  const completion = useStepCompletion(article);
 
   const defaultImage =
     'https://project-catalog-storage.s3.us-east-2.amazonaws.com/images/default.png';
@@ -105,6 +109,7 @@ export const ArticleMedium = (props: Props) => {
           }}
         >
           <Text>
+            {completion != null && `${completion}% done • `}
             {article.Rating} ✰ • {getRelativeDate(article.PublishedAt)}
           </Text>
         </Box>
@@ -1,12 +1,14 @@
-import { Box, Heading, Text, Avatar } from '@primer/react';
+import { Box, Heading, Text, Avatar, Label } from '@primer/react';
 import React from 'react';
-import { getRelativeDate, capitalize } from '@helper/helper';
+import { getRelativeDate, capitalize, formatDateTime } from '@helper/helper';
 import { AnimatedImage } from '../../animation/animatedImage';
 import { ArticleDropdown } from './articleDropdown';
 import { ArticleDifficultyLabel } from './articleDifficultyLabel';
+import { Review, reviewLabelVariants } from '../../other/reviews';
 
 interface Props {
   article: Article;
+  review?: Review;
 }
 
 interface Article {
@@ -28,7 +30,7 @@ interface Article {
 
 export const ArticlePrivate = (props: Props) => {
   const [hovering, setHovering] = React.useState(false);
-  const { article } = props;
+  const { article, review } = props;
 
   const defaultImage =
     'https://project-catalog-storage.s3.us-east-2.amazonaws.com/images/default.png';
@@ -110,10 +112,57 @@ export const ArticlePrivate = (props: Props) => {
               fontSize: '12px',
             }}
           >
-            {capitalize(article.Status)} • {getRelativeDate(article.CreatedAt)}
+            {article.Status == 'scheduled'
+              ? `Scheduled for ${formatDateTime(article.PublishedAt)}`
+              : `${capitalize(article.Status)} • ${getRelativeDate(
+                  article.CreatedAt
+                )}`}
           </Text>
         </Box>
+        {review && <ReviewSummary review={review} />}
       </Box>
     </Box>
   );
 };
+
+// Outcome of the latest submission, so the author knows what happened to it
+const ReviewSummary = ({ review }: { review: Review }) => {
+  if (review.Status == 'accepted' || review.Status == 'withdrawn') {
+    return null;
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1,
+        mx: 2,
+        mb: 4,
+        fontSize: '12px',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Label variant={reviewLabelVariants[review.Status]}>
+          {review.Status == 'pending' ? 'In review' : 'Declined'}
+        </Label>
+        <Text sx={{ opacity: 0.7 }}>
+          Round {review.Round} •{' '}
+          {review.Reviewer ? review.Reviewer : 'Unassigned'} •{' '}
+          {review.Comments.length} comments
+        </Text>
+      </Box>
+      {review.Status == 'declined' && (
+        <Text
+          sx={{
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {review.Reason}
+        </Text>
+      )}
+    </Box>
+  );
+};
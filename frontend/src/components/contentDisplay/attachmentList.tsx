@@ -0,0 +1,106 @@
+import React from 'react';
+import { Box, Heading, IconButton, Text } from '@primer/react';
+import { DownloadIcon, FileZipIcon } from '@primer/octicons-react';
+
+import { ShowInformationPopup } from './informationPopup';
+import { Attachment, downloadAttachment } from '../other/attachments';
+import { capitalize, fetchWrapper, formatBytes } from '@helper/helper';
+
+interface Props {
+  articleId: string;
+}
+
+// The downloadable files of an article, hidden when there are none
+export const AttachmentList = (props: Props) => {
+  const { articleId } = props;
+  const [attachments, setAttachments] = React.useState<Attachment[]>([]);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/articles/attachments?id=${articleId}`, {
+      signal,
+    }).then((data) => {
+      if (data.status == 200) {
+        setAttachments(data.response.return);
+      }
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [articleId, backendUrl]);
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      await downloadAttachment(articleId, attachment.ID);
+      setAttachments((prev) =>
+        prev.map((item) =>
+          item.ID == attachment.ID
+            ? { ...item, Downloads: item.Downloads + 1 }
+            : item
+        )
+      );
+    } catch (error) {
+      ShowInformationPopup('Error', capitalize((error as Error).message));
+    }
+  };
+
+  if (attachments.length == 0) {
+    return null;
+  }
+
+  return (
+    <Box sx={{ display: 'grid', gap: 2, mt: 4 }}>
+      <Heading as="h2" sx={{ fontSize: '22px' }}>
+        Downloads
+      </Heading>
+      {attachments.map((attachment) => (
+        <Box
+          key={attachment.ID}
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 3,
+            p: 2,
+            border: '1px solid',
+            borderColor: 'border.default',
+            borderRadius: '6px',
+          }}
+        >
+          <FileZipIcon size={24} />
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Text
+              as="p"
+              sx={{
+                fontWeight: 'bold',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {attachment.Name}
+            </Text>
+            <Text
+              as="p"
+              title={`SHA-256: ${attachment.Checksum}`}
+              sx={{ fontSize: '12px', opacity: 0.7 }}
+            >
+              {formatBytes(attachment.Size)} • {attachment.Downloads} download
+              {attachment.Downloads == 1 ? '' : 's'} • SHA-256{' '}
+              {attachment.Checksum.slice(0, 12)}…
+            </Text>
+          </Box>
+          <IconButton
+            aria-label={`Download ${attachment.Name}`}
+            icon={DownloadIcon}
+            onClick={() => handleDownload(attachment)}
+          />
+        </Box>
+      ))}
+    </Box>
+  );
+};
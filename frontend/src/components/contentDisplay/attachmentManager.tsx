@@ -0,0 +1,200 @@
+import React from 'react';
+import { Box, Button, Heading, IconButton, Text } from '@primer/react';
+import { CopyIcon, PaperclipIcon, TrashIcon } from '@primer/octicons-react';
+
+import { ShowInformationPopup } from './informationPopup';
+import { ShowConfirmationPopup } from './confirmationPopup';
+import { Attachment, isModel, uploadAttachment } from '../other/attachments';
+import { capitalize, fetchWrapper, formatBytes } from '@helper/helper';
+
+interface Props {
+  articleId: string;
+}
+
+interface Usage {
+  used: number;
+  quota: number;
+  maxFileSize: number;
+}
+
+// Lets the author attach files to the article they are editing
+export const AttachmentManager = (props: Props) => {
+  const { articleId } = props;
+  const [attachments, setAttachments] = React.useState<Attachment[]>([]);
+  const [usage, setUsage] = React.useState<Usage | null>(null);
+  const [isUploading, setIsUploading] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  const fetchUsage = React.useCallback(() => {
+    fetchWrapper(`${backendUrl}/articles/attachments/usage`).then((data) => {
+      if (data.status == 200) {
+        setUsage(data.response.return);
+      }
+    });
+  }, [backendUrl]);
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/articles/attachments?id=${articleId}`, {
+      signal,
+    }).then((data) => {
+      if (data.status == 200) {
+        setAttachments(data.response.return);
+      }
+    });
+    fetchUsage();
+
+    return () => {
+      controller.abort();
+    };
+  }, [articleId, backendUrl, fetchUsage]);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        if (usage && file.size > usage.maxFileSize) {
+          throw new Error(
+            `${file.name} is larger than ${formatBytes(usage.maxFileSize)}`
+          );
+        }
+        const attachment = await uploadAttachment(articleId, file);
+        setAttachments((prev) => [...prev, attachment]);
+      }
+    } catch (error) {
+      ShowInformationPopup('Error', capitalize((error as Error).message));
+    } finally {
+      setIsUploading(false);
+      fetchUsage();
+    }
+  };
+
+  const handleCopyShortcode = async (attachment: Attachment) => {
+    try {
+      await navigator.clipboard.writeText(`[[model:${attachment.ID}]]`);
+      ShowInformationPopup(
+        'Shortcode Copied',
+        'Paste it on its own line to show the model in the article.'
+      );
+    } catch {
+      ShowInformationPopup('Error', 'Could not copy the shortcode');
+    }
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    ShowConfirmationPopup(
+      'Delete File?',
+      `${attachment.Name} will no longer be available for download.`,
+      () => {},
+      async () => {
+        const data = await fetchWrapper(
+          `${backendUrl}/articles/attachments?id=${articleId}&attachmentId=${attachment.ID}`,
+          { method: 'DELETE' }
+        );
+        if (data.status == 200) {
+          setAttachments((prev) =>
+            prev.filter((item) => item.ID != attachment.ID)
+          );
+          fetchUsage();
+        } else {
+          ShowInformationPopup(
+            'Error',
+            capitalize(data.response.message || 'Could not delete the file')
+          );
+        }
+      }
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'grid', gap: 2, mt: 4 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 2,
+        }}
+      >
+        <Heading as="h2" sx={{ fontSize: '20px' }}>
+          Attachments
+        </Heading>
+        <Button
+          leadingVisual={PaperclipIcon}
+          disabled={isUploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {isUploading ? 'Uploading...' : 'Attach files'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+      </Box>
+      <Text sx={{ fontSize: '14px', opacity: 0.7 }}>
+        STL, STEP, Gerber and KiCad files, archives, firmware and sources.
+        {usage &&
+          ` Up to ${formatBytes(usage.maxFileSize)} per file, ${formatBytes(
+            usage.used
+          )} of ${formatBytes(usage.quota)} used.`}
+      </Text>
+      {attachments.map((attachment) => (
+        <Box
+          key={attachment.ID}
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 3,
+            px: 2,
+            py: 1,
+            border: '1px solid',
+            borderColor: 'border.default',
+            borderRadius: '6px',
+          }}
+        >
+          <Text
+            sx={{
+              flex: 1,
+              minWidth: 0,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {attachment.Name}
+          </Text>
+          <Text sx={{ fontSize: '12px', opacity: 0.7 }}>
+            {formatBytes(attachment.Size)} • {attachment.Downloads} downloads
+          </Text>
+          {isModel(attachment.Name) && (
+            <IconButton
+              aria-label={`Copy the 3D viewer shortcode of ${attachment.Name}`}
+              icon={CopyIcon}
+              size="small"
+              onClick={() => handleCopyShortcode(attachment)}
+            />
+          )}
+          <IconButton
+            aria-label={`Delete ${attachment.Name}`}
+            icon={TrashIcon}
+            size="small"
+            variant="danger"
+            onClick={() => handleDelete(attachment)}
+          />
+        </Box>
+      ))}
+    </Box>
+  );
+};
@@ -1,12 +1,14 @@
-import { Box, Heading } from '@primer/react';
+import { Box, Heading, Text } from '@primer/react';
 
 interface Props {
   title: string;
   link: string;
+  description?: string;
+  heroImage?: string | null;
 }
 
 export const CategoryHeader = (props: Props) => {
-  const { title, link } = props;
+  const { title, link, description, heroImage } = props;
   return (
     <Box
       onClick={() => (window.location.href = link)}
@@ -21,6 +23,10 @@ export const CategoryHeader = (props: Props) => {
         borderColor: 'ansi.black',
         cursor: 'pointer',
         transition: 'all 0.3s',
+        // Darken the hero image so the title stays readable
+        background: heroImage
+          ? `linear-gradient(rgba(0, 0, 0, 0.6), rgba(0, 0, 0, 0.6)), url(${heroImage}) center / cover`
+          : undefined,
         ':hover': {
           boxShadow: '0px 0px 25px rgba(255, 255, 255, 0.1)',
         },
@@ -33,6 +39,11 @@ export const CategoryHeader = (props: Props) => {
       >
         {title}
       </Heading>
+      {description && (
+        <Text as="p" sx={{ ml: 4, mt: 2, mb: 0, opacity: 0.8 }}>
+          {description}
+        </Text>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Box, Button, Textarea, Text } from '@primer/react';
+
+interface Props {
+  initialValue?: string;
+  placeholder: string;
+  submitText: string;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const maxLength = 2000;
+
+export const CommentForm = (props: Props) => {
+  const { initialValue, placeholder, submitText, onSubmit, onCancel } = props;
+  const [body, setBody] = React.useState(initialValue || '');
+  const [sending, setSending] = React.useState(false);
+
+  const handleSubmit = async () => {
+    if (body.trim() == '' || sending) return;
+
+    setSending(true);
+    if (await onSubmit(body)) {
+      setBody('');
+    }
+    setSending(false);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Textarea
+        autoFocus={initialValue != undefined}
+        maxLength={maxLength}
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        placeholder={placeholder}
+        sx={{ width: '100%' }}
+      />
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Text sx={{ fontSize: '12px', opacity: 0.7 }}>
+          {body.length}/{maxLength}
+        </Text>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          {onCancel && (
+            <Button size="small" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            size="small"
+            variant="primary"
+            disabled={body.trim() == '' || sending}
+            onClick={handleSubmit}
+          >
+            {submitText}
+          </Button>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
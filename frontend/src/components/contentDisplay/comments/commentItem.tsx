@@ -0,0 +1,195 @@
+import React from 'react';
+import { Box, Text, Avatar, Label, Button } from '@primer/react';
+
+import { CommentForm } from './commentForm';
+import { ShowConfirmationPopup } from '../confirmationPopup';
+import { ShowInformationPopup } from '../informationPopup';
+import {
+  getUser,
+  getRelativeDate,
+  capitalize,
+  fetchWrapper,
+  hasPermission,
+} from '@helper/helper';
+
+export interface Comment {
+  ArticleID: string;
+  ID: string;
+  ParentID: string | null;
+  Author: string | null;
+  AuthorProfilePic: string | null;
+  Body: string;
+  CreatedAt: number;
+  UpdatedAt: number | null;
+  ReplyCount: number;
+  Deleted: boolean;
+  Moderated: boolean;
+}
+
+interface Props {
+  comment: Comment;
+  articleAuthor: string;
+  onReply?: () => void;
+  onUpdate: (comment: Comment) => void;
+  onRemove: () => void;
+}
+
+export const CommentItem = (props: Props) => {
+  const { comment, articleAuthor, onReply, onUpdate, onRemove } = props;
+  const [editing, setEditing] = React.useState(false);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+  const verified = user?.Verified == 'true';
+  const isOwner = user != undefined && comment.Author == user.Username;
+  const isModerator = hasPermission(user, 'comment.moderate');
+
+  const handleEdit = async (body: string) => {
+    try {
+      const editData = await fetchWrapper(
+        `${backendUrl}/comments?articleId=${comment.ArticleID}&id=${comment.ID}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ body }),
+        }
+      );
+
+      if (editData.status != 200) {
+        ShowInformationPopup('Error', capitalize(editData.response.message));
+        return false;
+      }
+      onUpdate({ ...comment, ...editData.response.return });
+      setEditing(false);
+      return true;
+    } catch {
+      ShowInformationPopup(
+        'Error',
+        'There was a problem while trying to edit the comment'
+      );
+      return false;
+    }
+  };
+
+  const handleDelete = () => {
+    const deleteComment = async () => {
+      try {
+        const deleteData = await fetchWrapper(
+          `${backendUrl}/comments?articleId=${comment.ArticleID}&id=${comment.ID}`,
+          {
+            method: 'DELETE',
+          }
+        );
+
+        if (deleteData.status == 200) {
+          onRemove();
+        } else {
+          ShowInformationPopup(
+            'Error',
+            capitalize(deleteData.response.message)
+          );
+        }
+      } catch {
+        ShowInformationPopup(
+          'Error',
+          'There was a problem while trying to delete the comment'
+        );
+      }
+    };
+    ShowConfirmationPopup(
+      'Delete Comment',
+      isOwner
+        ? 'Are you sure you want to delete this comment?'
+        : 'This comment will be removed for violating the rules.',
+      () => {},
+      deleteComment
+    );
+  };
+
+  if (comment.Deleted) {
+    return (
+      <Text as="p" sx={{ fontSize: '14px', fontStyle: 'italic', opacity: 0.6 }}>
+        {comment.Moderated
+          ? 'This comment was removed by a moderator.'
+          : 'This comment was deleted.'}
+      </Text>
+    );
+  }
+
+  const byArticleAuthor = comment.Author == articleAuthor;
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        gap: 2,
+        p: 2,
+        borderRadius: '8px',
+        borderLeft: '3px solid',
+        borderColor: byArticleAuthor ? 'accent.emphasis' : 'transparent',
+        backgroundColor: byArticleAuthor ? 'accent.subtle' : 'transparent',
+      }}
+    >
+      <Avatar size={32} src={comment.AuthorProfilePic || ''} />
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Text sx={{ fontWeight: 'bold', fontSize: '14px' }}>
+            {comment.Author}
+          </Text>
+          {byArticleAuthor && <Label variant="accent">Author</Label>}
+          <Text sx={{ fontSize: '12px', opacity: 0.7 }}>
+            {getRelativeDate(comment.CreatedAt)}
+            {comment.UpdatedAt && ' • edited'}
+          </Text>
+        </Box>
+
+        {editing ? (
+          <Box sx={{ mt: 2 }}>
+            <CommentForm
+              initialValue={comment.Body}
+              placeholder="Edit your comment"
+              submitText="Save"
+              onSubmit={handleEdit}
+              onCancel={() => setEditing(false)}
+            />
+          </Box>
+        ) : (
+          <Text
+            as="p"
+            sx={{
+              m: 0,
+              mt: 1,
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-word',
+            }}
+          >
+            {comment.Body}
+          </Text>
+        )}
+
+        {!editing && (
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, ml: -2 }}>
+            {onReply && verified && (
+              <Button size="small" variant="invisible" onClick={onReply}>
+                Reply
+              </Button>
+            )}
+            {isOwner && verified && (
+              <Button
+                size="small"
+                variant="invisible"
+                onClick={() => setEditing(true)}
+              >
+                Edit
+              </Button>
+            )}
+            {(isOwner || isModerator) && verified && (
+              <Button size="small" variant="invisible" onClick={handleDelete}>
+                Delete
+              </Button>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,337 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Heading,
+  Text,
+  Link,
+  Spinner,
+  SegmentedControl,
+} from '@primer/react';
+import { CommentDiscussionIcon } from '@primer/octicons-react';
+
+import { Comment, CommentItem } from './commentItem';
+import { CommentForm } from './commentForm';
+import { ShowInformationPopup } from '../informationPopup';
+import { getUser, capitalize, fetchWrapper } from '@helper/helper';
+
+interface Props {
+  articleId: string;
+  articleAuthor: string;
+}
+
+type SortBy = 'newest' | 'oldest';
+
+const commentsPerPage = 10;
+const repliesPerPage = 10;
+
+// Posts a comment and returns it, or shows the error and returns null
+const postComment = async (
+  articleId: string,
+  body: string,
+  parentId?: string
+): Promise<Comment | null> => {
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  try {
+    const commentData = await fetchWrapper(
+      `${backendUrl}/comments?articleId=${articleId}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ body, parentId }),
+      }
+    );
+
+    if (commentData.status != 200) {
+      ShowInformationPopup('Error', capitalize(commentData.response.message));
+      return null;
+    }
+    return commentData.response.return;
+  } catch {
+    ShowInformationPopup(
+      'Error',
+      'There was a problem while trying to post the comment'
+    );
+    return null;
+  }
+};
+
+export const CommentSection = (props: Props) => {
+  const { articleId, articleAuthor } = props;
+  const [comments, setComments] = React.useState<Comment[] | null>(null);
+  const [sortBy, setSortBy] = React.useState<SortBy>('newest');
+  // Cursor of the page to load, null for the first page
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const hasMore = nextCursor != null;
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(
+      `${backendUrl}/comments?articleId=${articleId}&sortBy=${sortBy}&limit=${commentsPerPage}${
+        cursor ? `&cursor=${cursor}` : ''
+      }`,
+      { signal }
+    ).then((data) => {
+      const items: Comment[] = data.status == 200 ? data.response.return : [];
+      setComments((prev) => (cursor ? [...(prev || []), ...items] : items));
+      setNextCursor(data.status == 200 ? data.response.cursor : null);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [articleId, sortBy, cursor, backendUrl]);
+
+  const handleSort = (value: SortBy) => {
+    if (value == sortBy) return;
+    setComments(null);
+    setCursor(null);
+    setSortBy(value);
+  };
+
+  const handlePost = async (body: string) => {
+    const comment = await postComment(articleId, body);
+    if (!comment) return false;
+
+    // Only show it right away where it belongs in the current order
+    if (sortBy == 'newest') {
+      setComments((prev) => [comment, ...(prev || [])]);
+    } else if (!hasMore) {
+      setComments((prev) => [...(prev || []), comment]);
+    }
+    return true;
+  };
+
+  const updateComment = (comment: Comment) => {
+    setComments(
+      (prev) =>
+        prev && prev.map((item) => (item.ID == comment.ID ? comment : item))
+    );
+  };
+
+  const removeComment = (id: string) => {
+    setComments((prev) => prev && prev.filter((item) => item.ID != id));
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 6 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexWrap: 'wrap',
+          gap: 2,
+        }}
+      >
+        <Heading sx={{ fontSize: '24px' }}>
+          <CommentDiscussionIcon size={24} /> Discussion
+        </Heading>
+        <SegmentedControl
+          aria-label="Sort comments"
+          size="small"
+          onChange={(index) => handleSort(index == 0 ? 'newest' : 'oldest')}
+        >
+          <SegmentedControl.Button selected={sortBy == 'newest'}>
+            Newest
+          </SegmentedControl.Button>
+          <SegmentedControl.Button selected={sortBy == 'oldest'}>
+            Oldest
+          </SegmentedControl.Button>
+        </SegmentedControl>
+      </Box>
+
+      {user?.Verified == 'true' ? (
+        <CommentForm
+          placeholder="Ask a question or share your thoughts"
+          submitText="Comment"
+          onSubmit={handlePost}
+        />
+      ) : (
+        <Text sx={{ opacity: 0.7 }}>
+          {user ? (
+            'Verify your email to join the discussion.'
+          ) : (
+            <>
+              <Link href="/sign-in">Sign in</Link> to join the discussion.
+            </>
+          )}
+        </Text>
+      )}
+
+      {comments == null && <Spinner sx={{ alignSelf: 'center' }} />}
+      {comments && comments.length == 0 && (
+        <Text sx={{ opacity: 0.7 }}>No comments yet.</Text>
+      )}
+      {comments &&
+        comments.map((comment) => (
+          <CommentThread
+            key={comment.ID}
+            comment={comment}
+            articleAuthor={articleAuthor}
+            updateComment={updateComment}
+            removeComment={removeComment}
+          />
+        ))}
+      {hasMore && (
+        <Button
+          sx={{ alignSelf: 'center' }}
+          onClick={() => setCursor(nextCursor)}
+        >
+          Load more comments
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+interface ThreadProps {
+  comment: Comment;
+  articleAuthor: string;
+  updateComment: (comment: Comment) => void;
+  removeComment: (id: string) => void;
+}
+
+// A comment that starts a thread together with its replies
+const CommentThread = (props: ThreadProps) => {
+  const { comment, articleAuthor, updateComment, removeComment } = props;
+  const [replies, setReplies] = React.useState<Comment[] | null>(null);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [replyTo, setReplyTo] = React.useState<string | null>(null);
+  const hasMore = nextCursor != null;
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+
+  // Loads the first page of the replies, or the page after the cursor
+  const loadReplies = async (cursor?: string) => {
+    const data = await fetchWrapper(
+      `${backendUrl}/comments/replies?articleId=${comment.ArticleID}&parentId=${
+        comment.ID
+      }&limit=${repliesPerPage}${cursor ? `&cursor=${cursor}` : ''}`
+    );
+    const items: Comment[] = data.status == 200 ? data.response.return : [];
+    setReplies((prev) => (cursor ? [...(prev || []), ...items] : items));
+    setNextCursor(data.status == 200 ? data.response.cursor : null);
+  };
+
+  const handleReply = async (body: string) => {
+    const reply = await postComment(comment.ArticleID, body, comment.ID);
+    if (!reply) return false;
+
+    if (replies == null) {
+      await loadReplies();
+    } else if (!hasMore) {
+      setReplies([...replies, reply]);
+    }
+    updateComment({ ...comment, ReplyCount: comment.ReplyCount + 1 });
+    setReplyTo(null);
+    return true;
+  };
+
+  // Removed comments with replies stay as a placeholder for the thread
+  const handleRemove = () => {
+    if (comment.ReplyCount > 0) {
+      return updateComment({
+        ...comment,
+        Deleted: true,
+        Moderated: comment.Author != user?.Username,
+      });
+    }
+    removeComment(comment.ID);
+  };
+
+  const handleRemoveReply = (id: string) => {
+    setReplies((prev) => prev && prev.filter((item) => item.ID != id));
+
+    // The thread is gone once the last reply to a removed comment is
+    if (comment.Deleted && comment.ReplyCount <= 1) {
+      return removeComment(comment.ID);
+    }
+    updateComment({ ...comment, ReplyCount: comment.ReplyCount - 1 });
+  };
+
+  const updateReply = (reply: Comment) => {
+    setReplies(
+      (prev) => prev && prev.map((item) => (item.ID == reply.ID ? reply : item))
+    );
+  };
+
+  return (
+    <Box>
+      <CommentItem
+        comment={comment}
+        articleAuthor={articleAuthor}
+        onReply={() => setReplyTo('')}
+        onUpdate={updateComment}
+        onRemove={handleRemove}
+      />
+
+      <Box
+        sx={{
+          ml: 5,
+          pl: 3,
+          borderLeft: '1px solid',
+          borderColor: 'border.default',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1,
+        }}
+      >
+        {replies == null && comment.ReplyCount > 0 && (
+          <Button
+            size="small"
+            variant="invisible"
+            sx={{ alignSelf: 'flex-start' }}
+            onClick={() => loadReplies()}
+          >
+            View {comment.ReplyCount}{' '}
+            {comment.ReplyCount == 1 ? 'reply' : 'replies'}
+          </Button>
+        )}
+
+        {replies &&
+          replies.map((reply) => (
+            <CommentItem
+              key={reply.ID}
+              comment={reply}
+              articleAuthor={articleAuthor}
+              onReply={() =>
+                setReplyTo(reply.Author ? `@${reply.Author} ` : '')
+              }
+              onUpdate={updateReply}
+              onRemove={() => handleRemoveReply(reply.ID)}
+            />
+          ))}
+
+        {hasMore && replies && (
+          <Button
+            size="small"
+            variant="invisible"
+            sx={{ alignSelf: 'flex-start' }}
+            onClick={() => loadReplies(nextCursor!)}
+          >
+            Load more replies
+          </Button>
+        )}
+
+        {replyTo != null && (
+          <CommentForm
+            key={replyTo}
+            initialValue={replyTo}
+            placeholder="Write a reply"
+            submitText="Reply"
+            onSubmit={handleReply}
+            onCancel={() => setReplyTo(null)}
+          />
+        )}
+      </Box>
+    </Box>
+  );
+};
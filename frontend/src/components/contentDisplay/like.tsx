@@ -53,7 +53,7 @@ export const Like = (props: Props) => {
 
     const likeRes = await fetchWrapper(`${backendUrl}/user/like`, {
       method: 'POST',
-      body: JSON.stringify({ articleId: id }),
+      body: JSON.stringify({ articleId: id, liked: !isLiked }),
       signal,
     });
 
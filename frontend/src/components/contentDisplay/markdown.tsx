@@ -0,0 +1,295 @@
+import React from 'react';
+import Markdown, { Components, Options } from 'react-markdown';
+import type { Element, Root, RootContent } from 'hast';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Box, Link, Spinner, Text } from '@primer/react';
+
+import arduino from 'highlight.js/lib/languages/arduino';
+import armasm from 'highlight.js/lib/languages/armasm';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import css from 'highlight.js/lib/languages/css';
+import dockerfile from 'highlight.js/lib/languages/dockerfile';
+import dos from 'highlight.js/lib/languages/dos';
+import go from 'highlight.js/lib/languages/go';
+import http from 'highlight.js/lib/languages/http';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import nginx from 'highlight.js/lib/languages/nginx';
+import php from 'highlight.js/lib/languages/php';
+import plaintext from 'highlight.js/lib/languages/plaintext';
+import powershell from 'highlight.js/lib/languages/powershell';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import rust from 'highlight.js/lib/languages/rust';
+import shell from 'highlight.js/lib/languages/shell';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import verilog from 'highlight.js/lib/languages/verilog';
+import x86asm from 'highlight.js/lib/languages/x86asm';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+import 'highlight.js/styles/github-dark.css';
+import 'katex/contrib/mhchem';
+import 'katex/dist/katex.min.css';
+
+import { useScreenWidth } from '../other/useScreenWidth';
+
+// Languages available in code fences, picked for the programming,
+// electronics and cybersecurity categories
+const languages = {
+  arduino,
+  armasm,
+  bash,
+  c,
+  cpp,
+  csharp,
+  css,
+  dockerfile,
+  dos,
+  go,
+  http,
+  java,
+  javascript,
+  json,
+  nginx,
+  php,
+  plaintext,
+  powershell,
+  python,
+  ruby,
+  rust,
+  shell,
+  sql,
+  typescript,
+  verilog,
+  x86asm,
+  xml,
+  yaml,
+};
+
+const aliases = {
+  bash: ['sh', 'zsh'],
+  dos: ['bat', 'cmd'],
+  powershell: ['ps', 'ps1'],
+  x86asm: ['asm', 'nasm'],
+  plaintext: ['text', 'txt'],
+  xml: ['html'],
+};
+
+// A paragraph holding only [[model:<attachment id>]] embeds the 3D viewer
+const modelPattern = /^\s*\[\[model:([0-9a-f-]{36})\]\]\s*$/i;
+
+const getModelId = (node: Element) => {
+  if (node.tagName != 'p' || node.children.length != 1) return undefined;
+  const child = node.children[0];
+  return child.type == 'text'
+    ? child.value.match(modelPattern)?.[1]
+    : undefined;
+};
+
+const rehypeModelEmbeds = () => (tree: Root) => {
+  const visit = (nodes: RootContent[]) => {
+    nodes.forEach((node, index) => {
+      if (node.type != 'element') return;
+      const modelId = getModelId(node);
+      if (modelId) {
+        nodes[index] = {
+          type: 'element',
+          tagName: 'div',
+          properties: { dataModelId: modelId.toLowerCase() },
+          children: [],
+        };
+      } else {
+        visit(node.children);
+      }
+    });
+  };
+  visit(tree.children);
+};
+
+// The limits of the backend, which refuses articles whose formulas do not
+// render with them (see backend/src/services/formulas.ts)
+const katexOptions = { maxSize: 50, maxExpand: 500 };
+
+// Sanitize runs before highlighting so that only the classes added by the
+// highlighter (and not the ones written by the author) reach the DOM, the
+// model embeds and the formulas are added after it for the same reason.
+// KaTeX finds the math by the language-math class, which the sanitizer keeps.
+const rehypePlugins: Options['rehypePlugins'] = [
+  rehypeSanitize,
+  rehypeModelEmbeds,
+  [rehypeKatex, katexOptions],
+  [rehypeHighlight, { languages, aliases }],
+];
+
+// three.js is only downloaded by the articles that embed a model
+const ModelViewer = React.lazy(() =>
+  import('./modelViewer').then((module) => ({ default: module.ModelViewer }))
+);
+
+// The images of the media library link their largest width, the backend
+// stores the smaller widths of MEDIA_WIDTHS next to it
+const MEDIA_WIDTHS = [320, 640, 1024, 1600];
+const mediaPattern = /^(.+\/media\/[\w-]+\/[\w-]+)-(\d+)\.webp$/;
+
+const getMediaSrcSet = (src?: string) => {
+  const match = src?.match(mediaPattern);
+  if (!match) return undefined;
+
+  const largest = Number(match[2]);
+  return [...MEDIA_WIDTHS.filter((width) => width < largest), largest]
+    .map((width) => `${match[1]}-${width}.webp ${width}w`)
+    .join(', ');
+};
+
+const getComponents = (articleId?: string): Components => ({
+  a: ({ href, children }) => {
+    const external = href != undefined && /^https?:\/\//.test(href);
+    return (
+      <Link
+        href={href}
+        target={external ? '_blank' : undefined}
+        rel={external ? 'noopener noreferrer nofollow' : undefined}
+      >
+        {children}
+      </Link>
+    );
+  },
+  img: ({ src, alt }) => {
+    const srcSet = getMediaSrcSet(src);
+    return (
+      <img
+        src={src}
+        srcSet={srcSet}
+        sizes={srcSet ? '(max-width: 768px) 100vw, 768px' : undefined}
+        alt={alt || ''}
+        loading="lazy"
+      />
+    );
+  },
+  div: ({ node, children, ...rest }) => {
+    const modelId = node?.properties.dataModelId;
+    if (typeof modelId != 'string') {
+      return <div {...rest}>{children}</div>;
+    }
+    if (!articleId) {
+      return (
+        <Text as="p" sx={{ fontStyle: 'italic', opacity: 0.7 }}>
+          The 3D model is shown once the article is saved.
+        </Text>
+      );
+    }
+    return (
+      <React.Suspense fallback={<Spinner />}>
+        <ModelViewer articleId={articleId} attachmentId={modelId} />
+      </React.Suspense>
+    );
+  },
+});
+
+interface Props {
+  content: string;
+  articleId?: string;
+}
+
+export const MarkdownRenderer = (props: Props) => {
+  const screenWidth = useScreenWidth();
+  const { content, articleId } = props;
+  const components = React.useMemo(() => getComponents(articleId), [articleId]);
+
+  return (
+    <Box
+      className="markdown-body"
+      sx={{
+        fontSize: screenWidth < 768 ? '14px' : '18px',
+        lineHeight: 1.6,
+        wordWrap: 'break-word',
+        'h1, h2, h3, h4, h5, h6': {
+          mt: 4,
+          mb: 2,
+          lineHeight: 1.25,
+        },
+        'h1, h2': {
+          pb: 1,
+          borderBottom: '1px solid',
+          borderColor: 'border.default',
+        },
+        p: { my: 2, textAlign: 'justify' },
+        'ul, ol': { pl: 4, my: 2 },
+        'li.task-list-item': { listStyle: 'none', ml: -3 },
+        'li.task-list-item input': { mr: 2 },
+        blockquote: {
+          m: 0,
+          my: 2,
+          px: 3,
+          color: 'fg.muted',
+          borderLeft: '4px solid',
+          borderColor: 'border.default',
+        },
+        img: { maxWidth: '100%', borderRadius: '8px' },
+        hr: {
+          my: 4,
+          border: 0,
+          height: '1px',
+          backgroundColor: 'border.default',
+        },
+        table: {
+          display: 'block',
+          width: 'max-content',
+          maxWidth: '100%',
+          overflow: 'auto',
+          borderCollapse: 'collapse',
+          my: 3,
+        },
+        'th, td': {
+          px: 3,
+          py: 1,
+          border: '1px solid',
+          borderColor: 'border.default',
+        },
+        'tr:nth-of-type(2n)': { backgroundColor: 'canvas.subtle' },
+        code: {
+          fontFamily: 'mono',
+          fontSize: '85%',
+          px: 1,
+          borderRadius: '6px',
+          backgroundColor: 'neutral.muted',
+        },
+        pre: {
+          my: 3,
+          borderRadius: '8px',
+          overflow: 'auto',
+          backgroundColor: 'canvas.inset',
+        },
+        '.katex-display': {
+          my: 3,
+          overflowX: 'auto',
+          overflowY: 'hidden',
+        },
+        '.katex-error': { fontFamily: 'mono', fontSize: '85%' },
+        'pre code': {
+          display: 'block',
+          p: 3,
+          fontSize: '14px',
+          backgroundColor: 'transparent',
+        },
+      }}
+    >
+      <Markdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {content}
+      </Markdown>
+    </Box>
+  );
+};
@@ -0,0 +1,163 @@
+import React from 'react';
+import { Box, Button, Heading, IconButton, Text } from '@primer/react';
+import { TrashIcon, UploadIcon } from '@primer/octicons-react';
+
+import { Modal } from '../core/Modal';
+import { ShowInformationPopup } from './informationPopup';
+import { ShowConfirmationPopup } from './confirmationPopup';
+import { MediaItem, uploadMedia } from '../other/mediaUpload';
+import { capitalize, fetchWrapper } from '@helper/helper';
+
+interface Props {
+  isOpen: boolean;
+  closeFunc: () => void;
+  articleId: string;
+  onInsert: (item: MediaItem) => void;
+}
+
+export const MediaLibraryModal = (props: Props) => {
+  const { isOpen, closeFunc, articleId, onInsert } = props;
+  const [items, setItems] = React.useState<MediaItem[] | null>(null);
+  const [isUploading, setIsUploading] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    setItems(null);
+    fetchWrapper(`${backendUrl}/articles/media?id=${articleId}`, {
+      signal,
+    }).then((data) => {
+      setItems(data.status == 200 ? data.response.return : []);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [isOpen, articleId, backendUrl]);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const item = await uploadMedia(articleId, file);
+        setItems((prev) => [...(prev || []), item]);
+      }
+    } catch (error) {
+      ShowInformationPopup('Error', capitalize((error as Error).message));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = (item: MediaItem) => {
+    ShowConfirmationPopup(
+      'Delete Image?',
+      'Articles that show the image will show a broken image instead.',
+      () => {},
+      async () => {
+        const data = await fetchWrapper(
+          `${backendUrl}/articles/media?id=${articleId}&mediaId=${item.ID}`,
+          { method: 'DELETE' }
+        );
+        if (data.status == 200) {
+          setItems((prev) => (prev || []).filter((x) => x.ID != item.ID));
+        } else {
+          ShowInformationPopup(
+            'Error',
+            capitalize(data.response.message || 'Could not delete the image')
+          );
+        }
+      }
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} closeFunc={closeFunc}>
+      <Box sx={{ display: 'grid', gap: 3, width: 'min(600px, 85vw)' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <Heading sx={{ fontSize: '22px' }}>Media Library</Heading>
+          <Button
+            leadingVisual={UploadIcon}
+            disabled={isUploading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            style={{ display: 'none' }}
+            onChange={handleFileChange}
+          />
+        </Box>
+        <Text sx={{ fontSize: '14px', opacity: 0.7 }}>
+          Click an image to add it to the article. You can also paste or drop
+          images into the editor.
+        </Text>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(130px, 1fr))',
+            gap: 2,
+            maxHeight: '50vh',
+            overflowY: 'auto',
+          }}
+        >
+          {items?.map((item) => (
+            <Box key={item.ID} sx={{ position: 'relative' }}>
+              <img
+                src={item.Url}
+                srcSet={item.Srcset}
+                sizes="130px"
+                alt=""
+                loading="lazy"
+                title={`${item.Width}×${item.Height}`}
+                onClick={() => {
+                  onInsert(item);
+                  closeFunc();
+                }}
+                style={{
+                  width: '100%',
+                  aspectRatio: '1',
+                  objectFit: 'cover',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                }}
+              />
+              <IconButton
+                aria-label="Delete image"
+                icon={TrashIcon}
+                size="small"
+                variant="danger"
+                onClick={() => handleDelete(item)}
+                sx={{ position: 'absolute', top: 1, right: 1 }}
+              />
+            </Box>
+          ))}
+        </Box>
+        {items && items.length == 0 && (
+          <Text sx={{ opacity: 0.7 }}>No images have been uploaded yet.</Text>
+        )}
+      </Box>
+    </Modal>
+  );
+};
@@ -0,0 +1,275 @@
+import React from 'react';
+import { Box, Button, Spinner, Text } from '@primer/react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import { OBJLoader } from 'three/addons/loaders/OBJLoader.js';
+import { SVGRenderer } from 'three/addons/renderers/SVGRenderer.js';
+
+import { getExtension, isModel, previewAttachment } from '../other/attachments';
+import { useScreenWidth } from '../other/useScreenWidth';
+
+interface Props {
+  articleId: string;
+  attachmentId: string;
+}
+
+interface Viewer {
+  material: THREE.MeshStandardMaterial | THREE.MeshLambertMaterial;
+  controls: OrbitControls;
+  render: () => void;
+}
+
+type Dimensions = [number, number, number];
+
+// Turns an STL or OBJ file into meshes that share one material
+const parseModel = (
+  content: ArrayBuffer,
+  extension: string,
+  material: THREE.Material
+) => {
+  if (extension == 'stl') {
+    const mesh = new THREE.Mesh(new STLLoader().parse(content), material);
+    return new THREE.Group().add(mesh);
+  }
+
+  const group = new OBJLoader().parse(new TextDecoder().decode(content));
+  group.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      if (!child.geometry.getAttribute('normal')) {
+        child.geometry.computeVertexNormals();
+      }
+      child.material = material;
+    }
+  });
+  return group;
+};
+
+// WebGL is not available in every browser or virtual machine, the SVG
+// renderer draws the model on the CPU instead
+const createRenderer = () => {
+  try {
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    return { renderer, software: false };
+  } catch {
+    const renderer = new SVGRenderer();
+    renderer.setQuality('low');
+    return { renderer, software: true };
+  }
+};
+
+const formatDimension = (value: number) =>
+  value >= 100 ? value.toFixed(0) : value.toFixed(1);
+
+export const ModelViewer = (props: Props) => {
+  const { articleId, attachmentId } = props;
+  const screenWidth = useScreenWidth();
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const viewerRef = React.useRef<Viewer | null>(null);
+  const [name, setName] = React.useState('');
+  const [error, setError] = React.useState('');
+  const [dimensions, setDimensions] = React.useState<Dimensions | null>(null);
+  const [software, setSoftware] = React.useState(false);
+  const [wireframe, setWireframe] = React.useState(false);
+
+  const height = screenWidth < 768 ? 300 : 420;
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let cancelled = false;
+    let cleanup = () => {};
+
+    previewAttachment(articleId, attachmentId)
+      .then(({ attachment, content }) => {
+        if (cancelled) return;
+        if (!isModel(attachment.Name)) {
+          throw new Error('Only STL and OBJ files can be shown');
+        }
+        const extension = getExtension(attachment.Name);
+        setName(attachment.Name);
+
+        const { renderer, software } = createRenderer();
+        setSoftware(software);
+
+        // The SVG renderer only shades the Lambert material
+        const material = software
+          ? new THREE.MeshLambertMaterial({ color: 0x8fb8de })
+          : new THREE.MeshStandardMaterial({
+              color: 0x8fb8de,
+              metalness: 0.1,
+              roughness: 0.6,
+            });
+        const model = parseModel(content, extension, material);
+
+        // The size is read in the axes of the file
+        const fileSize = new THREE.Box3()
+          .setFromObject(model)
+          .getSize(new THREE.Vector3());
+        setDimensions([fileSize.x, fileSize.y, fileSize.z]);
+        if (extension == 'stl') {
+          // STL files are Z-up, three.js is Y-up
+          model.rotation.x = -Math.PI / 2;
+          model.updateMatrixWorld(true);
+        }
+
+        // Center the model and move the camera back until it fits
+        const box = new THREE.Box3().setFromObject(model);
+        const size = box.getSize(new THREE.Vector3());
+        model.position.sub(box.getCenter(new THREE.Vector3()));
+        const radius = Math.max(size.x, size.y, size.z) || 1;
+
+        const scene = new THREE.Scene();
+        scene.add(model);
+        scene.add(new THREE.AmbientLight(0xffffff, 0.6));
+        const light = new THREE.DirectionalLight(0xffffff, 1.5);
+        light.position.set(1, 2, 3);
+        scene.add(light);
+
+        const camera = new THREE.PerspectiveCamera(
+          45,
+          1,
+          radius / 100,
+          radius * 100
+        );
+        camera.position.set(radius * 1.2, radius * 0.9, radius * 1.6);
+
+        const controls = new OrbitControls(camera, renderer.domElement);
+        controls.saveState();
+
+        const render = () => renderer.render(scene, camera);
+        controls.addEventListener('change', render);
+
+        const resize = () => {
+          const width = container.clientWidth;
+          camera.aspect = width / height;
+          camera.updateProjectionMatrix();
+          renderer.setSize(width, height);
+          render();
+        };
+        const observer = new ResizeObserver(resize);
+        observer.observe(container);
+
+        container.appendChild(renderer.domElement);
+        resize();
+        viewerRef.current = { material, controls, render };
+
+        cleanup = () => {
+          observer.disconnect();
+          controls.dispose();
+          model.traverse((child) => {
+            if (child instanceof THREE.Mesh) {
+              child.geometry.dispose();
+            }
+          });
+          material.dispose();
+          if (renderer instanceof THREE.WebGLRenderer) {
+            renderer.dispose();
+          }
+          renderer.domElement.remove();
+          viewerRef.current = null;
+        };
+      })
+      .catch((err: Error) => {
+        if (!cancelled) {
+          setError(err.message || 'Could not show the model');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [articleId, attachmentId, height]);
+
+  React.useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    viewer.material.wireframe = wireframe;
+    viewer.render();
+  }, [wireframe, dimensions]);
+
+  return (
+    <Box
+      sx={{
+        my: 3,
+        border: '1px solid',
+        borderColor: 'border.default',
+        borderRadius: '8px',
+        overflow: 'hidden',
+      }}
+    >
+      <Box
+        ref={containerRef}
+        sx={{
+          position: 'relative',
+          height: `${height}px`,
+          backgroundColor: 'canvas.inset',
+          cursor: 'grab',
+          touchAction: 'none',
+        }}
+      >
+        {!dimensions && (
+          <Box
+            sx={{
+              position: 'absolute',
+              inset: 0,
+              display: 'flex',
+              justifyContent: 'center',
+              alignItems: 'center',
+            }}
+          >
+            {error ? (
+              <Text sx={{ color: 'danger.fg' }}>{error}</Text>
+            ) : (
+              <Spinner />
+            )}
+          </Box>
+        )}
+      </Box>
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 2,
+          px: 3,
+          py: 2,
+          fontSize: '14px',
+        }}
+      >
+        <Box sx={{ display: 'grid', minWidth: 0 }}>
+          <Text sx={{ fontWeight: 'bold' }}>{name}</Text>
+          {dimensions && (
+            <Text
+              sx={{ opacity: 0.7 }}
+              title="The files have no unit, most slicers read them as millimeters"
+            >
+              {dimensions.map(formatDimension).join(' × ')} mm
+              {software && ' • Software rendering'}
+            </Text>
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button
+            size="small"
+            disabled={!dimensions}
+            onClick={() => viewerRef.current?.controls.reset()}
+          >
+            Reset view
+          </Button>
+          <Button
+            size="small"
+            disabled={!dimensions}
+            onClick={() => setWireframe(!wireframe)}
+          >
+            {wireframe ? 'Solid' : 'Wireframe'}
+          </Button>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
@@ -1,4 +1,4 @@
-import { getUser } from '@helper/helper';
+import { getUser, hasPermission } from '@helper/helper';
 import { Box, ActionList, Text } from '@primer/react';
 
 import {
@@ -70,7 +70,7 @@ export const ProfilePictureModal = (props: Props) => {
           </ActionList.LeadingVisual>
           Account
         </ActionList.Item>
-        {user && (user.CanPost === 'true' || user.Admin === 'true') && (
+        {hasPermission(user, 'article.create') && (
           <ActionList.Item
             sx={{ py: 2, fontSize: '16px' }}
             onSelect={() => {
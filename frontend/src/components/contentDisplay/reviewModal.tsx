@@ -0,0 +1,504 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Heading,
+  Text,
+  Label,
+  Spinner,
+  Textarea,
+  IconButton,
+} from '@primer/react';
+import { CommentDiscussionIcon, TrashIcon } from '@primer/octicons-react';
+
+import { Modal } from '../core/Modal';
+import { ShowConfirmationPopup } from './confirmationPopup';
+import { ShowInformationPopup } from './informationPopup';
+import {
+  getUser,
+  getRelativeDate,
+  capitalize,
+  fetchWrapper,
+} from '@helper/helper';
+import { Review, reviewLabelVariants } from '../other/reviews';
+
+interface Props {
+  isOpen: boolean;
+  closeFunc: (open: boolean) => void;
+  articleId: string;
+  reviewing: boolean;
+}
+
+export const ReviewModal = (props: Props) => {
+  const { isOpen, closeFunc, articleId, reviewing } = props;
+  const [reviews, setReviews] = React.useState<Review[] | null>(null);
+  const [selected, setSelected] = React.useState<number | null>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/articles/reviews?id=${articleId}`, {
+      signal,
+    }).then((data) => {
+      const items: Review[] = data.status == 200 ? data.response.return : [];
+      setReviews(items);
+      setSelected((prev) =>
+        prev == null && items.length > 0 ? items[0].Round : prev
+      );
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [isOpen, articleId, backendUrl]);
+
+  // Comments and assignments only change the selected round
+  const updateReview = (review: Review) => {
+    setReviews(
+      (prev) =>
+        prev && prev.map((item) => (item.Round == review.Round ? review : item))
+    );
+  };
+
+  const current = reviews?.find((item) => item.Round == selected);
+
+  return (
+    <Modal isOpen={isOpen} closeFunc={closeFunc}>
+      <Box
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          width: 'min(80vw, 960px)',
+          maxHeight: '75vh',
+        }}
+      >
+        <Heading sx={{ fontSize: '24px' }}>
+          <CommentDiscussionIcon size={24} /> Reviews
+        </Heading>
+
+        {reviews == null && <Spinner sx={{ alignSelf: 'center' }} />}
+        {reviews && reviews.length == 0 && (
+          <Text sx={{ opacity: 0.7 }}>
+            This article has not been submitted for review yet.
+          </Text>
+        )}
+
+        {reviews && reviews.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 3, minHeight: 0, flex: 1 }}>
+            <Box
+              sx={{
+                width: '220px',
+                flexShrink: 0,
+                overflowY: 'auto',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 1,
+              }}
+            >
+              {reviews.map((item) => (
+                <Box
+                  key={item.Round}
+                  onClick={() => setSelected(item.Round)}
+                  sx={{
+                    cursor: 'pointer',
+                    borderRadius: '8px',
+                    px: 2,
+                    py: 1,
+                    backgroundColor:
+                      selected == item.Round
+                        ? 'sidenav.selectedBg'
+                        : 'transparent',
+                    ':hover': { backgroundColor: 'sidenav.selectedBg' },
+                  }}
+                >
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                    }}
+                  >
+                    <Text sx={{ fontWeight: 'bold' }}>Round {item.Round}</Text>
+                    <Label variant={reviewLabelVariants[item.Status]}>
+                      {capitalize(item.Status)}
+                    </Label>
+                  </Box>
+                  <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+                    Submitted {getRelativeDate(item.SubmittedAt)}
+                  </Text>
+                  <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+                    {item.Reviewer
+                      ? `Reviewer: ${item.Reviewer}`
+                      : 'Unassigned'}
+                  </Text>
+                </Box>
+              ))}
+            </Box>
+
+            {current && (
+              <ReviewRound
+                key={current.Round}
+                review={current}
+                reviewing={reviewing && current.Status == 'pending'}
+                updateReview={updateReview}
+              />
+            )}
+          </Box>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+interface RoundProps {
+  review: Review;
+  reviewing: boolean;
+  updateReview: (review: Review) => void;
+}
+
+// A single submission with the body as it was submitted and the comments
+// left on its lines
+const ReviewRound = (props: RoundProps) => {
+  const { review, reviewing, updateReview } = props;
+  const [lines, setLines] = React.useState<string[] | null>(null);
+  const [commentLine, setCommentLine] = React.useState<number | null>(null);
+  const [commentText, setCommentText] = React.useState('');
+  const [reason, setReason] = React.useState('');
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    // Rounds from before the revision history only have the current body
+    const url =
+      review.Revision != null
+        ? `${backendUrl}/articles/revisions/get?id=${review.ArticleID}&revision=${review.Revision}`
+        : `${backendUrl}/articles/get?id=${review.ArticleID}&visibility=private`;
+
+    fetchWrapper(url, { signal }, true, 60 * 60).then((data) => {
+      setLines(
+        data.status == 200
+          ? data.response.return.body.replace(/\n$/, '').split('\n')
+          : []
+      );
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [review.ArticleID, review.Revision, backendUrl]);
+
+  const showError = (
+    data: { response: { message?: string } } | null,
+    fallback: string
+  ) => {
+    ShowInformationPopup(
+      'Error',
+      data?.response?.message ? capitalize(data.response.message) : fallback
+    );
+  };
+
+  const handleAssign = async () => {
+    try {
+      const assignData = await fetchWrapper(
+        `${backendUrl}/articles/reviews/assign?id=${review.ArticleID}`,
+        {
+          method: 'POST',
+          body: JSON.stringify({}),
+        }
+      );
+
+      if (assignData.status != 200) {
+        return showError(assignData, 'Could not assign the review');
+      }
+      updateReview(assignData.response.return);
+    } catch {
+      showError(null, 'Could not assign the review');
+    }
+  };
+
+  const handleComment = async () => {
+    if (commentLine == null || !lines || commentText.trim() == '') return;
+
+    try {
+      const commentData = await fetchWrapper(
+        `${backendUrl}/articles/reviews/comment?id=${review.ArticleID}`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            line: commentLine,
+            quote: lines[commentLine - 1],
+            text: commentText,
+          }),
+        }
+      );
+
+      if (commentData.status != 200) {
+        return showError(commentData, 'Could not add the comment');
+      }
+      updateReview({
+        ...review,
+        Comments: [...review.Comments, commentData.response.return],
+      });
+      setCommentLine(null);
+      setCommentText('');
+    } catch {
+      showError(null, 'Could not add the comment');
+    }
+  };
+
+  const handleRemoveComment = async (commentId: string) => {
+    try {
+      const removeData = await fetchWrapper(
+        `${backendUrl}/articles/reviews/comment?id=${review.ArticleID}&commentId=${commentId}`,
+        {
+          method: 'DELETE',
+        }
+      );
+
+      if (removeData.status != 200) {
+        return showError(removeData, 'Could not remove the comment');
+      }
+      updateReview({
+        ...review,
+        Comments: review.Comments.filter((item) => item.ID != commentId),
+      });
+    } catch {
+      showError(null, 'Could not remove the comment');
+    }
+  };
+
+  const handleDecline = () => {
+    if (reason.trim() == '') {
+      ShowInformationPopup(
+        'Error',
+        'Please explain to the author why the article is declined.'
+      );
+      return;
+    }
+
+    const declineArticle = async () => {
+      try {
+        const declineData = await fetchWrapper(
+          `${backendUrl}/articles/reviews/decline?id=${review.ArticleID}`,
+          {
+            method: 'POST',
+            body: JSON.stringify({ reason }),
+          }
+        );
+
+        if (declineData.status == 200) {
+          sessionStorage.clear();
+          location.reload();
+        } else {
+          showError(declineData, 'Could not decline the article');
+        }
+      } catch {
+        showError(null, 'Could not decline the article');
+      }
+    };
+    ShowConfirmationPopup(
+      'Decline Request',
+      'The article will be sent back to its author together with your reason and comments.',
+      () => {},
+      declineArticle
+    );
+  };
+
+  const commentsByLine = (line: number) =>
+    review.Comments.filter((item) => item.Line == line);
+
+  return (
+    <Box
+      sx={{
+        flex: 1,
+        minWidth: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+        overflowY: 'auto',
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Text sx={{ fontWeight: 'bold' }}>
+          Round {review.Round} • {review.Title}
+        </Text>
+        {reviewing && review.Reviewer != user?.Username && (
+          <Button size="small" onClick={handleAssign}>
+            Assign to me
+          </Button>
+        )}
+      </Box>
+
+      {review.Status == 'declined' && (
+        <Box
+          sx={{
+            p: 2,
+            border: '1px solid',
+            borderColor: 'danger.emphasis',
+            borderRadius: '6px',
+          }}
+        >
+          <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+            Declined by {review.DecidedBy} •{' '}
+            {getRelativeDate(review.DecidedAt || 0)}
+          </Text>
+          <Text as="p" sx={{ m: 0, whiteSpace: 'pre-wrap' }}>
+            {review.Reason}
+          </Text>
+        </Box>
+      )}
+
+      {reviewing && (
+        <Text sx={{ fontSize: '12px', opacity: 0.7 }}>
+          Click on a line number to comment on that line.
+        </Text>
+      )}
+
+      {lines == null && <Spinner sx={{ alignSelf: 'center' }} />}
+      {lines && (
+        <Box
+          sx={{
+            fontFamily: 'mono',
+            fontSize: '13px',
+            border: '1px solid',
+            borderColor: 'border.default',
+            borderRadius: '6px',
+          }}
+        >
+          {lines.map((line, index) => (
+            <Box key={index}>
+              <Box sx={{ display: 'flex' }}>
+                <Box
+                  onClick={() =>
+                    reviewing &&
+                    setCommentLine(commentLine == index + 1 ? null : index + 1)
+                  }
+                  sx={{
+                    width: '48px',
+                    flexShrink: 0,
+                    textAlign: 'right',
+                    pr: 2,
+                    opacity: 0.5,
+                    userSelect: 'none',
+                    cursor: reviewing ? 'pointer' : 'default',
+                    ':hover': reviewing ? { opacity: 1 } : {},
+                  }}
+                >
+                  {index + 1}
+                </Box>
+                <Box sx={{ whiteSpace: 'pre-wrap', minWidth: 0, flex: 1 }}>
+                  {line || ' '}
+                </Box>
+              </Box>
+
+              {commentsByLine(index + 1).map((comment) => (
+                <Box
+                  key={comment.ID}
+                  sx={{
+                    mx: 2,
+                    my: 1,
+                    p: 2,
+                    fontFamily: 'normal',
+                    borderLeft: '3px solid',
+                    borderColor: 'attention.emphasis',
+                    backgroundColor: 'canvas.subtle',
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    gap: 2,
+                  }}
+                >
+                  <Box>
+                    <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+                      {comment.Author} • {getRelativeDate(comment.CreatedAt)}
+                    </Text>
+                    <Text as="p" sx={{ m: 0, whiteSpace: 'pre-wrap' }}>
+                      {comment.Text}
+                    </Text>
+                  </Box>
+                  {reviewing && comment.Author == user?.Username && (
+                    <IconButton
+                      aria-label="Remove comment"
+                      icon={TrashIcon}
+                      variant="invisible"
+                      size="small"
+                      onClick={() => handleRemoveComment(comment.ID)}
+                    />
+                  )}
+                </Box>
+              ))}
+
+              {commentLine == index + 1 && (
+                <Box
+                  sx={{
+                    mx: 2,
+                    my: 1,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 1,
+                    fontFamily: 'normal',
+                  }}
+                >
+                  <Textarea
+                    autoFocus
+                    maxLength={1000}
+                    value={commentText}
+                    onChange={(event) => setCommentText(event.target.value)}
+                    placeholder={`Comment on line ${index + 1}`}
+                    sx={{ width: '100%' }}
+                  />
+                  <Box sx={{ display: 'flex', gap: 2, alignSelf: 'flex-end' }}>
+                    <Button size="small" onClick={() => setCommentLine(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="primary"
+                      onClick={handleComment}
+                    >
+                      Comment
+                    </Button>
+                  </Box>
+                </Box>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {reviewing && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Textarea
+            maxLength={1000}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Reason for declining the article"
+            sx={{ width: '100%' }}
+          />
+          <Button
+            variant="danger"
+            sx={{ alignSelf: 'flex-end' }}
+            onClick={handleDecline}
+          >
+            Decline
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
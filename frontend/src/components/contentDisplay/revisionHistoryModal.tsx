@@ -0,0 +1,359 @@
+import React from 'react';
+import { Box, Button, Heading, Text, Label, Spinner } from '@primer/react';
+import { HistoryIcon } from '@primer/octicons-react';
+
+import { Modal } from '../core/Modal';
+import { ShowConfirmationPopup } from './confirmationPopup';
+import { ShowInformationPopup } from './informationPopup';
+import { getRelativeDate, capitalize, fetchWrapper } from '@helper/helper';
+
+interface Revision {
+  Revision: number;
+  CreatedAt: number;
+  Editor: string;
+  Note: string;
+  Title: string;
+  Visibility: string;
+}
+
+type MetadataValue = string | string[] | null;
+
+interface MetadataChange {
+  field: string;
+  from: MetadataValue;
+  to: MetadataValue;
+}
+
+interface BodyChange {
+  type: 'added' | 'removed' | 'same';
+  value: string;
+  lines: number;
+}
+
+interface Diff {
+  body?: BodyChange[];
+  metadata?: MetadataChange[];
+  additions?: number;
+  deletions?: number;
+  // Set when there is no earlier revision or the changes could not be loaded
+  initial?: boolean;
+  error?: boolean;
+}
+
+interface Props {
+  isOpen: boolean;
+  closeFunc: (open: boolean) => void;
+  articleId: string;
+}
+
+const revisionsPerPage = 10;
+
+export const RevisionHistoryModal = (props: Props) => {
+  const { isOpen, closeFunc, articleId } = props;
+  const [revisions, setRevisions] = React.useState<Revision[] | null>(null);
+  // Cursor of the page to load, null for the first page
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [selected, setSelected] = React.useState<number | null>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(
+      `${backendUrl}/articles/revisions?id=${articleId}&limit=${revisionsPerPage}${
+        cursor ? `&cursor=${cursor}` : ''
+      }`,
+      { signal }
+    ).then((data) => {
+      if (data.status != 200) {
+        setRevisions((prev) => prev || []);
+        return;
+      }
+      const items: Revision[] = data.response.return;
+      setRevisions((prev) => (cursor ? [...(prev || []), ...items] : items));
+      setNextCursor(data.response.cursor);
+      if (!cursor && items.length > 0) {
+        setSelected(items[0].Revision);
+      }
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [isOpen, cursor, articleId, backendUrl]);
+
+  const latest = revisions && revisions.length > 0 ? revisions[0] : null;
+
+  return (
+    <Modal isOpen={isOpen} closeFunc={closeFunc}>
+      <Box
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          width: 'min(80vw, 960px)',
+          maxHeight: '75vh',
+        }}
+      >
+        <Heading sx={{ fontSize: '24px' }}>
+          <HistoryIcon size={24} /> Revision History
+        </Heading>
+
+        {revisions == null && <Spinner sx={{ alignSelf: 'center' }} />}
+        {revisions && revisions.length == 0 && (
+          <Text sx={{ opacity: 0.7 }}>
+            This article has no saved revisions yet.
+          </Text>
+        )}
+
+        {revisions && revisions.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 3, minHeight: 0, flex: 1 }}>
+            <Box
+              sx={{
+                width: '260px',
+                flexShrink: 0,
+                overflowY: 'auto',
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 1,
+              }}
+            >
+              {revisions.map((item) => (
+                <Box
+                  key={item.Revision}
+                  onClick={() => setSelected(item.Revision)}
+                  sx={{
+                    cursor: 'pointer',
+                    borderRadius: '8px',
+                    px: 2,
+                    py: 1,
+                    backgroundColor:
+                      selected == item.Revision
+                        ? 'sidenav.selectedBg'
+                        : 'transparent',
+                    ':hover': { backgroundColor: 'sidenav.selectedBg' },
+                  }}
+                >
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                    }}
+                  >
+                    <Text sx={{ fontWeight: 'bold' }}>#{item.Revision}</Text>
+                    <Label>{capitalize(item.Visibility)}</Label>
+                  </Box>
+                  <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+                    {item.Editor} • {getRelativeDate(item.CreatedAt)}
+                  </Text>
+                  {item.Note && (
+                    <Text as="p" sx={{ fontSize: '13px', m: 0 }}>
+                      {item.Note}
+                    </Text>
+                  )}
+                </Box>
+              ))}
+              {nextCursor && (
+                <Button size="small" onClick={() => setCursor(nextCursor)}>
+                  Load more
+                </Button>
+              )}
+            </Box>
+
+            {selected != null && latest && (
+              <RevisionDiff
+                articleId={articleId}
+                revision={selected}
+                isLatest={selected == latest.Revision}
+              />
+            )}
+          </Box>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+interface DiffProps {
+  articleId: string;
+  revision: number;
+  isLatest: boolean;
+}
+
+// Shows what changed in a revision compared to the one before it
+const RevisionDiff = (props: DiffProps) => {
+  const { articleId, revision, isLatest } = props;
+  const [diff, setDiff] = React.useState<Diff | null>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    setDiff(null);
+    if (revision == 1) {
+      setDiff({ initial: true });
+      return;
+    }
+
+    fetchWrapper(
+      `${backendUrl}/articles/revisions/diff?id=${articleId}&from=${
+        revision - 1
+      }&to=${revision}`,
+      { signal },
+      true,
+      60 * 60
+    ).then((data) => {
+      setDiff(data.status == 200 ? data.response.return : { error: true });
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [revision, articleId, backendUrl]);
+
+  const handleRestore = () => {
+    const restoreRevision = async () => {
+      try {
+        const restoreData = await fetchWrapper(
+          `${backendUrl}/articles/revisions/restore?id=${articleId}&revision=${revision}`,
+          {
+            method: 'POST',
+          }
+        );
+
+        if (restoreData.status == 200) {
+          sessionStorage.clear();
+          location.reload();
+        } else {
+          ShowInformationPopup(
+            'Error',
+            capitalize(restoreData.response.message)
+          );
+        }
+      } catch {
+        ShowInformationPopup(
+          'Error',
+          'There was a problem while trying to restore the revision'
+        );
+      }
+    };
+    ShowConfirmationPopup(
+      'Restore Revision',
+      `The article will be replaced with revision #${revision}. The current version will stay in the history.`,
+      () => {},
+      restoreRevision
+    );
+  };
+
+  return (
+    <Box
+      sx={{
+        flex: 1,
+        minWidth: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Text sx={{ fontWeight: 'bold' }}>
+          {revision == 1 ? `Revision #1` : `Changes in revision #${revision}`}
+        </Text>
+        {!isLatest && (
+          <Button size="small" variant="primary" onClick={handleRestore}>
+            Restore
+          </Button>
+        )}
+      </Box>
+
+      {diff == null && <Spinner sx={{ alignSelf: 'center' }} />}
+      {diff?.initial && (
+        <Text sx={{ opacity: 0.7 }}>This is the first saved version.</Text>
+      )}
+      {diff?.error && (
+        <Text sx={{ color: 'danger.fg' }}>Could not load the changes.</Text>
+      )}
+
+      {diff?.body && (
+        <>
+          <Text sx={{ fontSize: '13px' }}>
+            <Text sx={{ color: 'success.fg' }}>+{diff.additions}</Text>{' '}
+            <Text sx={{ color: 'danger.fg' }}>-{diff.deletions}</Text>
+          </Text>
+
+          {diff.metadata?.map((item) => (
+            <Box key={item.field} sx={{ fontSize: '13px' }}>
+              <Text sx={{ fontWeight: 'bold' }}>{item.field}: </Text>
+              <Text sx={{ color: 'danger.fg', textDecoration: 'line-through' }}>
+                {formatValue(item.from)}
+              </Text>{' '}
+              <Text sx={{ color: 'success.fg' }}>{formatValue(item.to)}</Text>
+            </Box>
+          ))}
+
+          <Box
+            as="pre"
+            sx={{
+              m: 0,
+              overflow: 'auto',
+              fontFamily: 'mono',
+              fontSize: '13px',
+              border: '1px solid',
+              borderColor: 'border.default',
+              borderRadius: '6px',
+            }}
+          >
+            {diff.body.map((chunk, index) => (
+              <Box
+                key={index}
+                sx={{
+                  px: 2,
+                  whiteSpace: 'pre-wrap',
+                  backgroundColor:
+                    chunk.type == 'added'
+                      ? 'success.subtle'
+                      : chunk.type == 'removed'
+                      ? 'danger.subtle'
+                      : 'transparent',
+                  opacity: chunk.type == 'same' ? 0.6 : 1,
+                }}
+              >
+                {prefixLines(chunk.value, chunk.type)}
+              </Box>
+            ))}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+const formatValue = (value: MetadataValue) => {
+  if (value == null || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+// Marks every line of a chunk like a unified diff
+const prefixLines = (value: string, type: string) => {
+  const prefix = type == 'added' ? '+ ' : type == 'removed' ? '- ' : '  ';
+  return value
+    .replace(/\n$/, '')
+    .split('\n')
+    .map((line) => prefix + line)
+    .join('\n');
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Box, Button, Heading, Text, TextInput } from '@primer/react';
+import { CalendarIcon } from '@primer/octicons-react';
+
+import { Modal } from '../core/Modal';
+import { ShowInformationPopup } from './informationPopup';
+import { capitalize, fetchWrapper } from '@helper/helper';
+
+interface Props {
+  isOpen: boolean;
+  closeFunc: (open: boolean) => void;
+  articleId: string;
+}
+
+// Value of a datetime-local input, in local time
+const toInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const ScheduleModal = (props: Props) => {
+  const { isOpen, closeFunc, articleId } = props;
+  const [publishAt, setPublishAt] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  // Suggest the next full hour
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const nextHour = new Date();
+    nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
+    setPublishAt(toInputValue(nextHour));
+  }, [isOpen]);
+
+  const handleSchedule = async () => {
+    const timestamp = Math.floor(new Date(publishAt).getTime() / 1000);
+    if (!timestamp || timestamp * 1000 <= Date.now()) {
+      ShowInformationPopup('Error', 'Please choose a time in the future.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const scheduleData = await fetchWrapper(
+        `${backendUrl}/articles/publish?id=${articleId}`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ publishAt: timestamp }),
+        }
+      );
+
+      if (scheduleData.status == 200) {
+        sessionStorage.clear();
+        location.reload();
+      } else {
+        ShowInformationPopup(
+          'Error',
+          capitalize(scheduleData.response.message || 'Could not schedule')
+        );
+      }
+    } catch {
+      ShowInformationPopup('Error', 'Could not schedule the article');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} closeFunc={closeFunc}>
+      <Box sx={{ display: 'grid', gap: 3, width: '300px' }}>
+        <Heading sx={{ fontSize: '22px' }}>Schedule Article</Heading>
+        <Text sx={{ fontSize: '14px', opacity: 0.7 }}>
+          The article is accepted now and published at the chosen time. It stays
+          private until then.
+        </Text>
+        <TextInput
+          aria-label="Publication time"
+          type="datetime-local"
+          value={publishAt}
+          min={toInputValue(new Date())}
+          onChange={(event) => setPublishAt(event.target.value)}
+          leadingVisual={CalendarIcon}
+        />
+        <Button
+          variant="primary"
+          disabled={isSubmitting}
+          onClick={handleSchedule}
+        >
+          {isSubmitting ? 'Scheduling...' : 'Schedule'}
+        </Button>
+      </Box>
+    </Modal>
+  );
+};
@@ -0,0 +1,127 @@
+import { Box, Button, IconButton, Text, TextInput } from '@primer/react';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@primer/octicons-react';
+
+import { MarkdownEditor } from '../core/markdownEditor';
+import { MAX_STEPS, Step, emptyStep } from '../other/steps';
+
+interface Props {
+  steps: Step[];
+  onChange: (steps: Step[]) => void;
+  maxLength: number;
+  articleId?: string;
+}
+
+// Edits the steps of a step by step article, the steps keep their ID so the
+// progress of the readers survives reordering
+export const StepEditor = (props: Props) => {
+  const { steps, onChange, maxLength, articleId } = props;
+
+  const updateStep = (index: number, fields: Partial<Step>) => {
+    onChange(
+      steps.map((step, i) => (i == index ? { ...step, ...fields } : step))
+    );
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const moved = [...steps];
+    [moved[index], moved[index + offset]] = [
+      moved[index + offset],
+      moved[index],
+    ];
+    onChange(moved);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i != index));
+  };
+
+  return (
+    <Box sx={{ display: 'grid', gap: 4, mt: 4 }}>
+      {steps.map((step, index) => (
+        <Box
+          // New steps have no ID yet
+          key={step.ID || `new-${index}`}
+          sx={{
+            display: 'grid',
+            gap: 2,
+            p: 3,
+            border: '1px solid',
+            borderColor: 'border.default',
+            borderRadius: '8px',
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Text sx={{ fontWeight: 'bold', flex: 1 }}>Step {index + 1}</Text>
+            <IconButton
+              aria-label="Move step up"
+              icon={ArrowUpIcon}
+              size="small"
+              disabled={index == 0}
+              onClick={() => moveStep(index, -1)}
+            />
+            <IconButton
+              aria-label="Move step down"
+              icon={ArrowDownIcon}
+              size="small"
+              disabled={index == steps.length - 1}
+              onClick={() => moveStep(index, 1)}
+            />
+            <IconButton
+              aria-label="Remove step"
+              icon={TrashIcon}
+              size="small"
+              variant="danger"
+              disabled={steps.length == 1}
+              onClick={() => removeStep(index)}
+            />
+          </Box>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <TextInput
+              maxLength={120}
+              value={step.Title}
+              onChange={(event) =>
+                updateStep(index, { Title: event.target.value })
+              }
+              placeholder="Step title:"
+              sx={{ flex: 1, minWidth: '200px' }}
+            />
+            <TextInput
+              type="number"
+              min={1}
+              value={step.Minutes ?? ''}
+              onChange={(event) => {
+                const minutes = parseInt(event.target.value);
+                updateStep(index, {
+                  Minutes: minutes > 0 ? minutes : null,
+                });
+              }}
+              placeholder="Minutes (optional)"
+              sx={{ width: '180px' }}
+            />
+          </Box>
+          <MarkdownEditor
+            articleId={articleId}
+            placeholder="Instructions:"
+            maxLength={maxLength}
+            height="300px"
+            value={step.Body}
+            onChange={(value) => updateStep(index, { Body: value })}
+          />
+        </Box>
+      ))}
+      <Button
+        leadingVisual={PlusIcon}
+        disabled={steps.length >= MAX_STEPS}
+        onClick={() => onChange([...steps, emptyStep()])}
+        sx={{ justifySelf: 'start' }}
+      >
+        Add step
+      </Button>
+    </Box>
+  );
+};
@@ -0,0 +1,200 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Heading,
+  ProgressBar,
+  Text,
+} from '@primer/react';
+import { ClockIcon } from '@primer/octicons-react';
+
+import { MarkdownRenderer } from './markdown';
+import { ShowInformationPopup } from './informationPopup';
+import {
+  Step,
+  StepProgress,
+  fetchStepProgress,
+  formatMinutes,
+  getCompletion,
+  getResumeIndex,
+  setStepDone,
+} from '../other/steps';
+import { capitalize, getUser } from '@helper/helper';
+
+interface Props {
+  articleId: string;
+  steps: Step[];
+}
+
+const emptyProgress: StepProgress = { Completed: [], LastStep: null };
+
+// The steps of a step by step article, the signed in readers check them off
+// and continue where they left off
+export const StepList = (props: Props) => {
+  const { articleId, steps } = props;
+  const [progress, setProgress] = React.useState<StepProgress>(emptyProgress);
+  const [saving, setSaving] = React.useState<string | null>(null);
+  const stepRefs = React.useRef<(HTMLDivElement | null)[]>([]);
+
+  const user = getUser();
+  const username = user?.Username;
+  const totalMinutes = steps.reduce(
+    (sum, step) => sum + (step.Minutes || 0),
+    0
+  );
+  const completion = getCompletion(progress, steps.length);
+  const resumeIndex = getResumeIndex(steps, progress);
+
+  React.useEffect(() => {
+    if (!username) return;
+
+    const controller = new AbortController();
+    fetchStepProgress(articleId, controller.signal)
+      .then((data) => {
+        if (data) {
+          setProgress(data);
+        }
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error(err);
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [articleId, username]);
+
+  const handleCheck = async (step: Step, done: boolean) => {
+    if (!user) {
+      return (window.location.href = 'sign-up');
+    }
+
+    setSaving(step.ID);
+    try {
+      setProgress(await setStepDone(articleId, step.ID, done));
+    } catch (error) {
+      ShowInformationPopup('Error', capitalize((error as Error).message));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const scrollToStep = (index: number) => {
+    stepRefs.current[index]?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'start',
+    });
+  };
+
+  return (
+    <Box sx={{ display: 'grid', gap: 4, mt: 4 }}>
+      <Box
+        sx={{
+          display: 'grid',
+          gap: 2,
+          p: 3,
+          border: '1px solid',
+          borderColor: 'border.default',
+          borderRadius: '8px',
+        }}
+      >
+        <Box
+          sx={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: 2,
+          }}
+        >
+          <Text sx={{ fontWeight: 'bold' }}>
+            {progress.Completed.length} of {steps.length} steps done
+            {totalMinutes > 0 && (
+              <Text sx={{ fontWeight: 'normal', opacity: 0.7 }}>
+                {' • About '}
+                {formatMinutes(totalMinutes)}
+              </Text>
+            )}
+          </Text>
+          {progress.LastStep && resumeIndex != -1 && (
+            <Button size="small" onClick={() => scrollToStep(resumeIndex)}>
+              Resume at step {resumeIndex + 1}
+            </Button>
+          )}
+        </Box>
+        <ProgressBar
+          progress={completion}
+          aria-label={`${completion}% of the steps done`}
+        />
+        {!user && (
+          <Text sx={{ fontSize: '14px', opacity: 0.7 }}>
+            Sign in to check off the steps and continue later.
+          </Text>
+        )}
+      </Box>
+
+      {steps.map((step, index) => {
+        const done = progress.Completed.includes(step.ID);
+        return (
+          <Box
+            key={step.ID}
+            id={`step-${index + 1}`}
+            ref={(element: HTMLDivElement | null) =>
+              (stepRefs.current[index] = element)
+            }
+            sx={{
+              scrollMarginTop: '80px',
+              borderLeft: '4px solid',
+              borderColor: done ? 'success.emphasis' : 'border.default',
+              pl: 3,
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+              <Checkbox
+                id={`step-check-${step.ID}`}
+                checked={done}
+                disabled={saving == step.ID}
+                onChange={(event) => handleCheck(step, event.target.checked)}
+                aria-label={`Step ${index + 1} done`}
+              />
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Text sx={{ fontSize: '14px', opacity: 0.7 }}>
+                  Step {index + 1}
+                </Text>
+                <Heading
+                  as="h2"
+                  sx={{
+                    fontSize: '24px',
+                    textDecoration: done ? 'line-through' : 'none',
+                    opacity: done ? 0.7 : 1,
+                  }}
+                >
+                  {step.Title}
+                </Heading>
+              </Box>
+              {step.Minutes && (
+                <Text
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 1,
+                    fontSize: '14px',
+                    opacity: 0.7,
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  <ClockIcon size={14} />
+                  {formatMinutes(step.Minutes)}
+                </Text>
+              )}
+            </Box>
+            <MarkdownRenderer content={step.Body} articleId={articleId} />
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,389 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Heading,
+  Text,
+  Label,
+  Select,
+  Spinner,
+  Textarea,
+} from '@primer/react';
+import { PersonIcon } from '@primer/octicons-react';
+
+import { Modal } from '../core/Modal';
+import { ShowConfirmationPopup } from './confirmationPopup';
+import { ShowInformationPopup } from './informationPopup';
+import {
+  getUser,
+  getRelativeDate,
+  capitalize,
+  fetchWrapper,
+} from '@helper/helper';
+
+export interface Suspension {
+  Reason: string;
+  Until: number | null;
+  By: string;
+  Since: number;
+}
+
+export interface Account {
+  Username: string;
+  Email: string;
+  Roles: string[];
+  Verified: string;
+  ProfilePic: string;
+  AccountCreated: number;
+  Suspension: Suspension | null;
+  TwoFactor?: boolean;
+  PublishedArticles?: number;
+  UnpublishedArticles?: number;
+}
+
+interface AuditEntry {
+  ID: string;
+  Actor: string;
+  Action: string;
+  Details: { [key: string]: string | number | boolean | null };
+  CreatedAt: number;
+}
+
+interface Props {
+  isOpen: boolean;
+  closeFunc: (open: boolean) => void;
+  username: string;
+  updateAccount: (account: Account | null) => void;
+}
+
+// Suspension lengths in days, 0 bans the account
+const suspensionLengths = [1, 7, 30, 0];
+
+const actionNames: { [action: string]: string } = {
+  'user.canPost': 'Posting changed',
+  'user.verification': 'Verification requested',
+  'user.suspend': 'Suspended',
+  'user.ban': 'Banned',
+  'user.reinstate': 'Reinstated',
+  'user.delete': 'Deleted',
+  'user.twoFactor': 'Two-factor authentication changed',
+  'user.recoveryCode': 'Recovery code used',
+  'role.grant': 'Role granted',
+  'role.revoke': 'Role revoked',
+  'session.reuse': 'Refresh token reused',
+  'settings.twoFactor': 'Two-factor roles changed',
+};
+
+export const UserManagementModal = (props: Props) => {
+  const { isOpen, closeFunc, username, updateAccount } = props;
+  const [account, setAccount] = React.useState<Account | null>(null);
+  const [audit, setAudit] = React.useState<AuditEntry[] | null>(null);
+  const [reason, setReason] = React.useState('');
+  const [days, setDays] = React.useState(7);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+  const userUrl = `${backendUrl}/admin/users/${encodeURIComponent(username)}`;
+
+  const loadAudit = React.useCallback(
+    (signal?: AbortSignal) => {
+      fetchWrapper(`${userUrl}/audit`, { signal }).then((data) => {
+        setAudit(data.status == 200 ? data.response.return : []);
+      });
+    },
+    [userUrl]
+  );
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(userUrl, { signal }).then((data) => {
+      setAccount(data.status == 200 ? data.response.return : null);
+    });
+    loadAudit(signal);
+
+    return () => {
+      controller.abort();
+    };
+  }, [isOpen, userUrl, loadAudit]);
+
+  const showError = (
+    data: { response: { message?: string } } | null,
+    fallback: string
+  ) => {
+    ShowInformationPopup(
+      'Error',
+      data?.response?.message ? capitalize(data.response.message) : fallback
+    );
+  };
+
+  // Sends a change and shows the account as it is after it
+  const sendAction = async (
+    url: string,
+    method: string,
+    body: object | undefined,
+    change: (response: { [key: string]: unknown }) => Partial<Account>,
+    fallback: string
+  ) => {
+    try {
+      const actionData = await fetchWrapper(url, {
+        method,
+        body: body && JSON.stringify(body),
+      });
+
+      if (actionData.status != 200) {
+        return showError(actionData, fallback);
+      }
+      if (account) {
+        const updated = { ...account, ...change(actionData.response) };
+        setAccount(updated);
+        updateAccount(updated);
+      }
+      setReason('');
+      loadAudit();
+    } catch {
+      showError(null, fallback);
+    }
+  };
+
+  const requireReason = () => {
+    if (reason.trim() == '') {
+      ShowInformationPopup('Error', 'Please enter a reason first.');
+      return false;
+    }
+    return true;
+  };
+
+  const handleCanPost = (canPost: boolean) => {
+    sendAction(
+      `${userUrl}/can-post`,
+      'POST',
+      { canPost },
+      (response) => ({ Roles: response.roles as string[] }),
+      'Could not change the roles'
+    );
+  };
+
+  const handleVerification = () => {
+    ShowConfirmationPopup(
+      'Require Verification',
+      `${username} will have to verify their email address again.`,
+      () => {},
+      () =>
+        sendAction(
+          `${userUrl}/verification`,
+          'POST',
+          undefined,
+          () => ({ Verified: 'false' }),
+          'Could not request the verification'
+        )
+    );
+  };
+
+  const handleSuspend = () => {
+    if (!requireReason()) return;
+
+    const until =
+      days > 0 ? Math.floor(Date.now() / 1000) + days * 24 * 60 * 60 : null;
+    ShowConfirmationPopup(
+      until ? 'Suspend Account' : 'Ban Account',
+      until
+        ? `${username} will be suspended for ${days} day${days > 1 ? 's' : ''}.`
+        : `${username} will be banned until they are reinstated.`,
+      () => {},
+      () =>
+        sendAction(
+          `${userUrl}/suspension`,
+          'POST',
+          { reason, until },
+          (response) => ({ Suspension: response.suspension as Suspension }),
+          'Could not suspend the account'
+        )
+    );
+  };
+
+  const handleReinstate = () => {
+    sendAction(
+      `${userUrl}/suspension`,
+      'DELETE',
+      undefined,
+      () => ({ Suspension: null }),
+      'Could not reinstate the account'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!requireReason()) return;
+
+    const deleteAccount = async () => {
+      try {
+        const deleteData = await fetchWrapper(userUrl, {
+          method: 'DELETE',
+          body: JSON.stringify({ reason }),
+        });
+
+        if (deleteData.status != 200) {
+          return showError(deleteData, 'Could not delete the account');
+        }
+        updateAccount(null);
+        closeFunc(false);
+      } catch {
+        showError(null, 'Could not delete the account');
+      }
+    };
+    ShowConfirmationPopup(
+      'Delete Account',
+      `${username} and all of their articles, comments and likes will be deleted. This cannot be undone.`,
+      () => {},
+      deleteAccount
+    );
+  };
+
+  const canPost = account?.Roles.includes('author');
+  const isSelf = user?.Username == username;
+
+  return (
+    <Modal isOpen={isOpen} closeFunc={closeFunc}>
+      <Box
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          width: 'min(80vw, 640px)',
+          maxHeight: '75vh',
+          overflowY: 'auto',
+        }}
+      >
+        <Heading sx={{ fontSize: '24px' }}>
+          <PersonIcon size={24} /> {username}
+        </Heading>
+
+        {account == null && <Spinner sx={{ alignSelf: 'center' }} />}
+        {account && (
+          <>
+            <Box>
+              <Text as="p" sx={{ m: 0 }}>
+                {account.Email}
+              </Text>
+              <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+                Joined {getRelativeDate(account.AccountCreated)} •{' '}
+                {account.PublishedArticles} published •{' '}
+                {account.UnpublishedArticles} unpublished
+              </Text>
+              <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+                {account.Roles.map((role) => (
+                  <Label key={role}>{capitalize(role)}</Label>
+                ))}
+                {account.Verified != 'true' && (
+                  <Label variant="attention">Unverified</Label>
+                )}
+                {account.TwoFactor && <Label variant="success">2FA</Label>}
+              </Box>
+            </Box>
+
+            {account.Suspension && (
+              <Box
+                sx={{
+                  p: 2,
+                  border: '1px solid',
+                  borderColor: 'danger.emphasis',
+                  borderRadius: '6px',
+                }}
+              >
+                <Text as="p" sx={{ fontSize: '12px', opacity: 0.7, m: 0 }}>
+                  {account.Suspension.Until
+                    ? `Suspended until ${new Date(
+                        account.Suspension.Until * 1000
+                      ).toLocaleString()}`
+                    : 'Banned'}{' '}
+                  by {account.Suspension.By}
+                </Text>
+                <Text as="p" sx={{ m: 0, whiteSpace: 'pre-wrap' }}>
+                  {account.Suspension.Reason}
+                </Text>
+              </Box>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <Button size="small" onClick={() => handleCanPost(!canPost)}>
+                {canPost ? 'Stop posting' : 'Allow posting'}
+              </Button>
+              <Button
+                size="small"
+                onClick={handleVerification}
+                disabled={account.Verified != 'true'}
+              >
+                Require verification
+              </Button>
+              {account.Suspension && (
+                <Button size="small" onClick={handleReinstate}>
+                  Reinstate
+                </Button>
+              )}
+            </Box>
+
+            {!isSelf && (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <Textarea
+                  placeholder="Reason, required to suspend or delete the account"
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  maxLength={500}
+                  resize="vertical"
+                  sx={{ width: '100%' }}
+                />
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                  <Select
+                    size="small"
+                    value={String(days)}
+                    onChange={(event) => setDays(Number(event.target.value))}
+                  >
+                    {suspensionLengths.map((length) => (
+                      <Select.Option key={length} value={String(length)}>
+                        {length > 0
+                          ? `${length} day${length > 1 ? 's' : ''}`
+                          : 'Permanent'}
+                      </Select.Option>
+                    ))}
+                  </Select>
+                  <Button size="small" variant="danger" onClick={handleSuspend}>
+                    {days > 0 ? 'Suspend' : 'Ban'}
+                  </Button>
+                  <Button size="small" variant="danger" onClick={handleDelete}>
+                    Delete account
+                  </Button>
+                </Box>
+              </Box>
+            )}
+          </>
+        )}
+
+        <Heading sx={{ fontSize: '18px' }}>Audit trail</Heading>
+        {audit == null && <Spinner sx={{ alignSelf: 'center' }} />}
+        {audit && audit.length == 0 && (
+          <Text sx={{ opacity: 0.7 }}>No actions were taken yet.</Text>
+        )}
+        {audit &&
+          audit.map((entry) => (
+            <Box key={entry.ID}>
+              <Text sx={{ fontWeight: 'bold' }}>
+                {actionNames[entry.Action] || entry.Action}
+              </Text>
+              <Text sx={{ fontSize: '12px', opacity: 0.7 }}>
+                {' '}
+                by {entry.Actor} • {getRelativeDate(entry.CreatedAt)}
+              </Text>
+              {(entry.Details.reason || entry.Details.role) && (
+                <Text as="p" sx={{ m: 0, whiteSpace: 'pre-wrap' }}>
+                  {entry.Details.reason || entry.Details.role}
+                </Text>
+              )}
+            </Box>
+          ))}
+      </Box>
+    </Modal>
+  );
+};
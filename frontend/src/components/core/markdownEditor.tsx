@@ -0,0 +1,486 @@
+import React from 'react';
+import {
+  Box,
+  Textarea,
+  Text,
+  IconButton,
+  SegmentedControl,
+} from '@primer/react';
+import {
+  HeadingIcon,
+  BoldIcon,
+  ItalicIcon,
+  QuoteIcon,
+  CodeIcon,
+  FileCodeIcon,
+  LinkIcon,
+  ImageIcon,
+  ListUnorderedIcon,
+  ListOrderedIcon,
+  TasklistIcon,
+  TableIcon,
+  FileMediaIcon,
+} from '@primer/octicons-react';
+
+import { MarkdownRenderer } from '../contentDisplay/markdown';
+import { MediaLibraryModal } from '../contentDisplay/mediaLibraryModal';
+import { ShowInformationPopup } from '../contentDisplay/informationPopup';
+import { useScreenWidth } from '../other/useScreenWidth';
+import { getMediaMarkdown, uploadMedia } from '../other/mediaUpload';
+import { capitalize } from '@helper/helper';
+
+type ViewMode = 'write' | 'split' | 'preview';
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  maxLength: number;
+  placeholder?: string;
+  // Images can only be uploaded into saved articles
+  articleId?: string;
+  // Overrides the default height that depends on the screen width
+  height?: string;
+}
+
+// The text that gets inserted/replaced and the selection to restore afterwards
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const isMac = navigator.platform.toUpperCase().includes('MAC');
+const modKey = isMac ? '⌘' : 'Ctrl+';
+
+export const MarkdownEditor = (props: Props) => {
+  const { value, onChange, maxLength, placeholder, articleId } = props;
+  const screenWidth = useScreenWidth();
+  const [mode, setMode] = React.useState<ViewMode>('split');
+  const [libraryOpen, setLibraryOpen] = React.useState(false);
+  const [uploading, setUploading] = React.useState(0);
+  // Markdown of uploaded images, inserted once the upload has finished
+  const [insertion, setInsertion] = React.useState<string | null>(null);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const previewRef = React.useRef<HTMLDivElement>(null);
+  // Element whose scroll event was caused by the sync, so it is not echoed back
+  const syncingRef = React.useRef<HTMLElement | null>(null);
+
+  // There is no room for two panes on small screens
+  const viewMode = screenWidth < 1012 && mode == 'split' ? 'write' : mode;
+  const modes: ViewMode[] =
+    screenWidth < 1012 ? ['write', 'preview'] : ['write', 'split', 'preview'];
+
+  const applyEdit = React.useCallback(
+    (edit: Edit) => {
+      const newValue =
+        value.slice(0, edit.start) + edit.text + value.slice(edit.end);
+      if (newValue.length > maxLength) {
+        return;
+      }
+      onChange(newValue);
+
+      // Restore the selection once the new value has been rendered
+      requestAnimationFrame(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      });
+    },
+    [value, maxLength, onChange]
+  );
+
+  const getSelection = React.useCallback(() => {
+    const textarea = textareaRef.current;
+    const start = textarea ? textarea.selectionStart : value.length;
+    const end = textarea ? textarea.selectionEnd : value.length;
+    return { start, end, selected: value.slice(start, end) };
+  }, [value]);
+
+  // Wraps the selection, e.g. **bold**, or inserts a placeholder to overwrite
+  const wrapSelection = (before: string, after: string, fallback: string) => {
+    const { start, end, selected } = getSelection();
+
+    // Toggle off when the selection is already wrapped
+    if (
+      value.slice(start - before.length, start) == before &&
+      value.slice(end, end + after.length) == after
+    ) {
+      return applyEdit({
+        start: start - before.length,
+        end: end + after.length,
+        text: selected,
+        selectionStart: start - before.length,
+        selectionEnd: end - before.length,
+      });
+    }
+
+    const content = selected || fallback;
+    applyEdit({
+      start,
+      end,
+      text: before + content + after,
+      selectionStart: start + before.length,
+      selectionEnd: start + before.length + content.length,
+    });
+  };
+
+  // Adds a prefix to every line touched by the selection, e.g. "- " for lists
+  const prefixLines = (getPrefix: (index: number) => string) => {
+    const { start, end } = getSelection();
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const nextBreak = value.indexOf('\n', end);
+    const lineEnd = nextBreak == -1 ? value.length : nextBreak;
+
+    const lines = value.slice(lineStart, lineEnd).split('\n');
+    const text = lines.map((line, index) => getPrefix(index) + line).join('\n');
+    applyEdit({
+      start: lineStart,
+      end: lineEnd,
+      text,
+      selectionStart: lineStart + getPrefix(0).length,
+      selectionEnd: lineStart + text.length,
+    });
+  };
+
+  // Inserts a block on its own lines, separated from the surrounding text
+  const insertBlock = React.useCallback(
+    (block: string, cursorOffset: number) => {
+      const { start, end } = getSelection();
+      const before = start == 0 || value[start - 1] == '\n' ? '' : '\n';
+      const padding =
+        before + (value.slice(0, start).endsWith('\n\n') ? '' : '\n');
+      const text = (start == 0 ? '' : padding) + block + '\n';
+      const cursor = start + text.length - block.length - 1 + cursorOffset;
+      applyEdit({
+        start,
+        end,
+        text,
+        selectionStart: cursor,
+        selectionEnd: cursor,
+      });
+    },
+    [value, getSelection, applyEdit]
+  );
+
+  // The value has changed during the upload, so the images are inserted
+  // after the next render
+  React.useEffect(() => {
+    if (insertion == null) return;
+    setInsertion(null);
+    insertBlock(insertion, insertion.length + 1);
+  }, [insertion, insertBlock]);
+
+  const uploadImages = async (files: File[]) => {
+    if (!articleId) {
+      ShowInformationPopup('Error', 'Save the article first to upload images.');
+      return;
+    }
+
+    setUploading((count) => count + files.length);
+    const images: string[] = [];
+    try {
+      for (const file of files) {
+        const item = await uploadMedia(articleId, file);
+        images.push(getMediaMarkdown(item, file.name));
+        setUploading((count) => count - 1);
+      }
+    } catch (error) {
+      ShowInformationPopup('Error', capitalize((error as Error).message));
+    } finally {
+      setUploading((count) => count - (files.length - images.length));
+      if (images.length > 0) {
+        setInsertion(images.join('\n\n'));
+      }
+    }
+  };
+
+  // Pasted or dropped images are uploaded, anything else is left to the textarea
+  const handleFiles = (event: React.ClipboardEvent | React.DragEvent) => {
+    const transfer =
+      'clipboardData' in event ? event.clipboardData : event.dataTransfer;
+    const files = Array.from(transfer.files).filter((file) =>
+      file.type.startsWith('image/')
+    );
+    if (files.length == 0) return;
+
+    event.preventDefault();
+    uploadImages(files);
+  };
+
+  const actions = {
+    heading: () => prefixLines(() => '## '),
+    bold: () => wrapSelection('**', '**', 'bold text'),
+    italic: () => wrapSelection('_', '_', 'italic text'),
+    quote: () => prefixLines(() => '> '),
+    code: () => {
+      const { selected } = getSelection();
+      if (selected.includes('\n')) {
+        return wrapSelection('```\n', '\n```', '');
+      }
+      wrapSelection('`', '`', 'code');
+    },
+    codeBlock: () => wrapSelection('```\n', '\n```', 'code'),
+    link: () => {
+      const { start, end, selected } = getSelection();
+      const text = `[${selected || 'link text'}](https://)`;
+      const urlStart = start + text.length - 'https://)'.length;
+      applyEdit({
+        start,
+        end,
+        text,
+        selectionStart: urlStart,
+        selectionEnd: urlStart + 'https://'.length,
+      });
+    },
+    image: () => {
+      const { start, end, selected } = getSelection();
+      const text = `![${selected || 'description'}](https://)`;
+      const urlStart = start + text.length - 'https://)'.length;
+      applyEdit({
+        start,
+        end,
+        text,
+        selectionStart: urlStart,
+        selectionEnd: urlStart + 'https://'.length,
+      });
+    },
+    unorderedList: () => prefixLines(() => '- '),
+    orderedList: () => prefixLines((index) => `${index + 1}. `),
+    taskList: () => prefixLines(() => '- [ ] '),
+    table: () =>
+      insertBlock(
+        '| Column | Column |\n| ------ | ------ |\n| Cell   | Cell   |\n',
+        2
+      ),
+    mediaLibrary: () => {
+      if (!articleId) {
+        ShowInformationPopup(
+          'Error',
+          'Save the article first to upload images.'
+        );
+        return;
+      }
+      setLibraryOpen(true);
+    },
+  };
+
+  const toolbar = [
+    { label: 'Heading', icon: HeadingIcon, action: actions.heading },
+    { label: `Bold (${modKey}B)`, icon: BoldIcon, action: actions.bold },
+    { label: `Italic (${modKey}I)`, icon: ItalicIcon, action: actions.italic },
+    { label: 'Quote', icon: QuoteIcon, action: actions.quote },
+    { label: `Code (${modKey}E)`, icon: CodeIcon, action: actions.code },
+    {
+      label: `Code block (${modKey}Shift+E)`,
+      icon: FileCodeIcon,
+      action: actions.codeBlock,
+    },
+    { label: `Link (${modKey}K)`, icon: LinkIcon, action: actions.link },
+    { label: 'Image', icon: ImageIcon, action: actions.image },
+    {
+      label: 'Media library',
+      icon: FileMediaIcon,
+      action: actions.mediaLibrary,
+    },
+    {
+      label: `Bulleted list (${modKey}Shift+8)`,
+      icon: ListUnorderedIcon,
+      action: actions.unorderedList,
+    },
+    {
+      label: `Numbered list (${modKey}Shift+7)`,
+      icon: ListOrderedIcon,
+      action: actions.orderedList,
+    },
+    { label: 'Task list', icon: TasklistIcon, action: actions.taskList },
+    { label: 'Table', icon: TableIcon, action: actions.table },
+  ];
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key == 'Tab' && !event.shiftKey) {
+      // Indent instead of moving the focus out of the editor
+      event.preventDefault();
+      const { start, end } = getSelection();
+      return applyEdit({
+        start,
+        end,
+        text: '  ',
+        selectionStart: start + 2,
+        selectionEnd: start + 2,
+      });
+    }
+
+    if (!(isMac ? event.metaKey : event.ctrlKey)) {
+      return;
+    }
+
+    const shortcuts: { [key: string]: () => void } = event.shiftKey
+      ? {
+          e: actions.codeBlock,
+          '7': actions.orderedList,
+          '8': actions.unorderedList,
+        }
+      : {
+          b: actions.bold,
+          i: actions.italic,
+          e: actions.code,
+          k: actions.link,
+        };
+
+    // event.key is affected by shift, event.code is not
+    const key = event.code.startsWith('Digit')
+      ? event.code.slice(5)
+      : event.key.toLowerCase();
+    if (shortcuts[key]) {
+      event.preventDefault();
+      shortcuts[key]();
+    }
+  };
+
+  // Keeps the two panes at the same relative scroll position
+  const syncScroll = (
+    source: HTMLElement | null,
+    target: HTMLElement | null
+  ) => {
+    if (!source || !target || viewMode != 'split') return;
+    if (syncingRef.current == source) {
+      syncingRef.current = null;
+      return;
+    }
+
+    const sourceMax = source.scrollHeight - source.clientHeight;
+    const targetMax = target.scrollHeight - target.clientHeight;
+    if (sourceMax <= 0) return;
+
+    syncingRef.current = target;
+    target.scrollTop = (source.scrollTop / sourceMax) * targetMax;
+  };
+
+  const getCharCounterColor = () => {
+    if (value.length > maxLength - 50) {
+      return 'red';
+    }
+    if (value.length > maxLength - 150) {
+      return 'orange';
+    }
+    return '';
+  };
+
+  const height = props.height || (screenWidth < 768 ? '450px' : '600px');
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {toolbar.map((item) => (
+            <IconButton
+              key={item.label}
+              aria-label={item.label}
+              title={item.label}
+              icon={item.icon}
+              variant="invisible"
+              size="small"
+              disabled={viewMode == 'preview'}
+              onClick={item.action}
+            />
+          ))}
+        </Box>
+        <SegmentedControl
+          aria-label="Editor view"
+          size="small"
+          onChange={(index) => setMode(modes[index])}
+        >
+          {modes.map((item) => (
+            <SegmentedControl.Button key={item} selected={viewMode == item}>
+              {item.charAt(0).toUpperCase() + item.slice(1)}
+            </SegmentedControl.Button>
+          ))}
+        </SegmentedControl>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 3 }}>
+        {viewMode != 'preview' && (
+          <Box sx={{ position: 'relative', flex: 1, minWidth: 0 }}>
+            <Textarea
+              ref={textareaRef}
+              placeholder={placeholder}
+              resize="none"
+              maxLength={maxLength}
+              value={value}
+              onChange={(event) => onChange(event.target.value)}
+              onKeyDown={handleKeyDown}
+              onPaste={handleFiles}
+              onDrop={handleFiles}
+              onScroll={() =>
+                syncScroll(textareaRef.current, previewRef.current)
+              }
+              sx={{
+                width: '100%',
+                height,
+                fontFamily: 'mono',
+                fontSize: screenWidth < 768 ? '14px' : '16px',
+              }}
+            />
+            <Text
+              sx={{
+                position: 'absolute',
+                right: 2,
+                bottom: 1,
+                color: getCharCounterColor(),
+              }}
+            >
+              {uploading > 0 && `Uploading ${uploading} image(s)... `}
+              {value.length}/{maxLength}
+            </Text>
+          </Box>
+        )}
+        {viewMode != 'write' && (
+          <Box
+            ref={previewRef}
+            onScroll={() => syncScroll(previewRef.current, textareaRef.current)}
+            sx={{
+              flex: 1,
+              minWidth: 0,
+              height,
+              overflowY: 'auto',
+              px: 3,
+              border: '1px solid',
+              borderColor: 'border.default',
+              borderRadius: '6px',
+            }}
+          >
+            {value.trim() == '' ? (
+              <Text as="p" sx={{ opacity: 0.6 }}>
+                Nothing to preview
+              </Text>
+            ) : (
+              <MarkdownRenderer content={value} articleId={articleId} />
+            )}
+          </Box>
+        )}
+      </Box>
+      {articleId && (
+        <MediaLibraryModal
+          isOpen={libraryOpen}
+          closeFunc={() => setLibraryOpen(false)}
+          articleId={articleId}
+          onInsert={(item) => {
+            const image = getMediaMarkdown(item);
+            insertBlock(image, image.length + 1);
+          }}
+        />
+      )}
+    </Box>
+  );
+};
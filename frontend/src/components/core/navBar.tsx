@@ -1,10 +1,11 @@
-import { useEffect, useState } from 'react';
-import { Box, Button } from '@primer/react';
+import { useEffect, useState, FormEvent } from 'react';
+import { Box, Button, TextInput } from '@primer/react';
 import { debounce } from 'lodash';
-import { ThreeBarsIcon } from '@primer/octicons-react';
+import { ThreeBarsIcon, SearchIcon } from '@primer/octicons-react';
 import { SideBar } from './sideBar';
 import { getUser } from '@helper/helper';
 import { ProfileDropdown } from '../contentDisplay/profileDropdown';
+import { useScreenWidth } from '../other/useScreenWidth';
 
 export const NavBar = () => {
   const [prevScrollPos, setPrevScrollPos] = useState(window.pageYOffset);
@@ -13,7 +14,12 @@ export const NavBar = () => {
     localStorage.getItem('sidebarVis') || 'false'
   );
 
+  const [searchQuery, setSearchQuery] = useState(
+    new URLSearchParams(window.location.search).get('q') || ''
+  );
+
   const user = getUser();
+  const screenWidth = useScreenWidth();
 
   const handleScroll = debounce(() => {
     const currentScrollPos = window.pageYOffset;
@@ -38,6 +44,14 @@ export const NavBar = () => {
     setSidebarVis(newValue);
   };
 
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    if (searchQuery.trim() == '') return;
+    window.location.href = `/search?q=${encodeURIComponent(
+      searchQuery.trim()
+    )}`;
+  };
+
   return (
     <>
       <Box
@@ -74,6 +88,42 @@ export const NavBar = () => {
             <ThreeBarsIcon size={32} />
           </Box>
         </Box>
+        {screenWidth >= 768 ? (
+          <Box
+            as="form"
+            onSubmit={handleSearch}
+            sx={{ flex: 1, display: 'flex', justifyContent: 'center', mx: 4 }}
+          >
+            <TextInput
+              aria-label="Search articles"
+              placeholder="Search articles"
+              leadingVisual={SearchIcon}
+              value={searchQuery}
+              onChange={(event) => setSearchQuery(event.target.value)}
+              sx={{ width: '100%', maxWidth: '480px' }}
+            />
+          </Box>
+        ) : (
+          <Box
+            sx={{
+              transition: '.3s background-color',
+              borderRadius: '8px',
+              ml: 'auto',
+              mr: 2,
+              px: 2,
+              py: 1,
+              ':hover': {
+                backgroundColor: 'sidenav.selectedBg',
+              },
+            }}
+            aria-label="Search articles"
+            onClick={() => {
+              window.location.href = '/search';
+            }}
+          >
+            <SearchIcon size={24} />
+          </Box>
+        )}
         <Box sx={{ height: '100%', display: 'flex', alignItems: 'center' }}>
           {user ? (
             <ProfileDropdown state={navbarVis} />
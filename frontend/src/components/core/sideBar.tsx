@@ -5,9 +5,13 @@ import {
   TelescopeIcon,
   PencilIcon,
   ChecklistIcon,
+  HeartIcon,
+  PeopleIcon,
+  CalendarIcon,
 } from '@primer/octicons-react';
-import { getUser } from '@helper/helper';
-import { categories } from '../other/categories';
+import { getUser, hasPermission } from '@helper/helper';
+import { CategoryIcon } from '../other/categories';
+import { useCategories } from '../other/useCategories';
 
 interface Props {
   state: boolean;
@@ -34,32 +38,58 @@ const items = [
       },
     ],
   },
-  {
-    title: 'Popular',
-    items: categories.slice(0, 5),
-  },
 ];
 
 const user = getUser();
-if (user && (user.CanPost == 'true' || user.Admin == 'true')) {
+if (user) {
+  items[0].items.push({
+    name: 'Liked',
+    icon: <HeartIcon size={iconSize} />,
+    action: '/liked/1',
+  });
+}
+if (hasPermission(user, 'article.create')) {
   items[0].items.push({
     name: 'My Articles',
-    value: '',
     icon: <PencilIcon size={iconSize} />,
     action: '/myArticles/1',
   });
 }
-if (user && user.Admin == 'true') {
+if (hasPermission(user, 'article.review')) {
   items[0].items.push({
     name: 'Admin View',
-    value: '',
     icon: <ChecklistIcon size={iconSize} />,
     action: '/adminView/1',
   });
+  items[0].items.push({
+    name: 'Schedule',
+    icon: <CalendarIcon size={iconSize} />,
+    action: '/adminSchedule',
+  });
+}
+if (hasPermission(user, 'user.manage')) {
+  items[0].items.push({
+    name: 'Users',
+    icon: <PeopleIcon size={iconSize} />,
+    action: '/adminUsers',
+  });
 }
 
 export const SideBar = (props: Props) => {
   const { state } = props;
+  const categories = useCategories();
+
+  const sections = [
+    ...items,
+    {
+      title: 'Popular',
+      items: (categories ?? []).slice(0, 5).map((category) => ({
+        name: category.Name,
+        icon: <CategoryIcon icon={category.Icon} size={iconSize} />,
+        action: `/categories/${category.Slug}/1`,
+      })),
+    },
+  ];
 
   return (
     <Box
@@ -79,7 +109,7 @@ export const SideBar = (props: Props) => {
         pt: '80px',
       }}
     >
-      {items.map((category: any, categoryIndex: number) => {
+      {sections.map((category: any, categoryIndex: number) => {
         return (
           <Box
             key={categoryIndex}
@@ -0,0 +1,107 @@
+import { fetchWrapper } from '@helper/helper';
+
+export interface Attachment {
+  ID: string;
+  Name: string;
+  ContentType: string;
+  Size: number;
+  Checksum: string;
+  Uploader: string;
+  Downloads: number;
+  CreatedAt: number;
+}
+
+// The attachments the 3D viewer can show
+const MODEL_EXTENSIONS = ['stl', 'obj'];
+
+export const getExtension = (name: string) =>
+  name.split('.').pop()!.toLowerCase();
+
+export const isModel = (name: string) =>
+  MODEL_EXTENSIONS.includes(getExtension(name));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+// Uploads a file with its SHA-256, the backend refuses it if the file was
+// changed on the way
+export const uploadAttachment = async (
+  articleId: string,
+  file: File
+): Promise<Attachment> => {
+  const content = await file.arrayBuffer();
+  const checksum = toHex(await crypto.subtle.digest('SHA-256', content));
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const params = new URLSearchParams({
+    id: articleId,
+    name: file.name,
+    checksum,
+  });
+  const data = await fetchWrapper(
+    `${backendUrl}/articles/attachments?${params}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: content,
+    }
+  );
+  if (data.status != 200) {
+    throw new Error(data.response.message || 'Could not upload the file');
+  }
+  return data.response.return;
+};
+
+// Downloads an attachment through a signed link
+export const downloadAttachment = async (
+  articleId: string,
+  attachmentId: string
+) => {
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const data = await fetchWrapper(
+    `${backendUrl}/articles/attachments/link?id=${articleId}&attachmentId=${attachmentId}`
+  );
+  if (data.status != 200) {
+    throw new Error(data.response.message || 'Could not download the file');
+  }
+  window.location.href = `${backendUrl}${data.response.return.url}`;
+};
+
+// Reads an attachment to show it in the article, like a 3D model. The
+// download is not counted.
+export const previewAttachment = async (
+  articleId: string,
+  attachmentId: string
+): Promise<{ attachment: Attachment; content: ArrayBuffer }> => {
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  // Every viewer of the article needs the list, so it is cached briefly
+  const list = await fetchWrapper(
+    `${backendUrl}/articles/attachments?id=${articleId}`,
+    {},
+    true,
+    60
+  );
+  const attachment: Attachment | undefined = list.response.return?.find(
+    (item: Attachment) => item.ID == attachmentId
+  );
+  if (!attachment) {
+    throw new Error('The file was not found');
+  }
+
+  const link = await fetchWrapper(
+    `${backendUrl}/articles/attachments/link?id=${articleId}&attachmentId=${attachmentId}`
+  );
+  if (link.status != 200) {
+    throw new Error(link.response.message || 'Could not load the file');
+  }
+  const response = await fetch(
+    `${backendUrl}${link.response.return.url}&preview=true`
+  );
+  if (!response.ok) {
+    throw new Error('Could not load the file');
+  }
+  return { attachment, content: await response.arrayBuffer() };
+};
@@ -1,63 +1,40 @@
 import {
+  BeakerIcon,
+  BookIcon,
   CodeIcon,
+  FlameIcon,
+  GlobeIcon,
+  HeartIcon,
   PackageIcon,
+  PaintbrushIcon,
   PlugIcon,
+  RepoIcon,
+  RocketIcon,
   ScreenFullIcon,
-  BeakerIcon,
+  ToolsIcon,
   UnlockIcon,
-  RepoIcon,
-  BookIcon,
 } from '@primer/octicons-react';
 
-const iconSize = 22;
+// Icon keys the admins can pick for a category, unknown keys get a book
+const icons: { [key: string]: typeof BookIcon } = {
+  beaker: BeakerIcon,
+  book: BookIcon,
+  code: CodeIcon,
+  flame: FlameIcon,
+  globe: GlobeIcon,
+  heart: HeartIcon,
+  package: PackageIcon,
+  paintbrush: PaintbrushIcon,
+  plug: PlugIcon,
+  repo: RepoIcon,
+  rocket: RocketIcon,
+  'screen-full': ScreenFullIcon,
+  tools: ToolsIcon,
+  unlock: UnlockIcon,
+};
 
-export const categories = [
-  {
-    name: 'Programming',
-    value: 'programming',
-    icon: <CodeIcon size={iconSize} />,
-    action: '/categories/programming/1',
-  },
-  {
-    name: '3D Modeling',
-    value: '3d-modeling',
-    icon: <PackageIcon size={iconSize} />,
-    action: '/categories/3d-modeling/1',
-  },
-  {
-    name: 'Electronics',
-    value: 'electronics',
-    icon: <PlugIcon size={iconSize} />,
-    action: '/categories/electronics/1',
-  },
-  {
-    name: 'Business',
-    value: 'business',
-    icon: <RepoIcon size={iconSize} />,
-    action: '/categories/business/1',
-  },
-  {
-    name: 'Woodworking',
-    value: 'woodworking',
-    icon: <ScreenFullIcon size={iconSize} />,
-    action: '/categories/woodworking/1',
-  },
-  {
-    name: 'Chemistry',
-    value: 'chemistry',
-    icon: <BeakerIcon size={iconSize} />,
-    action: '/categories/chemistry/1',
-  },
-  {
-    name: 'Cybersecurity',
-    value: 'cybersecurity',
-    icon: <UnlockIcon size={iconSize} />,
-    action: '/categories/cybersecurity/1',
-  },
-  {
-    name: 'Physics',
-    value: 'physics',
-    icon: <BookIcon size={iconSize} />,
-    action: '/categories/physics/1',
-  },
-];
+export const CategoryIcon = (props: { icon: string; size?: number }) => {
+  const { icon, size = 22 } = props;
+  const Component = icons[icon] ?? BookIcon;
+  return <Component size={size} />;
+};
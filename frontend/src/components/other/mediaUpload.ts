@@ -0,0 +1,93 @@
+import { fetchWrapper } from '@helper/helper';
+
+export interface MediaItem {
+  ID: string;
+  Uploader: string;
+  Width: number;
+  Height: number;
+  Sizes: number[];
+  CreatedAt: number;
+  Url: string;
+  Srcset: string;
+}
+
+// The backend reads JSON bodies up to 3mb and base64 adds a third, so larger
+// images are scaled down here. The backend keeps at most 1600px anyway.
+const MAX_UPLOAD_SIZE = 2 * 1024 * 1024;
+const MAX_WIDTH = 1600;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not a valid image`));
+    };
+    image.src = url;
+  });
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Returns the image as a data url that fits in a request
+const prepareImage = async (file: File) => {
+  const image = await loadImage(file);
+  if (file.size <= MAX_UPLOAD_SIZE && image.naturalWidth <= MAX_WIDTH) {
+    return readAsDataUrl(file);
+  }
+
+  const scale = Math.min(1, MAX_WIDTH / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  // Browsers without a WebP encoder return a png instead
+  let dataUrl = canvas.toDataURL('image/webp', 0.9);
+  if (!dataUrl.startsWith('data:image/webp')) {
+    dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+  }
+  if (dataUrl.length > (MAX_UPLOAD_SIZE * 4) / 3) {
+    throw new Error(`${file.name} is too large`);
+  }
+  return dataUrl;
+};
+
+// Uploads an image to the media library of an article
+export const uploadMedia = async (
+  articleId: string,
+  file: File
+): Promise<MediaItem> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const data = await fetchWrapper(
+    `${backendUrl}/articles/media?id=${articleId}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ image: await prepareImage(file) }),
+    }
+  );
+  if (data.status != 200) {
+    throw new Error(data.response.message || 'Could not upload the image');
+  }
+  return data.response.return;
+};
+
+// Markdown of an image, described by its file name
+export const getMediaMarkdown = (item: MediaItem, name: string = '') => {
+  const description = name.replace(/\.[^.]*$/, '').replace(/[[\]]/g, '');
+  return `![${description || 'image'}](${item.Url})`;
+};
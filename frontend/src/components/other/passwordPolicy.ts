@@ -0,0 +1,74 @@
+import React from 'react';
+
+import { fetchWrapper } from '@helper/helper';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minClasses: number;
+}
+
+// Used until the policy of the backend is loaded
+const defaultPolicy: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  minClasses: 2,
+};
+
+const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+// Number of the character classes in the password
+export const countClasses = (password: string) =>
+  classes.filter((pattern) => pattern.test(password)).length;
+
+// The policy rarely changes, it is cached for an hour
+export const usePasswordPolicy = () => {
+  const [policy, setPolicy] = React.useState<PasswordPolicy>(defaultPolicy);
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/user/password-policy`, { signal }, true, 3600)
+      .then((data) => {
+        if (data.status == 200) setPolicy(data.response.policy);
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error(err);
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [backendUrl]);
+
+  return policy;
+};
+
+// Rules of the policy the password breaks. The backend also refuses common
+// and breached passwords, which are only known to it.
+export const getPasswordProblems = (
+  password: string,
+  policy: PasswordPolicy,
+  username?: string
+): string[] => {
+  const problems: string[] = [];
+  if (password.length < policy.minLength) {
+    problems.push(`At least ${policy.minLength} characters`);
+  }
+  if (password.length > policy.maxLength) {
+    problems.push(`At most ${policy.maxLength} characters`);
+  }
+  if (countClasses(password) < policy.minClasses) {
+    problems.push(
+      `${policy.minClasses} of lowercase, uppercase, digits and symbols`
+    );
+  }
+  if (username && password.toLowerCase().includes(username.toLowerCase())) {
+    problems.push('Not containing the username');
+  }
+  return problems;
+};
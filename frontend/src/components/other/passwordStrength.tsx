@@ -0,0 +1,67 @@
+import { Box, Text } from '@primer/react';
+
+import {
+  countClasses,
+  getPasswordProblems,
+  usePasswordPolicy,
+} from './passwordPolicy';
+
+const levels = [
+  { label: 'Too weak', color: 'danger.emphasis' },
+  { label: 'Fair', color: 'attention.emphasis' },
+  { label: 'Good', color: 'success.emphasis' },
+  { label: 'Strong', color: 'success.emphasis' },
+];
+
+// Level of the password from 0 to 3, see levels
+const getLevel = (password: string, problems: string[]) => {
+  if (problems.length > 0) return 0;
+
+  const classCount = countClasses(password);
+  if (password.length >= 16 || (password.length >= 12 && classCount >= 3)) {
+    return 3;
+  }
+  if (password.length >= 12 || classCount >= 3) return 2;
+  return 1;
+};
+
+interface Props {
+  password: string;
+  username?: string;
+}
+
+export const PasswordStrength = ({ password, username }: Props) => {
+  const policy = usePasswordPolicy();
+
+  if (password == '') return <></>;
+
+  const problems = getPasswordProblems(password, policy, username);
+  const level = getLevel(password, problems);
+
+  return (
+    <Box sx={{ display: 'grid', gap: 1, mt: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {levels.map((item, index) => (
+          <Box
+            key={item.label}
+            sx={{
+              flex: 1,
+              height: '4px',
+              borderRadius: '2px',
+              backgroundColor:
+                index <= level ? levels[level].color : 'neutral.muted',
+            }}
+          ></Box>
+        ))}
+      </Box>
+      <Text sx={{ fontSize: '12px', color: 'fg.muted' }}>
+        {levels[level].label}
+      </Text>
+      {problems.map((problem) => (
+        <Text key={problem} sx={{ fontSize: '12px', color: 'danger.fg' }}>
+          {problem}
+        </Text>
+      ))}
+    </Box>
+  );
+};
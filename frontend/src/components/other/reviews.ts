@@ -0,0 +1,34 @@
+import React from 'react';
+import { Label } from '@primer/react';
+
+export interface ReviewComment {
+  ID: string;
+  Line: number;
+  Quote: string;
+  Text: string;
+  Author: string;
+  CreatedAt: number;
+}
+
+export interface Review {
+  ArticleID: string;
+  Round: number;
+  Status: string;
+  Title: string;
+  Revision: number | null;
+  SubmittedAt: number;
+  Reviewer: string | null;
+  Reason: string | null;
+  DecidedBy: string | null;
+  DecidedAt: number | null;
+  Comments: ReviewComment[];
+}
+
+export const reviewLabelVariants: {
+  [key: string]: React.ComponentProps<typeof Label>['variant'];
+} = {
+  pending: 'attention',
+  accepted: 'success',
+  declined: 'danger',
+  withdrawn: 'secondary',
+};
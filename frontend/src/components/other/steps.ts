@@ -0,0 +1,78 @@
+import { fetchWrapper } from '@helper/helper';
+
+export interface Step {
+  // Empty for the steps that were not saved yet
+  ID: string;
+  Title: string;
+  Body: string;
+  Minutes: number | null;
+}
+
+export interface StepProgress {
+  Completed: string[];
+  LastStep: string | null;
+}
+
+export const MAX_STEPS = 100;
+
+export const emptyStep = (): Step => ({
+  ID: '',
+  Title: '',
+  Body: '',
+  Minutes: null,
+});
+
+export const fetchStepProgress = async (
+  articleId: string,
+  signal?: AbortSignal
+): Promise<StepProgress | null> => {
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const data = await fetchWrapper(
+    `${backendUrl}/articles/steps/progress?id=${articleId}`,
+    { signal }
+  );
+  return data.status == 200 ? data.response.return : null;
+};
+
+export const setStepDone = async (
+  articleId: string,
+  stepId: string,
+  done: boolean
+): Promise<StepProgress> => {
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const data = await fetchWrapper(
+    `${backendUrl}/articles/steps/progress?id=${articleId}`,
+    { method: 'PUT', body: JSON.stringify({ stepId, done }) }
+  );
+  if (data.status != 200) {
+    throw new Error(data.response.message || 'Could not save the progress');
+  }
+  return data.response.return;
+};
+
+export const getCompletion = (progress: StepProgress, stepCount: number) =>
+  stepCount > 0
+    ? Math.round(
+        (100 * Math.min(progress.Completed.length, stepCount)) / stepCount
+      )
+    : 0;
+
+// The step to continue with, the first open step from the one the reader
+// changed last
+export const getResumeIndex = (steps: Step[], progress: StepProgress) => {
+  const completed = new Set(progress.Completed);
+  const last = Math.max(
+    steps.findIndex((step) => step.ID == progress.LastStep),
+    0
+  );
+  const next = [...steps.slice(last), ...steps.slice(0, last)].find(
+    (step) => !completed.has(step.ID)
+  );
+  return next ? steps.indexOf(next) : -1;
+};
+
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  if (hours == 0) return `${minutes} min`;
+  return minutes % 60 == 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { fetchWrapper } from '@helper/helper';
+
+export interface Category {
+  Slug: string;
+  Name: string;
+  Description: string;
+  Icon: string;
+  HeroImage: string | null;
+  SortOrder: number;
+  Active: boolean;
+}
+
+// The categories are managed by the admins, the list is cached for an hour
+export const useCategories = () => {
+  const [categories, setCategories] = React.useState<Category[] | null>(null);
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/categories`, { signal }, true, 60 * 60)
+      .then((data) => {
+        setCategories(data.response.return ?? []);
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error(err);
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [backendUrl]);
+
+  return categories;
+};
@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+interface PageResponse {
+  cursor?: string | null;
+  hasMore?: boolean;
+}
+
+// Pages of the article lists are addressed by number, but the link to the
+// next page carries the cursor the backend returned, so following it costs a
+// single query. Other pages fall back to the page number.
+export const useCursorPagination = (page: string | undefined) => {
+  const [searchParams] = useSearchParams();
+  const [next, setNext] = useState<PageResponse>({});
+
+  const currentPage = Number(page) || 1;
+  const cursor = searchParams.get('cursor');
+
+  // Query string selecting the current page in a list request
+  const pageQuery = cursor
+    ? `cursor=${encodeURIComponent(cursor)}`
+    : `page=${currentPage}`;
+
+  // Stable, so the effects fetching the list can depend on it
+  const updatePage = useCallback((response: PageResponse | undefined) => {
+    setNext({ cursor: response?.cursor, hasMore: response?.hasMore });
+  }, []);
+
+  const pageCount = next.hasMore ? currentPage + 1 : currentPage;
+
+  const pageHref = (path: string, target: number, query: string = '') => {
+    const params = new URLSearchParams(query);
+    if (target == currentPage + 1 && next.cursor) {
+      params.set('cursor', next.cursor);
+    }
+    const search = params.toString();
+    return search ? `${path}/${target}?${search}` : `${path}/${target}`;
+  };
+
+  return { currentPage, pageQuery, pageCount, updatePage, pageHref };
+};
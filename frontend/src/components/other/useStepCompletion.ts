@@ -0,0 +1,40 @@
+import React from 'react';
+import { getUser } from '@helper/helper';
+import { fetchStepProgress, getCompletion } from './steps';
+
+interface Article {
+  ID: string;
+  Format?: string;
+  StepCount?: number;
+}
+
+// How far the signed in reader got through a step by step article, null
+// for the other articles and before the reader starts
+export const useStepCompletion = (article: Article) => {
+  const [completion, setCompletion] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (article.Format != 'steps' || !article.StepCount || !getUser()) {
+      return;
+    }
+
+    const controller = new AbortController();
+    fetchStepProgress(article.ID, controller.signal)
+      .then((progress) => {
+        if (progress && progress.Completed.length > 0) {
+          setCompletion(getCompletion(progress, article.StepCount!));
+        }
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') {
+          console.error(err);
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [article.ID, article.Format, article.StepCount]);
+
+  return completion;
+};
@@ -27,6 +27,26 @@ export const getRelativeDate = (timestamp: number): string => {
   }
 };
 
+// Date and time of a UNIX timestamp in the locale of the browser
+export const formatDateTime = (timestamp: number): string => {
+  return new Date(timestamp * 1000).toLocaleString([], {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+};
+
+// Size of a file for people, e.g. 1.5 MB
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit == 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
 export const capitalize = (str: string) => {
   return str.charAt(0).toUpperCase() + str.slice(1);
 };
@@ -54,11 +74,27 @@ export const getUser = (): User | undefined => {
   }
 };
 
+// The permissions come from the roles of the user, see the Roles section of
+// the API docs
+export const hasPermission = (user: User | undefined, permission: string): boolean => {
+  return Array.isArray(user?.Permissions) && user.Permissions.includes(permission);
+};
+
 export const logOut = () => {
   localStorage.removeItem('user');
-  window.location.href = '/sign-in';
+
+  // The cookies are httpOnly, the backend ends the session and clears them
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  fetch(`${backendUrl}/user/logout`, { method: 'POST', credentials: 'include' })
+    .catch((err) => console.error(err))
+    .finally(() => {
+      window.location.href = '/sign-in';
+    });
 };
 
+// Requests sent together share one token refresh, a refresh token can only be used once
+let refreshRequest: Promise<{ status: number; response: { user?: User } }> | null = null;
+
 export const fetchWrapper = async (url: string, options: RequestInit = {}, cache: boolean = false, cacheDuration: number = 360) => {
   const now = Math.floor(Date.now() / 1000);
 
@@ -83,8 +119,12 @@ export const fetchWrapper = async (url: string, options: RequestInit = {}, cache
 
     // Request a new token if it is expired
     if (now > user.exp) {
-      const renewReq = await fetch(`${backendUrl}/user/token-refresh`, {credentials: 'include'})
-      const renewRes = await renewReq.json()
+      refreshRequest = refreshRequest || fetch(`${backendUrl}/user/token-refresh`, {credentials: 'include'})
+        .then((renewReq) => renewReq.json())
+        .finally(() => {
+          refreshRequest = null
+        })
+      const renewRes = await refreshRequest
       if (renewRes.status != 200) {
         // Log out on error
         logOut()
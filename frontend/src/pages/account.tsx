@@ -1,16 +1,36 @@
 import React from 'react';
+import QRCode from 'qrcode';
 
-import { Box, Heading, Text, Button, TextInput } from '@primer/react';
+import {
+  Box,
+  Heading,
+  Text,
+  Button,
+  TextInput,
+  Label,
+  Spinner,
+} from '@primer/react';
 
 import { ProfilePicture } from '../components/contentDisplay/profilePicture';
 import { ProfileUploadModal } from '../components/contentDisplay/profileUploadModal';
 import { ShowInformationPopup } from '../components/contentDisplay/informationPopup';
 import { ShowConfirmationPopup } from '../components/contentDisplay/confirmationPopup';
 
-import { fetchWrapper, capitalize, getUser, logOut } from '@helper/helper';
+import {
+  fetchWrapper,
+  capitalize,
+  getUser,
+  getRelativeDate,
+  logOut,
+} from '@helper/helper';
 import { PortalWrapper } from '../components/core/portalWrapper';
 
 import { useScreenWidth } from '../components/other/useScreenWidth';
+import { PasswordStrength } from '../components/other/passwordStrength';
+import {
+  getPasswordProblems,
+  usePasswordPolicy,
+} from '../components/other/passwordPolicy';
 
 export const Account = () => {
   const [uploadModal, setUploadModal] = React.useState<any>(false);
@@ -216,6 +236,30 @@ export const Account = () => {
               <EmailChange />
             </Box>
           </Box>
+          <Box sx={{ display: 'grid', gap: 2 }}>
+            <Text sx={{ fontSize: '22px' }}>Two-factor authentication:</Text>
+            <Box
+              sx={{
+                p: 3,
+                borderRadius: '10px',
+                backgroundColor: 'canvas.overlay',
+              }}
+            >
+              <TwoFactor />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'grid', gap: 2 }}>
+            <Text sx={{ fontSize: '22px' }}>Sessions:</Text>
+            <Box
+              sx={{
+                p: 3,
+                borderRadius: '10px',
+                backgroundColor: 'canvas.overlay',
+              }}
+            >
+              <ActiveSessions />
+            </Box>
+          </Box>
         </Box>
         <Box
           sx={{
@@ -430,6 +474,7 @@ const ChangePassword = () => {
   const [newPassword, setNewPassword] = React.useState('');
   const [confirmNewPassword, setConfirmNewPassword] = React.useState('');
   const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const policy = usePasswordPolicy();
 
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
 
@@ -450,10 +495,11 @@ const ChangePassword = () => {
       return;
     }
 
-    if (newPassword.length < 8) {
+    const [problem] = getPasswordProblems(newPassword, policy, user?.Username);
+    if (problem) {
       ShowInformationPopup(
         'Error',
-        'New password must be at least 8 characters long.'
+        `New password needs: ${problem.toLowerCase()}.`
       );
       return;
     }
@@ -590,6 +636,10 @@ const ChangePassword = () => {
                 onChange={(e) => setNewPassword(e.target.value)}
                 required
               />
+              <PasswordStrength
+                password={newPassword}
+                username={user?.Username}
+              />
               <Text>Confirm New Password:</Text>
               <TextInput
                 type="password"
@@ -804,3 +854,378 @@ const EmailChange = () => {
     </>
   );
 };
+
+interface Session {
+  ID: string;
+  UserAgent: string;
+  CreatedAt: number;
+  LastUsed: number;
+  Current: boolean;
+}
+
+// Short name of the browser and the system of a user agent
+const describeUserAgent = (userAgent: string) => {
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent));
+  const system = systems.find(([pattern]) => pattern.test(userAgent));
+
+  if (!browser && !system) {
+    return 'Unknown device';
+  }
+  return [browser?.[1], system?.[1]].filter(Boolean).join(' on ');
+};
+
+const ActiveSessions = () => {
+  const [sessions, setSessions] = React.useState<Session[] | null>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+
+    fetchWrapper(`${backendUrl}/user/sessions`, {
+      signal: controller.signal,
+    }).then((data) => {
+      setSessions(data.status == 200 ? data.response.return : []);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [backendUrl]);
+
+  const handleEndSession = async (id: string) => {
+    try {
+      const response = await fetchWrapper(
+        `${backendUrl}/user/sessions?id=${encodeURIComponent(id)}`,
+        { method: 'DELETE' }
+      );
+
+      if (response.status != 200) {
+        ShowInformationPopup('Error', capitalize(response.response.message));
+        return;
+      }
+      setSessions((prev) => prev && prev.filter((item) => item.ID != id));
+    } catch (error) {
+      console.error('Error ending the session:', error);
+      ShowInformationPopup(
+        'Error',
+        'An unexpected error occurred. Please try again later.'
+      );
+    }
+  };
+
+  const handleEndAll = async () => {
+    try {
+      const response = await fetchWrapper(`${backendUrl}/user/sessions`, {
+        method: 'DELETE',
+      });
+
+      if (response.status != 200) {
+        ShowInformationPopup('Error', capitalize(response.response.message));
+        return;
+      }
+      logOut();
+    } catch (error) {
+      console.error('Error ending the sessions:', error);
+      ShowInformationPopup(
+        'Error',
+        'An unexpected error occurred. Please try again later.'
+      );
+    }
+  };
+
+  if (sessions == null) {
+    return <Spinner sx={{ display: 'block', mx: 'auto' }} />;
+  }
+
+  return (
+    <Box sx={{ display: 'grid', gap: 3 }}>
+      {sessions.map((session) => (
+        <Box
+          key={session.ID}
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 2,
+          }}
+        >
+          <Box>
+            <Text as="p" sx={{ m: 0 }} title={session.UserAgent}>
+              {describeUserAgent(session.UserAgent)}{' '}
+              {session.Current && <Label variant="success">This device</Label>}
+            </Text>
+            <Text as="p" sx={{ m: 0, fontSize: '12px', opacity: 0.7 }}>
+              Signed in {getRelativeDate(session.CreatedAt)} • Last active{' '}
+              {getRelativeDate(session.LastUsed)}
+            </Text>
+          </Box>
+          {!session.Current && (
+            <Button size="small" onClick={() => handleEndSession(session.ID)}>
+              Sign out
+            </Button>
+          )}
+        </Box>
+      ))}
+      <Button
+        variant="danger"
+        sx={{ justifySelf: 'center' }}
+        onClick={() => {
+          ShowConfirmationPopup(
+            'Sign Out Everywhere',
+            'All devices, this one included, will be signed out.',
+            () => {},
+            handleEndAll
+          );
+        }}
+      >
+        Sign out everywhere
+      </Button>
+    </Box>
+  );
+};
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodes: number;
+}
+
+const RecoveryCodes = ({ codes }: { codes: string[] }) => {
+  return (
+    <Box sx={{ display: 'grid', gap: 2 }}>
+      <Text as="p" sx={{ m: 0 }}>
+        Store these recovery codes somewhere safe. Each of them signs you in
+        once without your authenticator app, and they are not shown again.
+      </Text>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(2, 1fr)',
+          gap: 1,
+          fontFamily: 'mono',
+          textAlign: 'center',
+        }}
+      >
+        {codes.map((code) => (
+          <Text key={code}>{code}</Text>
+        ))}
+      </Box>
+      <Button
+        size="small"
+        sx={{ justifySelf: 'center' }}
+        onClick={() => navigator.clipboard.writeText(codes.join('\n'))}
+      >
+        Copy codes
+      </Button>
+    </Box>
+  );
+};
+
+const TwoFactor = () => {
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = React.useState<{
+    secret: string;
+    qrCode: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(
+    null
+  );
+  const [disabling, setDisabling] = React.useState(false);
+  const [password, setPassword] = React.useState('');
+  const [code, setCode] = React.useState('');
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+
+    fetchWrapper(`${backendUrl}/user/2fa`, {
+      signal: controller.signal,
+    }).then((data) => {
+      if (data.status == 200) {
+        setStatus(data.response as TwoFactorStatus);
+      }
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [backendUrl]);
+
+  // Sends a request and shows its error, returns the response on success
+  const send = async (endpoint: string, body: object = {}) => {
+    try {
+      const response = await fetchWrapper(`${backendUrl}/user/2fa${endpoint}`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+
+      if (response.status != 200) {
+        ShowInformationPopup('Error', capitalize(response.response.message));
+        return null;
+      }
+      return response.response;
+    } catch (error) {
+      console.error('Error changing two-factor authentication:', error);
+      ShowInformationPopup(
+        'Error',
+        'An unexpected error occurred. Please try again later.'
+      );
+      return null;
+    }
+  };
+
+  const handleSetup = async () => {
+    const response = await send('/setup');
+    if (!response) return;
+
+    setSetup({
+      secret: response.secret,
+      qrCode: await QRCode.toDataURL(response.uri),
+    });
+    setRecoveryCodes(null);
+    setCode('');
+  };
+
+  const handleEnable = async () => {
+    const response = await send('/enable', { code: code.trim() });
+    if (!response) return;
+
+    setSetup(null);
+    setCode('');
+    setRecoveryCodes(response.recoveryCodes);
+    setStatus((prev) => ({
+      enabled: true,
+      required: !!prev?.required,
+      recoveryCodes: response.recoveryCodes.length,
+    }));
+  };
+
+  const handleRegenerate = async () => {
+    const response = await send('/recovery-codes', { code: code.trim() });
+    if (!response) return;
+
+    setCode('');
+    setRecoveryCodes(response.recoveryCodes);
+    setStatus(
+      (prev) =>
+        prev && { ...prev, recoveryCodes: response.recoveryCodes.length }
+    );
+  };
+
+  const handleDisable = async () => {
+    const response = await send('/disable', { password, code: code.trim() });
+    if (!response) return;
+
+    setDisabling(false);
+    setPassword('');
+    setCode('');
+    setRecoveryCodes(null);
+    setStatus((prev) => prev && { ...prev, enabled: false, recoveryCodes: 0 });
+  };
+
+  if (status == null) {
+    return <Spinner sx={{ display: 'block', mx: 'auto' }} />;
+  }
+
+  const codeInput = (
+    <TextInput
+      aria-label="Code"
+      placeholder="Code of your authenticator app"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+    />
+  );
+
+  if (!status.enabled) {
+    return (
+      <Box sx={{ display: 'grid', gap: 3 }}>
+        {status.required ? (
+          <Text as="p" sx={{ m: 0, color: 'red' }}>
+            Your role requires two-factor authentication. Set it up to use your
+            permissions again.
+          </Text>
+        ) : (
+          <Text as="p" sx={{ m: 0 }}>
+            Protect your account with the codes of an authenticator app.
+          </Text>
+        )}
+        {setup ? (
+          <Box sx={{ display: 'grid', gap: 2, justifyItems: 'center' }}>
+            <Text as="p" sx={{ m: 0 }}>
+              Scan the QR code with your authenticator app or enter the secret,
+              then confirm with the first code.
+            </Text>
+            <img src={setup.qrCode} alt="Two-factor QR code" width={180} />
+            <Text sx={{ fontFamily: 'mono', wordBreak: 'break-all' }}>
+              {setup.secret}
+            </Text>
+            {codeInput}
+            <Button variant="primary" onClick={handleEnable}>
+              Enable
+            </Button>
+          </Box>
+        ) : (
+          <Button sx={{ justifySelf: 'center' }} onClick={handleSetup}>
+            Set up two-factor authentication
+          </Button>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'grid', gap: 3 }}>
+      <Text as="p" sx={{ m: 0 }}>
+        <Label variant="success">Enabled</Label> {status.recoveryCodes} recovery
+        code{status.recoveryCodes == 1 ? '' : 's'} left
+      </Text>
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+      {disabling && (
+        <TextInput
+          type="password"
+          aria-label="Password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      )}
+      {codeInput}
+      <Box sx={{ display: 'flex', justifyContent: 'space-around', gap: 2 }}>
+        {disabling ? (
+          <>
+            <Button onClick={() => setDisabling(false)}>Cancel</Button>
+            <Button variant="danger" onClick={handleDisable}>
+              Disable
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button onClick={handleRegenerate}>New recovery codes</Button>
+            {!status.required && (
+              <Button variant="danger" onClick={() => setDisabling(true)}>
+                Disable
+              </Button>
+            )}
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,209 @@
+import React from 'react';
+
+import { Box, Heading, IconButton, Text } from '@primer/react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@primer/octicons-react';
+
+import { getUser, fetchWrapper, hasPermission } from '@helper/helper';
+import { useScreenWidth } from '../components/other/useScreenWidth';
+import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
+
+interface ScheduledArticle {
+  ID: string;
+  Title: string;
+  Author: string;
+  PublishedAt: number;
+}
+
+const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Days shown for a month, from the Monday before its first day to the
+// Sunday after its last day
+const getCalendarDays = (month: Date) => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = new Date(first);
+  start.setDate(1 - ((first.getDay() + 6) % 7));
+
+  const days: Date[] = [];
+  const day = new Date(start);
+  do {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  } while (day.getMonth() == month.getMonth() || days.length % 7 != 0);
+  return days;
+};
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() == b.getFullYear() &&
+  a.getMonth() == b.getMonth() &&
+  a.getDate() == b.getDate();
+
+export const AdminSchedule = () => {
+  const [articles, setArticles] = React.useState<ScheduledArticle[] | null>(
+    null
+  );
+  const [month, setMonth] = React.useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const screenWidth = useScreenWidth();
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+  const allowed = hasPermission(user, 'article.review');
+
+  React.useEffect(() => {
+    if (!allowed) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/articles/scheduled`, { signal }).then(
+      (data) => {
+        setArticles(data.status == 200 ? data.response.return : []);
+      }
+    );
+
+    return () => {
+      controller.abort();
+    };
+  }, [allowed, backendUrl]);
+
+  if (!allowed) {
+    return (window.location.href = '/');
+  }
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+  };
+
+  const today = new Date();
+  const compact = screenWidth < 768;
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        justifyItems: 'center',
+        width: '100%',
+        mt: '70px',
+        gap: 2,
+        mb: '100px',
+      }}
+    >
+      <Heading sx={{ fontSize: compact ? '28px' : '42px' }}>
+        Publication Schedule
+      </Heading>
+      <Box
+        sx={{
+          width: '100%',
+          height: '1px',
+          backgroundColor: 'ansi.black',
+        }}
+      ></Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, mt: 2 }}>
+        <IconButton
+          aria-label="Previous month"
+          icon={ChevronLeftIcon}
+          onClick={() => changeMonth(-1)}
+        />
+        <Text sx={{ fontSize: '18px', minWidth: '180px', textAlign: 'center' }}>
+          {month.toLocaleString([], { month: 'long', year: 'numeric' })}
+        </Text>
+        <IconButton
+          aria-label="Next month"
+          icon={ChevronRightIcon}
+          onClick={() => changeMonth(1)}
+        />
+      </Box>
+
+      {articles ? (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(7, 1fr)',
+            width: '90%',
+            border: '1px solid',
+            borderColor: 'ansi.black',
+            borderRadius: '10px',
+            overflow: 'hidden',
+            mt: 2,
+          }}
+        >
+          {weekDays.map((weekDay) => (
+            <Text
+              key={weekDay}
+              sx={{
+                textAlign: 'center',
+                fontSize: '12px',
+                opacity: 0.7,
+                py: 2,
+              }}
+            >
+              {compact ? weekDay[0] : weekDay}
+            </Text>
+          ))}
+          {getCalendarDays(month).map((day) => (
+            <Box
+              key={day.getTime()}
+              sx={{
+                minHeight: compact ? '60px' : '110px',
+                borderTop: '1px solid',
+                borderColor: 'ansi.black',
+                p: 1,
+                opacity: day.getMonth() == month.getMonth() ? 1 : 0.4,
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 1,
+                minWidth: 0,
+              }}
+            >
+              <Text
+                sx={{
+                  fontSize: '12px',
+                  fontWeight: isSameDay(day, today) ? 'bold' : 'normal',
+                  color: isSameDay(day, today) ? 'accent.fg' : 'fg.default',
+                }}
+              >
+                {day.getDate()}
+              </Text>
+              {articles
+                .filter((article) =>
+                  isSameDay(new Date(article.PublishedAt * 1000), day)
+                )
+                .map((article) => (
+                  <Box
+                    key={article.ID}
+                    title={`${article.Title} by ${article.Author}`}
+                    onClick={() =>
+                      (window.location.href = `/${article.ID}?visibility=private`)
+                    }
+                    sx={{
+                      backgroundColor: 'accent.subtle',
+                      borderRadius: '6px',
+                      px: 1,
+                      fontSize: '12px',
+                      cursor: 'pointer',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {new Date(article.PublishedAt * 1000).toLocaleTimeString(
+                      [],
+                      { hour: '2-digit', minute: '2-digit' }
+                    )}{' '}
+                    {article.Title}
+                  </Box>
+                ))}
+            </Box>
+          ))}
+        </Box>
+      ) : (
+        <SkeletonCategoryPanel bigArticles={false} />
+      )}
+      {articles && articles.length == 0 && (
+        <Text sx={{ opacity: 0.7, mt: 2 }}>No publications are scheduled.</Text>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,300 @@
+import React from 'react';
+
+import {
+  Avatar,
+  Box,
+  Button,
+  Checkbox,
+  Heading,
+  Label,
+  Text,
+  TextInput,
+} from '@primer/react';
+import { SearchIcon } from '@primer/octicons-react';
+
+import {
+  Account,
+  UserManagementModal,
+} from '../components/contentDisplay/userManagementModal';
+import { ShowInformationPopup } from '../components/contentDisplay/informationPopup';
+import {
+  getUser,
+  fetchWrapper,
+  hasPermission,
+  capitalize,
+} from '@helper/helper';
+import { useScreenWidth } from '../components/other/useScreenWidth';
+import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
+
+export const AdminUsers = () => {
+  const [users, setUsers] = React.useState<Account[] | null>(null);
+  const [total, setTotal] = React.useState(0);
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const [search, setSearch] = React.useState('');
+  const [query, setQuery] = React.useState('');
+  const [selected, setSelected] = React.useState<string | null>(null);
+  const screenWidth = useScreenWidth();
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+  const user = getUser();
+  const allowed = hasPermission(user, 'user.manage');
+
+  // Fetches the next page, or the first one without a cursor
+  const loadUsers = React.useCallback(
+    (from: string | null, signal?: AbortSignal) => {
+      const params = new URLSearchParams();
+      if (query) params.set('search', query);
+      if (from) params.set('cursor', from);
+
+      fetchWrapper(`${backendUrl}/admin/users?${params.toString()}`, {
+        signal,
+      }).then((data) => {
+        if (data.status != 200) {
+          setUsers((prev) => prev || []);
+          return;
+        }
+        setUsers((prev) =>
+          from && prev
+            ? [...prev, ...data.response.return]
+            : data.response.return
+        );
+        setTotal(data.response.total);
+        setCursor(data.response.cursor);
+      });
+    },
+    [query, backendUrl]
+  );
+
+  React.useEffect(() => {
+    if (!allowed) return;
+
+    const controller = new AbortController();
+    setUsers(null);
+    loadUsers(null, controller.signal);
+
+    return () => {
+      controller.abort();
+    };
+  }, [allowed, loadUsers]);
+
+  if (!allowed) {
+    return (window.location.href = '/');
+  }
+
+  // Keeps the list in line with the changes made in the modal
+  const updateAccount = (account: Account | null) => {
+    if (!account) {
+      setUsers(
+        (prev) => prev && prev.filter((item) => item.Username != selected)
+      );
+      setTotal((prev) => prev - 1);
+      return;
+    }
+    setUsers(
+      (prev) =>
+        prev &&
+        prev.map((item) =>
+          item.Username == account.Username ? { ...item, ...account } : item
+        )
+    );
+  };
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        justifyItems: 'center',
+        width: '100%',
+        mt: '70px',
+        gap: 2,
+        mb: '100px',
+      }}
+    >
+      <Heading sx={{ fontSize: screenWidth < 768 ? '28px' : '42px' }}>
+        User Management
+      </Heading>
+      <Box
+        sx={{
+          width: '100%',
+          height: '1px',
+          backgroundColor: 'ansi.black',
+        }}
+      ></Box>
+      {hasPermission(user, 'role.manage') && <TwoFactorRoles />}
+      <Box
+        as="form"
+        onSubmit={(event: React.FormEvent) => {
+          event.preventDefault();
+          setQuery(search.trim());
+        }}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 2,
+          width: '90%',
+          mt: 2,
+        }}
+      >
+        <TextInput
+          leadingVisual={SearchIcon}
+          placeholder="Username or email"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Button type="submit">Search</Button>
+      </Box>
+      <Text sx={{ width: '90%', opacity: 0.7, fontSize: '14px' }}>
+        {users ? `${total} users` : ''}
+      </Text>
+
+      <Box
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 2,
+          width: '90%',
+        }}
+      >
+        {users ? (
+          users.map((item) => (
+            <Box
+              key={item.Username}
+              onClick={() => setSelected(item.Username)}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 3,
+                p: 2,
+                border: '1px solid',
+                borderColor: 'ansi.black',
+                borderRadius: '10px',
+                cursor: 'pointer',
+                ':hover': { backgroundColor: 'sidenav.selectedBg' },
+              }}
+            >
+              <Avatar src={item.ProfilePic} size={32} />
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Text as="p" sx={{ m: 0, fontWeight: 'bold' }}>
+                  {item.Username}
+                </Text>
+                <Text as="p" sx={{ m: 0, fontSize: '12px', opacity: 0.7 }}>
+                  {item.Email}
+                </Text>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {item.Suspension && (
+                  <Label variant="danger">
+                    {item.Suspension.Until ? 'Suspended' : 'Banned'}
+                  </Label>
+                )}
+                {item.Verified != 'true' && (
+                  <Label variant="attention">Unverified</Label>
+                )}
+                {item.Roles.map((role) => (
+                  <Label key={role}>{role}</Label>
+                ))}
+              </Box>
+            </Box>
+          ))
+        ) : (
+          <SkeletonCategoryPanel bigArticles={false} />
+        )}
+      </Box>
+      {users && cursor && (
+        <Button onClick={() => loadUsers(cursor)}>Load more</Button>
+      )}
+
+      {selected && (
+        <UserManagementModal
+          isOpen={selected != null}
+          closeFunc={() => setSelected(null)}
+          username={selected}
+          updateAccount={updateAccount}
+        />
+      )}
+    </Box>
+  );
+};
+
+// Roles whose users must use two-factor authentication
+const TwoFactorRoles = () => {
+  const [roles, setRoles] = React.useState<string[]>([]);
+  const [required, setRequired] = React.useState<string[] | null>(null);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(`${backendUrl}/user/roles`, { signal }).then((data) => {
+      if (data.status == 200) setRoles(Object.keys(data.response.return));
+    });
+    fetchWrapper(`${backendUrl}/user/roles/two-factor`, { signal }).then(
+      (data) => {
+        if (data.status == 200) setRequired(data.response.roles);
+      }
+    );
+
+    return () => {
+      controller.abort();
+    };
+  }, [backendUrl]);
+
+  const toggleRole = async (role: string) => {
+    if (!required) return;
+
+    const next = required.includes(role)
+      ? required.filter((item) => item != role)
+      : [...required, role];
+    try {
+      const response = await fetchWrapper(
+        `${backendUrl}/user/roles/two-factor`,
+        { method: 'PUT', body: JSON.stringify({ roles: next }) }
+      );
+
+      if (response.status != 200) {
+        ShowInformationPopup('Error', capitalize(response.response.message));
+        return;
+      }
+      setRequired(response.response.roles);
+    } catch (error) {
+      console.error('Error changing the two-factor roles:', error);
+      ShowInformationPopup(
+        'Error',
+        'An unexpected error occurred. Please try again later.'
+      );
+    }
+  };
+
+  if (!required) return <></>;
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: 3,
+        width: '90%',
+        mt: 2,
+      }}
+    >
+      <Text sx={{ fontWeight: 'bold' }}>Require two-factor for:</Text>
+      {roles.map((role) => (
+        <Box
+          as="label"
+          key={role}
+          sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+        >
+          <Checkbox
+            checked={required.includes(role)}
+            onChange={() => toggleRole(role)}
+          />
+          <Text>{capitalize(role)}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+};
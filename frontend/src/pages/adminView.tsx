@@ -1,22 +1,33 @@
 import React from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 
 import { Box, Select, Text, Heading, Pagination } from '@primer/react';
 
 import { ArticlePrivate } from '../components/contentDisplay/articles/articlePrivate';
-import { getUser, fetchWrapper } from '@helper/helper';
+import { getUser, fetchWrapper, hasPermission } from '@helper/helper';
 import { useScreenWidth } from '../components/other/useScreenWidth';
+import { useCursorPagination } from '../components/other/useCursorPagination';
 import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
+import { Review } from '../components/other/reviews';
+
+// Reviews of the queue come with the article they belong to
+interface QueueItem extends Review {
+  Article: object | null;
+}
 
 export const AdminView = () => {
   const [articles, setArticles] = React.useState<any>(null);
-  const [status, setStatus] = React.useState('review');
   const screenWidth = useScreenWidth();
   const { page } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const status = searchParams.get('status') || 'review';
+  const { currentPage, pageQuery, pageCount, updatePage, pageHref } =
+    useCursorPagination(page);
 
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
   const user = getUser();
-  if (user && user.Admin != 'true') {
+  if (user && !hasPermission(user, 'article.review')) {
     return (window.location.href = '/');
   }
 
@@ -32,18 +43,34 @@ export const AdminView = () => {
     const controller = new AbortController();
     const signal = controller.signal;
 
-    fetchWrapper(
-      `${backendUrl}/articles/private?status=${status}&page=${page}`,
-      { signal },
-      true
-    ).then((data) => {
-      setArticles(data.response.return);
-    });
+    // Submissions waiting for a review come from the queue, oldest first
+    if (status == 'review') {
+      fetchWrapper(`${backendUrl}/articles/reviews/queue?${pageQuery}`, {
+        signal,
+      }).then((data) => {
+        updatePage(data.response);
+        const queue: QueueItem[] = data.response.return || [];
+        setArticles(
+          queue
+            .filter((item) => item.Article)
+            .map((item) => ({ ...item.Article, review: item }))
+        );
+      });
+    } else {
+      fetchWrapper(
+        `${backendUrl}/articles/private?status=${status}&${pageQuery}`,
+        { signal },
+        true
+      ).then((data) => {
+        setArticles(data.response.return);
+        updatePage(data.response);
+      });
+    }
 
     return () => {
       controller.abort();
     };
-  }, [status, page]);
+  }, [status, pageQuery]);
 
   return (
     <Box
@@ -89,13 +116,16 @@ export const AdminView = () => {
             Display:
           </Text>
           <Select
+            value={status}
             onChange={(event) => {
+              // Cursors belong to one list, so switching starts from page one
               setArticles(null);
-              setStatus(event?.target.value);
+              navigate(`/adminView/1?status=${event.target.value}`);
             }}
           >
             <Select.Option value="review">Review</Select.Option>
             <Select.Option value="private">Private</Select.Option>
+            <Select.Option value="scheduled">Scheduled</Select.Option>
           </Select>
         </Box>
       </Box>
@@ -113,7 +143,7 @@ export const AdminView = () => {
         {articles ? (
           <>
             {articles.map((item: any, index: any) => (
-              <ArticlePrivate key={index} article={item} />
+              <ArticlePrivate key={index} article={item} review={item.review} />
             ))}
           </>
         ) : (
@@ -121,11 +151,9 @@ export const AdminView = () => {
         )}
       </Box>
       <Pagination
-        currentPage={Number(page) || 1}
-        pageCount={99}
-        hrefBuilder={(page) => {
-          return `/adminView/${page}`;
-        }}
+        currentPage={currentPage}
+        pageCount={pageCount}
+        hrefBuilder={(page) => pageHref('/adminView', page, `status=${status}`)}
       />
     </Box>
   );
@@ -16,6 +16,10 @@ import { getRelativeDate, capitalize, fetchWrapper } from '@helper/helper';
 import { AnimatedImage } from '../components/animation/animatedImage';
 import { ArticleDifficultyLabel } from '../components/contentDisplay/articles/articleDifficultyLabel';
 import { Like } from '../components/contentDisplay/like';
+import { MarkdownRenderer } from '../components/contentDisplay/markdown';
+import { CommentSection } from '../components/contentDisplay/comments/commentSection';
+import { AttachmentList } from '../components/contentDisplay/attachmentList';
+import { StepList } from '../components/contentDisplay/stepList';
 import Loading from '../components/contentDisplay/loading';
 
 export const Article = () => {
@@ -118,20 +122,21 @@ export const Article = () => {
           mt: 4,
         }}
       >
-        <Text as="p" sx={{ textAlign: 'justify' }}>
-          {article.body.split('\n').map((paragraph: string, index: number) => {
-            return (
-              <Text
-                key={index}
-                sx={{
-                  fontSize: screenWidth < 768 ? '14px' : '18px',
-                }}
-              >
-                {paragraph} <br></br>
-              </Text>
-            );
-          })}
-        </Text>
+        {article.metadata.Format == 'steps' && id ? (
+          <>
+            <MarkdownRenderer content={article.intro} articleId={id} />
+            <StepList articleId={id} steps={article.steps} />
+          </>
+        ) : (
+          <MarkdownRenderer content={article.body} articleId={id} />
+        )}
+        {id && <AttachmentList articleId={id} />}
+        {visibility == 'public' && id && (
+          <CommentSection
+            articleId={id}
+            articleAuthor={article.metadata.Author}
+          />
+        )}
       </Box>
     </Box>
   );
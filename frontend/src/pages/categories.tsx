@@ -6,23 +6,16 @@ import { ArticleLarge } from '../components/contentDisplay/articles/articleLarge
 import { ArticleMedium } from '../components/contentDisplay/articles/articleMedium';
 import { ArticleSmall } from '../components/contentDisplay/articles/articleSmall';
 
-import { capitalize, fetchWrapper } from '@helper/helper';
+import { fetchWrapper } from '@helper/helper';
 import { useScreenWidth } from '../components/other/useScreenWidth';
 import { SkeletonCategoriesPanel } from '../components/core/skeletons/skeletonCategoriesPanel';
 
-import { categories } from '../components/other/categories';
+import { useCategories } from '../components/other/useCategories';
 
 export const Categories = () => {
-  const [articles, setArticles] = React.useState(() => {
-    const initialArticles = categories.reduce((acc: any, category) => {
-      acc[category.value] = null;
-      return acc;
-    }, {});
-
-    return initialArticles;
-  });
+  const categories = useCategories();
+  const [articles, setArticles] = React.useState<any>({});
   const screenWidth = useScreenWidth();
-  console.log(articles);
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
 
   React.useEffect(() => {
@@ -31,24 +24,26 @@ export const Categories = () => {
 
     const fetchArticles = async () => {
       const newArticles: any = {};
-      for (const category of Object.keys(articles)) {
+      for (const category of categories ?? []) {
         const data = await fetchWrapper(
-          `${backendUrl}/articles/${category}?limit=5`,
+          `${backendUrl}/articles/${category.Slug}?limit=5`,
           { signal },
           true,
           60 * 60 * 5
         );
-        newArticles[category] = data.response.return;
+        newArticles[category.Slug] = data.response.return;
       }
       setArticles(newArticles);
     };
 
-    fetchArticles();
+    if (categories) {
+      fetchArticles();
+    }
 
     return () => {
       controller.abort();
     };
-  }, []);
+  }, [categories]);
 
   const getArticlesToRender = (keyName: string) => {
     if (screenWidth < 430) {
@@ -91,9 +86,20 @@ export const Categories = () => {
     return '1250px';
   };
 
+  if (!categories) {
+    return (
+      <Box>
+        {[0, 1, 2].map((index) => (
+          <SkeletonCategoriesPanel headerWidth={getHeaderWidth()} key={index} />
+        ))}
+      </Box>
+    );
+  }
+
   return (
     <Box>
-      {Object.keys(articles).map((keyName: string) => {
+      {categories.map((category) => {
+        const keyName = category.Slug;
         if (!articles[keyName]) {
           return (
             <SkeletonCategoriesPanel
@@ -118,7 +124,9 @@ export const Categories = () => {
               }}
             >
               <CategoryHeader
-                title={capitalize(keyName)}
+                title={category.Name}
+                description={category.Description}
+                heroImage={category.HeroImage}
                 link={`/categories/${keyName}/1`}
               />
             </Box>
@@ -6,6 +6,7 @@ import { ArticleMedium } from '../components/contentDisplay/articles/articleMedi
 import { ArticleSmall } from '../components/contentDisplay/articles/articleSmall';
 import * as styles from '../componentStyles';
 import { useScreenWidth } from '../components/other/useScreenWidth';
+import { useCursorPagination } from '../components/other/useCursorPagination';
 import { fetchWrapper } from '@helper/helper';
 
 import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
@@ -17,6 +18,8 @@ export const Category: React.FC = () => {
   }>();
   const [articles, setArticles] = React.useState<any>(null);
   const screenWidth = useScreenWidth();
+  const { currentPage, pageQuery, pageCount, updatePage, pageHref } =
+    useCursorPagination(page);
 
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
 
@@ -26,7 +29,7 @@ export const Category: React.FC = () => {
 
     if (categoryName && page) {
       fetchWrapper(
-        `${backendUrl}/articles/${categoryName}?page=${page}`,
+        `${backendUrl}/articles/${categoryName}?${pageQuery}`,
         {
           signal,
         },
@@ -34,13 +37,14 @@ export const Category: React.FC = () => {
         60 * 60
       ).then((data) => {
         setArticles(data.response.return);
+        updatePage(data.response);
       });
     }
 
     return () => {
       controller.abort();
     };
-  }, [categoryName, page]);
+  }, [categoryName, pageQuery]);
 
   const getArticlesToRender = () => {
     if (!articles) return null;
@@ -132,11 +136,9 @@ export const Category: React.FC = () => {
         {getArticlesToRender()}
       </Box>
       <Pagination
-        currentPage={Number(page) || 1}
-        pageCount={99}
-        hrefBuilder={(page) => {
-          return `/categories/${categoryName}/${page}`;
-        }}
+        currentPage={currentPage}
+        pageCount={pageCount}
+        hrefBuilder={(page) => pageHref(`/categories/${categoryName}`, page)}
       />
     </Box>
   );
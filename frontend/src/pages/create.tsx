@@ -7,21 +7,31 @@ import {
   Button,
   Select,
   Link,
+  SegmentedControl,
 } from '@primer/react';
 
 import React from 'react';
 import { useSearchParams } from 'react-router-dom';
 
-import { categories } from '../components/other/categories';
+import { useCategories } from '../components/other/useCategories';
 
 import { ShowConfirmationPopup } from '../components/contentDisplay/confirmationPopup';
 import { ShowInformationPopup } from '../components/contentDisplay/informationPopup';
 
 import { AnimatedImage } from '../components/animation/animatedImage';
-import { getUser, fetchWrapper, capitalize } from '@helper/helper';
+import {
+  getUser,
+  fetchWrapper,
+  capitalize,
+  hasPermission,
+} from '@helper/helper';
 import { BannerUploadModal } from '../components/contentDisplay/bannerUploadModal';
 import { useScreenWidth } from '../components/other/useScreenWidth';
 import { MultipleChoice } from '../components/core/multipleChoice';
+import { MarkdownEditor } from '../components/core/markdownEditor';
+import { AttachmentManager } from '../components/contentDisplay/attachmentManager';
+import { StepEditor } from '../components/contentDisplay/stepEditor';
+import { Step, emptyStep } from '../components/other/steps';
 
 export const Create = () => {
   const [bannerFile, setBannerFile] = React.useState<any>([null, null]); // file, link
@@ -30,18 +40,20 @@ export const Create = () => {
   const articleId = searchParams.get('id');
   const screenWidth = useScreenWidth();
   const [tags, setTags] = React.useState([]);
-  const [formData, setFormData] = React.useState({
+  const [formData, setFormData] = React.useState<FormData>({
     Title: '',
     Description: '',
     Body: '',
     PrimaryCategory: 'programming',
     Difficulty: 'Easy',
     S3Link: '',
+    Format: 'article',
+    Steps: [],
   });
 
   // Check user privliges
   const user = getUser();
-  if (user && !(user.CanPost == 'true' || user.Admin == 'true')) {
+  if (user && !hasPermission(user, 'article.create')) {
     return (window.location.href = '/');
   }
 
@@ -77,13 +89,16 @@ export const Create = () => {
       60 * 10
     ).then((data) => {
       const article = data.response.return;
+      const isSteps = article.metadata.Format == 'steps';
       setFormData({
         Title: article.metadata.Title,
         Description: article.metadata.Description,
-        Body: article.body,
+        Body: isSteps ? article.intro : article.body,
         PrimaryCategory: article.metadata.PrimaryCategory,
         Difficulty: article.metadata.Difficulty,
         S3Link: article.metadata.Image,
+        Format: isSteps ? 'steps' : 'article',
+        Steps: isSteps ? article.steps : [],
       });
       setTags(article.metadata.SecondaryCategories);
       setBannerFile((prev: any) => [prev[0], article.metadata.Image]);
@@ -201,6 +216,8 @@ interface FormData {
   PrimaryCategory: string;
   Difficulty: string;
   S3Link: string;
+  Format: 'article' | 'steps';
+  Steps: Step[];
 }
 
 interface FormProps {
@@ -211,26 +228,52 @@ interface FormProps {
 }
 
 const ArticleCreationForm = (props: FormProps) => {
-  const [charCount, setCharCount] = React.useState<any>(0);
   const { formData, setFormData, tags, setTags } = props;
   const screenWidth = useScreenWidth();
 
+  // Images are uploaded into the article that is being edited
+  const [searchParams] = useSearchParams();
+  const existingId = searchParams.get('id') || '';
+
   const maxBodyLength = 10000;
-  const handleBodyChange = (event: any) => {
-    let newData = formData;
-    newData.Body = event.target.value;
-    setCharCount(newData.Body.length);
-    setFormData(newData);
-  };
+  const isSteps = formData.Format == 'steps';
 
-  const getCharCounterColor = () => {
-    if (charCount > maxBodyLength - 50) {
-      return 'red';
-    }
-    if (charCount > maxBodyLength - 150) {
-      return 'orange';
+  const changeFormat = (format: 'article' | 'steps') => {
+    if (format == formData.Format) return;
+
+    if (format == 'steps') {
+      setFormData((prevData: FormData) => ({
+        ...prevData,
+        Format: format,
+        Steps: [emptyStep()],
+      }));
+      return;
     }
-    return '';
+
+    // The steps become sections of the body
+    ShowConfirmationPopup(
+      'Convert to an Article?',
+      <Text>
+        The steps will be merged into the body of the article and the progress
+        of the readers will be lost.
+      </Text>,
+      () => {},
+      () => {
+        setFormData((prevData: FormData) => ({
+          ...prevData,
+          Format: format,
+          Body: [
+            prevData.Body.trim(),
+            ...prevData.Steps.map(
+              (step) => `## ${step.Title}\n\n${step.Body.trim()}`
+            ),
+          ]
+            .filter((text) => text != '')
+            .join('\n\n'),
+          Steps: [],
+        }));
+      }
+    );
   };
 
   return (
@@ -287,32 +330,49 @@ const ArticleCreationForm = (props: FormProps) => {
 
       <Box
         sx={{
-          width: screenWidth < 768 ? '80%' : '60%',
-          position: 'relative',
+          width: screenWidth < 768 ? '85%' : '75%',
         }}
       >
-        <Textarea
-          placeholder="Body:"
-          resize="none"
+        <SegmentedControl aria-label="Article format" sx={{ mb: 3 }}>
+          <SegmentedControl.Button
+            selected={!isSteps}
+            onClick={() => changeFormat('article')}
+          >
+            Article
+          </SegmentedControl.Button>
+          <SegmentedControl.Button
+            selected={isSteps}
+            onClick={() => changeFormat('steps')}
+          >
+            Step by step
+          </SegmentedControl.Button>
+        </SegmentedControl>
+        <MarkdownEditor
+          articleId={existingId || undefined}
+          placeholder={isSteps ? 'Introduction (optional):' : 'Body:'}
           maxLength={maxBodyLength}
           value={formData.Body}
-          onChange={handleBodyChange}
-          sx={{
-            width: '100%',
-            height: screenWidth < 768 ? '450px' : '600px',
-            fontSize: screenWidth < 768 ? '16px' : '18px',
+          onChange={(value) => {
+            setFormData((prevData: any) => ({
+              ...prevData,
+              Body: value,
+            }));
           }}
         />
-        <Text
-          sx={{
-            position: 'absolute',
-            right: 2,
-            bottom: 1,
-            color: getCharCounterColor(),
-          }}
-        >
-          {charCount}/{maxBodyLength}
-        </Text>
+        {isSteps && (
+          <StepEditor
+            articleId={existingId || undefined}
+            maxLength={maxBodyLength}
+            steps={formData.Steps}
+            onChange={(steps) => {
+              setFormData((prevData: FormData) => ({
+                ...prevData,
+                Steps: steps,
+              }));
+            }}
+          />
+        )}
+        {existingId && <AttachmentManager articleId={existingId} />}
       </Box>
     </>
   );
@@ -322,6 +382,21 @@ const CategorySelection = (props: FormProps) => {
   const { formData, setFormData, tags, setTags } = props;
   const [open, setOpen] = React.useState<boolean>(false);
   const screenWidth = useScreenWidth();
+  const categories = useCategories();
+
+  // Fall back to the first category if the selected one is not offered
+  React.useEffect(() => {
+    if (
+      categories?.length &&
+      !categories.some((item) => item.Slug == formData.PrimaryCategory)
+    ) {
+      setFormData((prevData: any) => ({
+        ...prevData,
+        PrimaryCategory: categories[0].Slug,
+      }));
+    }
+  }, [categories, formData.PrimaryCategory, setFormData]);
+
   const items = [
     'innovation',
     'creativity',
@@ -405,10 +480,10 @@ const CategorySelection = (props: FormProps) => {
             }));
           }}
         >
-          {categories.map((item: any) => {
+          {(categories ?? []).map((item) => {
             return (
-              <Select.Option key={item.name} value={item.value}>
-                {item.name}
+              <Select.Option key={item.Slug} value={item.Slug}>
+                {item.Name}
               </Select.Option>
             );
           })}
@@ -471,10 +546,17 @@ const ArticleSubmit = (props: SubmitProps) => {
   // existingId specifies which article is being edited
   const [searchParams] = useSearchParams();
   const existingId = searchParams.get('id') || '';
+  const [note, setNote] = React.useState('');
 
   const handleSubmit = async (status: string) => {
+    const isSteps = formData.Format == 'steps';
     for (const field of Object.keys(formData)) {
-      if (field != 'S3Link' && formData[field].trim() == '') {
+      if (
+        typeof formData[field] == 'string' &&
+        field != 'S3Link' &&
+        !(isSteps && field == 'Body') &&
+        formData[field].trim() == ''
+      ) {
         ShowInformationPopup(
           'Error',
           'Please fill out all of the fields in order to save.'
@@ -489,6 +571,10 @@ const ArticleSubmit = (props: SubmitProps) => {
       );
       return;
     }
+    if (isSteps && formData.Steps.some((step) => step.Title.trim() == '')) {
+      ShowInformationPopup('Error', 'Please give every step a title.');
+      return;
+    }
 
     try {
       // Submit article data
@@ -498,6 +584,8 @@ const ArticleSubmit = (props: SubmitProps) => {
           method: 'POST',
           body: JSON.stringify({
             body: formData.Body,
+            ...(isSteps && { steps: formData.Steps }),
+            note: note,
             metadata: {
               Title: formData.Title,
               Description: formData.Description,
@@ -508,6 +596,7 @@ const ArticleSubmit = (props: SubmitProps) => {
               Difficulty: formData.Difficulty,
               Image: formData.S3Link,
               Status: status,
+              ...(isSteps && { Format: 'steps' }),
             },
           }),
         }
@@ -569,6 +658,15 @@ const ArticleSubmit = (props: SubmitProps) => {
 
   return (
     <>
+      {existingId && (
+        <TextInput
+          maxLength={200}
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Describe your changes (optional)"
+          sx={{ width: '50%', minWidth: '280px' }}
+        />
+      )}
       <Box
         sx={{
           display: 'flex',
@@ -0,0 +1,119 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+
+import { Box, Heading, Pagination, Text } from '@primer/react';
+
+import { ArticleSmall } from '../components/contentDisplay/articles/articleSmall';
+import { getUser, fetchWrapper } from '@helper/helper';
+import { useScreenWidth } from '../components/other/useScreenWidth';
+import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
+import { useCursorPagination } from '../components/other/useCursorPagination';
+
+const articlesPerPage = 12;
+
+interface Article {
+  Title: string;
+  Description: string;
+  Author: string;
+  AuthorProfilePic: string;
+  PrimaryCategory: string;
+  SecondaryCategories: string[];
+  Rating: number;
+  UpdatedAt: number;
+  CreatedAt: number;
+  PublishedAt: number;
+  Difficulty: string;
+  Image: string;
+  ID: string;
+}
+
+export const Liked = () => {
+  const [articles, setArticles] = React.useState<Article[] | null>(null);
+  const screenWidth = useScreenWidth();
+  const { page } = useParams();
+  const { currentPage, pageQuery, pageCount, updatePage, pageHref } =
+    useCursorPagination(page);
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  const user = getUser();
+  const username = user?.Username;
+
+  React.useEffect(() => {
+    if (!username) return;
+
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    fetchWrapper(
+      `${backendUrl}/user/liked?${pageQuery}&limit=${articlesPerPage}`,
+      { signal }
+    ).then((data) => {
+      setArticles(data.status == 200 ? data.response.return : []);
+      updatePage(data.status == 200 ? data.response : undefined);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [username, pageQuery, updatePage, backendUrl]);
+
+  if (!user) {
+    return (window.location.href = '/sign-in');
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        justifyItems: 'center',
+        width: '100%',
+        mt: '70px',
+        gap: 2,
+        mb: '100px',
+      }}
+    >
+      <Heading sx={{ fontSize: screenWidth < 768 ? '28px' : '42px' }}>
+        Liked Articles
+      </Heading>
+      <Box
+        sx={{
+          width: '100%',
+          height: '1px',
+          backgroundColor: 'ansi.black',
+        }}
+      ></Box>
+
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'center',
+          gap: 4,
+          width: '90%',
+          mt: 4,
+        }}
+      >
+        {articles ? (
+          articles.map((item) => <ArticleSmall key={item.ID} article={item} />)
+        ) : (
+          <SkeletonCategoryPanel bigArticles={false} />
+        )}
+        {articles && articles.length == 0 && (
+          <Text sx={{ opacity: 0.7 }}>
+            {currentPage == 1
+              ? 'Articles you like will show up here.'
+              : 'There are no more liked articles.'}
+          </Text>
+        )}
+      </Box>
+      {articles && pageCount > 1 && (
+        <Pagination
+          currentPage={currentPage}
+          pageCount={pageCount}
+          hrefBuilder={(page) => pageHref('/liked', page)}
+        />
+      )}
+    </Box>
+  );
+};
@@ -8,6 +8,7 @@ import {
   LockIcon,
   EyeIcon,
   EyeClosedIcon,
+  ShieldLockIcon,
 } from '@primer/octicons-react';
 
 import { capitalize, fetchWrapper } from '@helper/helper';
@@ -16,6 +17,9 @@ export const Login = () => {
   const [passwordIcon, setPasswordIcon] = React.useState<any>(EyeIcon);
   const [passVis, setPassVis] = React.useState<string>('password');
   const [errorMessage, setErrorMessage] = React.useState<string>('');
+  // Set when the account uses two-factor authentication, see the API docs
+  const [challenge, setChallenge] = React.useState<string>('');
+  const [code, setCode] = React.useState<string>('');
   const [formData, setFormData] = React.useState({
     username: '',
     password: '',
@@ -55,16 +59,59 @@ export const Login = () => {
     fetchWrapper(`${backendUrl}/user/sign-in`, {
       method: 'POST',
       body: JSON.stringify(formData),
+    }).then((data) => {
+      if (data.status != 200 && data.response.suspension) {
+        const { Reason, Until } = data.response.suspension;
+        setErrorMessage(
+          (Until
+            ? `Your account is suspended until ${new Date(
+                Until * 1000
+              ).toLocaleString()}.`
+            : 'Your account is banned.') + ` Reason: ${Reason}`
+        );
+        return;
+      }
+      if (data.status != 200) {
+        setErrorMessage(capitalize(data.response.message) + '.');
+        return;
+      }
+      if (data.response.challenge) {
+        setErrorMessage('');
+        setChallenge(data.response.challenge);
+        return;
+      }
+
+      signedIn(data);
+    });
+  };
+
+  const handleCodeSubmit = (event: React.SyntheticEvent) => {
+    event.preventDefault();
+    if (code.trim() == '') {
+      setErrorMessage('Enter the code of your authenticator app');
+      return;
+    }
+
+    const backendUrl = import.meta.env.VITE_BACKEND_URL;
+    fetchWrapper(`${backendUrl}/user/sign-in/2fa`, {
+      method: 'POST',
+      body: JSON.stringify({ challenge, code: code.trim() }),
     }).then((data) => {
       if (data.status != 200) {
         setErrorMessage(capitalize(data.response.message) + '.');
+        setCode('');
         return;
       }
 
-      window.location.href = '/';
+      signedIn(data);
     });
   };
 
+  // Users whose role requires two-factor authentication are sent to set it up
+  const signedIn = (data: { response: { twoFactorSetup?: boolean } }) => {
+    window.location.href = data.response.twoFactorSetup ? '/account' : '/';
+  };
+
   const inputStyle = {
     width: '300px',
   };
@@ -104,6 +151,7 @@ export const Login = () => {
             placeholder="Username"
             value={formData.username}
             onChange={handleInputChange}
+            disabled={!!challenge}
             leadingVisual={PersonIcon}
             sx={inputStyle}
           />
@@ -119,6 +167,7 @@ export const Login = () => {
             placeholder="Password"
             value={formData.password}
             onChange={handleInputChange}
+            disabled={!!challenge}
             leadingVisual={LockIcon}
             trailingAction={
               <TextInput.Action
@@ -139,20 +188,43 @@ export const Login = () => {
           <PasswordReset username={formData.username} />
         </Box>
 
+        {challenge && (
+          <Box sx={{ display: 'grid', maxWidth: '300px' }}>
+            <Text sx={{ color: 'fg.muted' }}>
+              Enter the code of your authenticator app or one of your recovery
+              codes:
+            </Text>
+            <TextInput
+              aria-label="Code"
+              name="code"
+              size="large"
+              placeholder="123456"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key == 'Enter') handleCodeSubmit(event);
+              }}
+              leadingVisual={ShieldLockIcon}
+              sx={inputStyle}
+            />
+          </Box>
+        )}
+
         {errorMessage && (
           <Text sx={{ color: 'red', fontSize: '14px', textAlign: 'center' }}>
             {errorMessage}
           </Text>
         )}
         <Button
-          onClick={handleSubmit}
+          onClick={challenge ? handleCodeSubmit : handleSubmit}
           sx={{
             backgroundColor: 'primer.canvas.sticky',
             fontSize: '16px',
             py: '20px',
           }}
         >
-          Sign In
+          {challenge ? 'Verify' : 'Sign In'}
         </Button>
       </Box>
     </Box>
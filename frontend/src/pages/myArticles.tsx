@@ -5,21 +5,26 @@ import { Box, Heading, Pagination } from '@primer/react';
 
 import { ArticleSmall } from '../components/contentDisplay/articles/articleSmall';
 import { ArticlePrivate } from '../components/contentDisplay/articles/articlePrivate';
-import { getUser, fetchWrapper } from '@helper/helper';
+import { Review } from '../components/other/reviews';
+import { getUser, fetchWrapper, hasPermission } from '@helper/helper';
 import { useScreenWidth } from '../components/other/useScreenWidth';
+import { useCursorPagination } from '../components/other/useCursorPagination';
 import { PencilIcon } from '@primer/octicons-react';
 import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
 
 export const MyArticles = () => {
   const [publicArticles, setPublicArticles] = React.useState<any>(null);
   const [privateArticles, setPrivateArticles] = React.useState<any>(null);
+  const [reviews, setReviews] = React.useState<{ [key: string]: Review }>({});
   const screenWidth = useScreenWidth();
   const { page } = useParams();
+  const { currentPage, pageQuery, pageCount, updatePage, pageHref } =
+    useCursorPagination(page);
 
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
 
   const user = getUser();
-  if (user && !(user.CanPost == 'true' || user.Admin == 'true')) {
+  if (user && !hasPermission(user, 'article.create')) {
     return (window.location.href = '/');
   }
 
@@ -28,12 +33,13 @@ export const MyArticles = () => {
     const signal = controller.signal;
 
     fetchWrapper(
-      `${backendUrl}/articles/author?authorName=${user?.Username}&page=${page}`,
+      `${backendUrl}/articles/author?authorName=${user?.Username}&${pageQuery}`,
       { signal },
       true,
       60 * 15
     ).then((data) => {
       setPublicArticles(data.response.return);
+      updatePage(data.response);
     });
 
     fetchWrapper(
@@ -41,9 +47,25 @@ export const MyArticles = () => {
       { signal },
       true,
       60 * 15
-    ).then((data) => {
-      setPrivateArticles(data.response.return);
-    });
+    )
+      .then((data) => {
+        const articles = data.response.return;
+        setPrivateArticles(articles);
+        if (!articles || articles.length == 0) return;
+
+        // Outcome of the latest review of each private article
+        return fetchWrapper(
+          `${backendUrl}/articles/reviews/latest?ids=${articles
+            .map((item: { ID: string }) => item.ID)
+            .join(',')}`,
+          { signal }
+        );
+      })
+      .then((data) => {
+        if (data?.status == 200) {
+          setReviews(data.response.return);
+        }
+      });
 
     return () => {
       controller.abort();
@@ -97,7 +119,11 @@ export const MyArticles = () => {
               <ArticleSmall key={index} article={item} />
             ))}
             {privateArticles.map((item: any, index: any) => (
-              <ArticlePrivate key={index} article={item} />
+              <ArticlePrivate
+                key={index}
+                article={item}
+                review={reviews[item.ID]}
+              />
             ))}
             <Box
               onClick={handleCreate}
@@ -137,11 +163,9 @@ export const MyArticles = () => {
         )}
       </Box>
       <Pagination
-        currentPage={Number(page) || 1}
-        pageCount={99}
-        hrefBuilder={(page) => {
-          return `/myArticles/${page}`;
-        }}
+        currentPage={currentPage}
+        pageCount={pageCount}
+        hrefBuilder={(page) => pageHref('/myArticles', page)}
       />
     </Box>
   );
@@ -1,12 +1,24 @@
-import { fetchWrapper, logOut } from '@helper/helper';
+import { capitalize, fetchWrapper } from '@helper/helper';
 import { useParams } from 'react-router-dom';
+import { Box, Button, Heading, Spinner, Text, TextInput } from '@primer/react';
+import { LockIcon } from '@primer/octicons-react';
 
 import { ShowInformationPopup } from '../components/contentDisplay/informationPopup';
+import { PasswordStrength } from '../components/other/passwordStrength';
+import {
+  getPasswordProblems,
+  usePasswordPolicy,
+} from '../components/other/passwordPolicy';
 
 import React from 'react';
 
 export const PasswordReset = () => {
-  const [response, setResponse] = React.useState<any>(null);
+  const [username, setUsername] = React.useState<string | null>(null);
+  const [password, setPassword] = React.useState('');
+  const [confirmPassword, setConfirmPassword] = React.useState('');
+  const [errorMessage, setErrorMessage] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const policy = usePasswordPolicy();
   const { code } = useParams();
 
   const backendUrl = import.meta.env.VITE_BACKEND_URL;
@@ -15,10 +27,21 @@ export const PasswordReset = () => {
     const signal = controller.signal;
 
     fetchWrapper(`${backendUrl}/user/password-reset/${code}`, {
-      method: 'POST',
       signal,
     }).then((data) => {
-      setResponse(data);
+      if (data.status == 200) {
+        setUsername(data.response.username);
+        return;
+      }
+      ShowInformationPopup(
+        'Password Reset',
+        data.status == 404
+          ? 'This link is invalid or has expired. Please request a new one.'
+          : 'There was a problem with the password reset. Please try again later.',
+        () => {
+          window.location.href = '/';
+        }
+      );
     });
 
     return () => {
@@ -26,44 +49,132 @@ export const PasswordReset = () => {
     };
   }, []);
 
-  if (!response) {
-    return null;
-  } else if (response.status == 200) {
-    ShowInformationPopup(
-      'Password Reset',
-      'Your password has been reset. Check your inbox to view your new password.',
-      () => {
-        logOut();
-        window.location.href = '/sign-in';
-      }
-    );
-    return null;
-  } else if (response.status == 404) {
-    ShowInformationPopup(
-      'Password Reset',
-      'This verification link is invalid. Please try a different one.',
-      () => {
-        window.location.href = '/';
-      }
-    );
-    return null;
-  } else if (response.status == 410) {
-    ShowInformationPopup(
-      'Password Reset',
-      'This verification link is invalid. Please request a new one.',
-      () => {
-        window.location.href = '/';
-      }
-    );
-    return null;
-  } else if (response.status == 500) {
-    ShowInformationPopup(
-      'Password Reset',
-      'There was a problem the password reset. Please try again later.',
-      () => {
-        window.location.href = '/';
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const [problem] = getPasswordProblems(password, policy, username ?? '');
+    if (problem) {
+      setErrorMessage(`The password needs: ${problem.toLowerCase()}.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setErrorMessage('The passwords do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetchWrapper(
+        `${backendUrl}/user/password-reset/${code}`,
+        { method: 'POST', body: JSON.stringify({ password }) }
+      );
+
+      if (response.status != 200) {
+        setErrorMessage(capitalize(response.response.message) + '.');
+        return;
       }
-    );
-    return null;
+
+      // The reset signs out every device, this one included
+      localStorage.removeItem('user');
+      ShowInformationPopup(
+        'Password Reset',
+        'Your password has been changed. Please sign in with it.',
+        () => {
+          window.location.href = '/sign-in';
+        }
+      );
+    } catch (error) {
+      console.error('Error resetting the password:', error);
+      setErrorMessage('An unexpected error occurred. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputStyle = {
+    width: '300px',
+  };
+
+  if (username == null) {
+    return <Spinner sx={{ display: 'block', mx: 'auto', mt: '10vh' }} />;
   }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        justifyContent: 'center',
+      }}
+    >
+      <Box
+        as="form"
+        onSubmit={handleSubmit}
+        sx={{
+          backgroundColor: 'menu.bgActive',
+          borderRadius: '10px',
+          display: 'grid',
+          mt: '10vh',
+          gap: 4,
+          p: 4,
+        }}
+      >
+        <Heading
+          sx={{
+            fontSize: '28px',
+            textAlign: 'center',
+          }}
+        >
+          Reset Password
+        </Heading>
+        <Text sx={{ textAlign: 'center' }}>
+          Choose a new password for {username}.
+        </Text>
+
+        <Box sx={{ display: 'grid' }}>
+          <Text sx={{ color: 'fg.muted' }}>New Password:</Text>
+          <TextInput
+            aria-label="New Password"
+            type="password"
+            size="large"
+            autoComplete="new-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            leadingVisual={LockIcon}
+            sx={inputStyle}
+          />
+          <PasswordStrength password={password} username={username} />
+        </Box>
+
+        <Box sx={{ display: 'grid' }}>
+          <Text sx={{ color: 'fg.muted' }}>Confirm New Password:</Text>
+          <TextInput
+            aria-label="Confirm New Password"
+            type="password"
+            size="large"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(event) => setConfirmPassword(event.target.value)}
+            leadingVisual={LockIcon}
+            sx={inputStyle}
+          />
+        </Box>
+
+        {errorMessage && (
+          <Text sx={{ color: 'red', fontSize: '14px', textAlign: 'center' }}>
+            {errorMessage}
+          </Text>
+        )}
+        <Button
+          type="submit"
+          disabled={isSubmitting}
+          sx={{
+            backgroundColor: 'primer.canvas.sticky',
+            fontSize: '16px',
+            py: '20px',
+          }}
+        >
+          {isSubmitting ? 'Saving...' : 'Set Password'}
+        </Button>
+      </Box>
+    </Box>
+  );
 };
@@ -10,11 +10,17 @@ import {
 } from '@primer/octicons-react';
 
 import { capitalize, fetchWrapper } from '@helper/helper';
+import { PasswordStrength } from '../components/other/passwordStrength';
+import {
+  getPasswordProblems,
+  usePasswordPolicy,
+} from '../components/other/passwordPolicy';
 
 export const Register = () => {
   const [passwordIcon, setPasswordIcon] = React.useState<any>(EyeIcon);
   const [passVis, setPassVis] = React.useState<string>('password');
   const [errorMessage, setErrorMessage] = React.useState<string>('');
+  const policy = usePasswordPolicy();
   const [formData, setFormData] = React.useState({
     username: '',
     password: '',
@@ -46,8 +52,13 @@ export const Register = () => {
       return;
     }
 
-    if (formData.password.length < 8) {
-      setErrorMessage('Password must be at least 8 characters long.');
+    const [problem] = getPasswordProblems(
+      formData.password,
+      policy,
+      formData.username
+    );
+    if (problem) {
+      setErrorMessage(`Password needs: ${problem.toLowerCase()}.`);
       return;
     }
 
@@ -151,6 +162,10 @@ export const Register = () => {
             }
             sx={inputStyle}
           />
+          <PasswordStrength
+            password={formData.password}
+            username={formData.username}
+          />
         </Box>
 
         <Text sx={{ textAlign: 'center' }}>
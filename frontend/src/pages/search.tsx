@@ -0,0 +1,251 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+import {
+  Box,
+  Heading,
+  Text,
+  TextInput,
+  Select,
+  Button,
+  Pagination,
+} from '@primer/react';
+import { SearchIcon, PersonIcon } from '@primer/octicons-react';
+
+import { ArticleMedium } from '../components/contentDisplay/articles/articleMedium';
+import { ArticleSmall } from '../components/contentDisplay/articles/articleSmall';
+import { SkeletonCategoryPanel } from '../components/core/skeletons/skeletonCategoryPanel';
+import { useCategories } from '../components/other/useCategories';
+import { useScreenWidth } from '../components/other/useScreenWidth';
+import { fetchWrapper } from '@helper/helper';
+import * as styles from '../componentStyles';
+
+const resultsPerPage = 12;
+
+interface Article {
+  Title: string;
+  Description: string;
+  Author: string;
+  AuthorProfilePic: string;
+  PrimaryCategory: string;
+  SecondaryCategories: string[];
+  Rating: number;
+  UpdatedAt: number;
+  CreatedAt: number;
+  PublishedAt: number;
+  Difficulty: string;
+  Image: string;
+  ID: string;
+  Format?: string;
+  StepCount?: number;
+}
+
+export const Search = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [articles, setArticles] = React.useState<Article[] | null>(null);
+  const [total, setTotal] = React.useState(0);
+  const screenWidth = useScreenWidth();
+  const categories = useCategories();
+
+  const query = searchParams.get('q') || '';
+  const category = searchParams.get('category') || '';
+  const difficulty = searchParams.get('difficulty') || '';
+  const author = searchParams.get('author') || '';
+  const page = Number(searchParams.get('page')) || 1;
+
+  const [formData, setFormData] = React.useState({
+    q: query,
+    category,
+    difficulty,
+    author,
+  });
+
+  const backendUrl = import.meta.env.VITE_BACKEND_URL;
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    if (query.trim() == '') {
+      setArticles([]);
+      setTotal(0);
+      return;
+    }
+
+    const params = new URLSearchParams({
+      q: query,
+      page: String(page),
+      limit: String(resultsPerPage),
+    });
+    if (category) params.set('category', category);
+    if (difficulty) params.set('difficulty', difficulty);
+    if (author) params.set('author', author);
+
+    setArticles(null);
+    fetchWrapper(
+      `${backendUrl}/articles/search?${params.toString()}`,
+      { signal },
+      true,
+      60 * 5
+    ).then((data) => {
+      if (data.status != 200) {
+        setArticles([]);
+        setTotal(0);
+        return;
+      }
+      setArticles(data.response.return);
+      setTotal(data.response.total);
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [query, category, difficulty, author, page, backendUrl]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    // Drop the empty filters from the url
+    const params: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(formData)) {
+      if (value.trim() != '') {
+        params[key] = value.trim();
+      }
+    }
+    setSearchParams(params);
+  };
+
+  const buildPageHref = (newPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('page', String(newPage));
+    return `/search?${params.toString()}`;
+  };
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        justifyItems: 'center',
+        width: '100%',
+        mt: '70px',
+        gap: 2,
+        mb: '100px',
+      }}
+    >
+      <Heading sx={{ fontSize: screenWidth < 768 ? '28px' : '42px' }}>
+        Search
+      </Heading>
+      <Box
+        sx={{
+          width: '100%',
+          height: '1px',
+          backgroundColor: 'ansi.black',
+        }}
+      ></Box>
+
+      <Box
+        as="form"
+        onSubmit={handleSubmit}
+        sx={{
+          display: 'flex',
+          flexDirection: screenWidth < 768 ? 'column' : 'row',
+          alignItems: screenWidth < 768 ? 'stretch' : 'center',
+          flexWrap: 'wrap',
+          justifyContent: 'center',
+          width: '90%',
+          gap: 3,
+          mt: 4,
+        }}
+      >
+        <TextInput
+          aria-label="Search"
+          placeholder="Search articles"
+          leadingVisual={SearchIcon}
+          value={formData.q}
+          onChange={(event) =>
+            setFormData({ ...formData, q: event.target.value })
+          }
+          sx={{ minWidth: screenWidth < 768 ? '100%' : '320px' }}
+        />
+        <Select
+          aria-label="Category"
+          value={formData.category}
+          onChange={(event) =>
+            setFormData({ ...formData, category: event.target.value })
+          }
+        >
+          <Select.Option value="">All Categories</Select.Option>
+          {(categories ?? []).map((item) => (
+            <Select.Option key={item.Slug} value={item.Slug}>
+              {item.Name}
+            </Select.Option>
+          ))}
+        </Select>
+        <Select
+          aria-label="Difficulty"
+          value={formData.difficulty}
+          onChange={(event) =>
+            setFormData({ ...formData, difficulty: event.target.value })
+          }
+        >
+          <Select.Option value="">Any Difficulty</Select.Option>
+          <Select.Option value="EASY">Easy</Select.Option>
+          <Select.Option value="MEDIUM">Medium</Select.Option>
+          <Select.Option value="HARD">Hard</Select.Option>
+        </Select>
+        <TextInput
+          aria-label="Author"
+          placeholder="Author"
+          leadingVisual={PersonIcon}
+          value={formData.author}
+          onChange={(event) =>
+            setFormData({ ...formData, author: event.target.value })
+          }
+        />
+        <Button type="submit">Search</Button>
+      </Box>
+
+      {query != '' && articles && (
+        <Text sx={{ opacity: 0.7, fontSize: '14px', mt: 3 }}>
+          {total} result{total == 1 ? '' : 's'} for "{query}"
+        </Text>
+      )}
+
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'center',
+          width: '90%',
+          mt: 2,
+        }}
+      >
+        {articles ? (
+          articles.map((item) =>
+            screenWidth < 430 ? (
+              <ArticleSmall key={item.ID} article={item} />
+            ) : (
+              <ArticleMedium key={item.ID} article={item} />
+            )
+          )
+        ) : (
+          <SkeletonCategoryPanel bigArticles={false} />
+        )}
+      </Box>
+
+      {articles && articles.length == 0 && query != '' && (
+        <Text as="p" sx={{ ...styles.P1, textAlign: 'center', mx: 2 }}>
+          No articles match your search. Try different words or filters.
+        </Text>
+      )}
+
+      {total > resultsPerPage && (
+        <Pagination
+          currentPage={page}
+          pageCount={Math.ceil(total / resultsPerPage)}
+          hrefBuilder={buildPageHref}
+        />
+      )}
+    </Box>
+  );
+};
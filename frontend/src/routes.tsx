@@ -8,11 +8,15 @@ import { Register } from './pages/register';
 import { Article } from './pages/article';
 import { Create } from './pages/create';
 import { MyArticles } from './pages/myArticles';
+import { Liked } from './pages/liked';
 import { AdminView } from './pages/adminView';
+import { AdminUsers } from './pages/adminUsers';
+import { AdminSchedule } from './pages/adminSchedule';
 import { EmailVerification } from './pages/emailVerification';
 import { PasswordReset } from './pages/passwordReset';
 import { VerifyEmailChange } from './pages/verifyEmailChange';
 import { Faq } from './pages/faq';
+import { Search } from './pages/search';
 import { NotFound } from './pages/notFound';
 
 export const Routes = () => {
@@ -29,6 +33,10 @@ export const Routes = () => {
       path: '/categories',
       element: <Categories />,
     },
+    {
+      path: '/search',
+      element: <Search />,
+    },
     {
       path: '/account',
       element: <Account />,
@@ -61,10 +69,22 @@ export const Routes = () => {
       path: '/adminView/:page',
       element: <AdminView />,
     },
+    {
+      path: '/adminUsers',
+      element: <AdminUsers />,
+    },
+    {
+      path: '/adminSchedule',
+      element: <AdminSchedule />,
+    },
     {
       path: '/myArticles/:page',
       element: <MyArticles />,
     },
+    {
+      path: '/liked/:page',
+      element: <Liked />,
+    },
     {
       path: '/categories/:categoryName/:page',
       element: <Category />,